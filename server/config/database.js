@@ -34,6 +34,40 @@ class Database {
       // Create index on user_id for repositories collection
       await this.db.collection("repositories").createIndex({ user_id: 1 });
 
+      // Job lookups are per user, and the worker scans by status
+      await this.db.collection("analysis_jobs").createIndex({ user_id: 1, created_at: -1 });
+      await this.db.collection("analysis_jobs").createIndex({ status: 1, created_at: 1 });
+
+      // One cached analysis per file version, model and prompt. Earlier
+      // versions of the index allowed a single version per file and model
+      await this.db
+        .collection("file_analyses")
+        .dropIndex("user_id_1_repository_1_path_1_provider_1_model_1")
+        .catch(() => {});
+      await this.db
+        .collection("file_analyses")
+        .createIndex(
+          { user_id: 1, repository: 1, path: 1, provider: 1, model: 1, sha: 1, prompt_version: 1 },
+          { unique: true }
+        );
+
+      // Chat messages are read per repository in order and upserted by client id
+      await this.db
+        .collection("chat_messages")
+        .createIndex({ user_id: 1, repository: 1, message_id: 1 }, { unique: true });
+      await this.db.collection("chat_messages").createIndex({ user_id: 1, repository: 1, timestamp: 1 });
+      await this.db.collection("chat_messages").createIndex({ user_id: 1, repository: 1, session_id: 1 });
+
+      // Custom titles and pins of chat sessions
+      await this.db
+        .collection("chat_sessions")
+        .createIndex({ user_id: 1, repository: 1, session_id: 1 }, { unique: true });
+
+      // One source index per repository
+      await this.db
+        .collection("repository_indexes")
+        .createIndex({ user_id: 1, repository: 1 }, { unique: true });
+
       console.log("Database indexes created successfully");
     } catch (error) {
       console.error("Error creating indexes:", error);
@@ -45,8 +79,14 @@ class Database {
     this.fallbackStorage = {
       users: new Map(),
       repositories: new Map(),
+      analysisJobs: new Map(),
+      fileAnalyses: new Map(),
+      chatMessages: new Map(),
+      chatSessions: new Map(),
+      repositoryIndexes: new Map(),
       userIdCounter: 1,
       repoIdCounter: 1,
+      jobIdCounter: 1,
     };
 
     // Add some sample users with usernames for testing
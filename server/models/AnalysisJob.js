@@ -0,0 +1,282 @@
+const database = require('../config/database');
+const { ObjectId } = require('mongodb');
+
+// Lifecycle: queued -> running -> completed | failed | cancelled
+const ACTIVE_STATUSES = ['queued', 'running'];
+
+// 'analysis' crawls a repository; 'report' builds the AI report for a saved
+// repository (options.repositoryId, with optional AI provider and model)
+const JOB_TYPES = ['analysis', 'report'];
+
+class AnalysisJob {
+  static async create(userId, repoUrl, options, type = 'analysis') {
+    if (!JOB_TYPES.includes(type)) {
+      throw new Error(`Unknown analysis job type: ${type}`);
+    }
+
+    const now = new Date();
+    const job = {
+      type,
+      repo_url: repoUrl,
+      options: type === 'report'
+        ? {
+            repositoryId: options.repositoryId.toString(),
+            provider: options.provider || null,
+            model: options.model || null
+          }
+        : {
+            maxDepth: options.maxDepth,
+            ref: options.ref || null,
+            subPath: options.subPath || null
+          },
+      status: 'queued',
+      progress: null,
+      target: null,
+      result: null,
+      error: null,
+      attempts: 0,
+      cancel_requested: false,
+      created_at: now,
+      updated_at: now,
+      started_at: null,
+      finished_at: null
+    };
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const jobId = storage.jobIdCounter++;
+      const storedJob = { id: jobId, user_id: parseInt(userId), ...job };
+      storage.analysisJobs.set(jobId, storedJob);
+      return { ...storedJob };
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('analysis_jobs').insertOne({
+        user_id: new ObjectId(userId),
+        ...job
+      });
+
+      return {
+        id: result.insertedId.toString(),
+        user_id: userId,
+        ...job
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Pass userId to only find the job if it belongs to that user
+  static async findById(jobId, userId = null) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const job = storage.analysisJobs.get(parseInt(jobId));
+      if (!job || (userId !== null && job.user_id !== parseInt(userId))) {
+        return null;
+      }
+      return { ...job };
+    }
+
+    if (!ObjectId.isValid(jobId)) {
+      return null;
+    }
+
+    try {
+      const db = database.getDb();
+      const query = { _id: new ObjectId(jobId) };
+      if (userId !== null) {
+        query.user_id = new ObjectId(userId);
+      }
+      const job = await db.collection('analysis_jobs').findOne(query);
+      return job ? { ...job, id: job._id.toString() } : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async findByUserId(userId, { activeOnly = false } = {}) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const jobs = [];
+      for (const job of storage.analysisJobs.values()) {
+        if (job.user_id === parseInt(userId) && (!activeOnly || ACTIVE_STATUSES.includes(job.status))) {
+          jobs.push({ ...job });
+        }
+      }
+      return jobs.sort((a, b) => b.created_at - a.created_at);
+    }
+
+    try {
+      const db = database.getDb();
+      const query = { user_id: new ObjectId(userId) };
+      if (activeOnly) {
+        query.status = { $in: ACTIVE_STATUSES };
+      }
+      const jobs = await db.collection('analysis_jobs')
+        .find(query)
+        .sort({ created_at: -1 })
+        .limit(50)
+        .toArray();
+
+      return jobs.map(job => ({
+        ...job,
+        id: job._id.toString()
+      }));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async update(jobId, updates) {
+    const changes = { ...updates, updated_at: new Date() };
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const job = storage.analysisJobs.get(parseInt(jobId));
+      if (!job) {
+        return false;
+      }
+      Object.assign(job, changes);
+      return true;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('analysis_jobs').updateOne(
+        { _id: new ObjectId(jobId) },
+        { $set: changes }
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Move the oldest queued job to running and return it, or null if the queue is empty
+  static async claimNextQueued() {
+    const now = new Date();
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let next = null;
+      for (const job of storage.analysisJobs.values()) {
+        if (job.status === 'queued' && (!next || job.created_at < next.created_at)) {
+          next = job;
+        }
+      }
+      if (!next) {
+        return null;
+      }
+      Object.assign(next, { status: 'running', started_at: now, updated_at: now, attempts: next.attempts + 1 });
+      return { ...next };
+    }
+
+    try {
+      const db = database.getDb();
+      // findOneAndUpdate keeps two workers from claiming the same job
+      const job = await db.collection('analysis_jobs').findOneAndUpdate(
+        { status: 'queued' },
+        {
+          $set: { status: 'running', started_at: now, updated_at: now },
+          $inc: { attempts: 1 }
+        },
+        { sort: { created_at: 1 }, returnDocument: 'after' }
+      );
+      return job ? { ...job, id: job._id.toString() } : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Jobs left "running" by a previous server process go back on the queue,
+  // unless they have already been retried maxAttempts times
+  static async requeueInterrupted(maxAttempts) {
+    const now = new Date();
+    const exhausted = {
+      status: 'failed',
+      error: { status: 500, message: `Analysis was interrupted ${maxAttempts} times and has been abandoned` },
+      finished_at: now,
+      updated_at: now
+    };
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let requeued = 0;
+      for (const job of storage.analysisJobs.values()) {
+        if (job.status !== 'running') continue;
+        if (job.attempts >= maxAttempts) {
+          Object.assign(job, exhausted);
+        } else {
+          Object.assign(job, { status: 'queued', updated_at: now });
+          requeued++;
+        }
+      }
+      return requeued;
+    }
+
+    try {
+      const db = database.getDb();
+      await db.collection('analysis_jobs').updateMany(
+        { status: 'running', attempts: { $gte: maxAttempts } },
+        { $set: exhausted }
+      );
+      const result = await db.collection('analysis_jobs').updateMany(
+        { status: 'running' },
+        { $set: { status: 'queued', updated_at: now } }
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Queued jobs are cancelled straight away; running ones are flagged so the
+  // worker stops them. Returns the updated job, or null if it does not exist
+  static async requestCancel(userId, jobId) {
+    const job = await AnalysisJob.findById(jobId, userId);
+    if (!job) {
+      return null;
+    }
+
+    if (job.status === 'queued') {
+      const now = new Date();
+      await AnalysisJob.update(job.id, { status: 'cancelled', cancel_requested: true, finished_at: now });
+    } else if (job.status === 'running') {
+      await AnalysisJob.update(job.id, { cancel_requested: true });
+    }
+
+    return AnalysisJob.findById(job.id, userId);
+  }
+
+  static async deleteByUserId(userId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let deleted = 0;
+      for (const [jobId, job] of storage.analysisJobs.entries()) {
+        if (job.user_id === parseInt(userId)) {
+          storage.analysisJobs.delete(jobId);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('analysis_jobs').deleteMany({ user_id: new ObjectId(userId) });
+      return result.deletedCount;
+    } catch (error) {
+      throw error;
+    }
+  }
+}
+
+module.exports = AnalysisJob;
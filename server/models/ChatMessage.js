@@ -0,0 +1,388 @@
+const database = require('../config/database');
+const { ObjectId } = require('mongodb');
+
+// AI assistant chat messages, stored per user and repository. message_id is
+// the id the client gave the message, so uploading the same message twice
+// (e.g. a repeated localStorage migration) keeps a single copy. Messages
+// belong to the chat session the client started; older messages without one
+// are grouped into DEFAULT_SESSION_ID
+
+const MAX_CITATIONS = 10;
+const DEFAULT_SESSION_ID = 'default';
+// Length of the question kept per session to title it
+const FIRST_QUESTION_CHARS = 200;
+
+const fallbackKey = (userId, repository, messageId) =>
+  [parseInt(userId), repository, messageId].join('|');
+
+const toMessage = (entry) => ({
+  id: entry.message_id,
+  type: entry.type,
+  content: entry.content,
+  timestamp: entry.timestamp,
+  sessionId: entry.session_id || DEFAULT_SESSION_ID,
+  stopped: entry.stopped || undefined,
+  citations: entry.citations?.length ? entry.citations : undefined
+});
+
+// Citations linking an assistant answer to repository files
+const toCitations = (citations) =>
+  (citations || [])
+    .filter(citation => citation && typeof citation.path === 'string')
+    .slice(0, MAX_CITATIONS)
+    .map(({ path, startLine, endLine }) => (
+      Number.isInteger(startLine) && Number.isInteger(endLine)
+        ? { path, startLine, endLine }
+        : { path }
+    ));
+
+const byTimestamp = (a, b) => new Date(a.timestamp) - new Date(b.timestamp);
+
+// Mongo filter for a session's messages, including unassigned old ones for
+// the default session
+const sessionFilter = (sessionId) =>
+  sessionId === DEFAULT_SESSION_ID ? { $in: [DEFAULT_SESSION_ID, null] } : sessionId;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class ChatMessage {
+  // Messages of one repository, or of one of its sessions, oldest first
+  static async findByRepository(userId, repository, sessionId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const entries = [];
+      for (const entry of storage.chatMessages.values()) {
+        if (
+          entry.user_id === parseInt(userId) &&
+          entry.repository === repository &&
+          (!sessionId || toMessage(entry).sessionId === sessionId)
+        ) {
+          entries.push(entry);
+        }
+      }
+      return entries.sort(byTimestamp).map(toMessage);
+    }
+
+    try {
+      const db = database.getDb();
+      const query = { user_id: new ObjectId(userId), repository };
+      if (sessionId) {
+        query.session_id = sessionFilter(sessionId);
+      }
+      const entries = await db.collection('chat_messages')
+        .find(query)
+        .sort({ timestamp: 1 })
+        .toArray();
+      return entries.map(toMessage);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Insert or replace messages by their client id. Returns how many were saved
+  static async saveMany(userId, repository, repositoryUrl, messages) {
+    const entries = messages.map((message) => ({
+      repository,
+      repository_url: repositoryUrl,
+      message_id: message.id,
+      type: message.type,
+      content: message.content,
+      timestamp: new Date(message.timestamp),
+      session_id: message.sessionId || DEFAULT_SESSION_ID,
+      stopped: !!message.stopped,
+      citations: toCitations(message.citations)
+    }));
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      for (const entry of entries) {
+        storage.chatMessages.set(
+          fallbackKey(userId, repository, entry.message_id),
+          { user_id: parseInt(userId), ...entry }
+        );
+      }
+      return entries.length;
+    }
+
+    try {
+      const db = database.getDb();
+      if (entries.length === 0) {
+        return 0;
+      }
+      await db.collection('chat_messages').bulkWrite(
+        entries.map((entry) => ({
+          replaceOne: {
+            filter: { user_id: new ObjectId(userId), repository, message_id: entry.message_id },
+            replacement: { user_id: new ObjectId(userId), ...entry },
+            upsert: true
+          }
+        }))
+      );
+      return entries.length;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async deleteMessage(userId, repository, messageId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      return storage.chatMessages.delete(fallbackKey(userId, repository, messageId));
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('chat_messages').deleteOne({
+        user_id: new ObjectId(userId),
+        repository,
+        message_id: messageId
+      });
+      return result.deletedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Sessions of a repository with their message count, first and last
+  // message time and first question, in no particular order
+  static async listSessions(userId, repository) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const entries = [];
+      for (const entry of storage.chatMessages.values()) {
+        if (entry.user_id === parseInt(userId) && entry.repository === repository) {
+          entries.push(entry);
+        }
+      }
+      const sessions = new Map();
+      for (const entry of entries.sort(byTimestamp)) {
+        const sessionId = toMessage(entry).sessionId;
+        const session = sessions.get(sessionId) || {
+          sessionId,
+          messageCount: 0,
+          startedAt: entry.timestamp,
+          lastMessageAt: entry.timestamp,
+          firstQuestion: null
+        };
+        session.messageCount++;
+        session.lastMessageAt = entry.timestamp;
+        if (!session.firstQuestion && entry.type === 'user') {
+          session.firstQuestion = entry.content.substring(0, FIRST_QUESTION_CHARS);
+        }
+        sessions.set(sessionId, session);
+      }
+      return [...sessions.values()];
+    }
+
+    try {
+      const db = database.getDb();
+      const sessions = await db.collection('chat_messages')
+        .aggregate([
+          { $match: { user_id: new ObjectId(userId), repository } },
+          { $sort: { timestamp: 1 } },
+          {
+            $group: {
+              _id: { $ifNull: ['$session_id', DEFAULT_SESSION_ID] },
+              messageCount: { $sum: 1 },
+              startedAt: { $min: '$timestamp' },
+              lastMessageAt: { $max: '$timestamp' },
+              questions: {
+                $push: {
+                  $cond: [
+                    { $eq: ['$type', 'user'] },
+                    { $substrCP: ['$content', 0, FIRST_QUESTION_CHARS] },
+                    '$$REMOVE'
+                  ]
+                }
+              }
+            }
+          }
+        ])
+        .toArray();
+      return sessions.map(({ _id, questions, ...session }) => ({
+        sessionId: _id,
+        ...session,
+        firstQuestion: questions[0] || null
+      }));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async deleteSession(userId, repository, sessionId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let deleted = 0;
+      for (const [key, entry] of storage.chatMessages.entries()) {
+        if (
+          entry.user_id === parseInt(userId) &&
+          entry.repository === repository &&
+          toMessage(entry).sessionId === sessionId
+        ) {
+          storage.chatMessages.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('chat_messages').deleteMany({
+        user_id: new ObjectId(userId),
+        repository,
+        session_id: sessionFilter(sessionId)
+      });
+      return result.deletedCount;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Messages containing the text, ignoring case, newest first. Limited to
+  // one repository if given
+  static async search(userId, text, { repository, limit = 50 } = {}) {
+    const toResult = (entry) => ({
+      ...toMessage(entry),
+      repository: entry.repository,
+      repositoryUrl: entry.repository_url
+    });
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const needle = text.toLowerCase();
+      const entries = [];
+      for (const entry of storage.chatMessages.values()) {
+        if (
+          entry.user_id === parseInt(userId) &&
+          (!repository || entry.repository === repository) &&
+          entry.content.toLowerCase().includes(needle)
+        ) {
+          entries.push(entry);
+        }
+      }
+      return entries.sort(byTimestamp).reverse().slice(0, limit).map(toResult);
+    }
+
+    try {
+      const db = database.getDb();
+      const query = {
+        user_id: new ObjectId(userId),
+        content: { $regex: escapeRegExp(text), $options: 'i' }
+      };
+      if (repository) {
+        query.repository = repository;
+      }
+      const entries = await db.collection('chat_messages')
+        .find(query)
+        .sort({ timestamp: -1 })
+        .limit(limit)
+        .toArray();
+      return entries.map(toResult);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async deleteByRepository(userId, repository) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let deleted = 0;
+      for (const [key, entry] of storage.chatMessages.entries()) {
+        if (entry.user_id === parseInt(userId) && entry.repository === repository) {
+          storage.chatMessages.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('chat_messages').deleteMany({
+        user_id: new ObjectId(userId),
+        repository
+      });
+      return result.deletedCount;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Repositories the user has chatted about, most recently active first
+  static async listConversations(userId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const conversations = new Map();
+      for (const entry of storage.chatMessages.values()) {
+        if (entry.user_id !== parseInt(userId)) continue;
+        const conversation = conversations.get(entry.repository) || {
+          repository: entry.repository,
+          repositoryUrl: entry.repository_url,
+          messageCount: 0,
+          lastMessageAt: entry.timestamp
+        };
+        conversation.messageCount++;
+        if (entry.timestamp > conversation.lastMessageAt) {
+          conversation.lastMessageAt = entry.timestamp;
+        }
+        conversations.set(entry.repository, conversation);
+      }
+      return [...conversations.values()].sort((a, b) => b.lastMessageAt - a.lastMessageAt);
+    }
+
+    try {
+      const db = database.getDb();
+      const conversations = await db.collection('chat_messages')
+        .aggregate([
+          { $match: { user_id: new ObjectId(userId) } },
+          {
+            $group: {
+              _id: '$repository',
+              repositoryUrl: { $last: '$repository_url' },
+              messageCount: { $sum: 1 },
+              lastMessageAt: { $max: '$timestamp' }
+            }
+          },
+          { $sort: { lastMessageAt: -1 } }
+        ])
+        .toArray();
+      return conversations.map(({ _id, ...conversation }) => ({ repository: _id, ...conversation }));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async deleteByUserId(userId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let deleted = 0;
+      for (const [key, entry] of storage.chatMessages.entries()) {
+        if (entry.user_id === parseInt(userId)) {
+          storage.chatMessages.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('chat_messages').deleteMany({ user_id: new ObjectId(userId) });
+      return result.deletedCount;
+    } catch (error) {
+      throw error;
+    }
+  }
+}
+
+module.exports = ChatMessage;
@@ -0,0 +1,151 @@
+const database = require('../config/database');
+const { ObjectId } = require('mongodb');
+
+// What the user changed about an AI chat session: a custom title and
+// whether it is pinned. Sessions themselves are the groups of ChatMessage
+// entries sharing a session id; one without settings has no entry here
+
+const fallbackKey = (userId, repository, sessionId) =>
+  [parseInt(userId), repository, sessionId].join('|');
+
+const toSettings = (entry) => ({
+  sessionId: entry.session_id,
+  title: entry.title || null,
+  pinned: !!entry.pinned,
+  updatedAt: entry.updated_at
+});
+
+class ChatSession {
+  // Settings of a repository's sessions
+  static async findByRepository(userId, repository) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const entries = [];
+      for (const entry of storage.chatSessions.values()) {
+        if (entry.user_id === parseInt(userId) && entry.repository === repository) {
+          entries.push(toSettings(entry));
+        }
+      }
+      return entries;
+    }
+
+    try {
+      const db = database.getDb();
+      const entries = await db.collection('chat_sessions')
+        .find({ user_id: new ObjectId(userId), repository })
+        .toArray();
+      return entries.map(toSettings);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Change the title and/or pinned flag of a session; fields left undefined
+  // keep their value
+  static async update(userId, repository, sessionId, { title, pinned }) {
+    const changes = { updated_at: new Date() };
+    if (title !== undefined) changes.title = title || null;
+    if (pinned !== undefined) changes.pinned = !!pinned;
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const key = fallbackKey(userId, repository, sessionId);
+      const entry = {
+        user_id: parseInt(userId),
+        repository,
+        session_id: sessionId,
+        title: null,
+        pinned: false,
+        ...storage.chatSessions.get(key),
+        ...changes
+      };
+      storage.chatSessions.set(key, entry);
+      return toSettings(entry);
+    }
+
+    try {
+      const db = database.getDb();
+      const entry = await db.collection('chat_sessions').findOneAndUpdate(
+        { user_id: new ObjectId(userId), repository, session_id: sessionId },
+        { $set: changes },
+        { upsert: true, returnDocument: 'after' }
+      );
+      return toSettings(entry);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async deleteSession(userId, repository, sessionId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      return storage.chatSessions.delete(fallbackKey(userId, repository, sessionId));
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('chat_sessions').deleteOne({
+        user_id: new ObjectId(userId),
+        repository,
+        session_id: sessionId
+      });
+      return result.deletedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async deleteByRepository(userId, repository) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let deleted = 0;
+      for (const [key, entry] of storage.chatSessions.entries()) {
+        if (entry.user_id === parseInt(userId) && entry.repository === repository) {
+          storage.chatSessions.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('chat_sessions').deleteMany({
+        user_id: new ObjectId(userId),
+        repository
+      });
+      return result.deletedCount;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async deleteByUserId(userId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let deleted = 0;
+      for (const [key, entry] of storage.chatSessions.entries()) {
+        if (entry.user_id === parseInt(userId)) {
+          storage.chatSessions.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('chat_sessions').deleteMany({ user_id: new ObjectId(userId) });
+      return result.deletedCount;
+    } catch (error) {
+      throw error;
+    }
+  }
+}
+
+module.exports = ChatSession;
@@ -0,0 +1,156 @@
+const database = require('../config/database');
+const { ObjectId } = require('mongodb');
+
+// Cached per-file AI analyses. An entry belongs to one version (blob SHA) of
+// a file of a repository, one provider/model and one prompt version, so every
+// branch or snapshot with the same blob finds it. Saving prunes the file's
+// entries from older prompts and keeps only its most recently analyzed
+// versions
+
+// Versions of one file kept per provider/model
+const MAX_VERSIONS_PER_FILE = 10;
+
+const fallbackKey = (userId, { repository, path, provider, model, sha, promptVersion }) =>
+  [parseInt(userId), repository, path, provider, model, sha, promptVersion].join('|');
+
+class FileAnalysis {
+  static async find(userId, { repository, path, sha, provider, model, promptVersion }) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const entry = storage.fileAnalyses.get(fallbackKey(userId, { repository, path, provider, model, sha, promptVersion }));
+      return entry ? { ...entry } : null;
+    }
+
+    try {
+      const db = database.getDb();
+      const entry = await db.collection('file_analyses').findOne({
+        user_id: new ObjectId(userId),
+        repository,
+        path,
+        provider,
+        model,
+        sha,
+        prompt_version: promptVersion
+      });
+      return entry ? { ...entry, id: entry._id.toString() } : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async save(userId, { repository, path, sha, provider, model, promptVersion, analysis }) {
+    const entry = {
+      repository,
+      path,
+      sha,
+      provider,
+      model,
+      prompt_version: promptVersion,
+      analysis,
+      created_at: new Date()
+    };
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const storedEntry = { user_id: parseInt(userId), ...entry };
+      storage.fileAnalyses.set(fallbackKey(userId, { ...entry, promptVersion }), storedEntry);
+
+      const versions = [...storage.fileAnalyses.entries()]
+        .filter(([, stored]) => stored.user_id === parseInt(userId) && stored.repository === repository &&
+          stored.path === path && stored.provider === provider && stored.model === model)
+        .sort(([, a], [, b]) => b.created_at - a.created_at);
+      versions
+        .filter(([, stored], index) => stored.prompt_version < promptVersion || index >= MAX_VERSIONS_PER_FILE)
+        .forEach(([key]) => storage.fileAnalyses.delete(key));
+      return { ...storedEntry };
+    }
+
+    try {
+      const db = database.getDb();
+      const collection = db.collection('file_analyses');
+      const file = { user_id: new ObjectId(userId), repository, path, provider, model };
+      await collection.replaceOne(
+        { ...file, sha, prompt_version: promptVersion },
+        { user_id: new ObjectId(userId), ...entry },
+        { upsert: true }
+      );
+
+      await collection.deleteMany({ ...file, prompt_version: { $lt: promptVersion } });
+      const surplus = await collection
+        .find(file, { projection: { _id: 1 } })
+        .sort({ created_at: -1 })
+        .skip(MAX_VERSIONS_PER_FILE)
+        .toArray();
+      if (surplus.length > 0) {
+        await collection.deleteMany({ _id: { $in: surplus.map(stored => stored._id) } });
+      }
+      return { user_id: userId, ...entry };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Which files of a repository have an analysis, without the analyses
+  static async findByRepository(userId, repository) {
+    const summarize = (entry) => ({
+      path: entry.path,
+      sha: entry.sha,
+      provider: entry.provider,
+      model: entry.model,
+      prompt_version: entry.prompt_version,
+      created_at: entry.created_at
+    });
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const entries = [];
+      for (const entry of storage.fileAnalyses.values()) {
+        if (entry.user_id === parseInt(userId) && entry.repository === repository) {
+          entries.push(summarize(entry));
+        }
+      }
+      return entries;
+    }
+
+    try {
+      const db = database.getDb();
+      const entries = await db.collection('file_analyses')
+        .find(
+          { user_id: new ObjectId(userId), repository },
+          { projection: { analysis: 0 } }
+        )
+        .toArray();
+      return entries.map(summarize);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async deleteByUserId(userId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let deleted = 0;
+      for (const [key, entry] of storage.fileAnalyses.entries()) {
+        if (entry.user_id === parseInt(userId)) {
+          storage.fileAnalyses.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('file_analyses').deleteMany({ user_id: new ObjectId(userId) });
+      return result.deletedCount;
+    } catch (error) {
+      throw error;
+    }
+  }
+}
+
+module.exports = FileAnalysis;
@@ -1,6 +1,9 @@
 const database = require('../config/database');
 const { ObjectId } = require('mongodb');
 
+// Refreshes kept per repository
+const MAX_HISTORY_ENTRIES = 50;
+
 class Repository {
   static async create(userId, repoUrl, repoData, repoStats = null) {
     if (database.isUsingFallback()) {
@@ -70,6 +73,176 @@ class Repository {
     }
   }
 
+  static async findById(userId, repoId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const repo = storage.repositories.get(parseInt(repoId));
+      return repo && repo.user_id === parseInt(userId) ? repo : null;
+    }
+
+    if (!ObjectId.isValid(repoId)) {
+      return null;
+    }
+
+    try {
+      const db = database.getDb();
+      const repo = await db.collection('repositories').findOne({
+        _id: new ObjectId(repoId),
+        user_id: new ObjectId(userId)
+      });
+      return repo ? { ...repo, id: repo._id.toString() } : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Replace the stored tree and stats in place and append an entry to the
+  // repository's change history
+  static async applyRefresh(userId, repoId, repoData, repoStats, historyEntry) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const repo = storage.repositories.get(parseInt(repoId));
+      if (!repo || repo.user_id !== parseInt(userId)) {
+        return null;
+      }
+      repo.repo_data = repoData;
+      repo.repo_stats = repoStats;
+      repo.history = [...(repo.history || []), historyEntry].slice(-MAX_HISTORY_ENTRIES);
+      repo.updated_at = new Date();
+      return repo;
+    }
+
+    try {
+      const db = database.getDb();
+      const repo = await db.collection('repositories').findOneAndUpdate(
+        { _id: new ObjectId(repoId), user_id: new ObjectId(userId) },
+        {
+          $set: { repo_data: repoData, repo_stats: repoStats, updated_at: new Date() },
+          $push: { history: { $each: [historyEntry], $slice: -MAX_HISTORY_ENTRIES } }
+        },
+        { returnDocument: 'after' }
+      );
+      return repo ? { ...repo, id: repo._id.toString() } : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Attach a generated repository report, replacing any earlier one
+  static async saveReport(userId, repoId, report) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const repo = storage.repositories.get(parseInt(repoId));
+      if (!repo || repo.user_id !== parseInt(userId)) {
+        return false;
+      }
+      repo.report = report;
+      repo.updated_at = new Date();
+      return true;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('repositories').updateOne(
+        { _id: new ObjectId(repoId), user_id: new ObjectId(userId) },
+        { $set: { report, updated_at: new Date() } }
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Attach the language breakdown computed by the client, replacing any earlier one
+  static async saveLanguageStats(userId, repoId, languageStats) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const repo = storage.repositories.get(parseInt(repoId));
+      if (!repo || repo.user_id !== parseInt(userId)) {
+        return false;
+      }
+      repo.language_stats = languageStats;
+      return true;
+    }
+
+    if (!ObjectId.isValid(repoId)) {
+      return false;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('repositories').updateOne(
+        { _id: new ObjectId(repoId), user_id: new ObjectId(userId) },
+        { $set: { language_stats: languageStats } }
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Attach the dependency inventory scanned from the repository's manifests,
+  // replacing any earlier one
+  static async saveDependencies(userId, repoId, dependencies) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const repo = storage.repositories.get(parseInt(repoId));
+      if (!repo || repo.user_id !== parseInt(userId)) {
+        return false;
+      }
+      repo.dependencies = dependencies;
+      return true;
+    }
+
+    if (!ObjectId.isValid(repoId)) {
+      return false;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('repositories').updateOne(
+        { _id: new ObjectId(repoId), user_id: new ObjectId(userId) },
+        { $set: { dependencies } }
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async saveLicenseReport(userId, repoId, licenseReport) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const repo = storage.repositories.get(parseInt(repoId));
+      if (!repo || repo.user_id !== parseInt(userId)) {
+        return false;
+      }
+      repo.license_report = licenseReport;
+      return true;
+    }
+
+    if (!ObjectId.isValid(repoId)) {
+      return false;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('repositories').updateOne(
+        { _id: new ObjectId(repoId), user_id: new ObjectId(userId) },
+        { $set: { license_report: licenseReport } }
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
   static async deleteById(userId, repoId) {
     console.log(`🗑️ Attempting to delete repository: ${repoId} for user: ${userId}`);
     
@@ -0,0 +1,151 @@
+const database = require('../config/database');
+const { ObjectId } = require('mongodb');
+
+// Text index of a repository's source files for retrieval in the AI chat:
+// the files split into line-range chunks. There is one index per user and
+// repository, built from the saved repository it records; rebuilding
+// replaces it
+
+const fallbackKey = (userId, repository) => [parseInt(userId), repository].join('|');
+
+// Index fields without the chunks
+const summarize = (entry, chunkCount = entry.chunks.length) => ({
+  repository: entry.repository,
+  repository_id: entry.repository_id,
+  commit_sha: entry.commit_sha,
+  file_count: entry.file_count,
+  chunk_count: chunkCount,
+  built_at: entry.built_at
+});
+
+class RepositoryIndex {
+  static async find(userId, repository) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const entry = storage.repositoryIndexes.get(fallbackKey(userId, repository));
+      return entry ? { ...entry } : null;
+    }
+
+    try {
+      const db = database.getDb();
+      return await db.collection('repository_indexes').findOne({
+        user_id: new ObjectId(userId),
+        repository
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Like find, without loading the chunks
+  static async findSummary(userId, repository) {
+    if (database.isUsingFallback()) {
+      const entry = await RepositoryIndex.find(userId, repository);
+      return entry ? summarize(entry) : null;
+    }
+
+    try {
+      const db = database.getDb();
+      const [entry] = await db.collection('repository_indexes')
+        .aggregate([
+          { $match: { user_id: new ObjectId(userId), repository } },
+          {
+            $project: {
+              repository: 1,
+              repository_id: 1,
+              commit_sha: 1,
+              file_count: 1,
+              built_at: 1,
+              chunk_count: { $size: '$chunks' }
+            }
+          }
+        ])
+        .toArray();
+      return entry ? summarize(entry, entry.chunk_count) : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async save(userId, { repository, repositoryId, commitSha, fileCount, chunks }) {
+    const entry = {
+      repository,
+      repository_id: repositoryId.toString(),
+      commit_sha: commitSha || null,
+      file_count: fileCount,
+      chunks,
+      built_at: new Date()
+    };
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      storage.repositoryIndexes.set(fallbackKey(userId, repository), { user_id: parseInt(userId), ...entry });
+      return summarize(entry);
+    }
+
+    try {
+      const db = database.getDb();
+      await db.collection('repository_indexes').replaceOne(
+        { user_id: new ObjectId(userId), repository },
+        { user_id: new ObjectId(userId), ...entry },
+        { upsert: true }
+      );
+      return summarize(entry);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Remove the index built from a saved repository that is being deleted
+  static async deleteByRepositoryId(userId, repositoryId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      for (const [key, entry] of storage.repositoryIndexes.entries()) {
+        if (entry.user_id === parseInt(userId) && entry.repository_id === repositoryId.toString()) {
+          storage.repositoryIndexes.delete(key);
+          return true;
+        }
+      }
+      return false;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('repository_indexes').deleteOne({
+        user_id: new ObjectId(userId),
+        repository_id: repositoryId.toString()
+      });
+      return result.deletedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  static async deleteByUserId(userId) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      let deleted = 0;
+      for (const [key, entry] of storage.repositoryIndexes.entries()) {
+        if (entry.user_id === parseInt(userId)) {
+          storage.repositoryIndexes.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('repository_indexes').deleteMany({ user_id: new ObjectId(userId) });
+      return result.deletedCount;
+    } catch (error) {
+      throw error;
+    }
+  }
+}
+
+module.exports = RepositoryIndex;
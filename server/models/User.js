@@ -1,6 +1,7 @@
 const database = require('../config/database');
 const bcrypt = require('bcryptjs');
 const { ObjectId } = require('mongodb');
+const { encryptSecret, decryptSecret } = require('../utils/tokenCrypto');
 
 class User {
   static async create(email, password, username) {
@@ -180,6 +181,92 @@ class User {
     return bcrypt.compareSync(password, hashedPassword);
   }
 
+  // Store a GitHub personal access token, encrypted at rest
+  static async setGithubToken(id, token, githubLogin) {
+    const githubToken = {
+      encrypted: encryptSecret(token),
+      hint: token.slice(-4),
+      login: githubLogin,
+      updated_at: new Date()
+    };
+
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const user = storage.users.get(parseInt(id));
+      if (!user) {
+        return false;
+      }
+      user.github_token = githubToken;
+      return true;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('users').updateOne(
+        { _id: new ObjectId(id) },
+        { $set: { github_token: githubToken } }
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Decrypted GitHub token for API calls, or null if the user has none
+  static async getGithubToken(id) {
+    const user = await User.findById(id);
+    if (!user || !user.github_token) {
+      return null;
+    }
+
+    try {
+      return decryptSecret(user.github_token.encrypted);
+    } catch (error) {
+      console.error(`❌ Could not decrypt GitHub token for user ${id}:`, error.message);
+      return null;
+    }
+  }
+
+  // Token metadata that is safe to send to the client
+  static async getGithubTokenInfo(id) {
+    const user = await User.findById(id);
+    if (!user || !user.github_token) {
+      return { connected: false };
+    }
+
+    return {
+      connected: true,
+      login: user.github_token.login,
+      hint: user.github_token.hint,
+      updatedAt: user.github_token.updated_at
+    };
+  }
+
+  static async clearGithubToken(id) {
+    if (database.isUsingFallback()) {
+      // Fallback storage
+      const storage = database.getFallbackStorage();
+      const user = storage.users.get(parseInt(id));
+      if (!user || !user.github_token) {
+        return false;
+      }
+      delete user.github_token;
+      return true;
+    }
+
+    try {
+      const db = database.getDb();
+      const result = await db.collection('users').updateOne(
+        { _id: new ObjectId(id), github_token: { $exists: true } },
+        { $unset: { github_token: '' } }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
   static async deleteById(id) {
     console.log(`🗑️ Attempting to delete user: ${id}`);
     
@@ -1,324 +1,97 @@
 const express = require("express");
-const { GoogleGenerativeAI } = require("@google/generative-ai");
 const authMiddleware = require("../middleware/auth");
+const {
+  cleanJsonResponse,
+  checkAnalysisResponse,
+  analyzeCode,
+} = require("../utils/codeAnalysis");
+const { ANALYSIS_SCHEMA } = require("../utils/analysisSchema");
+const {
+  getCacheKey,
+  getCachedAnalysis,
+  cacheAnalysis,
+  listAnalyzedFiles,
+} = require("../utils/analysisCache");
+const {
+  scheduleRepositoryIndex,
+  getIndexStatus,
+  retrieveRelevantChunks,
+} = require("../utils/repositoryIndex");
+const { listFilePaths, extractCitations } = require("../utils/chatCitations");
+const Repository = require("../models/Repository");
+const { getRepositoryKey } = require("../utils/repositoryAnalysis");
+const {
+  LLMSelectionError,
+  getDefaultProvider,
+  isAIEnabled,
+  generateText,
+  streamText,
+  listProviders,
+} = require("../utils/llmProviders");
 
 const router = express.Router();
 
-// Initialize Gemini AI
-let genAI = null;
-if (process.env.GEMINI_API_KEY) {
-  genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-}
-
-// Helper function to validate and sanitize AI response
-const validateAnalysisResponse = (analysis, fileName = "") => {
-  const defaultResponse = {
-    summary: "Analysis not available",
-    keyFunctions: [],
-    cleanCode: null,
-    issues: [],
-    improvements: [],
-    libraries: [],
-  };
-
-  if (!analysis || typeof analysis !== "object") {
-    return defaultResponse;
-  }
-
-  // Enhanced summary validation with fallback based on file type
-  let summary =
-    typeof analysis.summary === "string"
-      ? analysis.summary.trim()
-      : defaultResponse.summary;
-
-  // If summary is too generic, provide a more meaningful fallback
-  if (summary === defaultResponse.summary || summary.length < 20) {
-    const fileExtension = fileName.split(".").pop()?.toLowerCase() || "";
-    const isReadme = fileName.toLowerCase().includes("readme");
-
-    if (isReadme) {
-      summary =
-        "This README file contains project documentation, setup instructions, and important information about the repository.";
-    } else if (fileExtension === "json") {
-      summary =
-        "This JSON file contains structured data, likely configuration or package information.";
-    } else if (fileExtension === "md") {
-      summary =
-        "This Markdown file contains formatted documentation or project information.";
-    } else if (fileExtension === "js" || fileExtension === "ts") {
-      summary =
-        "This JavaScript/TypeScript file contains executable code and logic.";
-    } else if (fileExtension === "py") {
-      summary = "This Python file contains executable code and logic.";
-    } else {
-      summary = `This ${fileExtension.toUpperCase()} file contains structured content and information.`;
-    }
-  }
-
-  return {
-    summary: summary,
-    keyFunctions: Array.isArray(analysis.keyFunctions)
-      ? analysis.keyFunctions
-          .filter(
-            (func) =>
-              func &&
-              typeof func === "object" &&
-              typeof func.name === "string" &&
-              typeof func.description === "string"
-          )
-          .map((func) => ({
-            name: func.name.trim(),
-            description: func.description.trim(),
-          }))
-      : defaultResponse.keyFunctions,
-    cleanCode:
-      typeof analysis.cleanCode === "boolean" ? analysis.cleanCode : null,
-    issues: Array.isArray(analysis.issues)
-      ? analysis.issues
-          .filter(
-            (issue) => typeof issue === "string" && issue.trim().length > 0
-          )
-          .map((issue) => issue.trim())
-      : defaultResponse.issues,
-    improvements: Array.isArray(analysis.improvements)
-      ? analysis.improvements
-          .filter(
-            (improvement) =>
-              typeof improvement === "string" && improvement.trim().length > 0
-          )
-          .map((improvement) => improvement.trim())
-      : defaultResponse.improvements,
-    libraries: Array.isArray(analysis.libraries)
-      ? analysis.libraries
-          .filter((lib) => typeof lib === "string" && lib.trim().length > 0)
-          .map((lib) => lib.trim())
-      : defaultResponse.libraries,
-  };
-};
+// Shape of a cached analysis in API responses
+const formatCachedAnalysis = (entry, fileName) => ({
+  analysis: entry.analysis,
+  partial: false,
+  validationErrors: [],
+  fileName,
+  timestamp: entry.created_at,
+  provider: entry.provider,
+  model: entry.model,
+  cached: true,
+});
 
-// Analyze code with Gemini AI
+// Analyze code with the selected AI provider (body.provider / body.model,
+// both optional). With repoUrl, path and the file's blob sha the result is
+// cached and served from the cache next time, unless body.refresh is set
 router.post("/analyze-code", authMiddleware, async (req, res) => {
   try {
-    const { fileContent, fileName } = req.body;
+    const { fileContent, fileName, provider, model, repoUrl, path, sha, refresh } = req.body;
 
     if (!fileContent) {
       return res.status(400).json({ message: "File content is required" });
     }
 
-    if (!process.env.GEMINI_API_KEY || !genAI) {
-      return res.status(500).json({ message: "Gemini API key not configured" });
-    }
-
-    // Get the generative model with generation config for better JSON output
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.5-flash",
-      generationConfig: {
-        temperature: 0.1, // Lower temperature for more consistent output
-        topP: 0.8,
-        topK: 40,
-        maxOutputTokens: 2048,
-      },
-    });
-
-    // Detect file type and create context-aware prompt
-    const fileExtension = fileName.split(".").pop()?.toLowerCase() || "";
-    const isReadme = fileName.toLowerCase().includes("readme");
-    const isConfig = [
-      "json",
-      "yaml",
-      "yml",
-      "toml",
-      "ini",
-      "cfg",
-      "conf",
-    ].includes(fileExtension);
-    const isDocumentation = ["md", "markdown", "rst", "txt"].includes(
-      fileExtension
-    );
-    const isScript = ["sh", "bash", "ps1", "bat", "cmd"].includes(
-      fileExtension
-    );
-    const isPackage = [
-      "package.json",
-      "requirements.txt",
-      "pom.xml",
-      "build.gradle",
-      "cargo.toml",
-    ].some((pkg) => fileName.toLowerCase().includes(pkg));
-
-    let contextPrompt = "";
-
-    if (isReadme) {
-      contextPrompt = `This is a README file that contains project documentation, setup instructions, and project information. Analyze it as documentation rather than code.`;
-    } else if (isConfig) {
-      contextPrompt = `This is a configuration file (${fileExtension.toUpperCase()}) that defines settings, dependencies, or build configurations.`;
-    } else if (isDocumentation) {
-      contextPrompt = `This is a documentation file (${fileExtension.toUpperCase()}) that contains project information, guides, or explanations.`;
-    } else if (isScript) {
-      contextPrompt = `This is a script file (${fileExtension.toUpperCase()}) that contains executable commands or automation logic.`;
-    } else if (isPackage) {
-      contextPrompt = `This is a package/dependency management file that defines project dependencies and metadata.`;
-    } else {
-      contextPrompt = `This is a ${fileExtension.toUpperCase()} code file.`;
+    if (!isAIEnabled()) {
+      return res.status(500).json({ message: "No AI provider is configured" });
     }
 
-    const prompt = `Analyze this file and return ONLY a valid JSON object. Do not include any other text.
-
-Context: ${contextPrompt}
-
-JSON format required:
-{
-  "summary": "Comprehensive description of what this file contains and its purpose",
-  "keyFunctions": [{"name": "functionName", "description": "description"}] or [{"name": "sectionName", "description": "description"}] for non-code files,
-  "cleanCode": true/false/null,
-  "issues": ["any problems found"],
-  "improvements": ["suggestions for improvement"],
-  "libraries": ["frameworks, dependencies, or tools mentioned"]
-}
-
-File: ${fileName}
-Content:
-${fileContent}
-
-JSON:`;
-
-    // Try to get a valid JSON response with retry logic
-    let rawAnalysis = "";
-    let attempts = 0;
-    const maxAttempts = 2;
-
-    while (attempts < maxAttempts) {
-      try {
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        rawAnalysis = response.text();
-
-        // Quick check if response looks like JSON
-        if (
-          rawAnalysis.trim().startsWith("{") &&
-          rawAnalysis.trim().endsWith("}")
-        ) {
-          break; // Looks like valid JSON, proceed
-        }
-
-        attempts++;
-        if (attempts < maxAttempts) {
-          console.log(`Attempt ${attempts} failed, retrying...`);
-          // Add a small delay before retry
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-        }
-      } catch (error) {
-        console.error(`Attempt ${attempts + 1} failed:`, error);
-        attempts++;
-        if (attempts >= maxAttempts) {
-          throw error;
-        }
+    const cacheKey = await getCacheKey({ repoUrl, path, sha, provider, model });
+    if (cacheKey && !refresh) {
+      const cached = await getCachedAnalysis(req.user.id, cacheKey);
+      if (cached) {
+        return res.json(formatCachedAnalysis(cached, fileName));
       }
     }
 
-    // Parse the JSON response from AI
-    let structuredAnalysis;
-    try {
-      // Clean the response in case there are any extra characters
-      let cleanedResponse = rawAnalysis.trim();
-
-      // Remove common markdown formatting that might interfere
-      cleanedResponse = cleanedResponse
-        .replace(/^```json\s*/i, "")
-        .replace(/\s*```$/i, "");
-      cleanedResponse = cleanedResponse
-        .replace(/^```\s*/i, "")
-        .replace(/\s*```$/i, "");
-
-      // Try to find JSON object in the response if it's wrapped in other text
-      const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanedResponse = jsonMatch[0];
-      }
-
-      // Additional cleaning for common issues
-      cleanedResponse = cleanedResponse.replace(/^[^{]*/, ""); // Remove text before first {
-      cleanedResponse = cleanedResponse.replace(/[^}]*$/, ""); // Remove text after last }
-
-      console.log("Cleaned AI response:", cleanedResponse);
-
-      const parsedResponse = JSON.parse(cleanedResponse);
-
-      // Validate and sanitize the response
-      structuredAnalysis = validateAnalysisResponse(parsedResponse, fileName);
-    } catch (parseError) {
-      console.error("Failed to parse AI response as JSON:", parseError);
-      console.error("Raw AI response:", rawAnalysis);
-
-      // Try to extract some information from the raw response as fallback
-      const fileExtension = fileName.split(".").pop()?.toLowerCase() || "";
-      const isReadme = fileName.toLowerCase().includes("readme");
-
-      let fallbackSummary =
-        "Analysis completed but response format was invalid";
-      let fallbackIssues = ["AI response could not be parsed"];
-      let fallbackImprovements = ["Please try analyzing the code again"];
-
-      // Provide meaningful fallback based on file type
-      if (isReadme) {
-        fallbackSummary =
-          "This README file contains project documentation, setup instructions, and important information about the repository. The AI analysis encountered a formatting issue but the file appears to be a standard README.";
-        fallbackIssues = [
-          "AI response formatting issue - content appears to be standard README documentation",
-        ];
-        fallbackImprovements = [
-          "Consider re-analyzing the file for detailed insights",
-        ];
-      } else if (fileExtension === "json") {
-        fallbackSummary =
-          "This JSON file contains structured data, likely configuration or package information. The AI analysis encountered a formatting issue.";
-        fallbackIssues = [
-          "AI response formatting issue - file appears to contain valid JSON data",
-        ];
-        fallbackImprovements = [
-          "Consider re-analyzing the file for detailed insights",
-        ];
-      } else if (fileExtension === "md") {
-        fallbackSummary =
-          "This Markdown file contains formatted documentation or project information. The AI analysis encountered a formatting issue.";
-        fallbackIssues = [
-          "AI response formatting issue - file appears to contain Markdown documentation",
-        ];
-        fallbackImprovements = [
-          "Consider re-analyzing the file for detailed insights",
-        ];
-      }
-
-      // Try to extract some meaningful content from the raw response
-      if (
-        rawAnalysis.toLowerCase().includes("error") ||
-        rawAnalysis.toLowerCase().includes("bug")
-      ) {
-        fallbackIssues.push(
-          "Potential issues detected but could not be parsed"
-        );
-      }
+    const result = await analyzeCode(fileContent, fileName, { provider, model });
 
-      // Fallback to structured response if JSON parsing fails
-      structuredAnalysis = {
-        summary: fallbackSummary,
-        keyFunctions: [],
-        cleanCode: null,
-        issues: fallbackIssues,
-        improvements: fallbackImprovements,
-        libraries: [],
-      };
+    // Partial results are not cached so the next request tries again
+    if (cacheKey && !result.partial) {
+      await cacheAnalysis(req.user.id, cacheKey, result.analysis);
     }
 
+    // partial means no reply fully matched the schema even after repair
+    // prompts; the analysis then only holds the fields that were valid
     res.json({
-      analysis: structuredAnalysis,
+      analysis: result.analysis,
+      partial: result.partial,
+      validationErrors: result.validationErrors,
+      attempts: result.attempts,
       fileName,
       timestamp: new Date().toISOString(),
-      model: "gemini-2.5-flash",
-      rawResponse: rawAnalysis, // Include raw response for debugging
+      provider: result.provider,
+      model: result.model,
+      cached: false,
+      rawResponse: result.rawResponse, // Include raw response for debugging
     });
   } catch (error) {
-    console.error("Gemini AI analysis error:", error);
+    if (error instanceof LLMSelectionError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("AI analysis error:", error);
     res.status(500).json({
       message: "Failed to analyze code with AI",
       error: error.message,
@@ -326,37 +99,74 @@ JSON:`;
   }
 });
 
-// Get AI model status
-router.get("/status", authMiddleware, (req, res) => {
-  res.json({
-    aiEnabled: !!genAI,
-    model: "gemini-2.5-flash",
-    provider: "Google Gemini",
-  });
+// Cached analysis of one file version for the selected provider and model,
+// or analysis: null if there is none
+router.get("/analyses", authMiddleware, async (req, res) => {
+  try {
+    const { repoUrl, path, sha, provider, model } = req.query;
+    const cacheKey = await getCacheKey({ repoUrl, path, sha, provider, model });
+    if (!cacheKey) {
+      return res.status(400).json({ message: "repoUrl, path and sha are required" });
+    }
+
+    const cached = await getCachedAnalysis(req.user.id, cacheKey);
+    res.json(cached ? formatCachedAnalysis(cached, path.split("/").pop()) : { analysis: null });
+  } catch (error) {
+    if (error instanceof LLMSelectionError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Cached analysis lookup error:", error);
+    res.status(500).json({ message: "Failed to look up cached analysis", error: error.message });
+  }
+});
+
+// Files of a repository with a cached analysis (any model), for tree badges
+router.get("/analyses/files", authMiddleware, async (req, res) => {
+  try {
+    const { repoUrl } = req.query;
+    if (!repoUrl) {
+      return res.status(400).json({ message: "repoUrl is required" });
+    }
+
+    const files = await listAnalyzedFiles(req.user.id, repoUrl);
+    res.json({
+      files: files.map((file) => ({
+        path: file.path,
+        sha: file.sha,
+        provider: file.provider,
+        model: file.model,
+        analyzedAt: file.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error("Analyzed files error:", error);
+    res.status(500).json({ message: "Failed to list analyzed files", error: error.message });
+  }
+});
+
+// Get AI status: the default provider and model plus every provider this
+// server knows about, with the models clients may request
+router.get("/status", authMiddleware, async (req, res) => {
+  try {
+    const defaultProvider = getDefaultProvider();
+    res.json({
+      aiEnabled: !!defaultProvider,
+      provider: defaultProvider ? defaultProvider.name : null,
+      model: defaultProvider ? defaultProvider.defaultModel() : null,
+      defaultProvider: defaultProvider ? defaultProvider.id : null,
+      providers: await listProviders(),
+    });
+  } catch (error) {
+    console.error("AI status error:", error);
+    res.status(500).json({ message: "Failed to get AI status", error: error.message });
+  }
 });
 
-// Get analysis format schema for frontend developers
+// Get the JSON Schema every code analysis response is validated against
 router.get("/format", authMiddleware, (req, res) => {
   res.json({
-    description: "Expected format for AI code analysis response",
-    format: {
-      summary: "string - Short description of what the code does",
-      keyFunctions: [
-        {
-          name: "string - Function or class name",
-          description: "string - What the function/class does",
-        },
-      ],
-      cleanCode:
-        "boolean - Whether the code is clean and maintainable (null if undetermined)",
-      issues: [
-        "string - Array of detected bugs, code smells, or bad practices",
-      ],
-      improvements: ["string - Array of suggestions to improve the code"],
-      libraries: [
-        "string - Array of libraries,Language or  frameworks used(if used)",
-      ],
-    },
+    description: "JSON Schema for the analysis object returned by POST /api/ai/analyze-code",
+    schema: ANALYSIS_SCHEMA,
     example: {
       summary: "A React component that manages user authentication state",
       keyFunctions: [
@@ -373,13 +183,36 @@ router.get("/format", authMiddleware, (req, res) => {
       ],
       cleanCode: true,
       issues: [
-        "Missing error handling in login function",
-        "Hardcoded API endpoint should be configurable",
+        {
+          message: "Missing error handling in login function",
+          severity: "high",
+          category: "bug",
+          startLine: 42,
+          endLine: 58,
+        },
+        {
+          message: "Hardcoded API endpoint should be configurable",
+          severity: "medium",
+          category: "maintainability",
+          startLine: 3,
+          endLine: 3,
+        },
       ],
       improvements: [
-        "Add try-catch blocks for async operations",
-        "Extract API configuration to environment variables",
-        "Add input validation for user credentials",
+        {
+          message: "Add try-catch blocks for async operations",
+          severity: "medium",
+          category: "bug",
+          startLine: null,
+          endLine: null,
+        },
+        {
+          message: "Extract API configuration to environment variables",
+          severity: "low",
+          category: "maintainability",
+          startLine: 3,
+          endLine: 3,
+        },
       ],
       libraries: ["react", "axios", "react-router-dom"],
     },
@@ -395,32 +228,16 @@ router.post("/test-parse", authMiddleware, async (req, res) => {
       return res.status(400).json({ message: "testResponse is required" });
     }
 
-    // Test the same parsing logic
-    let cleanedResponse = testResponse.trim();
-    cleanedResponse = cleanedResponse
-      .replace(/^```json\s*/i, "")
-      .replace(/\s*```$/i, "");
-    cleanedResponse = cleanedResponse
-      .replace(/^```\s*/i, "")
-      .replace(/\s*```$/i, "");
-
-    const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      cleanedResponse = jsonMatch[0];
-    }
-
-    cleanedResponse = cleanedResponse.replace(/^[^{]*/, "");
-    cleanedResponse = cleanedResponse.replace(/[^}]*$/, "");
-
-    const parsed = JSON.parse(cleanedResponse);
-    const validated = validateAnalysisResponse(parsed, req.body.fileName || "");
+    // Test the same parsing and validation logic
+    const { parsed, errors, analysis } = checkAnalysisResponse(testResponse);
 
     res.json({
-      success: true,
+      success: errors.length === 0,
       original: testResponse,
-      cleaned: cleanedResponse,
+      cleaned: cleanJsonResponse(testResponse),
       parsed: parsed,
-      validated: validated,
+      validationErrors: errors,
+      validated: analysis,
     });
   } catch (error) {
     res.status(400).json({
@@ -431,34 +248,34 @@ router.post("/test-parse", authMiddleware, async (req, res) => {
   }
 });
 
-// AI Chat endpoint for project assistant
-router.post("/chat", authMiddleware, async (req, res) => {
+// Index chunks relevant to a chat question. Retrieval is best effort: without
+// an index, or if the lookup fails, the chat works from the metadata alone
+const retrieveChatExcerpts = async (userId, context, message) => {
   try {
-    const { message, context, conversationHistory, hasPreviousSessions } =
-      req.body;
-
-    if (!message) {
-      return res.status(400).json({ message: "Message is required" });
-    }
+    return await retrieveRelevantChunks(userId, context?.repositoryUrl, message);
+  } catch (error) {
+    console.log("⚠️ Could not retrieve source excerpts:", error.message);
+    return [];
+  }
+};
 
-    if (!process.env.GEMINI_API_KEY || !genAI) {
-      return res.status(500).json({ message: "Gemini API key not configured" });
-    }
+// Where each excerpt came from, returned to clients as the answer's sources
+const toSources = (excerpts) =>
+  excerpts.map(({ path, startLine, endLine }) => ({ path, startLine, endLine }));
 
-    // Get the generative model
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.5-flash",
-      generationConfig: {
-        temperature: 0.7,
-        topP: 0.8,
-        topK: 40,
-        maxOutputTokens: 1024,
-      },
-    });
+// Files of the repository the answer mentions, resolved against the file
+// tree the client sent and the excerpts' files
+const toCitations = (answer, context, excerpts) => {
+  const filePaths = new Set(listFilePaths(context?.fileTree));
+  excerpts.forEach((excerpt) => filePaths.add(excerpt.path));
+  return extractCitations(answer, [...filePaths]);
+};
 
-    // Build context prompt
-    const username = context.username || "there";
-    let contextPrompt = `You are a friendly, helpful AI companion named "CodeBuddy" who is assisting ${username} in understanding a GitHub repository. You should be warm, polite, and enthusiastic about helping them explore the project. Always address them by name when appropriate and maintain a supportive, encouraging tone.
+// Prompt for the project assistant chat: repository context, source excerpts
+// retrieved for the question, recent conversation and the question
+const buildChatPrompt = ({ message, context = {}, excerpts = [], conversationHistory, hasPreviousSessions }) => {
+  const username = context.username || "there";
+  let contextPrompt = `You are a friendly, helpful AI companion named "CodeBuddy" who is assisting ${username} in understanding a GitHub repository. You should be warm, polite, and enthusiastic about helping them explore the project. Always address them by name when appropriate and maintain a supportive, encouraging tone.
 
 You have access to the following project information:
 
@@ -466,22 +283,22 @@ Repository URL: ${context.repositoryUrl || "Not available"}
 
 `;
 
-    if (context.readme) {
-      contextPrompt += `README.md content:
+  if (context.readme) {
+    contextPrompt += `README.md content:
 ${context.readme}
 
 `;
-    }
+  }
 
-    if (context.packageJson) {
-      contextPrompt += `Package.json content:
+  if (context.packageJson) {
+    contextPrompt += `Package.json content:
 ${JSON.stringify(context.packageJson, null, 2)}
 
 `;
-    }
+  }
 
-    if (context.repoInfo) {
-      contextPrompt += `Repository Information:
+  if (context.repoInfo) {
+    contextPrompt += `Repository Information:
 - Language: ${context.repoInfo.language || "Not specified"}
 - Description: ${context.repoInfo.description || "No description"}
 - Stars: ${context.repoInfo.stars || 0}
@@ -489,11 +306,11 @@ ${JSON.stringify(context.packageJson, null, 2)}
 - Homepage: ${context.repoInfo.homepage || "No homepage specified"}
 
 `;
-    }
+  }
 
-    // Add website homepage context if available
-    if (context.repoInfo && context.repoInfo.homepage) {
-      contextPrompt += `WEBSITE HOMEPAGE CONTEXT:
+  // Add website homepage context if available
+  if (context.repoInfo && context.repoInfo.homepage) {
+    contextPrompt += `WEBSITE HOMEPAGE CONTEXT:
 This repository has a live website at: ${context.repoInfo.homepage}
 
 When users ask about this project and there's no README file, you can:
@@ -504,28 +321,38 @@ When users ask about this project and there's no README file, you can:
 5. Guide them on how to explore the codebase to understand the website's functionality
 
 `;
-    }
+  }
 
-    if (context.fileTree) {
-      contextPrompt += `File Tree Structure (first 50 files):
+  if (context.fileTree) {
+    contextPrompt += `File Tree Structure (first 50 files):
 ${JSON.stringify(context.fileTree, null, 2).substring(0, 2000)}...
 
 `;
-    }
+  }
+
+  if (excerpts.length > 0) {
+    contextPrompt += `Source excerpts retrieved from the repository for this question (only the parts that matched, not the whole codebase). Base answers about the code on them and cite the files you use as described below:
+
+${excerpts
+  .map((excerpt) => `--- ${excerpt.path} (lines ${excerpt.startLine}-${excerpt.endLine}) ---\n${excerpt.text}`)
+  .join("\n\n")}
 
-    // Add conversation history for context
-    if (conversationHistory && conversationHistory.length > 0) {
-      contextPrompt += `Previous conversation:
 `;
-      conversationHistory.slice(-5).forEach((msg) => {
-        contextPrompt += `${msg.type === "user" ? "User" : "Assistant"}: ${
-          msg.content
-        }\n`;
-      });
-      contextPrompt += `\n`;
-    }
+  }
+
+  // Add conversation history for context
+  if (conversationHistory && conversationHistory.length > 0) {
+    contextPrompt += `Previous conversation:
+`;
+    conversationHistory.slice(-5).forEach((msg) => {
+      contextPrompt += `${msg.type === "user" ? "User" : "Assistant"}: ${
+        msg.content
+      }\n`;
+    });
+    contextPrompt += `\n`;
+  }
 
-    contextPrompt += `IMPORTANT INSTRUCTIONS:
+  contextPrompt += `IMPORTANT INSTRUCTIONS:
 1. Answer ONLY project-related conceptual questions about this repository
 2. Do NOT generate, modify, or write code
 3. Be warm, friendly, and enthusiastic - act like a helpful companion who genuinely cares about ${username}'s learning journey
@@ -545,25 +372,91 @@ ${JSON.stringify(context.fileTree, null, 2).substring(0, 2000)}...
 17. Help ${username} understand what the website does based on the repository structure and homepage
 18. Always end responses with encouragement or a helpful follow-up question to keep the conversation flowing
 19. Use phrases like "I'm excited to help you with this!" or "Let's explore this together!" to maintain a companion-like tone
+20. When you refer to a file, write its full path from the repository root in backticks (e.g. \`src/index.js\`), adding the lines if you mean specific ones (e.g. \`src/index.js:10-24\`)
 ${
   hasPreviousSessions
-    ? `20. IMPORTANT: ${username} has analyzed this repository before and had previous conversations. You have access to the full conversation history for context, but only show responses for the current session. If ${username} asks about previous conversations or what they asked before, acknowledge that you remember and can reference previous discussions, but keep the current session clean and focused.`
-    : ""
+  ? `21. IMPORTANT: ${username} has analyzed this repository before and had previous conversations. You have access to the full conversation history for context, but only show responses for the current session. If ${username} asks about previous conversations or what they asked before, acknowledge that you remember and can reference previous discussions, but keep the current session clean and focused.`
+  : ""
 }
 
 ${username}'s question: ${message}
 
 Response (use markdown formatting for better readability and maintain a warm, companion-like tone):`;
 
-    const result = await model.generateContent(contextPrompt);
-    const response = await result.response;
-    const aiResponse = response.text();
+  return contextPrompt;
+};
+
+// State of the source index the chat retrieves from
+router.get("/index", authMiddleware, async (req, res) => {
+  try {
+    const { repoUrl } = req.query;
+    if (!getRepositoryKey(repoUrl)) {
+      return res.status(400).json({ message: "A valid GitHub repoUrl is required" });
+    }
+    res.json(await getIndexStatus(req.user.id, repoUrl));
+  } catch (error) {
+    console.error("Get index status error:", error);
+    res.status(500).json({ message: "Failed to fetch index status", error: error.message });
+  }
+});
+
+// Rebuild the source index from the most recently saved copy of a repository
+router.post("/index", authMiddleware, async (req, res) => {
+  try {
+    const repositoryKey = getRepositoryKey(req.body.repoUrl);
+    if (!repositoryKey) {
+      return res.status(400).json({ message: "A valid GitHub repoUrl is required" });
+    }
+
+    const repositories = await Repository.findByUserId(req.user.id);
+    const repository = repositories.find((saved) => getRepositoryKey(saved.repo_url) === repositoryKey);
+    if (!repository) {
+      return res.status(404).json({ message: "Repository not found. Analyze it first." });
+    }
+
+    scheduleRepositoryIndex(req.user.id, repository);
+    res.status(202).json(await getIndexStatus(req.user.id, req.body.repoUrl));
+  } catch (error) {
+    console.error("Rebuild index error:", error);
+    res.status(500).json({ message: "Failed to rebuild index", error: error.message });
+  }
+});
+
+// AI Chat endpoint for project assistant
+router.post("/chat", authMiddleware, async (req, res) => {
+  try {
+    const { message, context, conversationHistory, hasPreviousSessions, provider, model } =
+      req.body;
+
+    if (!message) {
+      return res.status(400).json({ message: "Message is required" });
+    }
+
+    if (!isAIEnabled()) {
+      return res.status(500).json({ message: "No AI provider is configured" });
+    }
+
+    const excerpts = await retrieveChatExcerpts(req.user.id, context, message);
+    const result = await generateText({
+      provider,
+      model,
+      prompt: buildChatPrompt({ message, context, excerpts, conversationHistory, hasPreviousSessions }),
+      temperature: 0.7,
+      maxOutputTokens: 1024,
+    });
 
     res.json({
-      response: aiResponse,
+      response: result.text,
+      provider: result.provider,
+      model: result.model,
+      sources: toSources(excerpts),
+      citations: toCitations(result.text, context, excerpts),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    if (error instanceof LLMSelectionError) {
+      return res.status(400).json({ message: error.message });
+    }
     console.error("AI Chat error:", error);
     res.status(500).json({
       message: "Failed to process chat message",
@@ -572,4 +465,84 @@ Response (use markdown formatting for better readability and maintain a warm, co
   }
 });
 
+// Streaming variant of /chat as Server-Sent Events: "start" with the
+// provider and model, "token" for each piece of the answer, then "done" with
+// the full answer, its sources and citations or "error". Closing the
+// connection aborts the upstream request; the server then logs the partial
+// answer as stopped
+router.post("/chat/stream", authMiddleware, async (req, res) => {
+  const { message, context, conversationHistory, hasPreviousSessions, provider, model } =
+    req.body;
+
+  if (!message) {
+    return res.status(400).json({ message: "Message is required" });
+  }
+
+  if (!isAIEnabled()) {
+    return res.status(500).json({ message: "No AI provider is configured" });
+  }
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  const send = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const excerpts = await retrieveChatExcerpts(req.user.id, context, message);
+    const result = await streamText({
+      provider,
+      model,
+      prompt: buildChatPrompt({ message, context, excerpts, conversationHistory, hasPreviousSessions }),
+      temperature: 0.7,
+      maxOutputTokens: 1024,
+      signal: controller.signal,
+      onStart: (selected) => {
+        res.set({
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+          "X-Accel-Buffering": "no",
+        });
+        res.flushHeaders();
+        send("start", selected);
+      },
+      onText: (text) => send("token", { text }),
+    });
+
+    if (result.stopped) {
+      console.log(`⏹️ Chat generation stopped after ${result.text.length} characters`);
+      return;
+    }
+    send("done", {
+      response: result.text,
+      provider: result.provider,
+      model: result.model,
+      sources: toSources(excerpts),
+      citations: toCitations(result.text, context, excerpts),
+      timestamp: new Date().toISOString(),
+    });
+    res.end();
+  } catch (error) {
+    if (!res.headersSent) {
+      if (error instanceof LLMSelectionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("AI Chat stream error:", error);
+      return res.status(500).json({
+        message: "Failed to process chat message",
+        error: error.message,
+      });
+    }
+    console.error("AI Chat stream error:", error);
+    send("error", { message: "Failed to process chat message", error: error.message });
+    res.end();
+  }
+});
+
 module.exports = router;
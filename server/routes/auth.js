@@ -1,5 +1,6 @@
 const express = require('express');
 const jwt = require('jsonwebtoken');
+const axios = require('axios');
 const User = require('../models/User');
 const Statistics = require('../models/Statistics');
 const authMiddleware = require('../middleware/auth');
@@ -137,6 +138,71 @@ router.get('/me', authMiddleware, (req, res) => {
   res.json({ user: req.user });
 });
 
+// Get GitHub token status (never returns the token itself)
+router.get('/github-token', authMiddleware, async (req, res) => {
+  try {
+    const info = await User.getGithubTokenInfo(req.user.id);
+    res.json(info);
+  } catch (error) {
+    console.error('GitHub token status error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Save or rotate the user's GitHub personal access token
+router.put('/github-token', authMiddleware, async (req, res) => {
+  try {
+    const token = typeof req.body.token === 'string' ? req.body.token.trim() : '';
+
+    if (!token) {
+      return res.status(400).json({ message: 'GitHub token is required' });
+    }
+
+    // Check the token against GitHub before storing it
+    const response = await axios.get('https://api.github.com/user', {
+      headers: { Authorization: `token ${token}` },
+      timeout: 10000,
+      validateStatus: (status) => status < 500 // Don't throw for 4xx errors
+    });
+
+    if (response.status === 401) {
+      return res.status(400).json({ message: 'GitHub rejected this token. Please check that it is valid and not expired.' });
+    }
+
+    if (response.status >= 400) {
+      return res.status(400).json({ message: `Could not verify token with GitHub (${response.status})` });
+    }
+
+    const saved = await User.setGithubToken(req.user.id, token, response.data.login);
+    if (!saved) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    console.log(`✅ Stored GitHub token for user ${req.user.id} (GitHub login: ${response.data.login})`);
+    res.json({
+      message: 'GitHub token saved',
+      ...(await User.getGithubTokenInfo(req.user.id))
+    });
+  } catch (error) {
+    console.error('Save GitHub token error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Revoke (remove) the user's GitHub token
+router.delete('/github-token', authMiddleware, async (req, res) => {
+  try {
+    const removed = await User.clearGithubToken(req.user.id);
+    res.json({
+      message: removed ? 'GitHub token removed' : 'No GitHub token stored',
+      connected: false
+    });
+  } catch (error) {
+    console.error('Remove GitHub token error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Delete user account
 router.delete('/delete-account', authMiddleware, async (req, res) => {
   try {
@@ -170,6 +236,29 @@ router.delete('/delete-account', authMiddleware, async (req, res) => {
       }
     }
     
+    // Delete the user's analysis jobs
+    const AnalysisJob = require('../models/AnalysisJob');
+    const deletedJobs = await AnalysisJob.deleteByUserId(userId);
+    console.log(`🧹 Deleted ${deletedJobs} analysis jobs`);
+
+    // Delete the user's cached file analyses
+    const FileAnalysis = require('../models/FileAnalysis');
+    const deletedAnalyses = await FileAnalysis.deleteByUserId(userId);
+    console.log(`🧹 Deleted ${deletedAnalyses} cached file analyses`);
+
+    // Delete the user's AI chat history
+    const ChatMessage = require('../models/ChatMessage');
+    const deletedMessages = await ChatMessage.deleteByUserId(userId);
+    console.log(`🧹 Deleted ${deletedMessages} chat messages`);
+    const ChatSession = require('../models/ChatSession');
+    const deletedSessions = await ChatSession.deleteByUserId(userId);
+    console.log(`🧹 Deleted ${deletedSessions} chat session settings`);
+
+    // Delete the user's repository source indexes
+    const RepositoryIndex = require('../models/RepositoryIndex');
+    const deletedIndexes = await RepositoryIndex.deleteByUserId(userId);
+    console.log(`🧹 Deleted ${deletedIndexes} repository indexes`);
+
     // Delete user profile
     console.log(`👤 Deleting user profile: ${userId}`);
     const deleted = await User.deleteById(userId);
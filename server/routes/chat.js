@@ -0,0 +1,265 @@
+const express = require('express');
+const authMiddleware = require('../middleware/auth');
+const ChatMessage = require('../models/ChatMessage');
+const ChatSession = require('../models/ChatSession');
+const { getRepositoryKey } = require('../utils/repositoryAnalysis');
+
+const router = express.Router();
+
+// Upper bound for one upload, e.g. a large localStorage migration
+const MAX_MESSAGES_PER_REQUEST = 2000;
+const MAX_TITLE_LENGTH = 100;
+// Length of titles generated from a session's first question
+const AUTO_TITLE_LENGTH = 60;
+const MIN_SEARCH_LENGTH = 2;
+
+// Check uploaded messages; returns an error message or null
+const validateMessages = (messages) => {
+  if (!Array.isArray(messages)) {
+    return 'messages must be an array';
+  }
+  if (messages.length > MAX_MESSAGES_PER_REQUEST) {
+    return `At most ${MAX_MESSAGES_PER_REQUEST} messages can be saved at once`;
+  }
+  for (const message of messages) {
+    if (!message || typeof message.id !== 'string' || !message.id) {
+      return 'Every message needs an id';
+    }
+    if (message.type !== 'user' && message.type !== 'assistant') {
+      return `Message ${message.id} has an invalid type`;
+    }
+    if (typeof message.content !== 'string') {
+      return `Message ${message.id} has no content`;
+    }
+    if (isNaN(new Date(message.timestamp).getTime())) {
+      return `Message ${message.id} has an invalid timestamp`;
+    }
+    if (message.citations !== undefined && !Array.isArray(message.citations)) {
+      return `Message ${message.id} has invalid citations`;
+    }
+  }
+  return null;
+};
+
+// Resolve ?repoUrl (or body.repoUrl) to a repository key, or answer 400
+const requireRepository = (req, res) => {
+  const repoUrl = req.query.repoUrl || req.body?.repoUrl;
+  const repository = getRepositoryKey(repoUrl);
+  if (!repository) {
+    res.status(400).json({ message: 'A valid GitHub repoUrl is required' });
+    return null;
+  }
+  return { repository, repoUrl };
+};
+
+// Title for a session without a custom one: its first question, without
+// markdown and cut at a word boundary
+const toAutoTitle = (question) => {
+  const text = (question || '').replace(/[#*`>_~]/g, '').replace(/\s+/g, ' ').trim();
+  if (!text) return 'Untitled conversation';
+  if (text.length <= AUTO_TITLE_LENGTH) return text;
+  const cut = text.substring(0, AUTO_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > AUTO_TITLE_LENGTH / 2 ? cut.substring(0, lastSpace) : cut}…`;
+};
+
+// A repository's sessions with their titles, pinned ones first, then the
+// most recently active
+const listSessions = async (userId, repository) => {
+  const [sessions, settings] = await Promise.all([
+    ChatMessage.listSessions(userId, repository),
+    ChatSession.findByRepository(userId, repository)
+  ]);
+  const settingsById = new Map(settings.map(entry => [entry.sessionId, entry]));
+
+  return sessions
+    .map(({ sessionId, firstQuestion, ...session }) => {
+      const entry = settingsById.get(sessionId);
+      return {
+        id: sessionId,
+        title: entry?.title || toAutoTitle(firstQuestion),
+        customTitle: !!entry?.title,
+        pinned: !!entry?.pinned,
+        ...session
+      };
+    })
+    .sort((a, b) => (b.pinned - a.pinned) || (new Date(b.lastMessageAt) - new Date(a.lastMessageAt)));
+};
+
+// Repositories with chat history
+router.get('/conversations', authMiddleware, async (req, res) => {
+  try {
+    const conversations = await ChatMessage.listConversations(req.user.id);
+    res.json({ conversations });
+  } catch (error) {
+    console.error('List conversations error:', error);
+    res.status(500).json({ message: 'Failed to fetch conversations', error: error.message });
+  }
+});
+
+// Chat history of a repository, oldest message first
+router.get('/history', authMiddleware, async (req, res) => {
+  try {
+    const target = requireRepository(req, res);
+    if (!target) return;
+
+    const messages = await ChatMessage.findByRepository(req.user.id, target.repository, req.query.sessionId);
+    res.json({ messages });
+  } catch (error) {
+    console.error('Get chat history error:', error);
+    res.status(500).json({ message: 'Failed to fetch chat history', error: error.message });
+  }
+});
+
+// Add messages to a repository's history. Messages whose id is already
+// stored are replaced, so uploads can be retried safely
+router.post('/history', authMiddleware, async (req, res) => {
+  try {
+    const target = requireRepository(req, res);
+    if (!target) return;
+
+    const { messages } = req.body;
+    const validationError = validateMessages(messages);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const saved = await ChatMessage.saveMany(req.user.id, target.repository, target.repoUrl, messages);
+    res.status(201).json({ saved });
+  } catch (error) {
+    console.error('Save chat history error:', error);
+    res.status(500).json({ message: 'Failed to save chat history', error: error.message });
+  }
+});
+
+// Clear a repository's history
+router.delete('/history', authMiddleware, async (req, res) => {
+  try {
+    const target = requireRepository(req, res);
+    if (!target) return;
+
+    const deleted = await ChatMessage.deleteByRepository(req.user.id, target.repository);
+    await ChatSession.deleteByRepository(req.user.id, target.repository);
+    res.json({ deleted });
+  } catch (error) {
+    console.error('Clear chat history error:', error);
+    res.status(500).json({ message: 'Failed to clear chat history', error: error.message });
+  }
+});
+
+// Delete one message
+router.delete('/history/:messageId', authMiddleware, async (req, res) => {
+  try {
+    const target = requireRepository(req, res);
+    if (!target) return;
+
+    const deleted = await ChatMessage.deleteMessage(req.user.id, target.repository, req.params.messageId);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Message not found' });
+    }
+    res.json({ deleted: true });
+  } catch (error) {
+    console.error('Delete chat message error:', error);
+    res.status(500).json({ message: 'Failed to delete chat message', error: error.message });
+  }
+});
+
+// A repository's chat sessions
+router.get('/sessions', authMiddleware, async (req, res) => {
+  try {
+    const target = requireRepository(req, res);
+    if (!target) return;
+
+    res.json({ sessions: await listSessions(req.user.id, target.repository) });
+  } catch (error) {
+    console.error('List chat sessions error:', error);
+    res.status(500).json({ message: 'Failed to fetch chat sessions', error: error.message });
+  }
+});
+
+// Rename or pin a session. An empty title restores the generated one
+router.patch('/sessions/:sessionId', authMiddleware, async (req, res) => {
+  try {
+    const target = requireRepository(req, res);
+    if (!target) return;
+
+    const { title, pinned } = req.body;
+    if (title !== undefined && (typeof title !== 'string' || title.trim().length > MAX_TITLE_LENGTH)) {
+      return res.status(400).json({ message: `title must be a string of at most ${MAX_TITLE_LENGTH} characters` });
+    }
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return res.status(400).json({ message: 'pinned must be a boolean' });
+    }
+
+    const sessions = await listSessions(req.user.id, target.repository);
+    if (!sessions.some(session => session.id === req.params.sessionId)) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    await ChatSession.update(req.user.id, target.repository, req.params.sessionId, {
+      title: title === undefined ? undefined : title.trim(),
+      pinned
+    });
+    const updated = (await listSessions(req.user.id, target.repository))
+      .find(session => session.id === req.params.sessionId);
+    res.json({ session: updated });
+  } catch (error) {
+    console.error('Update chat session error:', error);
+    res.status(500).json({ message: 'Failed to update chat session', error: error.message });
+  }
+});
+
+// Delete a session with its messages
+router.delete('/sessions/:sessionId', authMiddleware, async (req, res) => {
+  try {
+    const target = requireRepository(req, res);
+    if (!target) return;
+
+    const deleted = await ChatMessage.deleteSession(req.user.id, target.repository, req.params.sessionId);
+    await ChatSession.deleteSession(req.user.id, target.repository, req.params.sessionId);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+    res.json({ deleted });
+  } catch (error) {
+    console.error('Delete chat session error:', error);
+    res.status(500).json({ message: 'Failed to delete chat session', error: error.message });
+  }
+});
+
+// Search message text across sessions, of one repository with ?repoUrl or
+// of all repositories
+router.get('/search', authMiddleware, async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (query.length < MIN_SEARCH_LENGTH) {
+      return res.status(400).json({ message: `Search for at least ${MIN_SEARCH_LENGTH} characters` });
+    }
+    let repository;
+    if (req.query.repoUrl) {
+      const target = requireRepository(req, res);
+      if (!target) return;
+      repository = target.repository;
+    }
+
+    const messages = await ChatMessage.search(req.user.id, query, { repository });
+
+    // Name the session each result belongs to
+    const titles = new Map();
+    for (const repositoryKey of new Set(messages.map(message => message.repository))) {
+      for (const session of await listSessions(req.user.id, repositoryKey)) {
+        titles.set(`${repositoryKey}|${session.id}`, session.title);
+      }
+    }
+    const results = messages.map(message => ({
+      ...message,
+      sessionTitle: titles.get(`${message.repository}|${message.sessionId}`)
+    }));
+    res.json({ results });
+  } catch (error) {
+    console.error('Search chat history error:', error);
+    res.status(500).json({ message: 'Failed to search chat history', error: error.message });
+  }
+});
+
+module.exports = router;
@@ -2,757 +2,102 @@ const express = require('express');
 const axios = require('axios');
 const authMiddleware = require('../middleware/auth');
 const Repository = require('../models/Repository');
-const Statistics = require('../models/Statistics');
+const User = require('../models/User');
+const AnalysisJob = require('../models/AnalysisJob');
+const {
+  parseGitHubUrl,
+  getGithubTokenForUser,
+  getAnalysisKey,
+  clampDepth,
+  registerAnalysis,
+  finishAnalysis,
+  cancelAnalysis,
+  isCancellationError,
+  runRepositoryAnalysis,
+  validateRepositoryExists,
+  describeAnalysisError,
+  streamAnalysisEvents
+} = require('../utils/repositoryAnalysis');
+const { refreshRepository } = require('../utils/repositoryRefresh');
+const { GITHUB_CONTENT_HOSTS, resolveRefPath } = require('../utils/githubTree');
+const { LLMSelectionError, resolveLLM } = require('../utils/llmProviders');
+const { wakeAnalysisJobWorker } = require('../utils/analysisJobWorker');
+const { scheduleRepositoryIndex } = require('../utils/repositoryIndex');
+const { scanRepositoryDependencies } = require('../utils/repositoryDependencies');
+const { loadAdvisoryDatabase } = require('../utils/advisoryDatabase');
+const { checkVulnerabilities } = require('../utils/vulnerabilityCheck');
+const { scanRepositoryLicenses } = require('../utils/repositoryLicense');
+const RepositoryIndex = require('../models/RepositoryIndex');
 
 const router = express.Router();
 
-// Retry utility with exponential backoff
-const retryWithBackoff = async (fn, maxRetries = 3, baseDelay = 1000) => {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      if (attempt === maxRetries) {
-        throw error;
-      }
-      
-      // Don't retry on certain errors
-      if (error.response?.status === 404 || error.response?.status === 403) {
-        throw error;
-      }
-      
-      const delay = baseDelay * Math.pow(2, attempt - 1);
-      console.log(`Attempt ${attempt} failed, retrying in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-};
-
-// Helper function to parse GitHub URL
-const parseGitHubUrl = (url) => {
-  try {
-    // Remove any trailing slashes and .git extension
-    const cleanUrl = url.trim().replace(/\/$/, '').replace(/\.git$/, '');
-    
-    // Match GitHub URL pattern
-    const regex = /github\.com\/([^\/\s]+)\/([^\/\s]+)/;
-    const match = cleanUrl.match(regex);
-    
-    if (!match) {
-      return null;
-    }
-    
-    const owner = match[1];
-    const repo = match[2];
-    
-    // Basic validation - owner and repo should not be empty and should contain valid characters
-    if (!owner || !repo || owner.length === 0 || repo.length === 0) {
-      return null;
-    }
-    
-    // Check for invalid characters (GitHub usernames and repo names have specific rules)
-    const validOwnerPattern = /^[a-zA-Z0-9]([a-zA-Z0-9\-\.]*[a-zA-Z0-9])?$/;
-    const validRepoPattern = /^[a-zA-Z0-9]([a-zA-Z0-9\-\._]*[a-zA-Z0-9])?$/;
-    
-    if (!validOwnerPattern.test(owner) || !validRepoPattern.test(repo)) {
-      return null;
-    }
-    
-    return { owner, repo };
-  } catch (error) {
-    return null;
-  }
-};
-
-// Helper function to build file tree recursively
-const buildFileTree = async (owner, repo, path = '', githubToken = null) => {
-  try {
-    const headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
-    const response = await axios.get(
-      `https://api.github.com/repos/${owner}/${repo}/contents/${path}`,
-      { headers }
-    );
-
-    const items = response.data;
-    const tree = {
-      name: path || repo,
-      type: 'folder',
-      children: []
-    };
-
-    for (const item of items) {
-      if (item.type === 'dir') {
-        // Recursively get folder contents
-        const subTree = await buildFileTree(owner, repo, item.path, githubToken);
-        tree.children.push({
-          name: item.name,
-          type: 'folder',
-          path: item.path,
-          children: subTree.children
-        });
-      } else {
-        // File
-        tree.children.push({
-          name: item.name,
-          type: 'file',
-          path: item.path,
-          download_url: item.download_url,
-          size: item.size
-        });
-      }
-    }
-
-    return tree;
-  } catch (error) {
-    throw new Error(`GitHub API error: ${error.message}`);
-  }
-};
-
-// Helper function to build file tree with cancellation support and enhanced nesting
-const buildFileTreeWithCancellation = async (owner, repo, path = '', githubToken = null, analysisId = null, depth = 0, maxDepth = 10) => {
-  try {
-    // Check if analysis was cancelled
-    if (analysisId && activeAnalyses.get(analysisId)?.cancelled) {
-      throw new Error('Analysis cancelled by user');
-    }
-
-    // Update progress for deep analysis
-    if (analysisId && depth >= 0) {
-      // Progress should be based on how close we are to the max depth
-      // Start at 10% and go up to 90% as we reach max depth
-      const currentProgress = Math.min(10 + (depth / maxDepth) * 80, 90);
-      const currentAnalysis = activeAnalyses.get(analysisId) || {};
-      
-      // Only update progress if it's higher than the current progress (prevent going backwards)
-      const newProgress = Math.max(currentAnalysis.progress || 0, Math.round(currentProgress));
-      
-      activeAnalyses.set(analysisId, { 
-        ...currentAnalysis,
-        progress: newProgress,
-        currentDepth: depth,
-        currentPath: path,
-        maxDepth: maxDepth,
-        startTime: currentAnalysis.startTime || Date.now()
-      });
-    }
-
-    // Check depth limit - stop when we reach the max depth (not exceed it)
-    if (depth >= maxDepth) {
-      return {
-        name: path || repo,
-        type: 'folder',
-        children: [],
-        truncated: true,
-        message: `Maximum depth (${maxDepth}) reached`,
-        actualDepth: depth,
-        maxDepth: maxDepth
-      };
-    }
-
-    const headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
-    
-    // Add timeout and retry logic for GitHub API calls
-    const response = await axios.get(
-      `https://api.github.com/repos/${owner}/${repo}/contents/${path}`,
-      { 
-        headers,
-        timeout: 10000, // 10 second timeout
-        validateStatus: (status) => status < 500 // Don't throw for 4xx errors
-      }
-    );
-
-    // Handle GitHub API errors gracefully
-    if (response.status === 404) {
-      return {
-        name: path || repo,
-        type: 'folder',
-        children: [],
-        error: 'Directory not found or access denied',
-        depth: depth
-      };
-    }
-
-    if (response.status === 403) {
-      return {
-        name: path || repo,
-        type: 'folder',
-        children: [],
-        error: 'Rate limit exceeded or access denied',
-        depth: depth
-      };
-    }
-
-    if (response.status >= 400) {
-      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
-    }
-
-    const items = response.data;
-    const tree = {
-      name: path || repo,
-      type: 'folder',
-      children: [],
-      depth: depth,
-      actualDepth: depth,
-      maxDepth: maxDepth
-    };
-
-    // Files/folders to skip for performance
-    const skipPatterns = [
-      'node_modules', '.git', 'dist', 'build', '.next', '.nuxt',
-      'coverage', '.nyc_output', '.cache', '.parcel-cache',
-      '*.log', '*.lock', '*.min.js', '*.min.css', '*.map'
-    ];
-
-    for (const item of items) {
-      // Check for cancellation before processing each item
-      if (analysisId && activeAnalyses.get(analysisId)?.cancelled) {
-        throw new Error('Analysis cancelled by user');
-      }
-
-      // Skip certain files/folders for performance
-      const shouldSkip = skipPatterns.some(pattern => {
-        if (pattern.includes('*')) {
-          const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-          return regex.test(item.name);
-        }
-        return item.name === pattern;
-      });
-
-      if (shouldSkip) {
-        continue;
-      }
-
-      if (item.type === 'dir') {
-        // Recursively get folder contents with increased depth
-        const subTree = await buildFileTreeWithCancellation(
-          owner, 
-          repo, 
-          item.path, 
-          githubToken, 
-          analysisId, 
-          depth + 1, 
-          maxDepth
-        );
-        tree.children.push({
-          name: item.name,
-          type: 'folder',
-          path: item.path,
-          children: subTree.children,
-          depth: depth + 1,
-          actualDepth: subTree.actualDepth || depth + 1,
-          maxDepth: maxDepth,
-          truncated: subTree.truncated,
-          message: subTree.message
-        });
-      } else {
-        // File - include all files regardless of size
-        tree.children.push({
-          name: item.name,
-          type: 'file',
-          path: item.path,
-          download_url: item.download_url,
-          size: item.size,
-          depth: depth,
-          actualDepth: depth,
-          maxDepth: maxDepth
-        });
-      }
-    }
-
-    return tree;
-  } catch (error) {
-    throw new Error(`GitHub API error: ${error.message}`);
-  }
-};
-
-// Store active analysis requests
-const activeAnalyses = new Map();
-
 // Fetch repository structure
+// Runs the whole crawl inside this request; POST /api/jobs queues the same
+// analysis in the background instead
 router.post('/analyze', authMiddleware, async (req, res) => {
+  let analysisKey = null;
+
   try {
-    const { repoUrl, maxDepth = 15 } = req.body;
+    const { repoUrl, maxDepth = 15, ref, subPath } = req.body;
 
     if (!repoUrl) {
       return res.status(400).json({ message: 'Repository URL is required' });
     }
 
-    // Validate maxDepth
-    const depth = Math.min(Math.max(parseInt(maxDepth) || 15, 1), 20); // Between 1 and 20
-
     // Parse GitHub URL
-    const parsed = parseGitHubUrl(repoUrl);
-    if (!parsed) {
+    if (!parseGitHubUrl(repoUrl)) {
       return res.status(400).json({ message: 'Invalid GitHub URL' });
     }
 
-    const { owner, repo } = parsed;
-    const githubToken = process.env.GITHUB_TOKEN;
-
-    // Validate that the repository exists before proceeding
-    const validateRepositoryExists = async (owner, repo, githubToken) => {
-      try {
-        const headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
-        
-        const response = await axios.get(
-          `https://api.github.com/repos/${owner}/${repo}`,
-          { 
-            headers, 
-            timeout: 10000,
-            validateStatus: (status) => status < 500 // Don't throw for 4xx errors
-          }
-        );
-
-        if (response.status === 404) {
-          throw new Error(`Repository '${owner}/${repo}' not found. Please check the repository name and owner.`);
-        }
-
-        if (response.status === 403) {
-          throw new Error(`Access denied to repository '${owner}/${repo}'. The repository may be private or you may not have permission to access it.`);
-        }
-
-        if (response.status >= 400) {
-          throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
-        }
-
-        // Repository exists and is accessible
-        const repoData = response.data;
-        
-        // Check if repository is empty
-        if (repoData.size === 0) {
-          throw new Error(`Repository '${owner}/${repo}' is empty and has no content to analyze.`);
-        }
-        
-        // Check if repository has a default branch
-        if (!repoData.default_branch) {
-          throw new Error(`Repository '${owner}/${repo}' has no default branch and cannot be analyzed.`);
-        }
-        
-        return {
-          exists: true,
-          isPrivate: repoData.private,
-          defaultBranch: repoData.default_branch,
-          description: repoData.description,
-          language: repoData.language ? repoData.language.trim() : null,
-          size: repoData.size,
-          stars: repoData.stargazers_count,
-          forks: repoData.forks_count
-        };
-      } catch (error) {
-        if (error.response?.status === 404) {
-          throw new Error(`Repository '${owner}/${repo}' not found. Please check the repository name and owner.`);
-        }
-        if (error.response?.status === 403) {
-          throw new Error(`Access denied to repository '${owner}/${repo}'. The repository may be private or you may not have permission to access it.`);
-        }
-        throw new Error(`Failed to validate repository: ${error.message}`);
-      }
-    };
-
-    // Validate repository exists before starting analysis
-    const repoInfo = await validateRepositoryExists(owner, repo, githubToken);
-    console.log(`Repository validation successful: ${owner}/${repo} (${repoInfo.isPrivate ? 'private' : 'public'})`);
-
-    // Create a unique ID for this analysis
-    const analysisId = `${req.user.id}-${Date.now()}`;
-    activeAnalyses.set(analysisId, { cancelled: false, progress: 0 });
-
-    // Build file tree with cancellation support and enhanced depth
-    const fileTree = await buildFileTreeWithCancellation(owner, repo, '', githubToken, analysisId, 0, depth);
-
-    // Set progress to 100% before completing
-    const currentAnalysis = activeAnalyses.get(analysisId) || {};
-    activeAnalyses.set(analysisId, { 
-      ...currentAnalysis,
-      progress: 100,
-      currentDepth: depth,
-      currentPath: 'Analysis complete',
-      maxDepth: depth,
-      startTime: currentAnalysis.startTime || Date.now()
-    });
-
-    // Check if analysis was cancelled
-    if (activeAnalyses.get(analysisId)?.cancelled) {
-      activeAnalyses.delete(analysisId);
-      return res.status(499).json({ message: 'Analysis cancelled by user' });
-    }
-
-    // Repository will be saved after statistics are calculated
-
-    // Calculate actual depth reached (should never exceed the max depth we set)
-    const calculateActualDepth = (node, currentDepth = 1) => {
-      let maxActualDepth = currentDepth;
-      if (node.children) {
-        for (const child of node.children) {
-          const childDepth = calculateActualDepth(child, currentDepth + 1);
-          maxActualDepth = Math.max(maxActualDepth, childDepth);
-        }
-      }
-      return maxActualDepth;
-    };
-
-    const actualDepthReached = Math.min(calculateActualDepth(fileTree), depth);
-    
-    // Calculate total file and folder counts using GitHub Tree API (much faster)
-    const calculateTotalCounts = async (owner, repo, githubToken) => {
-      try {
-        const headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
-        
-        // Files/folders to skip for performance (same as in buildFileTreeWithCancellation)
-        const skipPatterns = [
-          'node_modules', '.git', 'dist', 'build', '.next', '.nuxt',
-          'coverage', '.nyc_output', '.cache', '.parcel-cache',
-          '*.log', '*.lock', '*.min.js', '*.min.css', '*.map'
-        ];
-        
-        // Get the default branch first with retry
-        const repoResponse = await retryWithBackoff(async () => {
-          return await axios.get(
-            `https://api.github.com/repos/${owner}/${repo}`,
-            { headers, timeout: 10000 }
-          );
-        });
-        const defaultBranch = repoResponse.data.default_branch;
-        
-        // Get the tree recursively from the default branch with retry
-        const treeResponse = await retryWithBackoff(async () => {
-          return await axios.get(
-            `https://api.github.com/repos/${owner}/${repo}/git/trees/${defaultBranch}?recursive=1`,
-            { headers, timeout: 15000 }
-          );
-        });
-        
-        let totalFiles = 0;
-        let totalFolders = 0;
-        let skippedFiles = 0;
-        let skippedFolders = 0;
-        let rootFolders = 0;
-        
-        // Count files and folders from the tree
-        for (const item of treeResponse.data.tree) {
-          // Skip files/folders that match skip patterns
-          const shouldSkip = skipPatterns.some(pattern => {
-            if (pattern.includes('*')) {
-              const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-              return regex.test(item.path) || regex.test(item.path.split('/').pop());
-            }
-            return item.path === pattern || item.path.split('/').pop() === pattern;
-          });
-          
-          if (shouldSkip) {
-            if (item.type === 'blob') {
-              skippedFiles++;
-            } else if (item.type === 'tree') {
-              skippedFolders++;
-            }
-            continue;
-          }
-          
-          if (item.type === 'blob') {
-            // It's a file
-            totalFiles++;
-          } else if (item.type === 'tree') {
-            // It's a folder (but not the root)
-            if (item.path !== '') {
-              totalFolders++;
-            } else {
-              rootFolders++;
-            }
-          }
-        }
-        
-        console.log('Tree API counting details - Total files:', totalFiles, 'Total folders:', totalFolders);
-        console.log('Tree API counting details - Skipped files:', skippedFiles, 'Skipped folders:', skippedFolders);
-        console.log('Tree API counting details - Root folders:', rootFolders);
-        
-        console.log('Total count calculation completed using Tree API:', { files: totalFiles, folders: totalFolders });
-        return { files: totalFiles, folders: totalFolders };
-      } catch (error) {
-        console.error('Error calculating total counts with Tree API:', error.message);
-        console.log('Falling back to tree-based counting...');
-        // Fallback to counting from the truncated tree
-        const stats = { totalFiles: 0, totalFolders: 0 };
-        const countFromTree = (node, isRoot = false) => {
-          if (node.type === 'file') {
-            stats.totalFiles++;
-          } else if (node.type === 'folder') {
-            // Don't count the root folder itself (the repository root node)
-            if (!isRoot) {
-              stats.totalFolders++;
-            }
-            if (node.children) {
-              node.children.forEach(child => countFromTree(child, false));
-            }
-          }
-        };
-        countFromTree(fileTree, true);
-        console.log('Fallback counts:', stats);
-        return { files: stats.totalFiles, folders: stats.totalFolders };
-      }
-    };
-
-    const totalCounts = await calculateTotalCounts(owner, repo, githubToken);
-    console.log('Total counts calculated:', totalCounts);
-    
-    // Calculate the real repository depth using Tree API (much faster)
-    const calculateRealRepositoryDepth = async (owner, repo, githubToken) => {
-      try {
-        const headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
-        
-        // Files/folders to skip for performance (same as in buildFileTreeWithCancellation)
-        const skipPatterns = [
-          'node_modules', '.git', 'dist', 'build', '.next', '.nuxt',
-          'coverage', '.nyc_output', '.cache', '.parcel-cache',
-          '*.log', '*.lock', '*.min.js', '*.min.css', '*.map'
-        ];
-        
-        // Get the default branch first with retry
-        const repoResponse = await retryWithBackoff(async () => {
-          return await axios.get(
-            `https://api.github.com/repos/${owner}/${repo}`,
-            { headers, timeout: 10000 }
-          );
-        });
-        const defaultBranch = repoResponse.data.default_branch;
-        
-        // Get the tree recursively from the default branch with retry
-        const treeResponse = await retryWithBackoff(async () => {
-          return await axios.get(
-            `https://api.github.com/repos/${owner}/${repo}/git/trees/${defaultBranch}?recursive=1`,
-            { headers, timeout: 15000 }
-          );
-        });
-        
-        let maxDepth = 0;
-        
-        // Calculate depth from the tree paths
-        for (const item of treeResponse.data.tree) {
-          // Skip files/folders that match skip patterns
-          const shouldSkip = skipPatterns.some(pattern => {
-            if (pattern.includes('*')) {
-              const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-              return regex.test(item.path) || regex.test(item.path.split('/').pop());
-            }
-            return item.path === pattern || item.path.split('/').pop() === pattern;
-          });
-          
-          if (shouldSkip) {
-            continue;
-          }
-          
-          if (item.type === 'tree' && item.path !== '') {
-            // Count the depth by counting path separators (add 1 for root level)
-            const depth = item.path.split('/').length + 1;
-            maxDepth = Math.max(maxDepth, depth);
-          }
-        }
-        
-        console.log('Real repository depth calculated using Tree API:', maxDepth);
-        return maxDepth;
-      } catch (error) {
-        console.error('Error calculating real repository depth with Tree API:', error.message);
-        // Fallback to the depth from the truncated tree
-        return actualDepthReached;
-      }
-    };
-
-    const realRepositoryDepth = await calculateRealRepositoryDepth(owner, repo, githubToken);
-    
-    // Calculate analyzed counts (what's actually in the tree)
-    const analyzedCounts = { files: 0, folders: 0 };
-    const countAnalyzed = (node, isRoot = false) => {
-      if (node.type === 'file') {
-        analyzedCounts.files++;
-      } else if (node.type === 'folder') {
-        // Don't count the root folder itself
-        if (!isRoot) {
-          analyzedCounts.folders++;
-        }
-        if (node.children) {
-          node.children.forEach(child => countAnalyzed(child, false));
-        }
-      }
-    };
-    countAnalyzed(fileTree, true);
-    
-    // Ensure analyzed counts never exceed total counts
-    analyzedCounts.files = Math.min(analyzedCounts.files, totalCounts.files);
-    analyzedCounts.folders = Math.min(analyzedCounts.folders, totalCounts.folders);
-    
-    console.log('Analyzed counts calculated:', analyzedCounts);
-    console.log('Analyzed counts breakdown - Files:', analyzedCounts.files, 'Folders:', analyzedCounts.folders);
-    
-    // The actual depth should not exceed the max depth we set or the real repository depth
-    const finalActualDepth = Math.min(actualDepthReached, realRepositoryDepth);
-
-    // Calculate total size from analyzed file tree
-    const calculateTotalSize = (node) => {
-      let totalSize = 0;
-      if (node.type === 'file' && node.size && typeof node.size === 'number') {
-        totalSize += node.size;
-      }
-      if (node.children && Array.isArray(node.children)) {
-        for (const child of node.children) {
-          totalSize += calculateTotalSize(child);
-        }
-      }
-      return totalSize;
-    };
-
-    const calculatedTotalSize = calculateTotalSize(fileTree);
-
-    // Fetch additional repository data for AI context
-    let readmeContent = '';
-    let packageJsonData = null;
-    
-    try {
-      // Try to fetch README.md
-      const readmeUrl = `https://api.github.com/repos/${owner}/${repo}/readme`;
-      const readmeResponse = await axios.get(readmeUrl, {
-        headers: { 'Accept': 'application/vnd.github.v3+json' },
-        validateStatus: () => true
-      });
-      
-      if (readmeResponse.status === 200 && readmeResponse.data.content) {
-        readmeContent = Buffer.from(readmeResponse.data.content, 'base64').toString('utf-8');
-      }
-    } catch (error) {
-      console.log('Could not fetch README:', error.message);
+    // Register the analysis under the client's id so it can subscribe to
+    // /analyze/:analysisId/events before this request completes
+    const analysisId = typeof req.body.analysisId === 'string' && req.body.analysisId.trim()
+      ? req.body.analysisId.trim()
+      : Date.now().toString();
+    analysisKey = getAnalysisKey(req.user.id, analysisId);
+    if (!registerAnalysis(analysisKey, clampDepth(maxDepth))) {
+      analysisKey = null;
+      return res.status(409).json({ message: 'An analysis with this id is already running' });
     }
 
-    try {
-      // Try to fetch package.json
-      const packageUrl = `https://api.github.com/repos/${owner}/${repo}/contents/package.json`;
-      const packageResponse = await axios.get(packageUrl, {
-        headers: { 'Accept': 'application/vnd.github.v3+json' },
-        validateStatus: () => true
-      });
-      
-      if (packageResponse.status === 200 && packageResponse.data.content) {
-        const packageContent = Buffer.from(packageResponse.data.content, 'base64').toString('utf-8');
-        packageJsonData = JSON.parse(packageContent);
-      }
-    } catch (error) {
-      console.log('Could not fetch package.json:', error.message);
-    }
-
-    // Prepare repository statistics for storage
-    const repositoryStats = {
-      analyzedFiles: analyzedCounts.files,
-      analyzedFolders: analyzedCounts.folders,
-      totalFiles: totalCounts.files,
-      totalFolders: totalCounts.folders,
-      analyzedDepth: finalActualDepth,
-      totalDepth: realRepositoryDepth,
-      totalSize: calculatedTotalSize,
-      isPrivate: repoInfo.isPrivate,
-      language: repoInfo.language ? repoInfo.language.replace(/\s+\d+$/, '') : null,
-      description: repoInfo.description,
-      stars: repoInfo.stars,
-      forks: repoInfo.forks,
-      lastAnalyzed: new Date()
-    };
-
-    console.log('Repository stats being stored:', {
-      originalLanguage: repoInfo.language,
-      cleanedLanguage: repoInfo.language ? repoInfo.language.replace(/\s+\d+$/, '') : null,
-      languageType: typeof repoInfo.language,
-      languageLength: repoInfo.language ? repoInfo.language.length : 0,
-      totalSize: calculatedTotalSize,
-      stars: repoInfo.stars
+    const result = await runRepositoryAnalysis(analysisKey, {
+      userId: req.user.id,
+      repoUrl,
+      maxDepth,
+      ref,
+      subPath
     });
-
-    // Save to database with statistics
-    await Repository.create(req.user.id, repoUrl, fileTree, repositoryStats);
-
-    // Increment analysis count in statistics
-    await Statistics.incrementAnalyses();
-    console.log('✅ Repository analysis trigger: Incremented analysis count');
-
-    // Remove from active analyses after successful completion
-    activeAnalyses.delete(analysisId);
+    finishAnalysis(analysisKey, 'complete', { analysisId });
+    scheduleRepositoryIndex(req.user.id, result.repository);
 
     res.json({
       message: 'Repository analyzed successfully',
-      repoInfo: { owner, repo },
-      fileTree,
-      analysisConfig: { 
-        maxDepth: depth,
-        actualDepth: finalActualDepth,
-        analyzedFiles: analyzedCounts.files,
-        analyzedFolders: analyzedCounts.folders,
-        totalFiles: totalCounts.files,
-        totalFolders: totalCounts.folders,
-        realRepositoryDepth: realRepositoryDepth,
-        wasTruncated: realRepositoryDepth > depth,
-        repoUrl: repoUrl
-      },
-      // Additional data for AI assistant
-      aiContext: {
-        readme: readmeContent,
-        packageJson: packageJsonData,
-        repoInfo: {
-          language: repoInfo.language,
-          description: repoInfo.description,
-          stars: repoInfo.stars,
-          size: repoInfo.size
-        }
-      }
+      analysisId,
+      repoInfo: result.repoInfo,
+      fileTree: result.fileTree,
+      analysisConfig: result.analysisConfig,
+      aiContext: result.aiContext
     });
   } catch (error) {
-    // Clean up active analysis on error - find the analysisId for this user
-    for (const [id, analysis] of activeAnalyses.entries()) {
-      if (id.startsWith(req.user.id)) {
-        activeAnalyses.delete(id);
-        break;
-      }
+    // Clean up this request's analysis and tell subscribers how it ended
+    if (analysisKey) {
+      finishAnalysis(analysisKey, isCancellationError(error) ? 'cancelled' : 'failed', { message: error.message });
     }
-    
-    // Handle cancellation gracefully - don't log as error
-    if (error.message === 'Analysis cancelled by user') {
+
+    const { status, body } = describeAnalysisError(error);
+    if (status === 499) {
+      // Cancellation is a normal user action - don't log as error
       console.log('Analysis cancelled by user - this is normal user action');
-      return res.status(499).json({ 
-        message: 'Analysis cancelled by user',
-        cancelled: true
-      });
-    }
-    
-    // Handle repository validation errors with specific status codes
-    if (error.message.includes('not found') || error.message.includes('Repository')) {
-      console.error('Repository validation error:', error.message);
-      return res.status(404).json({ 
-        message: error.message,
-        error: 'Repository not found or inaccessible'
-      });
-    }
-    
-    // Handle GitHub API rate limiting
-    if (error.response?.status === 403 && error.response?.data?.message?.includes('rate limit')) {
-      console.error('GitHub API rate limit exceeded:', error.message);
-      return res.status(429).json({ 
-        message: 'GitHub API rate limit exceeded. Please try again later.',
-        error: 'Rate limit exceeded'
-      });
-    }
-    
-    // Handle network/timeout errors
-    if (error.code === 'ECONNABORTED' || error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-      console.error('Network error during repository analysis:', error.message);
-      return res.status(503).json({ 
-        message: 'Network error. Please check your internet connection and try again.',
-        error: 'Network error'
-      });
+    } else if (status === 500) {
+      console.error('GitHub analysis error:', error);
+    } else {
+      console.error('Repository analysis error:', error.message);
     }
-    
-    // Only log actual errors
-    console.error('GitHub analysis error:', error);
-    res.status(500).json({ 
-      message: 'Failed to analyze repository',
-      error: error.message
-    });
+    res.status(status).json(body);
   }
 });
 
+
 // Validate repository endpoint for download functionality
 router.post('/validate', authMiddleware, async (req, res) => {
   try {
@@ -775,75 +120,20 @@ router.post('/validate', authMiddleware, async (req, res) => {
     }
 
     const { owner, repo } = parsed;
-    const githubToken = process.env.GITHUB_TOKEN;
-
-    // Validate that the repository exists and get default branch
-    const validateRepositoryExists = async (owner, repo, githubToken) => {
-      try {
-        const headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
-        
-        const response = await axios.get(
-          `https://api.github.com/repos/${owner}/${repo}`,
-          { 
-            headers, 
-            timeout: 10000,
-            validateStatus: (status) => status < 500 // Don't throw for 4xx errors
-          }
-        );
-
-        if (response.status === 404) {
-          throw new Error(`Repository '${owner}/${repo}' not found. Please check the repository name and owner.`);
-        }
-
-        if (response.status === 403) {
-          throw new Error(`Access denied to repository '${owner}/${repo}'. The repository may be private or you may not have permission to access it.`);
-        }
-
-        if (response.status >= 400) {
-          throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
-        }
-
-        // Repository exists and is accessible
-        const repoData = response.data;
-        
-        // Check if repository is empty
-        if (repoData.size === 0) {
-          throw new Error(`Repository '${owner}/${repo}' is empty and has no content to download.`);
-        }
-        
-        // Check if repository has a default branch
-        if (!repoData.default_branch) {
-          throw new Error(`Repository '${owner}/${repo}' has no default branch and cannot be downloaded.`);
-        }
-        
-        return {
-          exists: true,
-          isPrivate: repoData.private,
-          defaultBranch: repoData.default_branch,
-          description: repoData.description,
-          language: repoData.language ? repoData.language.trim() : null,
-          size: repoData.size,
-          stars: repoData.stargazers_count,
-          forks: repoData.forks_count
-        };
-      } catch (error) {
-        if (error.response?.status === 404) {
-          throw new Error(`Repository '${owner}/${repo}' not found. Please check the repository name and owner.`);
-        }
-        if (error.response?.status === 403) {
-          throw new Error(`Access denied to repository '${owner}/${repo}'. The repository may be private or you may not have permission to access it.`);
-        }
-        throw new Error(`Failed to validate repository: ${error.message}`);
-      }
-    };
+    const githubToken = await getGithubTokenForUser(req.user.id);
 
     // Validate repository exists
     const repoInfo = await validateRepositoryExists(owner, repo, githubToken);
     console.log(`Repository validation successful: ${owner}/${repo} (${repoInfo.isPrivate ? 'private' : 'public'})`);
 
+    // A /tree/<ref>/ URL names a branch, tag or commit, whose name may contain slashes
+    const target = parsed.refPath ? await resolveRefPath(owner, repo, parsed.refPath, githubToken) : null;
+
     res.json({
       exists: true,
       defaultBranch: repoInfo.defaultBranch,
+      ref: target?.ref || null,
+      commitSha: target?.commitSha || null,
       isPrivate: repoInfo.isPrivate,
       description: repoInfo.description,
       language: repoInfo.language,
@@ -889,23 +179,20 @@ router.post('/validate', authMiddleware, async (req, res) => {
   }
 });
 
-// Cancel analysis
+// Cancel a single analysis by id
 router.post('/analyze/cancel', authMiddleware, async (req, res) => {
   try {
     const { analysisId } = req.body;
-    
-    // Find and cancel the analysis
-    let cancelled = false;
-    for (const [id, analysis] of activeAnalyses.entries()) {
-      if (id.startsWith(req.user.id)) {
-        analysis.cancelled = true;
-        cancelled = true;
-      }
+
+    if (!analysisId) {
+      return res.status(400).json({ message: 'analysisId is required' });
     }
+
+    const cancelled = cancelAnalysis(getAnalysisKey(req.user.id, analysisId));
     
     res.json({ 
       message: cancelled ? 'Analysis cancellation requested' : 'No active analysis found',
-      cancelled: cancelled
+      cancelled
     });
   } catch (error) {
     console.error('Cancel analysis error:', error);
@@ -913,26 +200,41 @@ router.post('/analyze/cancel', authMiddleware, async (req, res) => {
   }
 });
 
-// Get analysis progress
-router.get('/analyze/progress', authMiddleware, async (req, res) => {
+// Stream analysis progress as Server-Sent Events
+// Events: progress, subtree (direct children of a directory just listed),
+// and one terminal event of complete, cancelled or failed
+router.get('/analyze/:analysisId/events', authMiddleware, (req, res) => {
+  streamAnalysisEvents(req, res, getAnalysisKey(req.user.id, req.params.analysisId));
+});
+
+
+// Get remaining GitHub API quota for the token this user's requests will use
+router.get('/rate-limit', authMiddleware, async (req, res) => {
   try {
-    // Find active analysis for this user
-    for (const [id, analysis] of activeAnalyses.entries()) {
-      if (id.startsWith(req.user.id)) {
-        return res.json({
-          active: true,
-          progress: analysis.progress || 0,
-          currentDepth: analysis.currentDepth || 0,
-          currentPath: analysis.currentPath || '',
-          cancelled: analysis.cancelled || false
-        });
-      }
-    }
-    
-    res.json({ active: false });
+    const userToken = await User.getGithubToken(req.user.id);
+    const githubToken = userToken || process.env.GITHUB_TOKEN;
+    const headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
+
+    // Querying /rate_limit does not count against the quota
+    const response = await axios.get('https://api.github.com/rate_limit', {
+      headers,
+      timeout: 10000
+    });
+    const core = response.data.resources.core;
+
+    res.json({
+      source: userToken ? 'user' : githubToken ? 'server' : 'anonymous',
+      limit: core.limit,
+      remaining: core.remaining,
+      used: core.used,
+      reset: new Date(core.reset * 1000).toISOString()
+    });
   } catch (error) {
-    console.error('Get progress error:', error);
-    res.status(500).json({ message: 'Failed to get analysis progress' });
+    console.error('Rate limit error:', error.message);
+    res.status(500).json({
+      message: 'Failed to fetch GitHub rate limit',
+      error: error.message
+    });
   }
 });
 
@@ -945,7 +247,21 @@ router.get('/file-content', authMiddleware, async (req, res) => {
       return res.status(400).json({ message: 'File URL is required' });
     }
 
-    const response = await axios.get(url);
+    // Only send the token to GitHub itself, never to arbitrary URLs
+    let hostname;
+    try {
+      hostname = new URL(url).hostname;
+    } catch (urlError) {
+      return res.status(400).json({ message: 'Invalid file URL' });
+    }
+
+    let headers = {};
+    if (GITHUB_CONTENT_HOSTS.includes(hostname)) {
+      const githubToken = await getGithubTokenForUser(req.user.id);
+      headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
+    }
+
+    const response = await axios.get(url, { headers });
     res.json({ content: response.data });
   } catch (error) {
     console.error('File content error:', error);
@@ -967,6 +283,211 @@ router.get('/repositories', authMiddleware, async (req, res) => {
   }
 });
 
+// Refresh a saved repository to the current head of its ref, updating it in place
+router.post('/repositories/:id/refresh', authMiddleware, async (req, res) => {
+  try {
+    const repository = await Repository.findById(req.user.id, req.params.id);
+    if (!repository) {
+      return res.status(404).json({ message: 'Repository not found' });
+    }
+
+    const refreshed = await refreshRepository(req.user.id, repository);
+    if (refreshed.upToDate) {
+      return res.json({ message: 'Repository is already up to date', upToDate: true, repository });
+    }
+
+    const updated = await Repository.applyRefresh(
+      req.user.id,
+      repository.id,
+      refreshed.repoData,
+      refreshed.repoStats,
+      refreshed.change
+    );
+    console.log(`🔄 Refreshed ${repository.repo_url} (${refreshed.change.mode}): +${refreshed.change.filesAdded} -${refreshed.change.filesRemoved} ~${refreshed.change.filesModified}`);
+    if (updated) {
+      scheduleRepositoryIndex(req.user.id, updated);
+    }
+
+    res.json({
+      message: 'Repository refreshed successfully',
+      upToDate: false,
+      change: refreshed.change,
+      repository: updated
+    });
+  } catch (error) {
+    const { status, body } = describeAnalysisError(error);
+    console.error('Refresh repository error:', error.message);
+    res.status(status).json(status === 500 ? { message: 'Failed to refresh repository', error: error.message } : body);
+  }
+});
+
+// Queue an AI report for a saved repository. The report is stored on the
+// repository when the job completes; progress streams from /api/jobs/:id/events
+router.post('/repositories/:id/report', authMiddleware, async (req, res) => {
+  try {
+    const repository = await Repository.findById(req.user.id, req.params.id);
+    if (!repository) {
+      return res.status(404).json({ message: 'Repository not found' });
+    }
+
+    // Validate the provider choice now rather than when the job runs
+    const { provider, model } = req.body;
+    await resolveLLM({ provider, model });
+
+    // One report at a time per repository
+    const activeJobs = await AnalysisJob.findByUserId(req.user.id, { activeOnly: true });
+    const existing = activeJobs.find(job =>
+      job.type === 'report' && job.options.repositoryId === repository.id.toString());
+    if (existing) {
+      return res.status(202).json({ message: 'Report already in progress', job: existing });
+    }
+
+    const job = await AnalysisJob.create(req.user.id, repository.repo_url, { repositoryId: repository.id, provider, model }, 'report');
+    console.log(`📥 Queued report job ${job.id} for ${repository.repo_url}`);
+    wakeAnalysisJobWorker();
+
+    res.status(202).json({ message: 'Report queued', job });
+  } catch (error) {
+    if (error instanceof LLMSelectionError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Create report job error:', error);
+    res.status(500).json({ message: 'Failed to queue repository report' });
+  }
+});
+
+// Files with a line count kept per repository
+const MAX_LINE_COUNTS = 20000;
+
+const isCount = (value) => Number.isInteger(value) && value >= 0;
+
+// Null if the body is a language breakdown as built by the client, else the problem
+const validateLanguageStats = (stats) => {
+  if (!stats || typeof stats !== 'object' || Array.isArray(stats)) {
+    return 'languageStats must be an object';
+  }
+  if (!Array.isArray(stats.languages) || !Array.isArray(stats.folders)) {
+    return 'languageStats must contain languages and folders arrays';
+  }
+  if (!isCount(stats.totalFiles) || !isCount(stats.totalBytes)) {
+    return 'languageStats must contain totalFiles and totalBytes';
+  }
+  const invalidLanguage = stats.languages.find(entry =>
+    typeof entry?.language !== 'string' || !isCount(entry.files) || !isCount(entry.bytes));
+  if (invalidLanguage !== undefined) {
+    return 'Each language needs a name, a file count and a size';
+  }
+  if (!stats.lineCounts || typeof stats.lineCounts !== 'object' || Array.isArray(stats.lineCounts)) {
+    return 'languageStats.lineCounts must be an object';
+  }
+  const lineCounts = Object.values(stats.lineCounts);
+  if (lineCounts.length > MAX_LINE_COUNTS) {
+    return `At most ${MAX_LINE_COUNTS} files can have a line count`;
+  }
+  if (lineCounts.some(count => !isCount(count?.code) || !isCount(count.comment) || !isCount(count.blank))) {
+    return 'Each line count needs code, comment and blank counts';
+  }
+  return null;
+};
+
+// Store the language breakdown of a saved repository
+router.put('/repositories/:id/languages', authMiddleware, async (req, res) => {
+  try {
+    const { languageStats } = req.body;
+    const problem = validateLanguageStats(languageStats);
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const saved = await Repository.saveLanguageStats(req.user.id, req.params.id, {
+      commitSha: typeof languageStats.commitSha === 'string' ? languageStats.commitSha : null,
+      computedAt: new Date(),
+      totalFiles: languageStats.totalFiles,
+      totalBytes: languageStats.totalBytes,
+      languages: languageStats.languages,
+      folders: languageStats.folders,
+      lineCounts: languageStats.lineCounts
+    });
+    if (!saved) {
+      return res.status(404).json({ message: 'Repository not found' });
+    }
+    res.json({ message: 'Language statistics saved' });
+  } catch (error) {
+    console.error('Save language statistics error:', error);
+    res.status(500).json({ message: 'Failed to save language statistics', error: error.message });
+  }
+});
+
+// Scan the manifests and lockfiles of a saved repository and store the
+// resulting dependency inventory with it
+router.post('/repositories/:id/dependencies', authMiddleware, async (req, res) => {
+  try {
+    const repository = await Repository.findById(req.user.id, req.params.id);
+    if (!repository) {
+      return res.status(404).json({ message: 'Repository not found' });
+    }
+
+    const dependencies = await scanRepositoryDependencies(req.user.id, repository);
+    await Repository.saveDependencies(req.user.id, repository.id, dependencies);
+    console.log(`📦 Found ${dependencies.dependencies.length} dependencies in ${dependencies.manifests.length} manifests of ${repository.repo_url}`);
+
+    res.json({ message: 'Dependencies scanned', dependencies });
+  } catch (error) {
+    console.error('Scan dependencies error:', error);
+    res.status(500).json({ message: 'Failed to scan dependencies', error: error.message });
+  }
+});
+
+// Match the stored dependency inventory of a saved repository against the
+// imported advisory database
+router.get('/repositories/:id/vulnerabilities', authMiddleware, async (req, res) => {
+  try {
+    const repository = await Repository.findById(req.user.id, req.params.id);
+    if (!repository) {
+      return res.status(404).json({ message: 'Repository not found' });
+    }
+    if (!repository.dependencies) {
+      return res.status(409).json({ message: "Scan the repository's dependencies before checking them for vulnerabilities" });
+    }
+
+    const database = await loadAdvisoryDatabase();
+    if (!database) {
+      return res.status(503).json({ message: 'No advisory database has been imported on this server' });
+    }
+
+    res.json({ vulnerabilities: checkVulnerabilities(repository.dependencies, database) });
+  } catch (error) {
+    console.error('Check vulnerabilities error:', error);
+    res.status(500).json({ message: 'Failed to check dependencies for vulnerabilities', error: error.message });
+  }
+});
+
+// Detect the licenses of a saved repository and check its dependencies
+// against them, scanning the dependency inventory first if there is none
+router.post('/repositories/:id/licenses', authMiddleware, async (req, res) => {
+  try {
+    const repository = await Repository.findById(req.user.id, req.params.id);
+    if (!repository) {
+      return res.status(404).json({ message: 'Repository not found' });
+    }
+
+    let dependencies = repository.dependencies;
+    if (!dependencies) {
+      dependencies = await scanRepositoryDependencies(req.user.id, repository);
+      await Repository.saveDependencies(req.user.id, repository.id, dependencies);
+    }
+
+    const licenseReport = await scanRepositoryLicenses(req.user.id, repository, dependencies);
+    await Repository.saveLicenseReport(req.user.id, repository.id, licenseReport);
+    console.log(`⚖️ Detected ${licenseReport.project.license || 'no license'} for ${repository.repo_url} with ${licenseReport.findings.length} findings`);
+
+    res.json({ message: 'Licenses scanned', licenseReport, dependencies });
+  } catch (error) {
+    console.error('Scan licenses error:', error);
+    res.status(500).json({ message: 'Failed to scan licenses', error: error.message });
+  }
+});
+
 // Delete repository
 router.delete('/repositories/:id', authMiddleware, async (req, res) => {
   try {
@@ -974,6 +495,7 @@ router.delete('/repositories/:id', authMiddleware, async (req, res) => {
     const deleted = await Repository.deleteById(req.user.id, id);
     
     if (deleted) {
+      await RepositoryIndex.deleteByRepositoryId(req.user.id, id);
       res.json({ message: 'Repository deleted successfully' });
     } else {
       res.status(404).json({ message: 'Repository not found' });
@@ -0,0 +1,133 @@
+const express = require('express');
+const authMiddleware = require('../middleware/auth');
+const AnalysisJob = require('../models/AnalysisJob');
+const Repository = require('../models/Repository');
+const {
+  parseGitHubUrl,
+  clampDepth,
+  cancelAnalysis,
+  finishAnalysis,
+  streamAnalysisEvents
+} = require('../utils/repositoryAnalysis');
+const { wakeAnalysisJobWorker, getJobAnalysisKey } = require('../utils/analysisJobWorker');
+
+const router = express.Router();
+
+// Queue a repository analysis
+router.post('/', authMiddleware, async (req, res) => {
+  try {
+    const { repoUrl, maxDepth = 15, ref, subPath } = req.body;
+
+    if (!repoUrl) {
+      return res.status(400).json({ message: 'Repository URL is required' });
+    }
+
+    if (!parseGitHubUrl(repoUrl)) {
+      return res.status(400).json({ message: 'Invalid GitHub URL' });
+    }
+
+    const job = await AnalysisJob.create(req.user.id, repoUrl.trim(), {
+      maxDepth: clampDepth(maxDepth),
+      ref: typeof ref === 'string' ? ref.trim() : null,
+      subPath: typeof subPath === 'string' ? subPath.trim() : null
+    });
+    console.log(`📥 Queued analysis job ${job.id} for ${job.repo_url}`);
+    wakeAnalysisJobWorker();
+
+    res.status(202).json({ message: 'Analysis queued', job });
+  } catch (error) {
+    console.error('Create analysis job error:', error);
+    res.status(500).json({ message: 'Failed to queue analysis' });
+  }
+});
+
+// List the user's jobs; ?active=true limits to queued and running ones
+router.get('/', authMiddleware, async (req, res) => {
+  try {
+    const jobs = await AnalysisJob.findByUserId(req.user.id, {
+      activeOnly: req.query.active === 'true'
+    });
+    res.json({ jobs });
+  } catch (error) {
+    console.error('Get analysis jobs error:', error);
+    res.status(500).json({ message: 'Failed to fetch analysis jobs' });
+  }
+});
+
+// Get a job; completed jobs include the analyzed file tree
+router.get('/:id', authMiddleware, async (req, res) => {
+  try {
+    const job = await AnalysisJob.findById(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ message: 'Analysis job not found' });
+    }
+
+    let fileTree = null;
+    if (job.status === 'completed' && job.type !== 'report' && job.result?.repositoryId) {
+      const repository = await Repository.findById(req.user.id, job.result.repositoryId);
+      fileTree = repository ? repository.repo_data : null;
+    }
+
+    res.json({ job, fileTree });
+  } catch (error) {
+    console.error('Get analysis job error:', error);
+    res.status(500).json({ message: 'Failed to fetch analysis job' });
+  }
+});
+
+// Cancel a queued or running job
+router.post('/:id/cancel', authMiddleware, async (req, res) => {
+  try {
+    const job = await AnalysisJob.requestCancel(req.user.id, req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: 'Analysis job not found' });
+    }
+
+    if (job.status === 'running') {
+      cancelAnalysis(getJobAnalysisKey(job));
+    } else if (job.status === 'cancelled') {
+      // Never started, so no worker will report it; tell subscribers here
+      finishAnalysis(getJobAnalysisKey(job), 'cancelled', { message: 'Analysis cancelled by user' });
+    }
+
+    res.json({
+      message: ['completed', 'failed'].includes(job.status)
+        ? `Analysis already ${job.status}`
+        : 'Analysis cancellation requested',
+      job
+    });
+  } catch (error) {
+    console.error('Cancel analysis job error:', error);
+    res.status(500).json({ message: 'Failed to cancel analysis job' });
+  }
+});
+
+// Stream a job's progress as Server-Sent Events, same events as
+// /api/github/analyze/:analysisId/events. Jobs that already finished get
+// their terminal event straight away
+router.get('/:id/events', authMiddleware, async (req, res) => {
+  try {
+    const job = await AnalysisJob.findById(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ message: 'Analysis job not found' });
+    }
+
+    const initialEvents = [];
+    if (job.status === 'completed') {
+      initialEvents.push({ event: 'complete', data: { analysisId: job.id.toString() } });
+    } else if (job.status === 'failed') {
+      initialEvents.push({ event: 'failed', data: { message: job.error?.message || 'Analysis failed', detail: job.error?.detail || null } });
+    } else if (job.status === 'cancelled') {
+      initialEvents.push({ event: 'cancelled', data: { message: 'Analysis cancelled by user' } });
+    } else if (job.progress) {
+      initialEvents.push({ event: 'progress', data: job.progress });
+    }
+
+    streamAnalysisEvents(req, res, getJobAnalysisKey(job), initialEvents);
+  } catch (error) {
+    console.error('Analysis job events error:', error);
+    res.status(500).json({ message: 'Failed to stream analysis job' });
+  }
+});
+
+module.exports = router;
@@ -10,6 +10,9 @@ const authRoutes = require("./routes/auth");
 const githubRoutes = require("./routes/github");
 const aiRoutes = require("./routes/ai");
 const statsRoutes = require("./routes/stats");
+const jobRoutes = require("./routes/jobs");
+const chatRoutes = require("./routes/chat");
+const { startAnalysisJobWorker } = require("./utils/analysisJobWorker");
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -46,6 +49,8 @@ app.use("/api/auth", authRoutes);
 app.use("/api/github", githubRoutes);
 app.use("/api/ai", aiRoutes);
 app.use("/api/stats", statsRoutes);
+app.use("/api/jobs", jobRoutes);
+app.use("/api/chat", chatRoutes);
 app.set("trust proxy", 1);
 // Health check
 app.get("/api/health", (req, res) => {
@@ -60,4 +65,5 @@ app.use("*", (req, res) => {
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
+  startAnalysisJobWorker();
 });
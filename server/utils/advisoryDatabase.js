@@ -0,0 +1,228 @@
+const fs = require('fs');
+const path = require('path');
+const { normalizePackageName } = require('./dependencyManifests');
+
+// Local copy of OSV security advisories for the ecosystems the dependency
+// inventory covers. An admin imports advisories from OSV exports by running
+// this file; the server reads the resulting database file and picks up a new
+// import the next time it is used, without a restart
+
+const DATABASE_PATH = process.env.ADVISORY_DATABASE_PATH || path.join(__dirname, '..', 'data', 'advisories.json');
+const DATABASE_FORMAT_VERSION = 1;
+const SUPPORTED_ECOSYSTEMS = ['npm', 'PyPI', 'Go', 'crates.io', 'Maven', 'RubyGems', 'Packagist'];
+const SEVERITY_LEVELS = ['critical', 'high', 'medium', 'low'];
+const MAX_SUMMARY_CHARS = 300;
+
+// CVSS v3 base metric weights
+const CVSS_WEIGHTS = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  CIA: { H: 0.56, L: 0.22, N: 0 }
+};
+
+const roundUp = (value) => Math.ceil(value * 10 - 1e-9) / 10;
+
+// Base score of a CVSS v3 vector such as "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+// or null for other vectors
+const cvss3BaseScore = (vector) => {
+  if (!/^CVSS:3\.[01]\//.test(vector)) return null;
+  const metrics = Object.fromEntries(vector.split('/').slice(1).map(part => part.split(':')));
+  const changed = metrics.S === 'C';
+  const privileges = { N: 0.85, L: changed ? 0.68 : 0.62, H: changed ? 0.5 : 0.27 }[metrics.PR];
+  const [av, ac, ui] = [CVSS_WEIGHTS.AV[metrics.AV], CVSS_WEIGHTS.AC[metrics.AC], CVSS_WEIGHTS.UI[metrics.UI]];
+  const [c, i, a] = [CVSS_WEIGHTS.CIA[metrics.C], CVSS_WEIGHTS.CIA[metrics.I], CVSS_WEIGHTS.CIA[metrics.A]];
+  if ([privileges, av, ac, ui, c, i, a].some(weight => weight === undefined)) return null;
+
+  const baseImpact = 1 - (1 - c) * (1 - i) * (1 - a);
+  const impact = changed ? 7.52 * (baseImpact - 0.029) - 3.25 * Math.pow(baseImpact - 0.02, 15) : 6.42 * baseImpact;
+  if (impact <= 0) return 0;
+  const exploitability = 8.22 * av * ac * privileges * ui;
+  return roundUp(Math.min((changed ? 1.08 : 1) * (impact + exploitability), 10));
+};
+
+const severityFromScore = (score) => {
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  if (score > 0) return 'low';
+  return null;
+};
+
+// GitHub advisories label severities, with "moderate" for medium
+const severityFromLabel = (label) => {
+  const level = String(label || '').toLowerCase();
+  if (level === 'moderate') return 'medium';
+  return SEVERITY_LEVELS.includes(level) ? level : null;
+};
+
+const getSeverity = (advisory) => {
+  const vector = (advisory.severity || []).find(entry => entry.type === 'CVSS_V3')?.score;
+  const score = vector ? cvss3BaseScore(vector) : null;
+  const label = severityFromLabel(advisory.database_specific?.severity) ||
+    (advisory.affected || [])
+      .map(affected => severityFromLabel(affected.ecosystem_specific?.severity || affected.database_specific?.severity))
+      .find(Boolean);
+  return { level: label || (score !== null ? severityFromScore(score) : null), score };
+};
+
+// The parts of an OSV advisory needed for matching, or null when it is
+// withdrawn or affects no supported ecosystem
+const compactAdvisory = (advisory) => {
+  if (!advisory || typeof advisory.id !== 'string' || advisory.withdrawn) {
+    return null;
+  }
+  const affected = (advisory.affected || [])
+    .filter(entry => SUPPORTED_ECOSYSTEMS.includes(entry.package?.ecosystem) && typeof entry.package.name === 'string')
+    .map(entry => ({
+      ecosystem: entry.package.ecosystem,
+      name: normalizePackageName(entry.package.ecosystem, entry.package.name),
+      ranges: (entry.ranges || [])
+        .filter(range => range.type === 'SEMVER' || range.type === 'ECOSYSTEM')
+        .map(range => ({ type: range.type, events: range.events || [] })),
+      versions: Array.isArray(entry.versions) ? entry.versions : []
+    }))
+    .filter(entry => entry.ranges.length > 0 || entry.versions.length > 0);
+  if (affected.length === 0) {
+    return null;
+  }
+
+  const summary = advisory.summary || (advisory.details || '').split('\n')[0];
+  return {
+    id: advisory.id,
+    aliases: Array.isArray(advisory.aliases) ? advisory.aliases : [],
+    summary: summary.length > MAX_SUMMARY_CHARS ? `${summary.substring(0, MAX_SUMMARY_CHARS)}…` : summary,
+    published: advisory.published || null,
+    modified: advisory.modified || null,
+    severity: getSeverity(advisory),
+    affected
+  };
+};
+
+// OSV advisories in a file or directory: a single advisory per .json file as
+// in the unzipped OSV exports, a JSON array, or one advisory per line (.jsonl)
+const readAdvisorySource = async (source, advisories, failures) => {
+  const stats = await fs.promises.stat(source);
+  if (stats.isDirectory()) {
+    for (const entry of await fs.promises.readdir(source)) {
+      const entryPath = path.join(source, entry);
+      if (/\.jsonl?$|\.ndjson$/.test(entry) || (await fs.promises.stat(entryPath)).isDirectory()) {
+        await readAdvisorySource(entryPath, advisories, failures);
+      }
+    }
+    return;
+  }
+
+  const content = await fs.promises.readFile(source, 'utf8');
+  try {
+    if (/\.(jsonl|ndjson)$/.test(source)) {
+      content.split('\n').filter(line => line.trim()).forEach(line => advisories.push(JSON.parse(line)));
+    } else {
+      const parsed = JSON.parse(content);
+      advisories.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+    }
+  } catch (error) {
+    failures.push(`${source}: ${error.message}`);
+  }
+};
+
+// Replace the database with the advisories in the given files and directories
+const importAdvisories = async (sources) => {
+  const advisories = [];
+  const failures = [];
+  for (const source of sources) {
+    await readAdvisorySource(path.resolve(source), advisories, failures);
+  }
+
+  // The same advisory can appear in several exports; the latest modification wins
+  const byId = new Map();
+  for (const advisory of advisories.map(compactAdvisory).filter(Boolean)) {
+    const existing = byId.get(advisory.id);
+    if (!existing || (advisory.modified || '') > (existing.modified || '')) {
+      byId.set(advisory.id, advisory);
+    }
+  }
+
+  const database = {
+    version: DATABASE_FORMAT_VERSION,
+    importedAt: new Date().toISOString(),
+    sources: sources.map(source => path.basename(path.resolve(source))),
+    advisories: [...byId.values()]
+  };
+  // Write next to the target and rename, so the server never reads a half-written file
+  await fs.promises.mkdir(path.dirname(DATABASE_PATH), { recursive: true });
+  const temporaryPath = `${DATABASE_PATH}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temporaryPath, JSON.stringify(database));
+  await fs.promises.rename(temporaryPath, DATABASE_PATH);
+
+  return { read: advisories.length, imported: database.advisories.length, failures };
+};
+
+let loaded = null;
+
+// The imported database with its advisories indexed by "ecosystem:name", or
+// null if nothing has been imported. Re-read when the file changes
+const loadAdvisoryDatabase = async () => {
+  let stats;
+  try {
+    stats = await fs.promises.stat(DATABASE_PATH);
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      loaded = null;
+      return null;
+    }
+    throw error;
+  }
+  if (loaded && loaded.mtimeMs === stats.mtimeMs) {
+    return loaded.database;
+  }
+
+  const stored = JSON.parse(await fs.promises.readFile(DATABASE_PATH, 'utf8'));
+  if (stored.version !== DATABASE_FORMAT_VERSION) {
+    throw new Error(`Advisory database has format ${stored.version}, expected ${DATABASE_FORMAT_VERSION}. Import the advisories again`);
+  }
+  const index = new Map();
+  for (const advisory of stored.advisories) {
+    for (const affected of advisory.affected) {
+      const key = `${affected.ecosystem}:${affected.name}`;
+      if (!index.has(key)) index.set(key, []);
+      index.get(key).push({ advisory, affected });
+    }
+  }
+
+  const database = {
+    importedAt: stored.importedAt,
+    sources: stored.sources,
+    advisoryCount: stored.advisories.length,
+    index
+  };
+  loaded = { mtimeMs: stats.mtimeMs, database };
+  console.log(`🛡️ Loaded ${database.advisoryCount} advisories imported ${database.importedAt}`);
+  return database;
+};
+
+// Run as an admin command:
+//   node utils/advisoryDatabase.js <file-or-directory>...
+if (require.main === module) {
+  const sources = process.argv.slice(2);
+  if (sources.length === 0) {
+    console.error('Usage: node utils/advisoryDatabase.js <OSV file or directory>...');
+    process.exit(1);
+  }
+  importAdvisories(sources).then(({ read, imported, failures }) => {
+    failures.forEach(failure => console.error(`❌ Skipped ${failure}`));
+    console.log(`✅ Imported ${imported} of ${read} advisories into ${DATABASE_PATH}`);
+    process.exit(0);
+  }).catch((error) => {
+    console.error('❌ Advisory import failed:', error.message);
+    process.exit(1);
+  });
+}
+
+module.exports = {
+  SEVERITY_LEVELS,
+  cvss3BaseScore,
+  compactAdvisory,
+  importAdvisories,
+  loadAdvisoryDatabase
+};
@@ -0,0 +1,49 @@
+const FileAnalysis = require('../models/FileAnalysis');
+const { getRepositoryKey } = require('./repositoryAnalysis');
+const { resolveLLM } = require('./llmProviders');
+const { ANALYSIS_PROMPT_VERSION } = require('./codeAnalysis');
+
+// Content-addressed cache for per-file analyses. The blob SHA identifies the
+// file's content, so any branch, snapshot or refresh that has the same blob
+// shares the analysis and an edited file misses automatically. Only the most
+// recently analyzed versions of each file are kept (see FileAnalysis)
+
+// Cache key for one file version and model. Returns null when the request
+// does not identify a file version, in which case nothing is cached
+const getCacheKey = async ({ repoUrl, path, sha, provider, model }) => {
+  const repository = getRepositoryKey(repoUrl);
+  if (!repository || !path || !sha) {
+    return null;
+  }
+
+  const resolved = await resolveLLM({ provider, model });
+  return {
+    repository,
+    path,
+    sha,
+    provider: resolved.provider.id,
+    model: resolved.model,
+    promptVersion: ANALYSIS_PROMPT_VERSION
+  };
+};
+
+const getCachedAnalysis = async (userId, key) => (key ? FileAnalysis.find(userId, key) : null);
+
+const cacheAnalysis = (userId, key, analysis) => FileAnalysis.save(userId, { ...key, analysis });
+
+// Files of a repository with an analysis made by the current prompt
+const listAnalyzedFiles = async (userId, repoUrl) => {
+  const repository = getRepositoryKey(repoUrl);
+  if (!repository) {
+    return [];
+  }
+  const entries = await FileAnalysis.findByRepository(userId, repository);
+  return entries.filter(entry => entry.prompt_version === ANALYSIS_PROMPT_VERSION);
+};
+
+module.exports = {
+  getCacheKey,
+  getCachedAnalysis,
+  cacheAnalysis,
+  listAnalyzedFiles
+};
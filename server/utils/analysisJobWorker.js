@@ -0,0 +1,175 @@
+const database = require('../config/database');
+const AnalysisJob = require('../models/AnalysisJob');
+const {
+  getAnalysisKey,
+  analysisEvents,
+  clampDepth,
+  registerAnalysis,
+  finishAnalysis,
+  isCancellationError,
+  runRepositoryAnalysis,
+  describeAnalysisError
+} = require('./repositoryAnalysis');
+const { runRepositoryReport } = require('./repositoryReport');
+const { scheduleRepositoryIndex } = require('./repositoryIndex');
+
+// Background worker for queued analysis jobs. Jobs live in the database, so a
+// job survives the client going away, and jobs interrupted by a restart are
+// picked up again when the server comes back
+
+const POLL_INTERVAL_MS = 2000;
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+const MAX_CONCURRENT_JOBS = parseInt(process.env.ANALYSIS_JOB_CONCURRENCY) || 2;
+const MAX_ATTEMPTS = 3;
+
+let pollTimer = null;
+let runningJobs = 0;
+let ticking = false;
+let recovered = false;
+
+const getJobAnalysisKey = (job) => getAnalysisKey(job.user_id.toString(), job.id.toString());
+
+// Do the job's work and return what gets stored as its result
+const runJobTask = async (job, analysisKey) => {
+  if (job.type === 'report') {
+    const report = await runRepositoryReport(analysisKey, {
+      userId: job.user_id.toString(),
+      repositoryId: job.options.repositoryId,
+      provider: job.options.provider,
+      model: job.options.model
+    });
+    return {
+      repositoryId: job.options.repositoryId,
+      filesAnalyzed: report.files.filter(file => !file.error).length
+    };
+  }
+
+  const result = await runRepositoryAnalysis(analysisKey, {
+    userId: job.user_id.toString(),
+    repoUrl: job.repo_url,
+    maxDepth: job.options.maxDepth,
+    ref: job.options.ref,
+    subPath: job.options.subPath,
+    target: job.target,
+    onTarget: (target) => AnalysisJob.update(job.id, { target })
+  });
+  scheduleRepositoryIndex(job.user_id.toString(), result.repository);
+  return {
+    repositoryId: result.repository.id.toString(),
+    repoInfo: result.repoInfo,
+    analysisConfig: result.analysisConfig,
+    aiContext: result.aiContext
+  };
+};
+
+const runJob = async (job) => {
+  const analysisKey = getJobAnalysisKey(job);
+
+  if (job.cancel_requested) {
+    await AnalysisJob.update(job.id, { status: 'cancelled', finished_at: new Date() });
+    finishAnalysis(analysisKey, 'cancelled', { message: 'Analysis cancelled by user' });
+    return;
+  }
+
+  if (!registerAnalysis(analysisKey, clampDepth(job.options.maxDepth))) {
+    console.log(`⚠️ Analysis job ${job.id} is already running in this process`);
+    return;
+  }
+
+  // Persist progress now and then so GET /api/jobs/:id is meaningful after a restart
+  let lastSavedAt = 0;
+  const saveProgress = ({ event, data }) => {
+    if (event !== 'progress' || Date.now() - lastSavedAt < PROGRESS_SAVE_INTERVAL_MS) return;
+    lastSavedAt = Date.now();
+    AnalysisJob.update(job.id, { progress: data }).catch(error => {
+      console.error(`❌ Could not save progress for analysis job ${job.id}:`, error.message);
+    });
+  };
+  analysisEvents.on(analysisKey, saveProgress);
+
+  console.log(`🚀 Running ${job.type || 'analysis'} job ${job.id} (${job.repo_url}), attempt ${job.attempts}`);
+
+  try {
+    const result = await runJobTask(job, analysisKey);
+
+    await AnalysisJob.update(job.id, {
+      status: 'completed',
+      progress: { progress: 100, currentPath: job.type === 'report' ? 'Report complete' : 'Analysis complete' },
+      result,
+      finished_at: new Date()
+    });
+    console.log(`✅ Analysis job ${job.id} completed`);
+    finishAnalysis(analysisKey, 'complete', { analysisId: job.id.toString() });
+  } catch (error) {
+    const cancelled = isCancellationError(error);
+    const { status, body } = describeAnalysisError(error);
+
+    await AnalysisJob.update(job.id, {
+      status: cancelled ? 'cancelled' : 'failed',
+      error: cancelled ? null : { status, message: body.message, detail: body.error || null },
+      finished_at: new Date()
+    }).catch(updateError => {
+      console.error(`❌ Could not record outcome of analysis job ${job.id}:`, updateError.message);
+    });
+
+    if (cancelled) {
+      console.log(`🛑 Analysis job ${job.id} cancelled`);
+    } else {
+      console.error(`❌ Analysis job ${job.id} failed:`, error.message);
+    }
+    finishAnalysis(analysisKey, cancelled ? 'cancelled' : 'failed', { message: body.message, detail: body.error || null });
+  } finally {
+    analysisEvents.off(analysisKey, saveProgress);
+  }
+};
+
+const tick = async () => {
+  // The database connects asynchronously at startup
+  if (ticking || !(database.getDb() || database.isUsingFallback())) return;
+  ticking = true;
+
+  try {
+    if (!recovered) {
+      const requeued = await AnalysisJob.requeueInterrupted(MAX_ATTEMPTS);
+      recovered = true;
+      if (requeued > 0) {
+        console.log(`🔁 Re-queued ${requeued} interrupted analysis job(s)`);
+      }
+    }
+
+    while (runningJobs < MAX_CONCURRENT_JOBS) {
+      const job = await AnalysisJob.claimNextQueued();
+      if (!job) break;
+
+      runningJobs++;
+      runJob(job)
+        .catch(error => console.error(`❌ Analysis job ${job.id} crashed:`, error))
+        .finally(() => {
+          runningJobs--;
+          wakeAnalysisJobWorker();
+        });
+    }
+  } catch (error) {
+    console.error('❌ Analysis job worker error:', error);
+  } finally {
+    ticking = false;
+  }
+};
+
+// Check the queue now instead of waiting for the next poll
+const wakeAnalysisJobWorker = () => {
+  setImmediate(tick);
+};
+
+const startAnalysisJobWorker = () => {
+  if (pollTimer) return;
+  pollTimer = setInterval(tick, POLL_INTERVAL_MS);
+  console.log(`👷 Analysis job worker started (up to ${MAX_CONCURRENT_JOBS} concurrent jobs)`);
+  wakeAnalysisJobWorker();
+};
+
+module.exports = {
+  startAnalysisJobWorker,
+  wakeAnalysisJobWorker,
+  getJobAnalysisKey
+};
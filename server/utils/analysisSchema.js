@@ -0,0 +1,148 @@
+// JSON Schema for a per-file code analysis. GET /api/ai/format advertises
+// it, providers with structured output receive it as their response schema
+// and every model reply is validated against it
+
+const FINDING_SEVERITIES = ["high", "medium", "low"];
+const FINDING_CATEGORIES = [
+  "bug", "security", "performance", "maintainability", "style", "documentation", "other"
+];
+
+const stringList = (description) => ({
+  type: "array",
+  description,
+  items: { type: "string", minLength: 1 },
+});
+
+// Issues and improvements point at the lines they are about. Line numbers
+// are 1-based and refer to the numbered content in the prompt
+const findingList = (description) => ({
+  type: "array",
+  description,
+  items: {
+    type: "object",
+    properties: {
+      message: { type: "string", minLength: 1, description: "The finding itself" },
+      severity: { type: "string", enum: FINDING_SEVERITIES, description: "How much the finding matters" },
+      category: { type: "string", enum: FINDING_CATEGORIES, description: "Kind of finding" },
+      startLine: {
+        type: ["integer", "null"],
+        minimum: 1,
+        description: "First line the finding refers to, null if it is about the file as a whole",
+      },
+      endLine: {
+        type: ["integer", "null"],
+        minimum: 1,
+        description: "Last line the finding refers to (same as startLine for a single line), null with startLine",
+      },
+    },
+    required: ["message", "severity", "category", "startLine", "endLine"],
+    additionalProperties: false,
+  },
+});
+
+const ANALYSIS_SCHEMA = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "CodeAnalysis",
+  type: "object",
+  properties: {
+    summary: {
+      type: "string",
+      minLength: 1,
+      description: "Comprehensive description of what this file contains and its purpose",
+    },
+    keyFunctions: {
+      type: "array",
+      description: "Functions or classes in code files, or the main sections of non-code files",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1, description: "Function, class or section name" },
+          description: { type: "string", minLength: 1, description: "What it does or contains" },
+        },
+        required: ["name", "description"],
+        additionalProperties: false,
+      },
+    },
+    cleanCode: {
+      type: ["boolean", "null"],
+      description: "Whether the code is clean and maintainable, null if it cannot be judged",
+    },
+    issues: findingList("Detected bugs, code smells or bad practices"),
+    improvements: findingList("Suggestions to improve the file"),
+    libraries: stringList("Languages, libraries, frameworks or tools used or mentioned"),
+  },
+  required: ["summary", "keyFunctions", "cleanCode", "issues", "improvements", "libraries"],
+  additionalProperties: false,
+};
+
+const typeOf = (value) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesType = (value, type) =>
+  typeOf(value) === type || (type === "number" && typeOf(value) === "integer");
+
+// Validate a value against the subset of JSON Schema used in this file
+// (type, enum, required, properties, additionalProperties, items,
+// minLength, minItems, minimum). Returns a list of { path, message } with
+// JSON Pointer paths; an empty list means the value is valid
+const validateSchema = (value, schema, path = "") => {
+  const at = path || "/";
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : null;
+
+  if (types && !types.some((type) => matchesType(value, type))) {
+    return [{ path: at, message: `expected ${types.join(" or ")}, got ${typeOf(value)}` }];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ path: at, message: `must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(", ")}` }];
+  }
+
+  const errors = [];
+
+  if (typeof value === "string" && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors.push({ path: at, message: "must not be empty" });
+  }
+
+  if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path: at, message: `must be at least ${schema.minimum}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path: at, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, schema.items, `${path}/${index}`));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push({ path: `${path}/${key}`, message: "is required" });
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (properties[key]) {
+        errors.push(...validateSchema(child, properties[key], `${path}/${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}/${key}`, message: "is not allowed" });
+      }
+    }
+  }
+
+  return errors;
+};
+
+module.exports = {
+  ANALYSIS_SCHEMA,
+  FINDING_SEVERITIES,
+  FINDING_CATEGORIES,
+  validateSchema,
+};
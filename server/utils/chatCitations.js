@@ -0,0 +1,78 @@
+// File citations in AI chat answers. The model is asked to mention files by
+// their full path, optionally with a line range ("src/app.js:10-20"); the
+// mentions that resolve to a file of the repository are returned alongside
+// the answer so clients can link them
+
+const MAX_CITATIONS = 10;
+
+// A path-like word ending in a file extension, optionally followed by a
+// line range as "path:10-20" or "path#L10-L20"
+const PATH_PATTERN = /(?:\.{0,2}\/)?[\w@.+-]+(?:\/[\w@.+-]+)*\.[A-Za-z0-9]+(?::(\d+)(?:-(\d+))?|#L(\d+)(?:-L?(\d+))?)?/g;
+// A line range written after the path, as in "`db.js` (lines 10-20)"
+const TRAILING_RANGE_PATTERN = /^`?\s*\(?\s*(?:on\s+)?(?:lines?|L)\s*(\d+)(?:\s*(?:-|–|to)\s*(\d+))?/i;
+
+// Paths of all files in a file tree
+const listFilePaths = (node, paths = []) => {
+  if (!node) return paths;
+  if (node.type === 'file') {
+    if (node.path) paths.push(node.path);
+  } else {
+    (node.children || []).forEach(child => listFilePaths(child, paths));
+  }
+  return paths;
+};
+
+// The repository file a mention refers to: the exact path, else the only
+// file whose path ends with it
+const resolvePath = (mention, filePaths, pathSet) => {
+  const path = mention.replace(/^\.{0,2}\//, '');
+  if (pathSet.has(path)) return path;
+  const matches = filePaths.filter(filePath => filePath.endsWith(`/${path}`));
+  return matches.length === 1 ? matches[0] : null;
+};
+
+const toRange = (start, end) => {
+  const startLine = parseInt(start);
+  if (!startLine) return {};
+  const endLine = parseInt(end) || startLine;
+  return endLine >= startLine ? { startLine, endLine } : {};
+};
+
+// Citations of repository files in an answer, in order of first mention.
+// A file cited with a line range is not cited again without one
+const extractCitations = (text, filePaths) => {
+  if (!text || filePaths.length === 0) {
+    return [];
+  }
+  const pathSet = new Set(filePaths);
+  const citations = [];
+  const seen = new Set();
+
+  for (const match of text.matchAll(PATH_PATTERN)) {
+    const [mention, colonStart, colonEnd, anchorStart, anchorEnd] = match;
+    const path = resolvePath(mention.replace(/(?::\d.*|#L.*)$/, ''), filePaths, pathSet);
+    if (!path) continue;
+
+    let range = toRange(colonStart || anchorStart, colonEnd || anchorEnd);
+    if (!range.startLine) {
+      const trailing = text.slice(match.index + mention.length, match.index + mention.length + 24)
+        .match(TRAILING_RANGE_PATTERN);
+      range = trailing ? toRange(trailing[1], trailing[2]) : {};
+    }
+
+    const key = range.startLine ? `${path}:${range.startLine}-${range.endLine}` : path;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    citations.push({ path, ...range });
+  }
+
+  const rangedPaths = new Set(citations.filter(citation => citation.startLine).map(citation => citation.path));
+  return citations
+    .filter(citation => citation.startLine || !rangedPaths.has(citation.path))
+    .slice(0, MAX_CITATIONS);
+};
+
+module.exports = {
+  listFilePaths,
+  extractCitations
+};
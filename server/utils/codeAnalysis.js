@@ -0,0 +1,297 @@
+const { resolveLLM, generateText } = require("./llmProviders");
+const {
+  ANALYSIS_SCHEMA,
+  FINDING_SEVERITIES,
+  FINDING_CATEGORIES,
+  validateSchema,
+} = require("./analysisSchema");
+const { getManifestType } = require("./dependencyManifests");
+
+// Per-file code analysis shared by POST /api/ai/analyze-code and the
+// repository report job
+
+// Stored with cached analyses. Bump it whenever the prompt or ANALYSIS_SCHEMA
+// changes so analyses made for the old one are not served from the cache
+const ANALYSIS_PROMPT_VERSION = 2;
+
+// Re-prompts allowed when a reply fails validation, and how much of the bad
+// reply is quoted back to the model. 0 turns repair prompts off
+const configuredRepairAttempts = parseInt(process.env.ANALYSIS_REPAIR_ATTEMPTS);
+const MAX_REPAIR_ATTEMPTS = Number.isNaN(configuredRepairAttempts) ? 2 : Math.max(0, configuredRepairAttempts);
+const MAX_REPAIR_REPLY_CHARS = 8000;
+
+const countLines = (content) => content.split("\n").length;
+
+// Keep the parts of a parsed reply that satisfy the schema, so a partially
+// valid reply still yields its usable fields. Anything missing or malformed
+// comes back empty rather than invented; line numbers outside the file are
+// dropped
+const salvageAnalysis = (parsed, lineCount = Infinity) => {
+  const source = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  const isText = (value) => typeof value === "string" && value.trim().length > 0;
+  const texts = (value) => (Array.isArray(value) ? value.filter(isText).map((item) => item.trim()) : []);
+  const line = (value) => (Number.isInteger(value) && value >= 1 && value <= lineCount ? value : null);
+
+  const findings = (value) =>
+    Array.isArray(value)
+      ? value
+          .filter((finding) => finding && isText(finding.message))
+          .map((finding) => {
+            const startLine = line(finding.startLine);
+            const endLine = startLine === null ? null : Math.max(line(finding.endLine) || startLine, startLine);
+            return {
+              message: finding.message.trim(),
+              severity: FINDING_SEVERITIES.includes(finding.severity) ? finding.severity : null,
+              category: FINDING_CATEGORIES.includes(finding.category) ? finding.category : null,
+              startLine,
+              endLine,
+            };
+          })
+      : [];
+
+  return {
+    summary: isText(source.summary) ? source.summary.trim() : null,
+    keyFunctions: Array.isArray(source.keyFunctions)
+      ? source.keyFunctions
+          .filter((func) => func && isText(func.name) && isText(func.description))
+          .map((func) => ({ name: func.name.trim(), description: func.description.trim() }))
+      : [],
+    cleanCode: typeof source.cleanCode === "boolean" ? source.cleanCode : null,
+    issues: findings(source.issues),
+    improvements: findings(source.improvements),
+    libraries: texts(source.libraries),
+  };
+};
+
+// Line ranges the schema cannot check: they must fit in the file and not
+// run backwards
+const validateFindingLines = (parsed, lineCount) => {
+  const errors = [];
+  for (const key of ["issues", "improvements"]) {
+    if (!Array.isArray(parsed?.[key])) continue;
+    parsed[key].forEach((finding, index) => {
+      const { startLine, endLine } = finding || {};
+      const path = `/${key}/${index}`;
+      if (Number.isInteger(startLine) && startLine > lineCount) {
+        errors.push({ path: `${path}/startLine`, message: `is past the end of the file (${lineCount} lines)` });
+      }
+      if (Number.isInteger(endLine) && endLine > lineCount) {
+        errors.push({ path: `${path}/endLine`, message: `is past the end of the file (${lineCount} lines)` });
+      }
+      if (Number.isInteger(startLine) && Number.isInteger(endLine) && endLine < startLine) {
+        errors.push({ path: `${path}/endLine`, message: "must not be before startLine" });
+      }
+    });
+  }
+  return errors;
+};
+
+// Strip markdown fences and surrounding text from a model response that
+// should contain a single JSON object
+const cleanJsonResponse = (rawResponse) => {
+  // Clean the response in case there are any extra characters
+  let cleanedResponse = rawResponse.trim();
+
+  // Remove common markdown formatting that might interfere
+  cleanedResponse = cleanedResponse
+    .replace(/^```json\s*/i, "")
+    .replace(/\s*```$/i, "");
+  cleanedResponse = cleanedResponse
+    .replace(/^```\s*/i, "")
+    .replace(/\s*```$/i, "");
+
+  // Try to find JSON object in the response if it's wrapped in other text
+  const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    cleanedResponse = jsonMatch[0];
+  }
+
+  // Additional cleaning for common issues
+  cleanedResponse = cleanedResponse.replace(/^[^{]*/, ""); // Remove text before first {
+  cleanedResponse = cleanedResponse.replace(/[^}]*$/, ""); // Remove text after last }
+  return cleanedResponse;
+};
+
+// Prefix each line with its number so findings can cite lines reliably
+const numberLines = (content) =>
+  content
+    .split("\n")
+    .map((line, index) => `${index + 1}| ${line}`)
+    .join("\n");
+
+const buildAnalysisPrompt = (fileContent, fileName) => {
+  // Detect file type and create context-aware prompt
+  const fileExtension = fileName.split(".").pop()?.toLowerCase() || "";
+  const isReadme = fileName.toLowerCase().includes("readme");
+  const isConfig = [
+    "json",
+    "yaml",
+    "yml",
+    "toml",
+    "ini",
+    "cfg",
+    "conf",
+  ].includes(fileExtension);
+  const isDocumentation = ["md", "markdown", "rst", "txt"].includes(
+    fileExtension
+  );
+  const isScript = ["sh", "bash", "ps1", "bat", "cmd"].includes(
+    fileExtension
+  );
+  const manifestType = getManifestType(fileName.split("/").pop());
+
+  let contextPrompt = "";
+
+  if (isReadme) {
+    contextPrompt = `This is a README file that contains project documentation, setup instructions, and project information. Analyze it as documentation rather than code.`;
+  } else if (manifestType?.kind === "lockfile") {
+    contextPrompt = `This is a generated ${manifestType.ecosystem} lockfile that pins the exact versions of the project's direct and transitive dependencies.`;
+  } else if (manifestType) {
+    contextPrompt = `This is a ${manifestType.ecosystem} package/dependency management file that defines project dependencies and metadata.`;
+  } else if (isConfig) {
+    contextPrompt = `This is a configuration file (${fileExtension.toUpperCase()}) that defines settings, dependencies, or build configurations.`;
+  } else if (isDocumentation) {
+    contextPrompt = `This is a documentation file (${fileExtension.toUpperCase()}) that contains project information, guides, or explanations.`;
+  } else if (isScript) {
+    contextPrompt = `This is a script file (${fileExtension.toUpperCase()}) that contains executable commands or automation logic.`;
+  } else {
+    contextPrompt = `This is a ${fileExtension.toUpperCase()} code file.`;
+  }
+
+  return `Analyze this file and return ONLY a valid JSON object. Do not include any other text.
+
+Context: ${contextPrompt}
+
+The JSON object must satisfy this JSON Schema:
+${JSON.stringify(ANALYSIS_SCHEMA, null, 2)}
+
+For non-code files, list the main sections in "keyFunctions". Give every issue and improvement the line range it refers to, or null lines if it is about the file as a whole.
+
+File: ${fileName}
+Content (each line starts with its line number and "| ", which are not part of the file):
+${numberLines(fileContent)}
+
+JSON:`;
+};
+
+// Parse a reply that should be a single JSON object. Structured output
+// gives bare JSON, but models without it may still wrap the object in a
+// markdown fence or a sentence
+const parseJsonReply = (text) => {
+  try {
+    return JSON.parse(text.trim());
+  } catch {
+    return JSON.parse(cleanJsonResponse(text));
+  }
+};
+
+// Parse and validate a raw reply against the schema and, when lineCount is
+// known, the file's length. Returns the parsed value (null if it is not
+// JSON at all), the errors and the salvaged analysis
+const checkAnalysisResponse = (text, lineCount = Infinity) => {
+  let parsed;
+  try {
+    parsed = parseJsonReply(text);
+  } catch (error) {
+    return {
+      parsed: null,
+      errors: [{ path: "/", message: `is not valid JSON (${error.message})` }],
+      analysis: salvageAnalysis(null),
+    };
+  }
+  return {
+    parsed,
+    errors: [
+      ...validateSchema(parsed, ANALYSIS_SCHEMA),
+      ...validateFindingLines(parsed, lineCount),
+    ],
+    analysis: salvageAnalysis(parsed, lineCount),
+  };
+};
+
+const formatSchemaErrors = (errors) =>
+  errors.map((error) => `${error.path} ${error.message}`);
+
+// Ask the model to fix the specific problems in its previous reply
+const buildRepairPrompt = (prompt, previousReply, errors) => `${prompt}
+
+Your previous reply did not satisfy the JSON Schema:
+${formatSchemaErrors(errors).map((error) => `- ${error}`).join("\n")}
+
+Previous reply:
+${previousReply.substring(0, MAX_REPAIR_REPLY_CHARS)}
+
+Return the complete corrected JSON object with these problems fixed and nothing else.
+
+JSON:`;
+
+// Analyze one file with the given (or default) provider and model. Replies
+// are validated against ANALYSIS_SCHEMA and invalid ones are sent back for
+// repair; if no attempt is fully valid, the best one is returned with
+// partial: true and its validation errors. Throws if the model cannot be
+// reached
+const analyzeCode = async (fileContent, fileName, llm = {}) => {
+  // Reject a bad provider or model choice before spending any retries on it
+  await resolveLLM(llm);
+
+  const basePrompt = buildAnalysisPrompt(fileContent, fileName);
+  const lineCount = countLines(fileContent);
+
+  const generate = async (prompt) => {
+    const options = {
+      provider: llm.provider,
+      model: llm.model,
+      prompt,
+      temperature: 0.1, // Lower temperature for more consistent output
+      maxOutputTokens: 2048,
+      responseSchema: ANALYSIS_SCHEMA,
+    };
+    try {
+      return await generateText(options);
+    } catch (error) {
+      // Transient provider failures get one more try
+      console.error("Analysis request failed, retrying:", error.message);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      return generateText(options);
+    }
+  };
+
+  let prompt = basePrompt;
+  let best = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const result = await generate(prompt);
+    const checked = checkAnalysisResponse(result.text, lineCount);
+    const candidate = { ...checked, result, attempts: attempt + 1 };
+
+    if (!best || candidate.errors.length < best.errors.length) {
+      best = candidate;
+    }
+    if (checked.errors.length === 0) {
+      break;
+    }
+
+    console.log(
+      `⚠️ Analysis of ${fileName} failed schema validation (attempt ${attempt + 1}):`,
+      formatSchemaErrors(checked.errors).join("; ")
+    );
+    prompt = buildRepairPrompt(basePrompt, result.text, checked.errors);
+  }
+
+  return {
+    analysis: best.analysis,
+    partial: best.errors.length > 0,
+    validationErrors: formatSchemaErrors(best.errors),
+    attempts: best.attempts,
+    rawResponse: best.result.text,
+    provider: best.result.provider,
+    model: best.result.model,
+  };
+};
+
+module.exports = {
+  ANALYSIS_PROMPT_VERSION,
+  cleanJsonResponse,
+  checkAnalysisResponse,
+  analyzeCode,
+};
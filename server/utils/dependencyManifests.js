@@ -0,0 +1,588 @@
+// Parsers for dependency manifests and lockfiles across package ecosystems.
+// Every parser takes the file content and returns { name, version, scope }
+// entries, where version is the spec as written (exact for lockfiles, null
+// when the manifest gives none) and scope is one of DEPENDENCY_SCOPES or null
+// for lockfile entries whose scope comes from the manifest next to them.
+// Lockfiles that record package licenses add a license expression
+
+const DEPENDENCY_SCOPES = ['runtime', 'development', 'test', 'build', 'optional', 'peer', 'provided', 'indirect'];
+
+// Index of the first `marker` character outside a quoted string, or -1
+const indexOutsideStrings = (line, marker) => {
+  let quote = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === marker) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Open brackets minus closed ones, outside strings
+const bracketBalance = (text) => {
+  let balance = 0;
+  let quote = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      balance++;
+    } else if (char === ']' || char === '}') {
+      balance--;
+    }
+  }
+  return balance;
+};
+
+const unquote = (text) => text.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+// The `key = value` pairs of a TOML document with the table they belong to.
+// Values are left as raw text and multi-line arrays are joined; `block`
+// counts table headers so [[array]] entries can be told apart. Enough TOML
+// for manifests, not a general parser
+const readTomlEntries = (content) => {
+  const entries = [];
+  let table = '';
+  let block = 0;
+  let pending = null;
+
+  for (const rawLine of content.split('\n')) {
+    const commentStart = indexOutsideStrings(rawLine, '#');
+    const line = (commentStart === -1 ? rawLine : rawLine.substring(0, commentStart)).trim();
+
+    if (pending) {
+      pending.value += ` ${line}`;
+      if (bracketBalance(pending.value) <= 0) {
+        entries.push(pending);
+        pending = null;
+      }
+      continue;
+    }
+    if (!line) continue;
+
+    const header = line.match(/^\[\[?\s*(.+?)\s*\]\]?$/);
+    if (header) {
+      table = header[1].split('.').map(unquote).join('.');
+      block++;
+      continue;
+    }
+
+    const separator = indexOutsideStrings(line, '=');
+    if (separator === -1) continue;
+    const entry = { table, block, key: unquote(line.substring(0, separator)), value: line.substring(separator + 1).trim() };
+    if (bracketBalance(entry.value) > 0) {
+      pending = entry;
+    } else {
+      entries.push(entry);
+    }
+  }
+  if (pending) entries.push(pending);
+  return entries;
+};
+
+const tomlString = (value) => {
+  const match = value.match(/^"((?:[^"\\]|\\.)*)"|^'([^']*)'/);
+  return match ? (match[1] ?? match[2]) : null;
+};
+
+const tomlStrings = (value) =>
+  [...value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)].map(match => match[1] ?? match[2]);
+
+// A string field of an inline table, e.g. version in { version = "1", features = [] }
+const tomlField = (value, field) => {
+  const match = value.match(new RegExp(`(?:^|[{,\\s])${field}\\s*=\\s*(?:"((?:[^"\\\\]|\\\\.)*)"|'([^']*)')`));
+  return match ? (match[1] ?? match[2]) : null;
+};
+
+// Version of a dependency given as "1.0" or as an inline table
+const tomlVersion = (value) => {
+  if (value.startsWith('{')) {
+    if (/(?:^|[{,\s])workspace\s*=\s*true/.test(value)) return 'workspace';
+    return tomlField(value, 'version');
+  }
+  return tomlString(value);
+};
+
+// PyPI names compare case-insensitively with runs of "-", "_" and "." equal (PEP 503)
+const normalizePythonName = (name) => name.toLowerCase().replace(/[-_.]+/g, '-');
+
+// A PEP 508 requirement such as "requests[socks] (>=2.0) ; python_version < '3'"
+const parsePythonRequirement = (requirement) => {
+  const match = requirement.match(/^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/);
+  if (!match) return null;
+  const rest = match[2].split(';')[0].trim();
+  // Direct references ("name @ https://...") carry no version
+  const version = rest.startsWith('@') ? null : rest.replace(/^\((.*)\)$/, '$1').trim() || null;
+  return { name: normalizePythonName(match[1]), version };
+};
+
+const xmlTag = (xml, tag) => {
+  const match = xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`));
+  return match ? match[1] : null;
+};
+
+const NPM_SCOPES = {
+  dependencies: 'runtime',
+  devDependencies: 'development',
+  peerDependencies: 'peer',
+  optionalDependencies: 'optional'
+};
+
+const parsePackageJson = (content) => {
+  const manifest = JSON.parse(content);
+  const dependencies = [];
+  for (const [field, scope] of Object.entries(NPM_SCOPES)) {
+    for (const [name, version] of Object.entries(manifest[field] || {})) {
+      dependencies.push({ name, version: typeof version === 'string' ? version : null, scope });
+    }
+  }
+  return dependencies;
+};
+
+// package-lock.json and npm-shrinkwrap.json, lockfileVersion 1 to 3
+const parsePackageLock = (content) => {
+  const lock = JSON.parse(content);
+  const dependencies = [];
+
+  if (lock.packages) {
+    for (const [key, entry] of Object.entries(lock.packages)) {
+      const separator = key.lastIndexOf('node_modules/');
+      if (separator === -1 || entry.link || !entry.version) continue;
+      dependencies.push({
+        name: key.substring(separator + 'node_modules/'.length),
+        version: entry.version,
+        scope: null,
+        ...(typeof entry.license === 'string' ? { license: entry.license } : {})
+      });
+    }
+    return dependencies;
+  }
+
+  const visit = (tree) => {
+    for (const [name, entry] of Object.entries(tree || {})) {
+      if (entry.version) {
+        dependencies.push({ name, version: entry.version, scope: null });
+      }
+      visit(entry.dependencies);
+    }
+  };
+  visit(lock.dependencies);
+  return dependencies;
+};
+
+// Package name of a yarn.lock selector such as "@babel/core@^7.0.0" or "lodash@npm:^4.0.0"
+const selectorName = (selector) => {
+  const separator = selector.indexOf('@', 1);
+  return separator === -1 ? selector : selector.substring(0, separator);
+};
+
+// yarn.lock of Yarn 1 and of Yarn 2 and later
+const parseYarnLock = (content) => {
+  const dependencies = [];
+  let current = null;
+
+  for (const line of content.split('\n')) {
+    if (line && !line.startsWith(' ') && !line.startsWith('#') && line.trimEnd().endsWith(':')) {
+      const selectors = line.trimEnd().slice(0, -1).split(',').map(unquote);
+      current = selectors[0].startsWith('__metadata') || selectors[0].includes('@workspace:')
+        ? null
+        : { name: selectorName(selectors[0]) };
+      continue;
+    }
+    const version = current && line.match(/^ {2}version:?\s+"?([^"\s]+)"?/);
+    if (version) {
+      dependencies.push({ name: current.name, version: version[1], scope: null });
+      current = null;
+    }
+  }
+  return dependencies;
+};
+
+// Keys under `packages:` look like /name/1.0.0 (v5), /name@1.0.0(peer@2) (v6)
+// or name@1.0.0 (v9), scoped names included
+const parsePnpmLock = (content) => {
+  const dependencies = [];
+  let inPackages = false;
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    if (!line.startsWith(' ')) {
+      inPackages = line.trimEnd() === 'packages:';
+      continue;
+    }
+    const key = inPackages && line.match(/^ {2}(\S.*):\s*$/);
+    if (!key) continue;
+
+    const id = unquote(key[1]).replace(/^\//, '').replace(/\(.*$/, '');
+    const versionSeparator = id.lastIndexOf('@');
+    let name;
+    let version;
+    if (versionSeparator > 0) {
+      name = id.substring(0, versionSeparator);
+      version = id.substring(versionSeparator + 1);
+    } else {
+      const slash = id.lastIndexOf('/');
+      name = id.substring(0, slash);
+      version = id.substring(slash + 1).split('_')[0];
+    }
+    if (name && version) {
+      dependencies.push({ name, version, scope: null });
+    }
+  }
+  return dependencies;
+};
+
+const parseRequirementsTxt = (content, fileName) => {
+  const scope = /dev|test|lint|doc/i.test(fileName) ? 'development' : 'runtime';
+  const dependencies = [];
+
+  for (const rawLine of content.split('\n')) {
+    // Options such as --hash may follow a requirement on the same line
+    const line = rawLine.replace(/(^|\s)#.*$/, '').split(/\s--?[a-z]/)[0].trim();
+    if (!line || line.startsWith('-') || /^[a-z+]+:\/\//i.test(line) || line.startsWith('.')) continue;
+    const requirement = parsePythonRequirement(line);
+    if (requirement) {
+      dependencies.push({ ...requirement, scope });
+    }
+  }
+  return dependencies;
+};
+
+const POETRY_GROUP = /^tool\.poetry\.group\.([^.]+)\.dependencies$/;
+
+// PEP 621 [project] tables, PEP 735 [dependency-groups] and Poetry
+const parsePyproject = (content) => {
+  const dependencies = [];
+  const addRequirements = (value, scope) => {
+    for (const requirement of tomlStrings(value)) {
+      const parsed = parsePythonRequirement(requirement);
+      if (parsed) dependencies.push({ ...parsed, scope });
+    }
+  };
+
+  for (const { table, key, value } of readTomlEntries(content)) {
+    if (table === 'project' && key === 'dependencies') {
+      addRequirements(value, 'runtime');
+    } else if (table === 'project.optional-dependencies') {
+      addRequirements(value, 'optional');
+    } else if (table === 'dependency-groups') {
+      addRequirements(value, key === 'test' ? 'test' : 'development');
+    } else if (table === 'build-system' && key === 'requires') {
+      addRequirements(value, 'build');
+    } else if (key !== 'python') {
+      const group = table.match(POETRY_GROUP);
+      let scope = null;
+      if (table === 'tool.poetry.dependencies') scope = 'runtime';
+      else if (table === 'tool.poetry.dev-dependencies') scope = 'development';
+      else if (group) scope = group[1] === 'test' ? 'test' : 'development';
+      if (scope) {
+        dependencies.push({ name: normalizePythonName(key), version: tomlVersion(value), scope });
+      }
+    }
+  }
+  return dependencies;
+};
+
+// poetry.lock and Cargo.lock: one [[package]] table per locked package.
+// Cargo.lock lists the workspace's own crates without a source, which are skipped
+const parseTomlPackageLock = (normalizeName, requireSource) => (content) => {
+  const packages = new Map();
+  for (const { table, block, key, value } of readTomlEntries(content)) {
+    if (table !== 'package') continue;
+    if (!packages.has(block)) packages.set(block, {});
+    packages.get(block)[key] = tomlString(value) ?? value;
+  }
+  return [...packages.values()]
+    .filter(entry => entry.name && entry.version && (!requireSource || entry.source))
+    .map(entry => ({ name: normalizeName(entry.name), version: entry.version, scope: null }));
+};
+
+const parseGoMod = (content) => {
+  const dependencies = [];
+  let inRequire = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (inRequire) {
+      if (line === ')') {
+        inRequire = false;
+        continue;
+      }
+    } else if (/^require\s*\($/.test(line)) {
+      inRequire = true;
+      continue;
+    } else if (!line.startsWith('require ')) {
+      continue;
+    }
+
+    const match = line.replace(/^require\s+/, '').match(/^(\S+)\s+(\S+)(.*)$/);
+    if (match) {
+      dependencies.push({
+        name: match[1],
+        version: match[2],
+        scope: /\/\/\s*indirect/.test(match[3]) ? 'indirect' : 'runtime'
+      });
+    }
+  }
+  return dependencies;
+};
+
+const CARGO_TABLE = /^(?:(?:workspace|target\.[^.]+)\.)?(dev-|build-)?dependencies(?:\.(.+))?$/;
+
+const CARGO_SCOPES = { 'dev-': 'development', 'build-': 'build' };
+
+// [dependencies] entries, and [dependencies.name] tables with their version key
+const parseCargoToml = (content) => {
+  const dependencies = new Map();
+  for (const { table, key, value } of readTomlEntries(content)) {
+    const match = table.match(CARGO_TABLE);
+    if (!match) continue;
+    const scope = CARGO_SCOPES[match[1]] || 'runtime';
+    const name = match[2] || key;
+    const id = `${scope}:${name}`;
+    if (!match[2]) {
+      dependencies.set(id, { name, version: tomlVersion(value), scope });
+    } else if (key === 'version' || !dependencies.has(id)) {
+      const existing = dependencies.get(id);
+      dependencies.set(id, { name, version: key === 'version' ? tomlString(value) : existing?.version ?? null, scope });
+    }
+  }
+  return [...dependencies.values()];
+};
+
+const MAVEN_SCOPES = { compile: 'runtime', runtime: 'runtime', test: 'test', provided: 'provided', system: 'provided' };
+
+const parsePomXml = (content) => {
+  // Managed versions and build plugins are not dependencies of the project
+  const xml = content
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+    .replace(/<build>[\s\S]*?<\/build>/g, '');
+
+  const properties = {};
+  const propertiesBlock = xml.match(/<properties>([\s\S]*?)<\/properties>/);
+  if (propertiesBlock) {
+    for (const [, key, value] of propertiesBlock[1].matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+      properties[key] = value;
+    }
+  }
+  const resolve = (value) => value && value.replace(/\$\{([^}]+)\}/g, (placeholder, key) => properties[key] ?? placeholder);
+
+  const dependencies = [];
+  for (const [, block] of xml.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const groupId = resolve(xmlTag(block, 'groupId'));
+    const artifactId = resolve(xmlTag(block, 'artifactId'));
+    const scope = xmlTag(block, 'scope') || 'compile';
+    if (!groupId || !artifactId || !MAVEN_SCOPES[scope]) continue;
+    dependencies.push({
+      name: `${groupId}:${artifactId}`,
+      version: resolve(xmlTag(block, 'version')),
+      scope: xmlTag(block, 'optional') === 'true' ? 'optional' : MAVEN_SCOPES[scope]
+    });
+  }
+  return dependencies;
+};
+
+const GRADLE_SCOPES = {
+  implementation: 'runtime',
+  api: 'runtime',
+  compile: 'runtime',
+  runtimeOnly: 'runtime',
+  runtime: 'runtime',
+  compileOnly: 'provided',
+  compileOnlyApi: 'provided',
+  providedCompile: 'provided',
+  testImplementation: 'test',
+  testCompile: 'test',
+  testRuntimeOnly: 'test',
+  testCompileOnly: 'test',
+  androidTestImplementation: 'test',
+  annotationProcessor: 'build',
+  kapt: 'build',
+  ksp: 'build',
+  classpath: 'build'
+};
+
+// build.gradle and build.gradle.kts, with "group:name:version" notation or
+// group/name/version arguments
+const parseGradle = (content) => {
+  const dependencies = [];
+  for (const line of content.split('\n')) {
+    const configuration = line.match(/^\s*(\w+)\s*\(?\s*(.*)$/);
+    if (!configuration || !GRADLE_SCOPES[configuration[1]]) continue;
+    const scope = GRADLE_SCOPES[configuration[1]];
+    const args = configuration[2].replace(/^(?:platform|enforcedPlatform)\s*\(\s*/, '');
+
+    const notation = args.match(/^["']([^"':\s]+):([^"':\s]+)(?::([^"'@:\s]+))?[^"']*["']/);
+    if (notation) {
+      dependencies.push({ name: `${notation[1]}:${notation[2]}`, version: notation[3] || null, scope });
+      continue;
+    }
+    const group = args.match(/group\s*[:=]\s*["']([^"']+)["']/);
+    const name = args.match(/name\s*[:=]\s*["']([^"']+)["']/);
+    if (group && name) {
+      const version = args.match(/version\s*[:=]\s*["']([^"']+)["']/);
+      dependencies.push({ name: `${group[1]}:${name[1]}`, version: version ? version[1] : null, scope });
+    }
+  }
+  return dependencies;
+};
+
+const gemGroupScope = (groups) => {
+  if (groups.includes('development')) return 'development';
+  if (groups.includes('test')) return 'test';
+  return 'runtime';
+};
+
+const symbols = (text) => [...text.matchAll(/:(\w+)/g)].map(match => match[1]);
+
+const parseGemfile = (content) => {
+  const dependencies = [];
+  // Scope of each open block; `end` closes groups as well as other blocks
+  const scopes = ['runtime'];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    const scope = scopes[scopes.length - 1];
+
+    const group = line.match(/^group\s+(.+?)\s+do\b/);
+    if (group) {
+      scopes.push(gemGroupScope(symbols(group[1])));
+    } else if (/\bdo(\s*\|[^|]*\|)?$/.test(line) || /^(if|unless|case)\b/.test(line)) {
+      scopes.push(scope);
+    } else if (line === 'end' && scopes.length > 1) {
+      scopes.pop();
+    }
+
+    const gem = line.match(/^gem\s*\(?\s*["']([^"']+)["']((?:\s*,\s*["'][^"']*["'])*)(.*)$/);
+    if (gem) {
+      const constraints = tomlStrings(gem[2]);
+      const inlineGroups = gem[3].match(/groups?:\s*(\[[^\]]*\]|:\w+)|:groups?\s*=>\s*(\[[^\]]*\]|:\w+)/);
+      dependencies.push({
+        name: gem[1],
+        version: constraints.length > 0 ? constraints.join(', ') : null,
+        scope: inlineGroups ? gemGroupScope(symbols(inlineGroups[1] || inlineGroups[2])) : scope
+      });
+    }
+  }
+  return dependencies;
+};
+
+// Locked gems are the four-space indented "name (version)" lines under GEM specs
+const parseGemfileLock = (content) => {
+  const dependencies = [];
+  let section = null;
+  for (const line of content.split('\n')) {
+    if (/^[A-Z]/.test(line)) {
+      section = line.trim();
+      continue;
+    }
+    const spec = section === 'GEM' && line.match(/^ {4}([^\s(]+) \(([^)]+)\)\s*$/);
+    if (spec) {
+      dependencies.push({ name: spec[1], version: spec[2], scope: null });
+    }
+  }
+  return dependencies;
+};
+
+// The PHP runtime and its extensions are platform requirements, not packages
+const isPlatformPackage = (name) => name === 'php' || /^(ext|lib)-/.test(name) || !name.includes('/');
+
+const parseComposerJson = (content) => {
+  const manifest = JSON.parse(content);
+  const dependencies = [];
+  for (const [field, scope] of [['require', 'runtime'], ['require-dev', 'development']]) {
+    for (const [name, version] of Object.entries(manifest[field] || {})) {
+      if (!isPlatformPackage(name)) {
+        dependencies.push({ name: name.toLowerCase(), version: typeof version === 'string' ? version : null, scope });
+      }
+    }
+  }
+  return dependencies;
+};
+
+const parseComposerLock = (content) => {
+  const lock = JSON.parse(content);
+  return [...(lock.packages || []), ...(lock['packages-dev'] || [])]
+    .filter(entry => entry && typeof entry.name === 'string' && typeof entry.version === 'string')
+    .map(entry => ({
+      name: entry.name.toLowerCase(),
+      version: entry.version.replace(/^v(?=\d)/, ''),
+      scope: null,
+      ...(Array.isArray(entry.license) && entry.license.length > 0 ? { license: entry.license.join(' OR ') } : {})
+    }));
+};
+
+// Ecosystem names follow OSV so advisories can be matched against them.
+// `companions` are lockfiles looked for next to the manifest: the tree crawl
+// skips *.lock files, so they cannot be found in the stored tree
+const MANIFEST_TYPES = [
+  { match: name => name === 'package.json', ecosystem: 'npm', kind: 'manifest', parse: parsePackageJson, companions: ['yarn.lock'] },
+  { match: name => name === 'package-lock.json' || name === 'npm-shrinkwrap.json', ecosystem: 'npm', kind: 'lockfile', parse: parsePackageLock },
+  { match: name => name === 'yarn.lock', ecosystem: 'npm', kind: 'lockfile', parse: parseYarnLock },
+  { match: name => name === 'pnpm-lock.yaml', ecosystem: 'npm', kind: 'lockfile', parse: parsePnpmLock },
+  { match: name => /^requirements.*\.txt$/.test(name), ecosystem: 'PyPI', kind: 'manifest', parse: parseRequirementsTxt },
+  { match: name => name === 'pyproject.toml', ecosystem: 'PyPI', kind: 'manifest', parse: parsePyproject, companions: ['poetry.lock'] },
+  { match: name => name === 'poetry.lock', ecosystem: 'PyPI', kind: 'lockfile', parse: parseTomlPackageLock(normalizePythonName, false) },
+  { match: name => name === 'go.mod', ecosystem: 'Go', kind: 'manifest', parse: parseGoMod },
+  { match: name => name === 'cargo.toml', ecosystem: 'crates.io', kind: 'manifest', parse: parseCargoToml, companions: ['Cargo.lock'] },
+  { match: name => name === 'cargo.lock', ecosystem: 'crates.io', kind: 'lockfile', parse: parseTomlPackageLock(name => name, true) },
+  { match: name => name === 'pom.xml', ecosystem: 'Maven', kind: 'manifest', parse: parsePomXml },
+  { match: name => name === 'build.gradle' || name === 'build.gradle.kts', ecosystem: 'Maven', kind: 'manifest', parse: parseGradle },
+  { match: name => name === 'gemfile', ecosystem: 'RubyGems', kind: 'manifest', parse: parseGemfile, companions: ['Gemfile.lock'] },
+  { match: name => name === 'gemfile.lock', ecosystem: 'RubyGems', kind: 'lockfile', parse: parseGemfileLock },
+  { match: name => name === 'composer.json', ecosystem: 'Packagist', kind: 'manifest', parse: parseComposerJson, companions: ['composer.lock'] },
+  { match: name => name === 'composer.lock', ecosystem: 'Packagist', kind: 'lockfile', parse: parseComposerLock }
+];
+
+const getManifestType = (fileName) => {
+  const name = fileName.toLowerCase();
+  return MANIFEST_TYPES.find(type => type.match(name)) || null;
+};
+
+const isManifestFile = (fileName) => getManifestType(fileName) !== null;
+
+// Package names as the parsers produce them, for matching names from other
+// sources such as advisories
+const normalizePackageName = (ecosystem, name) => {
+  if (ecosystem === 'PyPI') return normalizePythonName(name);
+  if (ecosystem === 'Packagist') return name.toLowerCase();
+  return name;
+};
+
+// Dependencies declared by a manifest, without duplicates. Throws when the
+// content cannot be parsed, e.g. invalid JSON
+const parseManifest = (fileName, content) => {
+  const type = getManifestType(fileName);
+  if (!type) {
+    return [];
+  }
+  const seen = new Set();
+  return type.parse(content, fileName).filter(dependency => {
+    const key = `${dependency.name}@${dependency.version}:${dependency.scope}`;
+    if (!dependency.name || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+module.exports = {
+  DEPENDENCY_SCOPES,
+  MANIFEST_TYPES,
+  getManifestType,
+  isManifestFile,
+  normalizePackageName,
+  parseManifest,
+  readTomlEntries,
+  tomlString
+};
@@ -0,0 +1,323 @@
+const axios = require('axios');
+
+// Files/folders to skip for performance
+const skipPatterns = [
+  'node_modules', '.git', 'dist', 'build', '.next', '.nuxt',
+  'coverage', '.nyc_output', '.cache', '.parcel-cache',
+  '*.log', '*.lock', '*.min.js', '*.min.css', '*.map'
+];
+
+const shouldSkip = (name) => {
+  return skipPatterns.some(pattern => {
+    if (pattern.includes('*')) {
+      const regex = new RegExp(pattern.replace(/\*/g, '.*'));
+      return regex.test(name);
+    }
+    return name === pattern;
+  });
+};
+
+// A path is skipped when any of its segments matches a skip pattern
+const isSkippedPath = (path) => path.split('/').some(shouldSkip);
+
+// Retry utility with exponential backoff
+const retryWithBackoff = async (fn, maxRetries = 3, baseDelay = 1000) => {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt === maxRetries) {
+        throw error;
+      }
+
+      // Don't retry on certain errors
+      if (error.response?.status === 404 || error.response?.status === 403) {
+        throw error;
+      }
+
+      const delay = baseDelay * Math.pow(2, attempt - 1);
+      console.log(`Attempt ${attempt} failed, retrying in ${delay}ms...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+};
+
+const fetchTree = async (owner, repo, treeSha, githubToken, recursive) => {
+  const headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
+  const response = await retryWithBackoff(async () => {
+    return await axios.get(
+      `https://api.github.com/repos/${owner}/${repo}/git/trees/${treeSha}${recursive ? '?recursive=1' : ''}`,
+      { headers, timeout: 15000 }
+    );
+  });
+  return response.data;
+};
+
+const normalizeTreePath = (path) => (path || '').trim().replace(/^\/+|\/+$/g, '');
+
+const encodeRef = (ref) => ref.split('/').map(encodeURIComponent).join('/');
+
+// Resolve a branch, tag or commit SHA to a full commit SHA, or null if GitHub doesn't know it
+const resolveCommit = async (owner, repo, ref, githubToken = null) => {
+  const headers = {
+    Accept: 'application/vnd.github.sha',
+    ...(githubToken ? { Authorization: `token ${githubToken}` } : {})
+  };
+  const response = await retryWithBackoff(async () => {
+    return await axios.get(
+      `https://api.github.com/repos/${owner}/${repo}/commits/${encodeRef(ref)}`,
+      {
+        headers,
+        timeout: 10000,
+        responseType: 'text',
+        validateStatus: (status) => status < 500 // Don't throw for 4xx errors
+      }
+    );
+  });
+
+  if (response.status === 404 || response.status === 422) {
+    return null;
+  }
+
+  if (response.status >= 400) {
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+
+  return String(response.data).trim();
+};
+
+/**
+ * Split the `<ref>/<path>` part of a `/tree/` or `/blob/` URL.
+ *
+ * Branch names may contain slashes, so each leading run of segments is tried
+ * as a ref, shortest first; git forbids a branch `a` next to a branch `a/b`,
+ * so the first match is the only one.
+ */
+const resolveRefPath = async (owner, repo, refPath, githubToken = null) => {
+  const segments = normalizeTreePath(refPath).split('/');
+
+  for (let i = 1; i <= segments.length; i++) {
+    const ref = segments.slice(0, i).join('/');
+    const commitSha = await resolveCommit(owner, repo, ref, githubToken);
+    if (commitSha) {
+      return { ref, commitSha, path: segments.slice(i).join('/') };
+    }
+  }
+
+  throw new Error(`Ref '${segments[0]}' not found in ${owner}/${repo}. Please check the branch, tag or commit.`);
+};
+
+// Walk from a commit's root tree down to the tree SHA of a subdirectory
+const resolveTreePath = async (owner, repo, commitSha, path, githubToken = null) => {
+  const normalizedPath = normalizeTreePath(path);
+  let treeSha = commitSha;
+
+  if (!normalizedPath) {
+    return treeSha;
+  }
+
+  for (const segment of normalizedPath.split('/')) {
+    const level = await fetchTree(owner, repo, treeSha, githubToken, false);
+    const match = level.tree.find(item => item.path === segment && item.type === 'tree');
+    if (!match) {
+      throw new Error(`Directory '${normalizedPath}' not found at ${commitSha.substring(0, 7)}. Please check the subdirectory path.`);
+    }
+    treeSha = match.sha;
+  }
+
+  return treeSha;
+};
+
+/**
+ * Fetch every entry of a repository tree using the Git Trees API.
+ *
+ * One recursive request covers most repositories. When GitHub reports the
+ * listing as `truncated`, the tree is walked one directory at a time instead,
+ * still trying a recursive fetch for each subtree first so only the oversized
+ * directories pay for per-level requests. Skipped folders are never descended.
+ *
+ * Entries are returned with paths relative to the repository root; pass
+ * `basePath` when `treeSha` is a subdirectory rather than the root tree.
+ * `onEntries` receives each batch as soon as it has been fetched.
+ */
+const fetchRepositoryEntries = async (owner, repo, treeSha, githubToken = null, options = {}) => {
+  const {
+    isCancelled = () => false,
+    onDirectory = () => {},
+    onEntries = () => {},
+    basePath = ''
+  } = options;
+
+  const collect = async (sha, prefix) => {
+    if (isCancelled()) {
+      throw new Error('Analysis cancelled by user');
+    }
+    onDirectory(prefix);
+
+    const withPrefix = (item) => ({
+      path: prefix ? `${prefix}/${item.path}` : item.path,
+      type: item.type,
+      sha: item.sha,
+      size: item.size
+    });
+
+    const recursiveTree = await fetchTree(owner, repo, sha, githubToken, true);
+    if (!recursiveTree.truncated) {
+      const entries = recursiveTree.tree.map(withPrefix);
+      onEntries(prefix, entries);
+      return entries;
+    }
+
+    console.log(`Tree listing truncated at '${prefix || '/'}', fetching per directory`);
+    const levelTree = await fetchTree(owner, repo, sha, githubToken, false);
+    const levelEntries = levelTree.tree.map(withPrefix);
+    onEntries(prefix, levelEntries);
+
+    const entries = [];
+    for (const entry of levelEntries) {
+      entries.push(entry);
+      if (entry.type === 'tree' && !shouldSkip(entry.path.split('/').pop())) {
+        entries.push(...await collect(entry.sha, entry.path));
+      }
+    }
+    return entries;
+  };
+
+  return collect(treeSha, normalizeTreePath(basePath));
+};
+
+// Path relative to `rootPath`, or null when the entry lies outside it
+const toRelativePath = (path, rootPath) => {
+  if (!rootPath) {
+    return path;
+  }
+  return path.startsWith(`${rootPath}/`) ? path.slice(rootPath.length + 1) : null;
+};
+
+// Hosts that may receive the GitHub token when fetching file content
+const GITHUB_CONTENT_HOSTS = ['raw.githubusercontent.com', 'api.github.com'];
+
+const buildDownloadUrl = (owner, repo, ref, path) => {
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+  return `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${encodedPath}`;
+};
+
+/**
+ * Build the nested FileNode structure from flat Git Trees entries.
+ *
+ * Mirrors the shape the per-directory crawler used to produce: folders at or
+ * beyond `maxDepth` are kept but left empty and marked `truncated`, and
+ * anything matching the skip patterns is dropped along with its subtree.
+ * With a `basePath`, the tree is rooted at that subdirectory and depths are
+ * counted from it.
+ */
+const buildFileTreeFromEntries = (entries, { owner, repo, ref, maxDepth, basePath = '' }) => {
+  const rootPath = normalizeTreePath(basePath);
+  const root = {
+    name: rootPath ? rootPath.split('/').pop() : repo,
+    type: 'folder',
+    children: [],
+    depth: 0,
+    actualDepth: 0,
+    maxDepth: maxDepth
+  };
+  if (rootPath) {
+    root.path = rootPath;
+  }
+  const folders = new Map([['', root]]);
+
+  // Parents must be placed before their children; the sort is stable so
+  // siblings keep GitHub's ordering
+  const ordered = [...entries]
+    .map(entry => ({ entry, relativePath: toRelativePath(entry.path, rootPath) }))
+    .filter(({ relativePath }) => relativePath !== null)
+    .sort((a, b) => a.relativePath.split('/').length - b.relativePath.split('/').length);
+
+  for (const { entry, relativePath } of ordered) {
+    const segments = relativePath.split('/');
+    const name = segments[segments.length - 1];
+    const parent = folders.get(segments.slice(0, -1).join('/'));
+
+    // Parent was skipped or sits at the depth limit
+    if (!parent || shouldSkip(name)) {
+      continue;
+    }
+
+    const level = segments.length;
+
+    if (entry.type === 'tree') {
+      const folder = {
+        name,
+        type: 'folder',
+        path: entry.path,
+        children: [],
+        depth: level,
+        actualDepth: level,
+        maxDepth: maxDepth
+      };
+      if (level >= maxDepth) {
+        folder.truncated = true;
+        folder.message = `Maximum depth (${maxDepth}) reached`;
+      } else {
+        folders.set(relativePath, folder);
+      }
+      parent.children.push(folder);
+    } else {
+      // Submodules ('commit' entries) have no content to download
+      parent.children.push({
+        name,
+        type: 'file',
+        path: entry.path,
+        download_url: entry.type === 'blob' ? buildDownloadUrl(owner, repo, ref, entry.path) : null,
+        size: entry.size || 0,
+        sha: entry.sha,
+        depth: level - 1,
+        actualDepth: level - 1,
+        maxDepth: maxDepth
+      });
+    }
+  }
+
+  return root;
+};
+
+// Count files and folders and measure the real depth of the whole repository (or subdirectory)
+const summarizeEntries = (entries, basePath = '') => {
+  const rootPath = normalizeTreePath(basePath);
+  let files = 0;
+  let folders = 0;
+  let depth = 0;
+
+  for (const entry of entries) {
+    const relativePath = toRelativePath(entry.path, rootPath);
+    if (relativePath === null || isSkippedPath(relativePath)) {
+      continue;
+    }
+
+    if (entry.type === 'tree') {
+      folders++;
+      // Count the depth by counting path separators (add 1 for root level)
+      depth = Math.max(depth, relativePath.split('/').length + 1);
+    } else {
+      files++;
+    }
+  }
+
+  return { files, folders, depth };
+};
+
+module.exports = {
+  skipPatterns,
+  shouldSkip,
+  isSkippedPath,
+  retryWithBackoff,
+  normalizeTreePath,
+  resolveCommit,
+  resolveRefPath,
+  resolveTreePath,
+  fetchRepositoryEntries,
+  buildFileTreeFromEntries,
+  GITHUB_CONTENT_HOSTS,
+  buildDownloadUrl,
+  summarizeEntries
+};
@@ -0,0 +1,359 @@
+const { readTomlEntries, tomlString } = require('./dependencyManifests');
+
+// Identify licenses as SPDX ids from license file texts, manifest license
+// fields and source file headers, and sort them into how much they ask of
+// the code that uses them
+
+// Permissive licenses only ask for attribution; weak copyleft covers changes
+// to the licensed files or library; strong copyleft extends to the whole
+// program it is combined with (AGPL even when only served over a network)
+const LICENSE_CATEGORIES = ['permissive', 'weak-copyleft', 'strong-copyleft'];
+
+const LICENSE_CATEGORY_BY_ID = {
+  '0BSD': 'permissive',
+  'AFL-3.0': 'permissive',
+  'Apache-1.1': 'permissive',
+  'Apache-2.0': 'permissive',
+  'Artistic-2.0': 'permissive',
+  'BlueOak-1.0.0': 'permissive',
+  'BSD-2-Clause': 'permissive',
+  'BSD-3-Clause': 'permissive',
+  'BSD-3-Clause-Clear': 'permissive',
+  'BSL-1.0': 'permissive',
+  'CC-BY-3.0': 'permissive',
+  'CC-BY-4.0': 'permissive',
+  'CC0-1.0': 'permissive',
+  'ISC': 'permissive',
+  'MIT': 'permissive',
+  'MIT-0': 'permissive',
+  'PostgreSQL': 'permissive',
+  'PSF-2.0': 'permissive',
+  'Python-2.0': 'permissive',
+  'Ruby': 'permissive',
+  'Unicode-DFS-2016': 'permissive',
+  'Unicode-3.0': 'permissive',
+  'Unlicense': 'permissive',
+  'UPL-1.0': 'permissive',
+  'W3C': 'permissive',
+  'WTFPL': 'permissive',
+  'X11': 'permissive',
+  'Zlib': 'permissive',
+  'CDDL-1.0': 'weak-copyleft',
+  'CDDL-1.1': 'weak-copyleft',
+  'CPL-1.0': 'weak-copyleft',
+  'EPL-1.0': 'weak-copyleft',
+  'EPL-2.0': 'weak-copyleft',
+  'LGPL-2.0': 'weak-copyleft',
+  'LGPL-2.1': 'weak-copyleft',
+  'LGPL-3.0': 'weak-copyleft',
+  'MPL-1.1': 'weak-copyleft',
+  'MPL-2.0': 'weak-copyleft',
+  'AGPL-1.0': 'strong-copyleft',
+  'AGPL-3.0': 'strong-copyleft',
+  'CC-BY-SA-4.0': 'strong-copyleft',
+  'EUPL-1.1': 'strong-copyleft',
+  'EUPL-1.2': 'strong-copyleft',
+  'GPL-1.0': 'strong-copyleft',
+  'GPL-2.0': 'strong-copyleft',
+  'GPL-3.0': 'strong-copyleft',
+  'OSL-3.0': 'strong-copyleft',
+  'SSPL-1.0': 'strong-copyleft'
+};
+
+const KNOWN_IDS = new Map(Object.keys(LICENSE_CATEGORY_BY_ID).map(id => [id.toLowerCase(), id]));
+
+// Lowercase words only, so punctuation, line wrapping and markdown in a
+// license file do not get in the way of phrase matching
+const normalizeText = (text) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Distinctive phrases of each license text, all of which must appear. GNU
+// licenses mention each other, so they are told apart by the title that
+// comes first and the version line instead. Otherwise earlier entries win,
+// so a text is checked against the stricter variant of a family first
+const LICENSE_TEXTS = [
+  { id: 'AGPL-3.0', title: 'gnu affero general public license' },
+  { id: 'LGPL-3.0', title: 'gnu lesser general public license', phrases: ['version 3 29 june 2007'] },
+  { id: 'LGPL-2.1', title: 'gnu lesser general public license', phrases: ['version 2 1 february 1999'] },
+  { id: 'LGPL-2.0', title: 'gnu library general public license' },
+  { id: 'GPL-3.0', title: 'gnu general public license', phrases: ['version 3 29 june 2007'] },
+  { id: 'GPL-2.0', title: 'gnu general public license', phrases: ['version 2 june 1991'] },
+  { id: 'GPL-1.0', title: 'gnu general public license', phrases: ['version 1 february 1989'] },
+  { id: 'MPL-2.0', title: 'mozilla public license', phrases: ['version 2 0'] },
+  { id: 'MPL-1.1', title: 'mozilla public license', phrases: ['version 1 1'] },
+  { id: 'EPL-2.0', title: 'eclipse public license', phrases: ['v 2 0'] },
+  { id: 'EPL-1.0', title: 'eclipse public license', phrases: ['v 1 0'] },
+  { id: 'EUPL-1.2', title: 'european union public licence', phrases: ['v 1 2'] },
+  { id: 'EUPL-1.1', title: 'european union public licence', phrases: ['v 1 1'] },
+  { id: 'CDDL-1.1', title: 'common development and distribution license', phrases: ['version 1 1'] },
+  { id: 'CDDL-1.0', title: 'common development and distribution license', phrases: ['version 1 0'] },
+  { id: 'SSPL-1.0', title: 'server side public license', phrases: ['version 1'] },
+  { id: 'Apache-2.0', phrases: ['apache license', 'version 2 0', 'terms and conditions for use reproduction and distribution'] },
+  { id: 'Artistic-2.0', phrases: ['the artistic license 2 0'] },
+  { id: 'BSL-1.0', phrases: ['boost software license version 1 0'] },
+  { id: 'Unlicense', phrases: ['this is free and unencumbered software released into the public domain'] },
+  { id: 'CC0-1.0', phrases: ['cc0 1 0 universal'] },
+  { id: 'WTFPL', phrases: ['do what the fuck you want to public license'] },
+  { id: 'UPL-1.0', phrases: ['universal permissive license'] },
+  { id: 'Zlib', phrases: ['altered source versions must be plainly marked as such', 'this notice may not be removed or altered from any source distribution'] },
+  {
+    id: 'BSD-3-Clause',
+    phrases: ['redistribution and use in source and binary forms with or without modification are permitted', 'neither the name of']
+  },
+  { id: 'BSD-2-Clause', phrases: ['redistribution and use in source and binary forms with or without modification are permitted'] },
+  {
+    id: 'MIT',
+    phrases: ['permission is hereby granted free of charge to any person obtaining a copy', 'the above copyright notice and this permission notice shall be included']
+  },
+  { id: 'MIT-0', phrases: ['permission is hereby granted free of charge to any person obtaining a copy'] },
+  {
+    id: 'ISC',
+    phrases: ['distribute this software for any purpose with or without fee is hereby granted', 'provided that the above copyright notice and this permission notice appear in all copies']
+  },
+  { id: '0BSD', phrases: ['distribute this software for any purpose with or without fee is hereby granted'] }
+].map(entry => ({ ...entry, phrases: entry.phrases || [] }));
+
+// License files often open with a line or two of copyright before the title
+const TITLE_WINDOW_CHARS = 600;
+
+const SPDX_TAG_PATTERN = /SPDX-License-Identifier:\s*([^\n\r]+)/;
+
+// The SPDX expression of an SPDX-License-Identifier tag, without the comment
+// syntax around it
+const readSpdxTag = (text) => {
+  const match = SPDX_TAG_PATTERN.exec(text);
+  if (!match) return null;
+  const expression = match[1].replace(/\s*(\*\/|-->|#\}|--\}|"""|''').*$/, '').trim();
+  return expression ? normalizeExpression(expression) : null;
+};
+
+// Common ways manifests and headers name a license without its SPDX id
+const LICENSE_NAME_RULES = [
+  [/affero|\bagpl/, (version) => `AGPL-${version === '1' ? '1.0' : '3.0'}`],
+  [/lesser|library general|\blgpl/, (version) => ({ 2: 'LGPL-2.0', '2.1': 'LGPL-2.1' }[version] || 'LGPL-3.0')],
+  [/general public licen[cs]e|\bgpl/, (version) => ({ 1: 'GPL-1.0', 2: 'GPL-2.0' }[version] || 'GPL-3.0')],
+  [/mozilla|\bmpl/, (version) => (version === '1.1' ? 'MPL-1.1' : 'MPL-2.0')],
+  [/eclipse|\bepl/, (version) => (version === '1' ? 'EPL-1.0' : 'EPL-2.0')],
+  [/european union|\beupl/, (version) => (version === '1.1' ? 'EUPL-1.1' : 'EUPL-1.2')],
+  [/common development|\bcddl/, (version) => (version === '1.1' ? 'CDDL-1.1' : 'CDDL-1.0')],
+  [/server side public|\bsspl/, () => 'SSPL-1.0'],
+  [/apache/, (version) => (version === '1.1' ? 'Apache-1.1' : 'Apache-2.0')],
+  [/boost/, () => 'BSL-1.0'],
+  [/\bbsd\b.*\b2\b|simplified bsd|freebsd/, () => 'BSD-2-Clause'],
+  [/\bbsd/, () => 'BSD-3-Clause'],
+  [/\bmit\b|\bexpat\b/, () => 'MIT'],
+  [/\bisc\b/, () => 'ISC'],
+  [/unlicense/, () => 'Unlicense'],
+  [/\bcc0|public domain/, () => 'CC0-1.0'],
+  [/python software foundation|\bpsf\b/, () => 'PSF-2.0'],
+  [/artistic/, () => 'Artistic-2.0'],
+  [/\bzlib\b/, () => 'Zlib'],
+  [/wtfpl/, () => 'WTFPL']
+];
+
+// The SPDX id of a single license name such as "Apache License, Version 2.0",
+// "GPLv3+" or "mit", or the name as given when it is not recognized.
+// -only, -or-later and + suffixes are dropped, since they do not change the
+// category
+const normalizeLicenseName = (name) => {
+  const trimmed = String(name).trim().replace(/^\(|\)$/g, '');
+  const base = trimmed.replace(/(-only|-or-later|\+)$/i, '');
+  const known = KNOWN_IDS.get(base.toLowerCase());
+  if (known) return known;
+
+  const lower = trimmed.toLowerCase().replace(/[_-]/g, ' ');
+  const version = (lower.match(/(?:v|version\s*|\s)(\d(?:\.\d)?)\b/) || [])[1]?.replace(/\.0$/, '');
+  for (const [pattern, toId] of LICENSE_NAME_RULES) {
+    if (pattern.test(lower)) return toId(version);
+  }
+  return trimmed;
+};
+
+// Normalize every license in an SPDX expression, keeping its AND/OR/WITH
+// structure, e.g. "(mit OR Apache 2.0)" becomes "MIT OR Apache-2.0"
+const normalizeExpression = (expression) => expression
+  .replace(/^\(\s*(.*?)\s*\)$/, '$1')
+  .split(/\s+(OR|AND)\s+/i)
+  .map((part, index) => {
+    if (index % 2 === 1) return part.toUpperCase();
+    const [license, exception] = part.split(/\s+WITH\s+/i);
+    const id = normalizeLicenseName(license);
+    return exception ? `${id} WITH ${exception.trim()}` : id;
+  })
+  .join(' ');
+
+// Category of one license of an expression. GPL with a linking exception
+// (e.g. Classpath) behaves like weak copyleft
+const licenseCategory = (license) => {
+  const [name, exception] = license.split(/\s+WITH\s+/i);
+  const category = LICENSE_CATEGORY_BY_ID[normalizeLicenseName(name)] || null;
+  if (category === 'strong-copyleft' && exception && /classpath|linking|runtime|gcc|font|autoconf|bison/i.test(exception)) {
+    return 'weak-copyleft';
+  }
+  return category;
+};
+
+const categoryRank = (category) => LICENSE_CATEGORIES.indexOf(category);
+
+// Category of an SPDX expression: with OR the user may pick the least
+// demanding license, with AND all of them apply. null when a license that
+// matters cannot be placed
+const expressionCategory = (expression) => {
+  if (!expression) return null;
+  const alternatives = expression
+    .replace(/[()]/g, ' ')
+    .split(/\s+OR\s+/i)
+    .map(alternative => {
+      const categories = alternative.split(/\s+AND\s+/i).map(license => licenseCategory(license.trim()));
+      if (categories.includes('strong-copyleft')) return 'strong-copyleft';
+      if (categories.includes(null)) return null;
+      return categories.reduce((strongest, category) => (categoryRank(category) > categoryRank(strongest) ? category : strongest));
+    });
+  const known = alternatives.filter(Boolean);
+  if (known.length === 0) return null;
+  return known.reduce((weakest, category) => (categoryRank(category) < categoryRank(weakest) ? category : weakest));
+};
+
+// The license a license file's text is, or null. An SPDX tag in the file is
+// taken at its word; otherwise the text is matched against LICENSE_TEXTS and
+// finally the first line, which is often just the license name
+const identifyLicenseText = (text) => {
+  const tagged = readSpdxTag(text);
+  if (tagged) return { license: tagged, method: 'spdx-tag' };
+
+  const normalized = normalizeText(text);
+  const top = normalized.substring(0, TITLE_WINDOW_CHARS);
+  const titleIndex = (entry) => (entry.title ? top.indexOf(entry.title) : TITLE_WINDOW_CHARS);
+  const [match] = LICENSE_TEXTS
+    .filter(entry => titleIndex(entry) !== -1 && entry.phrases.every(phrase => normalized.includes(phrase)))
+    .sort((a, b) => titleIndex(a) - titleIndex(b));
+  if (match) return { license: match.id, method: 'text' };
+
+  const firstLine = text.split('\n').map(line => line.replace(/^[#=\s*-]+|[#=\s*-]+$/g, '')).find(Boolean);
+  if (firstLine && firstLine.length <= 80) {
+    const named = normalizeLicenseName(firstLine);
+    if (LICENSE_CATEGORY_BY_ID[named]) return { license: named, method: 'title' };
+  }
+  return null;
+};
+
+// License notices that source files carry in their header comment
+const HEADER_PHRASES = [
+  [/licensed under the apache license,?\s+version 2\.0/i, 'Apache-2.0'],
+  [/gnu affero general public license/i, 'AGPL-3.0'],
+  [/gnu lesser general public license[\s\S]{0,200}?version 2\.1/i, 'LGPL-2.1'],
+  [/gnu lesser general public license/i, 'LGPL-3.0'],
+  [/gnu general public license[\s\S]{0,200}?version 2\b/i, 'GPL-2.0'],
+  [/gnu general public license/i, 'GPL-3.0'],
+  [/subject to the terms of the mozilla public\s+license,?\s+v\.?\s*2\.0/i, 'MPL-2.0'],
+  [/eclipse public license v?\s*2\.0/i, 'EPL-2.0'],
+  [/licensed under the mit license|released under the mit license/i, 'MIT'],
+  [/governed by a bsd-style license/i, 'BSD-3-Clause']
+];
+
+const HEADER_LINES = 30;
+
+// The license a source file's header declares, or null
+const identifyHeaderLicense = (content) => {
+  const header = content.split('\n').slice(0, HEADER_LINES).join('\n');
+  const tagged = readSpdxTag(header);
+  if (tagged) return tagged;
+  const match = HEADER_PHRASES.find(([pattern]) => pattern.test(header));
+  return match ? match[1] : null;
+};
+
+// Python trove classifiers such as "License :: OSI Approved :: MIT License"
+const fromClassifiers = (classifiers) => classifiers
+  .filter(classifier => classifier.startsWith('License ::'))
+  .map(classifier => normalizeLicenseName(classifier.split('::').pop()))
+  .filter(license => LICENSE_CATEGORY_BY_ID[license]);
+
+// Licenses found side by side, read as a choice between them
+const joinAlternatives = (licenses) => {
+  const unique = [...new Set(licenses.filter(Boolean))];
+  return unique.length > 0 ? unique.join(' OR ') : null;
+};
+
+// License field readers per manifest file name; each returns an expression
+// or null
+const MANIFEST_LICENSE_READERS = [
+  {
+    match: (name) => name === 'package.json' || name === 'composer.json',
+    read: (content) => {
+      const manifest = JSON.parse(content);
+      const license = manifest.license ?? manifest.licenses;
+      if (typeof license === 'string') return license;
+      const entries = Array.isArray(license) ? license : license ? [license] : [];
+      return joinAlternatives(entries.map(entry => (typeof entry === 'string' ? entry : entry?.type)));
+    }
+  },
+  {
+    match: (name) => name === 'Cargo.toml' || name === 'pyproject.toml',
+    read: (content) => {
+      const entries = readTomlEntries(content);
+      const field = entries.find(entry => ['package', 'project', 'tool.poetry'].includes(entry.table) && entry.key === 'license');
+      if (field) {
+        const text = field.value.startsWith('{') ? (field.value.match(/text\s*=\s*["']([^"']+)/) || [])[1] : tomlString(field.value);
+        if (text) return text;
+      }
+      const classifiers = entries.find(entry => ['project', 'tool.poetry'].includes(entry.table) && entry.key === 'classifiers');
+      return classifiers ? joinAlternatives(fromClassifiers([...classifiers.value.matchAll(/"([^"]+)"|'([^']+)'/g)].map(m => m[1] ?? m[2]))) : null;
+    }
+  },
+  {
+    match: (name) => name === 'pom.xml',
+    read: (content) => {
+      const licenses = (content.match(/<licenses>([\s\S]*?)<\/licenses>/) || [])[1] || '';
+      return joinAlternatives([...licenses.matchAll(/<name>\s*([^<]+?)\s*<\/name>/g)].map(match => match[1]));
+    }
+  },
+  {
+    match: (name) => name.endsWith('.gemspec'),
+    read: (content) => {
+      const single = content.match(/\.license\s*=\s*["']([^"']+)["']/);
+      if (single) return single[1];
+      const list = content.match(/\.licenses\s*=\s*\[([^\]]*)\]|\.licenses\s*=\s*%w\[([^\]]*)\]/);
+      if (!list) return null;
+      return list[1] !== undefined
+        ? joinAlternatives([...list[1].matchAll(/["']([^"']+)["']/g)].map(match => match[1]))
+        : joinAlternatives(list[2].trim().split(/\s+/));
+    }
+  },
+  {
+    match: (name) => name === 'setup.py' || name === 'setup.cfg',
+    read: (content) => {
+      const field = content.match(/^\s*license\s*=\s*(?:["']([^"'\n]+)["']|([\w.+ -]+?)\s*$)/m);
+      if (field) return field[1] || field[2];
+      const classifiers = [...content.matchAll(/License ::[^"'\n]+/g)].map(match => match[0].trim());
+      return joinAlternatives(fromClassifiers(classifiers));
+    }
+  }
+];
+
+const isLicenseManifest = (name) => MANIFEST_LICENSE_READERS.some(reader => reader.match(name));
+
+// The normalized license expression a manifest declares, or null. Throws when
+// the manifest cannot be parsed
+const readManifestLicense = (name, content) => {
+  const reader = MANIFEST_LICENSE_READERS.find(candidate => candidate.match(name));
+  const license = reader ? reader.read(content) : null;
+  // npm uses these for packages that are not open source
+  if (!license || /^(UNLICENSED|SEE LICENSE IN\b)/i.test(license)) return null;
+  return normalizeExpression(license);
+};
+
+const LICENSE_FILE_PATTERN = /^(licen[cs]e|copying|unlicense|copyright)([.-][\w.-]*)?$/i;
+
+const isLicenseFile = (name) => LICENSE_FILE_PATTERN.test(name) && !/\.(js|ts|py|rb|go|rs|java|json|ya?ml|html)$/i.test(name);
+
+module.exports = {
+  LICENSE_CATEGORIES,
+  normalizeLicenseName,
+  normalizeExpression,
+  expressionCategory,
+  identifyLicenseText,
+  identifyHeaderLicense,
+  isLicenseFile,
+  isLicenseManifest,
+  joinAlternatives,
+  readManifestLicense
+};
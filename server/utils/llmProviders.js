@@ -0,0 +1,369 @@
+const axios = require("axios");
+const { GoogleGenerativeAI } = require("@google/generative-ai");
+
+// LLM providers behind one generateText() call. The default provider comes
+// from LLM_PROVIDER; callers may pick another provider and model per request.
+//
+// Each provider exposes:
+//   id, name            identifiers shown to clients
+//   isAvailable()       whether it is configured on this server
+//   getModels()         models that may be requested (async)
+//   defaultModel()      model used when none is requested
+//   generate(options)   resolve to the generated text. options.responseSchema,
+//                       when set, is a JSON Schema the reply must follow
+//   stream(options)     like generate, but calls options.onText with each
+//                       piece of text as it arrives and stops when
+//                       options.signal aborts
+
+const splitList = (value) =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Thrown when the requested provider or model cannot be used; routes answer 400
+class LLMSelectionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "LLMSelectionError";
+  }
+}
+
+// Google Gemini
+let genAI = null;
+if (process.env.GEMINI_API_KEY) {
+  genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+}
+
+const geminiModels = () => {
+  const configured = splitList(process.env.GEMINI_MODELS);
+  return configured.length > 0 ? configured : ["gemini-2.5-flash"];
+};
+
+// Gemini takes an OpenAPI-style subset of JSON Schema: nullable instead of
+// a null type, enums marked with format, and no $schema, title,
+// additionalProperties or numeric and length limits
+const toGeminiSchema = (schema) => {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const type = types.find((candidate) => candidate !== "null");
+  const converted = { type };
+  if (types.includes("null")) converted.nullable = true;
+  if (schema.description) converted.description = schema.description;
+  if (schema.enum) {
+    converted.format = "enum";
+    converted.enum = schema.enum;
+  }
+  if (schema.items) converted.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, child]) => [key, toGeminiSchema(child)])
+    );
+  }
+  if (schema.required) converted.required = schema.required;
+  return converted;
+};
+
+const geminiProvider = {
+  id: "gemini",
+  name: "Google Gemini",
+  isAvailable: () => !!genAI,
+  getModels: async () => geminiModels(),
+  defaultModel: () => geminiModels()[0],
+  generate: async ({ prompt, model, temperature, topP, topK, maxOutputTokens, responseSchema }) => {
+    const generationConfig = { temperature, topP, topK, maxOutputTokens };
+    if (responseSchema) {
+      generationConfig.responseMimeType = "application/json";
+      generationConfig.responseSchema = toGeminiSchema(responseSchema);
+    }
+    const generativeModel = genAI.getGenerativeModel({ model, generationConfig });
+    const result = await generativeModel.generateContent(prompt);
+    const response = await result.response;
+    return response.text();
+  },
+  stream: async ({ prompt, model, temperature, topP, topK, maxOutputTokens, signal, onText }) => {
+    const generativeModel = genAI.getGenerativeModel({
+      model,
+      generationConfig: { temperature, topP, topK, maxOutputTokens },
+    });
+    const result = await generativeModel.generateContentStream(prompt, { signal });
+    for await (const chunk of result.stream) {
+      onText(chunk.text());
+    }
+  },
+};
+
+// OpenAI-compatible chat completions, e.g. a local Ollama or llama.cpp server
+const openAIBaseUrl = () => (process.env.OPENAI_BASE_URL || "").replace(/\/+$/, "");
+const openAIHeaders = () =>
+  process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {};
+
+// Models reported by the server are cached briefly so /status stays cheap
+const MODEL_LIST_TTL_MS = 60 * 1000;
+let openAIModelCache = { models: null, fetchedAt: 0 };
+
+// Models whose server rejected a json_schema response_format. They get the
+// schema through the prompt only from then on
+const modelsWithoutSchemaSupport = new Set();
+
+const postChatCompletion = (body) =>
+  axios.post(`${openAIBaseUrl()}/chat/completions`, body, {
+    headers: openAIHeaders(),
+    timeout: 120000,
+  });
+
+// Call onText with the content of each delta in an OpenAI-style SSE stream
+const readChatCompletionStream = (stream, onText) =>
+  new Promise((resolve, reject) => {
+    let buffer = "";
+    stream.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      const lines = buffer.split("\n");
+      buffer = lines.pop();
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, "");
+        if (!line.trim().startsWith("data:") || data === "[DONE]") continue;
+        try {
+          const text = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (text) onText(text);
+        } catch (error) {
+          console.log("⚠️ Skipping malformed stream chunk:", error.message);
+        }
+      }
+    });
+    stream.on("end", resolve);
+    stream.on("error", reject);
+  });
+
+const openAIProvider = {
+  id: "openai",
+  name: "OpenAI-compatible",
+  isAvailable: () => !!openAIBaseUrl(),
+  getModels: async () => {
+    const configured = splitList(process.env.OPENAI_MODELS);
+    if (configured.length > 0) return configured;
+
+    if (openAIModelCache.models && Date.now() - openAIModelCache.fetchedAt < MODEL_LIST_TTL_MS) {
+      return openAIModelCache.models;
+    }
+    try {
+      const response = await axios.get(`${openAIBaseUrl()}/models`, {
+        headers: openAIHeaders(),
+        timeout: 3000,
+      });
+      const models = (response.data?.data || []).map((model) => model.id).filter(Boolean);
+      openAIModelCache = { models, fetchedAt: Date.now() };
+      return models.length > 0 ? models : [openAIProvider.defaultModel()];
+    } catch (error) {
+      console.log(`⚠️ Could not list models from ${openAIBaseUrl()}:`, error.message);
+      return [openAIProvider.defaultModel()];
+    }
+  },
+  defaultModel: () => process.env.OPENAI_MODEL || splitList(process.env.OPENAI_MODELS)[0] || "llama3.1",
+  generate: async ({ prompt, model, temperature, topP, maxOutputTokens, responseSchema }) => {
+    const body = {
+      model,
+      messages: [{ role: "user", content: prompt }],
+      temperature,
+      top_p: topP,
+      max_tokens: maxOutputTokens,
+    };
+    const schemaKey = `${openAIBaseUrl()}|${model}`;
+
+    let response;
+    if (responseSchema && !modelsWithoutSchemaSupport.has(schemaKey)) {
+      const schema = { ...responseSchema };
+      delete schema.$schema;
+      delete schema.title;
+      try {
+        response = await postChatCompletion({
+          ...body,
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: responseSchema.title || "response", schema, strict: true },
+          },
+        });
+      } catch (error) {
+        if (error.response?.status !== 400) throw error;
+        console.log(`⚠️ ${model} rejected the response schema, falling back to prompt-only JSON`);
+        modelsWithoutSchemaSupport.add(schemaKey);
+      }
+    }
+    if (!response) {
+      response = await postChatCompletion(body);
+    }
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("OpenAI-compatible server returned no message content");
+    }
+    return content;
+  },
+  stream: async ({ prompt, model, temperature, topP, maxOutputTokens, signal, onText }) => {
+    const response = await axios.post(
+      `${openAIBaseUrl()}/chat/completions`,
+      {
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature,
+        top_p: topP,
+        max_tokens: maxOutputTokens,
+        stream: true,
+      },
+      { headers: openAIHeaders(), responseType: "stream", signal, timeout: 120000 }
+    );
+    await readChatCompletionStream(response.data, onText);
+  },
+};
+
+// Deterministic offline provider for tests and local development. Answers
+// depend only on the prompt, so the same request always gets the same reply
+const mockAnalysis = (prompt) => {
+  const fileName = (prompt.match(/^File: (.+)$/m) || [])[1] || "file";
+  const extension = fileName.includes(".") ? fileName.split(".").pop().toLowerCase() : "";
+  return JSON.stringify({
+    summary: `Mock analysis of ${fileName}. This response is generated locally without calling a language model.`,
+    keyFunctions: [{ name: fileName, description: "Mock entry describing the file as a whole" }],
+    cleanCode: true,
+    issues: [],
+    improvements: [
+      {
+        message: "Configure a real AI provider for meaningful analysis",
+        severity: "low",
+        category: "other",
+        startLine: 1,
+        endLine: 1,
+      },
+    ],
+    libraries: extension ? [extension] : [],
+  });
+};
+
+const mockChatReply = (prompt) => {
+  const question = prompt.trim().split("\n").filter(Boolean).slice(-2, -1)[0] || "your question";
+  return `This is a mock response. The prompt was ${prompt.length} characters long and ended with:\n\n> ${question.trim()}`;
+};
+
+// Delay between streamed mock words, so streaming is visible in the UI
+const MOCK_STREAM_DELAY_MS = 40;
+
+const mockProvider = {
+  id: "mock",
+  name: "Mock (offline)",
+  isAvailable: () => process.env.LLM_MOCK_ENABLED === "true" || process.env.LLM_PROVIDER === "mock",
+  getModels: async () => ["mock-1"],
+  defaultModel: () => "mock-1",
+  generate: async ({ prompt }) => {
+    if (prompt.includes('"architectureSummary"')) {
+      return JSON.stringify({
+        architectureSummary: "Mock architecture summary generated without a language model.",
+        modules: {},
+      });
+    }
+    if (prompt.includes('"keyFunctions"')) {
+      return mockAnalysis(prompt);
+    }
+    return mockChatReply(prompt);
+  },
+  stream: async ({ prompt, signal, onText }) => {
+    for (const word of mockChatReply(prompt).match(/\S+\s*/g) || []) {
+      if (signal?.aborted) {
+        throw new Error("Mock stream aborted");
+      }
+      await new Promise((resolve) => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+      onText(word);
+    }
+  },
+};
+
+const PROVIDERS = [geminiProvider, openAIProvider, mockProvider];
+
+const getProvider = (id) => PROVIDERS.find((provider) => provider.id === id) || null;
+
+// The configured default, or the first available provider
+const getDefaultProvider = () => {
+  const configured = getProvider(process.env.LLM_PROVIDER || "gemini");
+  if (configured && configured.isAvailable()) return configured;
+  return PROVIDERS.find((provider) => provider.isAvailable()) || null;
+};
+
+const isAIEnabled = () => !!getDefaultProvider();
+
+// Work out which provider and model serve a request. Both are optional;
+// throws LLMSelectionError when the choice cannot be honoured
+const resolveLLM = async ({ provider: providerId, model } = {}) => {
+  const provider = providerId ? getProvider(providerId) : getDefaultProvider();
+
+  if (!provider) {
+    throw new LLMSelectionError(
+      providerId ? `Unknown AI provider: ${providerId}` : "No AI provider is configured"
+    );
+  }
+  if (!provider.isAvailable()) {
+    throw new LLMSelectionError(`AI provider ${provider.name} is not configured on this server`);
+  }
+
+  if (!model) {
+    return { provider, model: provider.defaultModel() };
+  }
+  const models = await provider.getModels();
+  if (!models.includes(model)) {
+    throw new LLMSelectionError(`Model ${model} is not available for ${provider.name}`);
+  }
+  return { provider, model };
+};
+
+// Generate text with the selected (or default) provider
+const generateText = async ({ provider: providerId, model: modelId, prompt, temperature = 0.7, topP = 0.8, topK = 40, maxOutputTokens = 1024, responseSchema = null }) => {
+  const { provider, model } = await resolveLLM({ provider: providerId, model: modelId });
+  const text = await provider.generate({ prompt, model, temperature, topP, topK, maxOutputTokens, responseSchema });
+  return { text, provider: provider.id, model };
+};
+
+// Stream text with the selected (or default) provider. onStart receives the
+// resolved provider and model before generation begins, so selection errors
+// are thrown before anything is sent. When signal aborts, resolves with the
+// text received so far and stopped: true instead of throwing
+const streamText = async ({ provider: providerId, model: modelId, prompt, temperature = 0.7, topP = 0.8, topK = 40, maxOutputTokens = 1024, signal, onStart = () => {}, onText }) => {
+  const { provider, model } = await resolveLLM({ provider: providerId, model: modelId });
+  onStart({ provider: provider.id, model });
+
+  let text = "";
+  const handleText = (piece) => {
+    text += piece;
+    onText(piece);
+  };
+  try {
+    await provider.stream({ prompt, model, temperature, topP, topK, maxOutputTokens, signal, onText: handleText });
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+    return { text, provider: provider.id, model, stopped: true };
+  }
+  return { text, provider: provider.id, model, stopped: !!signal?.aborted };
+};
+
+// Providers and their models for /api/ai/status
+const listProviders = async () => {
+  const defaultProvider = getDefaultProvider();
+  return Promise.all(
+    PROVIDERS.map(async (provider) => {
+      const available = provider.isAvailable();
+      return {
+        id: provider.id,
+        name: provider.name,
+        available,
+        isDefault: provider === defaultProvider,
+        defaultModel: available ? provider.defaultModel() : null,
+        models: available ? await provider.getModels() : [],
+      };
+    })
+  );
+};
+
+module.exports = {
+  LLMSelectionError,
+  getDefaultProvider,
+  isAIEnabled,
+  resolveLLM,
+  generateText,
+  streamText,
+  listProviders,
+};
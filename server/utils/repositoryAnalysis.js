@@ -0,0 +1,634 @@
+const axios = require('axios');
+const { EventEmitter } = require('events');
+const Repository = require('../models/Repository');
+const Statistics = require('../models/Statistics');
+const User = require('../models/User');
+const {
+  normalizeTreePath,
+  resolveCommit,
+  resolveRefPath,
+  resolveTreePath,
+  shouldSkip,
+  isSkippedPath,
+  fetchRepositoryEntries,
+  buildFileTreeFromEntries,
+  summarizeEntries
+} = require('./githubTree');
+
+// Repository analysis pipeline shared by the synchronous /api/github/analyze
+// route and the background job worker
+
+// Helper function to parse GitHub URL
+// Besides owner/repo, `/tree/<ref>/<path>` and `/blob/<ref>/<path>` URLs keep
+// everything after the marker as `refPath`; the ref and path can only be told
+// apart by asking GitHub, since branch names may contain slashes
+const parseGitHubUrl = (url) => {
+  try {
+    // Remove query string, hash, any trailing slashes and .git extension
+    const cleanUrl = url.trim().split(/[?#]/)[0].replace(/\/+$/, '').replace(/\.git$/, '');
+    
+    // Match GitHub URL pattern
+    const regex = /github\.com\/([^\/\s]+)\/([^\/\s]+)(?:\/(tree|blob)\/(.+))?/;
+    const match = cleanUrl.match(regex);
+    
+    if (!match) {
+      return null;
+    }
+    
+    const owner = match[1];
+    const repo = match[2].replace(/\.git$/, '');
+    
+    // Basic validation - owner and repo should not be empty and should contain valid characters
+    if (!owner || !repo || owner.length === 0 || repo.length === 0) {
+      return null;
+    }
+    
+    // Check for invalid characters (GitHub usernames and repo names have specific rules)
+    const validOwnerPattern = /^[a-zA-Z0-9]([a-zA-Z0-9\-\.]*[a-zA-Z0-9])?$/;
+    const validRepoPattern = /^[a-zA-Z0-9]([a-zA-Z0-9\-\._]*[a-zA-Z0-9])?$/;
+    
+    if (!validOwnerPattern.test(owner) || !validRepoPattern.test(repo)) {
+      return null;
+    }
+    
+    return {
+      owner,
+      repo,
+      refPath: match[4] ? decodeURIComponent(match[4]) : null,
+      isBlob: match[3] === 'blob'
+    };
+  } catch (error) {
+    return null;
+  }
+};
+
+// Case-insensitive "owner/repo" key for data stored per repository, so any
+// URL form of the same repository finds it. Null for non-GitHub URLs
+const getRepositoryKey = (repoUrl) => {
+  const parsed = repoUrl ? parseGitHubUrl(repoUrl) : null;
+  return parsed ? `${parsed.owner}/${parsed.repo}`.toLowerCase() : null;
+};
+
+// Prefer the user's own token so private repositories work and users don't
+// share the server token's rate limit
+const getGithubTokenForUser = async (userId) => {
+  const userToken = await User.getGithubToken(userId);
+  return userToken || process.env.GITHUB_TOKEN || null;
+};
+
+// Work out which commit and subdirectory to analyze. Explicit `ref` and
+// `subPath` fields take precedence over what was parsed from the URL
+const resolveAnalysisTarget = async (owner, repo, { refPath, isBlob, ref, subPath, defaultBranch }, githubToken = null) => {
+  let resolvedRef = typeof ref === 'string' ? ref.trim() : '';
+  let path = normalizeTreePath(subPath);
+  let commitSha = null;
+
+  if (!resolvedRef && refPath) {
+    const fromUrl = await resolveRefPath(owner, repo, refPath, githubToken);
+    resolvedRef = fromUrl.ref;
+    commitSha = fromUrl.commitSha;
+    if (!path) {
+      // Blob URLs point at a file, so analyze the folder containing it
+      path = isBlob ? fromUrl.path.split('/').slice(0, -1).join('/') : fromUrl.path;
+    }
+  } else {
+    resolvedRef = resolvedRef || defaultBranch;
+    commitSha = await resolveCommit(owner, repo, resolvedRef, githubToken);
+    if (!commitSha) {
+      throw new Error(`Ref '${resolvedRef}' not found in ${owner}/${repo}. Please check the branch, tag or commit.`);
+    }
+  }
+
+  const treeSha = await resolveTreePath(owner, repo, commitSha, path, githubToken);
+
+  return { ref: resolvedRef, commitSha, subPath: path, treeSha };
+};
+
+// Analyses are keyed per user so ids supplied by one client can never
+// address another user's analysis
+const getAnalysisKey = (userId, analysisId) => `${userId}:${analysisId}`;
+
+// Progress events for each analysis, keyed by analysis key
+const analysisEvents = new EventEmitter();
+analysisEvents.setMaxListeners(0);
+
+const publishAnalysisEvent = (analysisKey, event, data) => {
+  analysisEvents.emit(analysisKey, { event, data });
+};
+
+// Progress fields sent to clients
+const getProgressSnapshot = (analysis) => ({
+  progress: analysis.progress || 0,
+  currentDepth: analysis.currentDepth || 0,
+  currentPath: analysis.currentPath || '',
+  maxDepth: analysis.maxDepth || 0,
+  filesDiscovered: analysis.filesDiscovered || 0,
+  foldersDiscovered: analysis.foldersDiscovered || 0,
+  cancelled: analysis.cancelled || false
+});
+
+// Update progress for an analysis without letting it go backwards
+const updateAnalysisProgress = (analysisKey, updates) => {
+  const currentAnalysis = activeAnalyses.get(analysisKey);
+  if (!currentAnalysis) {
+    return;
+  }
+
+  const updatedAnalysis = {
+    ...currentAnalysis,
+    ...updates,
+    progress: Math.max(currentAnalysis.progress || 0, Math.round(updates.progress || 0)),
+    startTime: currentAnalysis.startTime || Date.now()
+  };
+  activeAnalyses.set(analysisKey, updatedAnalysis);
+  publishAnalysisEvent(analysisKey, 'progress', getProgressSnapshot(updatedAnalysis));
+};
+
+// Build the file tree from a single Git Trees fetch with cancellation support
+const buildFileTreeWithCancellation = async (owner, repo, target, githubToken = null, analysisKey = null, maxDepth = 10) => {
+  const isCancelled = () => !!(analysisKey && activeAnalyses.get(analysisKey)?.cancelled);
+
+  let directoriesFetched = 0;
+  let filesDiscovered = 0;
+  let foldersDiscovered = 0;
+  const entries = await fetchRepositoryEntries(owner, repo, target.treeSha, githubToken, {
+    basePath: target.subPath,
+    isCancelled,
+    onDirectory: (path) => {
+      directoriesFetched++;
+      // Truncated listings are walked per directory; creep towards 60% while that happens
+      updateAnalysisProgress(analysisKey, {
+        progress: Math.min(10 + directoriesFetched, 60),
+        currentDepth: path ? path.split('/').length : 0,
+        currentPath: path || repo,
+        maxDepth: maxDepth
+      });
+    },
+    onEntries: (path, batch) => {
+      const visible = batch.filter(entry => !isSkippedPath(entry.path));
+      filesDiscovered += visible.filter(entry => entry.type !== 'tree').length;
+      foldersDiscovered += visible.filter(entry => entry.type === 'tree').length;
+      updateAnalysisProgress(analysisKey, { filesDiscovered, foldersDiscovered });
+
+      // Stream the directory's direct children so clients can preview the tree while it is crawled
+      const prefix = path ? `${path}/` : '';
+      publishAnalysisEvent(analysisKey, 'subtree', {
+        path,
+        children: batch
+          .filter(entry => entry.path.startsWith(prefix) && !entry.path.slice(prefix.length).includes('/'))
+          .filter(entry => !shouldSkip(entry.path.split('/').pop()))
+          .map(entry => ({
+            name: entry.path.split('/').pop(),
+            type: entry.type === 'tree' ? 'folder' : 'file',
+            path: entry.path,
+            size: entry.size
+          }))
+      });
+    }
+  });
+
+  if (isCancelled()) {
+    throw new Error('Analysis cancelled by user');
+  }
+
+  updateAnalysisProgress(analysisKey, {
+    progress: 70,
+    currentPath: `Building tree from ${entries.length} entries`,
+    maxDepth: maxDepth
+  });
+
+  // Download URLs are pinned to the commit so saved analyses stay reproducible
+  const fileTree = buildFileTreeFromEntries(entries, {
+    owner,
+    repo,
+    ref: target.commitSha,
+    maxDepth,
+    basePath: target.subPath
+  });
+
+  updateAnalysisProgress(analysisKey, { progress: 90, currentDepth: maxDepth });
+
+  return { fileTree, entries };
+};
+
+// Store active analysis requests
+const activeAnalyses = new Map();
+
+// Validate that the repository exists before proceeding
+const validateRepositoryExists = async (owner, repo, githubToken) => {
+  try {
+    const headers = githubToken ? { Authorization: `token ${githubToken}` } : {};
+
+    const response = await axios.get(
+      `https://api.github.com/repos/${owner}/${repo}`,
+      { 
+        headers, 
+        timeout: 10000,
+        validateStatus: (status) => status < 500 // Don't throw for 4xx errors
+      }
+    );
+
+    if (response.status === 404) {
+      throw new Error(`Repository '${owner}/${repo}' not found. Please check the repository name and owner.`);
+    }
+
+    if (response.status === 403) {
+      throw new Error(`Access denied to repository '${owner}/${repo}'. The repository may be private or you may not have permission to access it.`);
+    }
+
+    if (response.status >= 400) {
+      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    }
+
+    // Repository exists and is accessible
+    const repoData = response.data;
+
+    // Check if repository is empty
+    if (repoData.size === 0) {
+      throw new Error(`Repository '${owner}/${repo}' is empty and has no content to analyze.`);
+    }
+
+    // Check if repository has a default branch
+    if (!repoData.default_branch) {
+      throw new Error(`Repository '${owner}/${repo}' has no default branch and cannot be analyzed.`);
+    }
+
+    return {
+      exists: true,
+      isPrivate: repoData.private,
+      defaultBranch: repoData.default_branch,
+      description: repoData.description,
+      language: repoData.language ? repoData.language.trim() : null,
+      size: repoData.size,
+      stars: repoData.stargazers_count,
+      forks: repoData.forks_count
+    };
+  } catch (error) {
+    if (error.response?.status === 404) {
+      throw new Error(`Repository '${owner}/${repo}' not found. Please check the repository name and owner.`);
+    }
+    if (error.response?.status === 403) {
+      throw new Error(`Access denied to repository '${owner}/${repo}'. The repository may be private or you may not have permission to access it.`);
+    }
+    throw new Error(`Failed to validate repository: ${error.message}`);
+  }
+};
+
+// Clamp the requested depth to what the crawler supports
+const clampDepth = (maxDepth) => Math.min(Math.max(parseInt(maxDepth) || 15, 1), 20);
+
+// Register an analysis so progress can be published and it can be cancelled.
+// Returns false when one with the same key is already running
+const registerAnalysis = (analysisKey, maxDepth) => {
+  if (activeAnalyses.has(analysisKey)) {
+    return false;
+  }
+  activeAnalyses.set(analysisKey, { cancelled: false, progress: 0, maxDepth, startTime: Date.now() });
+  return true;
+};
+
+// Tell subscribers how an analysis ended and forget about it
+const finishAnalysis = (analysisKey, event, data) => {
+  publishAnalysisEvent(analysisKey, event, data);
+  activeAnalyses.delete(analysisKey);
+};
+
+// Flag a running analysis as cancelled; the crawl stops at its next checkpoint
+const cancelAnalysis = (analysisKey) => {
+  const analysis = activeAnalyses.get(analysisKey);
+  if (analysis) {
+    analysis.cancelled = true;
+  }
+  return !!analysis;
+};
+
+const isAnalysisCancelled = (analysisKey) => !!activeAnalyses.get(analysisKey)?.cancelled;
+
+const isCancellationError = (error) => error.message === 'Analysis cancelled by user';
+
+// Crawl a repository, save it for the user and return what clients need to
+// display it. The analysis must already be registered under `analysisKey`
+const runRepositoryAnalysis = async (analysisKey, { userId, repoUrl, maxDepth, ref, subPath, target: resolvedTarget = null, onTarget = null }) => {
+  const parsed = parseGitHubUrl(repoUrl);
+  if (!parsed) {
+    throw new Error('Invalid GitHub URL');
+  }
+
+  const { owner, repo } = parsed;
+  const depth = clampDepth(maxDepth);
+  const githubToken = await getGithubTokenForUser(userId);
+  updateAnalysisProgress(analysisKey, { currentPath: `Validating ${owner}/${repo}` });
+
+  // Validate repository exists before starting analysis
+  const repoInfo = await validateRepositoryExists(owner, repo, githubToken);
+  console.log(`Repository validation successful: ${owner}/${repo} (${repoInfo.isPrivate ? 'private' : 'public'})`);
+
+  // Resolve the branch, tag or commit (and optional subdirectory) to analyze.
+  // Resumed jobs pass the target they resolved before, so they stay on the same commit
+  const target = resolvedTarget || await resolveAnalysisTarget(owner, repo, {
+    refPath: parsed.refPath,
+    isBlob: parsed.isBlob,
+    ref,
+    subPath,
+    defaultBranch: repoInfo.defaultBranch
+  }, githubToken);
+  if (onTarget) {
+    await onTarget(target);
+  }
+  console.log(`Analyzing ${owner}/${repo}@${target.ref} (${target.commitSha})${target.subPath ? ` in ${target.subPath}` : ''}`);
+
+  updateAnalysisProgress(analysisKey, {
+    progress: 10,
+    currentPath: `Fetching tree for ${target.ref}${target.subPath ? `/${target.subPath}` : ''}`
+  });
+
+  // Build file tree from a single Git Trees fetch of the resolved commit
+  const { fileTree, entries } = await buildFileTreeWithCancellation(
+    owner,
+    repo,
+    target,
+    githubToken,
+    analysisKey,
+    depth
+  );
+
+  // Check if analysis was cancelled
+  if (activeAnalyses.get(analysisKey)?.cancelled) {
+    throw new Error('Analysis cancelled by user');
+  }
+
+  // Repository will be saved after statistics are calculated
+
+  // Calculate actual depth reached (should never exceed the max depth we set)
+  const calculateActualDepth = (node, currentDepth = 1) => {
+    let maxActualDepth = currentDepth;
+    if (node.children) {
+      for (const child of node.children) {
+        const childDepth = calculateActualDepth(child, currentDepth + 1);
+        maxActualDepth = Math.max(maxActualDepth, childDepth);
+      }
+    }
+    return maxActualDepth;
+  };
+
+  const actualDepthReached = Math.min(calculateActualDepth(fileTree), depth);
+
+  // Total counts and real depth come from the same tree listing, skipping ignored paths
+  const treeSummary = summarizeEntries(entries, target.subPath);
+  const totalCounts = { files: treeSummary.files, folders: treeSummary.folders };
+  const realRepositoryDepth = treeSummary.depth;
+  console.log('Total counts calculated:', totalCounts);
+  console.log('Real repository depth calculated:', realRepositoryDepth);
+
+  // Calculate analyzed counts (what's actually in the tree)
+  const analyzedCounts = { files: 0, folders: 0 };
+  const countAnalyzed = (node, isRoot = false) => {
+    if (node.type === 'file') {
+      analyzedCounts.files++;
+    } else if (node.type === 'folder') {
+      // Don't count the root folder itself
+      if (!isRoot) {
+        analyzedCounts.folders++;
+      }
+      if (node.children) {
+        node.children.forEach(child => countAnalyzed(child, false));
+      }
+    }
+  };
+  countAnalyzed(fileTree, true);
+
+  // Ensure analyzed counts never exceed total counts
+  analyzedCounts.files = Math.min(analyzedCounts.files, totalCounts.files);
+  analyzedCounts.folders = Math.min(analyzedCounts.folders, totalCounts.folders);
+
+  console.log('Analyzed counts calculated:', analyzedCounts);
+  console.log('Analyzed counts breakdown - Files:', analyzedCounts.files, 'Folders:', analyzedCounts.folders);
+
+  // The actual depth should not exceed the max depth we set or the real repository depth
+  const finalActualDepth = Math.min(actualDepthReached, realRepositoryDepth);
+
+  // Calculate total size from analyzed file tree
+  const calculateTotalSize = (node) => {
+    let totalSize = 0;
+    if (node.type === 'file' && node.size && typeof node.size === 'number') {
+      totalSize += node.size;
+    }
+    if (node.children && Array.isArray(node.children)) {
+      for (const child of node.children) {
+        totalSize += calculateTotalSize(child);
+      }
+    }
+    return totalSize;
+  };
+
+  const calculatedTotalSize = calculateTotalSize(fileTree);
+
+  // Fetch additional repository data for AI context
+  let readmeContent = '';
+  let packageJsonData = null;
+
+  try {
+    // Try to fetch README.md
+    const readmeUrl = `https://api.github.com/repos/${owner}/${repo}/readme${target.subPath ? `/${target.subPath}` : ''}?ref=${target.commitSha}`;
+    const readmeResponse = await axios.get(readmeUrl, {
+      headers: {
+        'Accept': 'application/vnd.github.v3+json',
+        ...(githubToken ? { Authorization: `token ${githubToken}` } : {})
+      },
+      validateStatus: () => true
+    });
+
+    if (readmeResponse.status === 200 && readmeResponse.data.content) {
+      readmeContent = Buffer.from(readmeResponse.data.content, 'base64').toString('utf-8');
+    }
+  } catch (error) {
+    console.log('Could not fetch README:', error.message);
+  }
+
+  try {
+    // Try to fetch package.json
+    const packageUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${target.subPath ? `${target.subPath}/` : ''}package.json?ref=${target.commitSha}`;
+    const packageResponse = await axios.get(packageUrl, {
+      headers: {
+        'Accept': 'application/vnd.github.v3+json',
+        ...(githubToken ? { Authorization: `token ${githubToken}` } : {})
+      },
+      validateStatus: () => true
+    });
+
+    if (packageResponse.status === 200 && packageResponse.data.content) {
+      const packageContent = Buffer.from(packageResponse.data.content, 'base64').toString('utf-8');
+      packageJsonData = JSON.parse(packageContent);
+    }
+  } catch (error) {
+    console.log('Could not fetch package.json:', error.message);
+  }
+
+  // Prepare repository statistics for storage
+  const repositoryStats = {
+    analyzedFiles: analyzedCounts.files,
+    analyzedFolders: analyzedCounts.folders,
+    totalFiles: totalCounts.files,
+    totalFolders: totalCounts.folders,
+    analyzedDepth: finalActualDepth,
+    totalDepth: realRepositoryDepth,
+    totalSize: calculatedTotalSize,
+    isPrivate: repoInfo.isPrivate,
+    language: repoInfo.language ? repoInfo.language.replace(/\s+\d+$/, '') : null,
+    description: repoInfo.description,
+    stars: repoInfo.stars,
+    forks: repoInfo.forks,
+    ref: target.ref,
+    commitSha: target.commitSha,
+    subPath: target.subPath || null,
+    maxDepth: depth,
+    lastAnalyzed: new Date()
+  };
+
+  console.log('Repository stats being stored:', {
+    originalLanguage: repoInfo.language,
+    cleanedLanguage: repoInfo.language ? repoInfo.language.replace(/\s+\d+$/, '') : null,
+    languageType: typeof repoInfo.language,
+    languageLength: repoInfo.language ? repoInfo.language.length : 0,
+    totalSize: calculatedTotalSize,
+    stars: repoInfo.stars
+  });
+
+  // Save to database with statistics
+  const repository = await Repository.create(userId, repoUrl, fileTree, repositoryStats);
+
+  // Increment analysis count in statistics
+  await Statistics.incrementAnalyses();
+  console.log('✅ Repository analysis trigger: Incremented analysis count');
+
+  updateAnalysisProgress(analysisKey, {
+    progress: 100,
+    currentDepth: depth,
+    currentPath: 'Analysis complete'
+  });
+
+  return {
+    repository,
+    repoInfo: { owner, repo, ref: target.ref, commitSha: target.commitSha, subPath: target.subPath || null },
+    fileTree,
+    analysisConfig: {
+      maxDepth: depth,
+      actualDepth: finalActualDepth,
+      analyzedFiles: analyzedCounts.files,
+      analyzedFolders: analyzedCounts.folders,
+      totalFiles: totalCounts.files,
+      totalFolders: totalCounts.folders,
+      realRepositoryDepth: realRepositoryDepth,
+      wasTruncated: realRepositoryDepth > depth,
+      repoUrl: repoUrl,
+      ref: target.ref,
+      commitSha: target.commitSha,
+      subPath: target.subPath || null
+    },
+    // Additional data for AI assistant
+    aiContext: {
+      readme: readmeContent,
+      packageJson: packageJsonData,
+      repoInfo: {
+        language: repoInfo.language,
+        description: repoInfo.description,
+        stars: repoInfo.stars,
+        size: repoInfo.size
+      }
+    }
+  };
+};
+
+// Map a failed analysis to an HTTP status and response body
+const describeAnalysisError = (error) => {
+  if (isCancellationError(error)) {
+    return { status: 499, body: { message: 'Analysis cancelled by user', cancelled: true } };
+  }
+
+  if (error.message === 'Invalid GitHub URL') {
+    return { status: 400, body: { message: error.message } };
+  }
+
+  // Handle repository validation errors with specific status codes
+  if (error.message.includes('not found') || error.message.includes('Repository')) {
+    return { status: 404, body: { message: error.message, error: 'Repository not found or inaccessible' } };
+  }
+
+  // Handle GitHub API rate limiting
+  if (error.response?.status === 403 && error.response?.data?.message?.includes('rate limit')) {
+    return { status: 429, body: { message: 'GitHub API rate limit exceeded. Please try again later.', error: 'Rate limit exceeded' } };
+  }
+
+  // Handle network/timeout errors
+  if (error.code === 'ECONNABORTED' || error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+    return { status: 503, body: { message: 'Network error. Please check your internet connection and try again.', error: 'Network error' } };
+  }
+
+  return { status: 500, body: { message: 'Failed to analyze repository', error: error.message } };
+};
+
+// Pipe an analysis' events to an SSE response until it reaches a terminal event.
+// `initialEvents` are written first, e.g. the state of a job that already finished
+const streamAnalysisEvents = (req, res, analysisKey, initialEvents = []) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const send = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const isTerminal = (event) => ['complete', 'cancelled', 'failed'].includes(event);
+
+  for (const { event, data } of initialEvents) {
+    send(event, data);
+    if (isTerminal(event)) {
+      return res.end();
+    }
+  }
+
+  // The client may subscribe just before the analysis is registered
+  const analysis = activeAnalyses.get(analysisKey);
+  if (analysis) {
+    send('progress', getProgressSnapshot(analysis));
+  }
+
+  const listener = ({ event, data }) => {
+    send(event, data);
+    if (isTerminal(event)) {
+      res.end();
+    }
+  };
+  analysisEvents.on(analysisKey, listener);
+
+  // Keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    analysisEvents.off(analysisKey, listener);
+  });
+};
+
+module.exports = {
+  parseGitHubUrl,
+  getRepositoryKey,
+  getGithubTokenForUser,
+  validateRepositoryExists,
+  getAnalysisKey,
+  analysisEvents,
+  getProgressSnapshot,
+  clampDepth,
+  registerAnalysis,
+  finishAnalysis,
+  cancelAnalysis,
+  isAnalysisCancelled,
+  isCancellationError,
+  updateAnalysisProgress,
+  runRepositoryAnalysis,
+  describeAnalysisError,
+  streamAnalysisEvents
+};
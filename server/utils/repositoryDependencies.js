@@ -0,0 +1,124 @@
+const { DEPENDENCY_SCOPES, getManifestType, parseManifest } = require('./dependencyManifests');
+const { getGithubTokenForUser } = require('./repositoryAnalysis');
+const { collectFiles, mapWithConcurrency, fetchFileContent } = require('./repositoryReport');
+
+// Dependency inventory of a saved repository: every manifest and lockfile in
+// its tree is downloaded and parsed into one list of
+// { ecosystem, name, version, scope, manifest, license? } entries
+
+const SCAN_CONCURRENCY = 4;
+const MAX_MANIFESTS = parseInt(process.env.DEPENDENCY_SCAN_MAX_MANIFESTS) || 100;
+// Lockfiles of large projects run to a few megabytes
+const MAX_MANIFEST_BYTES = 5 * 1024 * 1024;
+// Keeps the stored inventory well below MongoDB's document size limit
+const MAX_DEPENDENCIES = 20000;
+
+const getFolder = (path) => {
+  const separator = path.lastIndexOf('/');
+  return separator === -1 ? '' : path.substring(0, separator);
+};
+
+// Manifests in the tree plus the lockfiles that may sit next to them
+const findManifests = (fileTree) => {
+  const files = collectFiles(fileTree)
+    .map(({ file }) => file)
+    .filter(file => getManifestType(file.name) && (!file.size || file.size <= MAX_MANIFEST_BYTES));
+  const paths = new Set(files.map(file => file.path));
+  const manifests = files.map(file => ({ path: file.path, name: file.name, url: file.download_url, probe: false }));
+
+  for (const file of files) {
+    for (const companion of getManifestType(file.name).companions || []) {
+      const folder = getFolder(file.path);
+      const path = folder ? `${folder}/${companion}` : companion;
+      if (!paths.has(path)) {
+        paths.add(path);
+        manifests.push({ path, name: companion, url: new URL(companion, file.download_url).toString(), probe: true });
+      }
+    }
+  }
+
+  return manifests.sort((a, b) => a.path.localeCompare(b.path)).slice(0, MAX_MANIFESTS);
+};
+
+// Lockfiles do not say which packages the project asks for itself: a locked
+// package takes the scope its manifest in the same folder declares, and is
+// indirect when no manifest declares it
+const assignLockfileScopes = (results) => {
+  const declared = new Map();
+  for (const result of results) {
+    if (result.kind !== 'manifest') continue;
+    const key = `${result.ecosystem}:${getFolder(result.path)}`;
+    if (!declared.has(key)) declared.set(key, new Map());
+    const scopes = declared.get(key);
+    for (const dependency of result.dependencies) {
+      const current = scopes.get(dependency.name);
+      // A package declared twice counts with its strongest scope
+      if (!current || DEPENDENCY_SCOPES.indexOf(dependency.scope) < DEPENDENCY_SCOPES.indexOf(current)) {
+        scopes.set(dependency.name, dependency.scope);
+      }
+    }
+  }
+
+  for (const result of results) {
+    if (result.kind !== 'lockfile') continue;
+    const scopes = declared.get(`${result.ecosystem}:${getFolder(result.path)}`);
+    for (const dependency of result.dependencies) {
+      dependency.scope = dependency.scope || scopes?.get(dependency.name) || 'indirect';
+    }
+  }
+};
+
+const scanRepositoryDependencies = async (userId, repository) => {
+  const manifests = findManifests(repository.repo_data);
+  const githubToken = await getGithubTokenForUser(userId);
+
+  const fetched = await mapWithConcurrency(manifests, SCAN_CONCURRENCY, async (manifest) => {
+    const type = getManifestType(manifest.name);
+    const base = { path: manifest.path, ecosystem: type.ecosystem, kind: type.kind, dependencies: [] };
+    try {
+      const content = String(await fetchFileContent(manifest.url, githubToken));
+      if (content.length > MAX_MANIFEST_BYTES) {
+        return { ...base, error: 'File is too large to parse' };
+      }
+      return { ...base, dependencies: parseManifest(manifest.name, content) };
+    } catch (error) {
+      // Probed lockfiles are usually just not there
+      if (manifest.probe && error.response?.status === 404) {
+        return null;
+      }
+      console.error(`❌ Could not parse ${manifest.path}:`, error.message);
+      return { ...base, error: error.message };
+    }
+  });
+
+  const results = fetched.filter(Boolean);
+  assignLockfileScopes(results);
+
+  const dependencies = results.flatMap(result => result.dependencies.map(dependency => ({
+    ecosystem: result.ecosystem,
+    name: dependency.name,
+    version: dependency.version,
+    scope: dependency.scope,
+    manifest: result.path,
+    ...(dependency.license ? { license: dependency.license } : {})
+  })));
+
+  return {
+    commitSha: repository.repo_stats?.commitSha || null,
+    scannedAt: new Date().toISOString(),
+    manifests: results.map(result => ({
+      path: result.path,
+      ecosystem: result.ecosystem,
+      kind: result.kind,
+      dependencyCount: result.dependencies.length,
+      error: result.error || null
+    })),
+    dependencies: dependencies.slice(0, MAX_DEPENDENCIES),
+    truncated: dependencies.length > MAX_DEPENDENCIES
+  };
+};
+
+module.exports = {
+  findManifests,
+  scanRepositoryDependencies
+};
@@ -0,0 +1,262 @@
+const RepositoryIndex = require('../models/RepositoryIndex');
+const { getGithubTokenForUser, getRepositoryKey } = require('./repositoryAnalysis');
+const {
+  SOURCE_EXTENSIONS,
+  collectFiles,
+  mapWithConcurrency,
+  fetchFileContent
+} = require('./repositoryReport');
+
+// Retrieval for the AI chat. After a repository is analyzed its text files
+// are downloaded and split into overlapping line-range chunks; questions are
+// matched against the chunks with BM25 and the best ones go into the prompt
+
+const INDEX_CONCURRENCY = 4;
+const MAX_INDEX_FILES = parseInt(process.env.REPOSITORY_INDEX_MAX_FILES) || 300;
+const MAX_FILE_BYTES = 100 * 1024;
+// Keeps the stored index well below MongoDB's document size limit
+const MAX_INDEX_CHARS = 4 * 1024 * 1024;
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP_LINES = 10;
+// Share of the chat prompt given to retrieved excerpts, in estimated tokens
+const CHAT_CONTEXT_TOKENS = parseInt(process.env.CHAT_CONTEXT_TOKENS) || 3000;
+const MAX_RETRIEVED_CHUNKS = 8;
+
+const TEXT_EXTENSIONS = [
+  ...SOURCE_EXTENSIONS,
+  'md', 'mdx', 'txt', 'rst', 'json', 'yml', 'yaml', 'toml', 'ini', 'cfg', 'xml',
+  'html', 'css', 'scss', 'less', 'sql', 'sh', 'bash', 'ps1', 'gradle', 'kts', 'dart',
+  'r', 'pl', 'lua', 'ex', 'exs', 'erl', 'hs', 'clj', 'graphql', 'proto', 'tf'
+];
+const TEXT_FILE_NAMES = ['dockerfile', 'makefile', 'procfile', 'gemfile', 'rakefile', 'license', 'readme'];
+// Generated files that would crowd out real code in search results
+const SKIPPED_FILE_NAMES = [
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'cargo.lock', 'poetry.lock',
+  'composer.lock', 'go.sum', 'gemfile.lock', 'pipfile.lock'
+];
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'one', 'our',
+  'has', 'how', 'its', 'does', 'what', 'where', 'which', 'who', 'why', 'this', 'that',
+  'with', 'from', 'have', 'there', 'their', 'they', 'then', 'than', 'into', 'about',
+  'would', 'could', 'should', 'will', 'just', 'also', 'some', 'any', 'is', 'it', 'in',
+  'on', 'of', 'to', 'do', 'be', 'an', 'as', 'at', 'by', 'or', 'if', 'me', 'my', 'we', 'so'
+]);
+
+const isIndexableFile = (file) => {
+  const name = file.name.toLowerCase();
+  if (SKIPPED_FILE_NAMES.includes(name) || /\.min\.(js|css)$/.test(name)) {
+    return false;
+  }
+  const extension = name.includes('.') ? name.split('.').pop() : '';
+  return TEXT_EXTENSIONS.includes(extension) || TEXT_FILE_NAMES.includes(name.replace(/\.[^.]+$/, ''));
+};
+
+// Words of a text for matching. Identifiers also count as their parts, so
+// "getUserName" and "get_user_name" both match a question about "user name"
+const tokenize = (text) => {
+  const tokens = [];
+  for (const word of text.match(/[A-Za-z0-9_]+/g) || []) {
+    const parts = word.split(/_+|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean);
+    const candidates = parts.length > 1 ? [word, ...parts] : [word];
+    for (const candidate of candidates) {
+      const token = candidate.toLowerCase();
+      if (token.length >= 2 && !STOP_WORDS.has(token)) {
+        tokens.push(token);
+      }
+    }
+  }
+  return tokens;
+};
+
+// Split a file into overlapping chunks of CHUNK_LINES lines
+const chunkFile = (path, content) => {
+  const lines = content.split('\n');
+  const chunks = [];
+  const step = CHUNK_LINES - CHUNK_OVERLAP_LINES;
+  for (let start = 0; start < lines.length; start += step) {
+    const text = lines.slice(start, start + CHUNK_LINES).join('\n');
+    if (text.trim()) {
+      chunks.push({ path, startLine: start + 1, endLine: Math.min(start + CHUNK_LINES, lines.length), text });
+    }
+    if (start + CHUNK_LINES >= lines.length) break;
+  }
+  return chunks;
+};
+
+// Shallow and small files first, until the file or size limit is reached
+const selectIndexFiles = (fileTree) => {
+  const candidates = collectFiles(fileTree)
+    .filter(({ file }) => isIndexableFile(file) && (!file.size || file.size <= MAX_FILE_BYTES))
+    .sort((a, b) => a.depth - b.depth || (a.file.size || 0) - (b.file.size || 0));
+
+  const selected = [];
+  let totalBytes = 0;
+  for (const { file } of candidates) {
+    if (selected.length >= MAX_INDEX_FILES || totalBytes + (file.size || 0) > MAX_INDEX_CHARS) break;
+    selected.push(file);
+    totalBytes += file.size || 0;
+  }
+  return selected;
+};
+
+// Download and chunk the files of a saved repository and store the index
+const buildRepositoryIndex = async (userId, repository) => {
+  const repositoryKey = getRepositoryKey(repository.repo_url);
+  const files = selectIndexFiles(repository.repo_data);
+  const githubToken = await getGithubTokenForUser(userId);
+  console.log(`🔎 Indexing ${files.length} files of ${repository.repo_url}`);
+
+  const fileChunks = await mapWithConcurrency(files, INDEX_CONCURRENCY, async (file) => {
+    try {
+      const content = String(await fetchFileContent(file.download_url, githubToken));
+      // Binary files that slipped through by name
+      if (content.includes('\u0000')) return [];
+      return chunkFile(file.path, content.substring(0, MAX_FILE_BYTES));
+    } catch (error) {
+      console.log(`⚠️ Could not index ${file.path}:`, error.message);
+      return [];
+    }
+  });
+
+  const chunks = fileChunks.flat();
+  const summary = await RepositoryIndex.save(userId, {
+    repository: repositoryKey,
+    repositoryId: repository.id,
+    commitSha: repository.repo_stats?.commitSha,
+    fileCount: fileChunks.filter(list => list.length > 0).length,
+    chunks
+  });
+  console.log(`✅ Indexed ${summary.file_count} files (${chunks.length} chunks) of ${repository.repo_url}`);
+  return summary;
+};
+
+// Index builds in progress, keyed by user and repository. A new build for
+// the same repository waits for the running one, so the newest tree wins
+const indexBuilds = new Map();
+
+// Start indexing a saved repository in the background
+const scheduleRepositoryIndex = (userId, repository) => {
+  const key = `${userId}:${getRepositoryKey(repository.repo_url)}`;
+  const previous = indexBuilds.get(key) || Promise.resolve();
+  const build = previous
+    .catch(() => {})
+    .then(() => buildRepositoryIndex(userId, repository))
+    .catch((error) => {
+      console.error(`❌ Indexing ${repository.repo_url} failed:`, error.message);
+    })
+    .finally(() => {
+      if (indexBuilds.get(key) === build) {
+        indexBuilds.delete(key);
+      }
+    });
+  indexBuilds.set(key, build);
+  return build;
+};
+
+// Whether the repository's index is ready, being built or missing
+const getIndexStatus = async (userId, repoUrl) => {
+  const repositoryKey = getRepositoryKey(repoUrl);
+  if (!repositoryKey) {
+    return { status: 'missing' };
+  }
+  const summary = await RepositoryIndex.findSummary(userId, repositoryKey);
+  const building = indexBuilds.has(`${userId}:${repositoryKey}`);
+  if (!summary) {
+    return { status: building ? 'building' : 'missing' };
+  }
+  return {
+    status: building ? 'building' : 'ready',
+    fileCount: summary.file_count,
+    chunkCount: summary.chunk_count,
+    commitSha: summary.commit_sha,
+    builtAt: summary.built_at
+  };
+};
+
+// Term statistics of recently used indexes, keyed by index and build time
+const MAX_PREPARED_INDEXES = 8;
+const preparedIndexes = new Map();
+
+const prepareIndex = (entry) => {
+  const cacheKey = `${entry.user_id}:${entry.repository}:${new Date(entry.built_at).getTime()}`;
+  const cached = preparedIndexes.get(cacheKey);
+  if (cached) return cached;
+
+  const documentFrequency = new Map();
+  const documents = entry.chunks.map((chunk) => {
+    const tokens = [...tokenize(chunk.path), ...tokenize(chunk.text)];
+    const termFrequency = new Map();
+    tokens.forEach(token => termFrequency.set(token, (termFrequency.get(token) || 0) + 1));
+    termFrequency.forEach((count, token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1));
+    return { chunk, termFrequency, length: tokens.length };
+  });
+  const averageLength = documents.reduce((total, document) => total + document.length, 0) / (documents.length || 1);
+
+  const prepared = { documents, documentFrequency, averageLength };
+  preparedIndexes.set(cacheKey, prepared);
+  if (preparedIndexes.size > MAX_PREPARED_INDEXES) {
+    preparedIndexes.delete(preparedIndexes.keys().next().value);
+  }
+  return prepared;
+};
+
+// BM25 score of every chunk for the query, best first; chunks without any
+// query term are left out
+const rankChunks = ({ documents, documentFrequency, averageLength }, query) => {
+  const terms = [...new Set(tokenize(query))];
+  const count = documents.length;
+  const scored = [];
+
+  for (const document of documents) {
+    let score = 0;
+    for (const term of terms) {
+      const frequency = document.termFrequency.get(term);
+      if (!frequency) continue;
+      const df = documentFrequency.get(term);
+      const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+      score += idf * (frequency * (BM25_K1 + 1)) /
+        (frequency + BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength));
+    }
+    if (score > 0) {
+      scored.push({ chunk: document.chunk, score });
+    }
+  }
+  return scored.sort((a, b) => b.score - a.score);
+};
+
+const estimateTokens = (text) => Math.ceil(text.length / 4);
+
+// Most relevant chunks for a question that fit in the token budget. Chunks
+// overlapping one already picked from the same file are skipped
+const retrieveRelevantChunks = async (userId, repoUrl, question, { tokenBudget = CHAT_CONTEXT_TOKENS } = {}) => {
+  const repositoryKey = getRepositoryKey(repoUrl);
+  if (!repositoryKey || !question) {
+    return [];
+  }
+  const entry = await RepositoryIndex.find(userId, repositoryKey);
+  if (!entry || entry.chunks.length === 0) {
+    return [];
+  }
+
+  const selected = [];
+  let usedTokens = 0;
+  for (const { chunk } of rankChunks(prepareIndex(entry), question)) {
+    if (selected.length >= MAX_RETRIEVED_CHUNKS) break;
+    const overlaps = selected.some(picked =>
+      picked.path === chunk.path && picked.startLine <= chunk.endLine && chunk.startLine <= picked.endLine);
+    const tokens = estimateTokens(chunk.text) + estimateTokens(chunk.path) + 10;
+    if (overlaps || usedTokens + tokens > tokenBudget) continue;
+    selected.push(chunk);
+    usedTokens += tokens;
+  }
+  return selected;
+};
+
+module.exports = {
+  scheduleRepositoryIndex,
+  getIndexStatus,
+  retrieveRelevantChunks
+};
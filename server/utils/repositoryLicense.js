@@ -0,0 +1,263 @@
+const {
+  LICENSE_CATEGORIES,
+  expressionCategory,
+  identifyLicenseText,
+  identifyHeaderLicense,
+  isLicenseFile,
+  isLicenseManifest,
+  joinAlternatives,
+  readManifestLicense
+} = require('./licenseDetection');
+const { getGithubTokenForUser } = require('./repositoryAnalysis');
+const { collectFiles, mapWithConcurrency, fetchFileContent } = require('./repositoryReport');
+
+// License report of a saved repository: the project's own license from its
+// license files and manifests, the licenses source file headers declare, and
+// the copyleft dependencies that conflict with a permissive project license
+
+const SCAN_CONCURRENCY = 4;
+const MAX_LICENSE_FILES = 50;
+const MAX_LICENSE_FILE_BYTES = 256 * 1024;
+const MAX_MANIFEST_BYTES = 1024 * 1024;
+const MAX_HEADER_FILES = parseInt(process.env.LICENSE_SCAN_MAX_HEADER_FILES) || 40;
+// Only the header comment is read, but raw downloads come whole
+const MAX_HEADER_FILE_BYTES = 64 * 1024;
+
+const SOURCE_EXTENSIONS = [
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'go', 'rs', 'java', 'kt', 'scala', 'c', 'h', 'cc', 'cpp', 'hpp',
+  'cs', 'rb', 'php', 'swift', 'm', 'sh', 'vue', 'svelte'
+];
+
+// Folders holding third-party code copied into the repository
+const VENDOR_FOLDERS = ['vendor', 'vendored', 'third_party', 'third-party', 'thirdparty', 'external', 'externals', 'deps'];
+
+// Scopes whose packages ship with the project rather than only being used to
+// build or test it
+const SHIPPED_SCOPES = ['runtime', 'optional', 'peer', 'provided', 'indirect'];
+
+const SEVERITY_ORDER = ['high', 'medium', 'low'];
+
+const isRootFile = (path) => !path.includes('/');
+
+const categoryRank = (category) => LICENSE_CATEGORIES.indexOf(category);
+
+// Whether two expressions name the same licenses, ignoring order and operators
+const sameLicenses = (a, b) => {
+  const ids = (expression) => [...new Set(expression.replace(/[()]/g, ' ').split(/\s+(?:OR|AND)\s+/i).map(id => id.trim()))].sort().join(' ');
+  return ids(a) === ids(b);
+};
+
+// The third-party component a file under a vendor folder belongs to, e.g.
+// github.com/pkg/errors for vendor/github.com/pkg/errors/LICENSE
+const getVendoredComponent = (path) => {
+  const parts = path.split('/').slice(0, -1);
+  const vendorIndex = parts.findIndex(part => VENDOR_FOLDERS.includes(part.toLowerCase()));
+  return vendorIndex === -1 || vendorIndex === parts.length - 1 ? null : parts.slice(vendorIndex + 1).join('/');
+};
+
+const getExtension = (name) => {
+  const separator = name.lastIndexOf('.');
+  return separator === -1 ? '' : name.substring(separator + 1).toLowerCase();
+};
+
+// Shallow files first, which is where a project keeps its own license
+const byDepth = (a, b) => a.depth - b.depth || a.file.path.localeCompare(b.file.path);
+
+const selectFiles = (fileTree) => {
+  const files = collectFiles(fileTree).sort(byDepth);
+  const fits = (file, limit) => !file.size || file.size <= limit;
+
+  return {
+    licenseFiles: files
+      .filter(({ file }) => isLicenseFile(file.name) && fits(file, MAX_LICENSE_FILE_BYTES))
+      .slice(0, MAX_LICENSE_FILES)
+      .map(({ file }) => file),
+    manifests: files
+      .filter(({ file }) => isLicenseManifest(file.name) && !getVendoredComponent(file.path) && fits(file, MAX_MANIFEST_BYTES))
+      .slice(0, MAX_LICENSE_FILES)
+      .map(({ file }) => file),
+    sourceFiles: files
+      .filter(({ file }) => SOURCE_EXTENSIONS.includes(getExtension(file.name)) && !getVendoredComponent(file.path) &&
+        fits(file, MAX_HEADER_FILE_BYTES))
+      .slice(0, MAX_HEADER_FILES)
+      .map(({ file }) => file)
+  };
+};
+
+// Packages of the inventory with every license, scope and manifest they
+// appear with, plus the vendored components found through license files
+const collectPackages = (inventory, vendored) => {
+  const packages = new Map();
+  const add = (key, entry) => {
+    if (!packages.has(key)) {
+      packages.set(key, { ecosystem: entry.ecosystem, name: entry.name, licenses: new Set(), scopes: new Set(), manifests: new Set() });
+    }
+    const existing = packages.get(key);
+    if (entry.license) existing.licenses.add(entry.license);
+    existing.scopes.add(entry.scope);
+    existing.manifests.add(entry.manifest);
+  };
+
+  for (const dependency of inventory?.dependencies || []) {
+    add(`${dependency.ecosystem}:${dependency.name}`, dependency);
+  }
+  for (const component of vendored) {
+    add(`vendored:${component.name}`, { ...component, ecosystem: 'vendored', scope: 'runtime' });
+  }
+  return [...packages.values()];
+};
+
+// What a dependency's license means for a project under the given license
+// category, or null when it needs no attention
+const assessDependency = (projectCategory, dependencyCategory, shipped) => {
+  if (!projectCategory || projectCategory === 'strong-copyleft' || !dependencyCategory) return null;
+  if (dependencyCategory === 'strong-copyleft') {
+    return shipped ? 'high' : 'low';
+  }
+  if (dependencyCategory === 'weak-copyleft' && projectCategory === 'permissive' && shipped) {
+    return 'medium';
+  }
+  return null;
+};
+
+const buildFindings = ({ project, rootManifestLicense, licenseFiles, headerLicenses, packages }) => {
+  const findings = [];
+
+  if (!project.license) {
+    const unrecognized = licenseFiles.find(file => isRootFile(file.path) && !file.license && !file.error);
+    findings.push(unrecognized
+      ? { severity: 'medium', type: 'unrecognized-license', path: unrecognized.path, message: `${unrecognized.path} does not match a known license text` }
+      : { severity: 'medium', type: 'no-license', message: 'No license found. Without one, others have no permission to use, change or share the code' });
+  }
+
+  if (project.source === 'file' && rootManifestLicense && !sameLicenses(rootManifestLicense.license, project.license)) {
+    findings.push({
+      severity: 'low',
+      type: 'license-mismatch',
+      path: rootManifestLicense.path,
+      message: `${rootManifestLicense.path} declares ${rootManifestLicense.license} but the license file is ${project.license}`
+    });
+  }
+
+  for (const header of headerLicenses) {
+    if (project.category && header.category && categoryRank(header.category) > categoryRank(project.category)) {
+      findings.push({
+        severity: header.category === 'strong-copyleft' ? 'medium' : 'low',
+        type: 'copyleft-file',
+        path: header.example,
+        message: `${header.license} is declared in the header of ${header.files} source file${header.files === 1 ? '' : 's'}, e.g. ${header.example}`
+      });
+    }
+  }
+
+  for (const entry of packages) {
+    const license = joinAlternatives([...entry.licenses]);
+    const category = expressionCategory(license);
+    const shipped = [...entry.scopes].some(scope => SHIPPED_SCOPES.includes(scope));
+    const severity = assessDependency(project.category, category, shipped);
+    if (!severity) continue;
+    findings.push({
+      severity,
+      type: 'copyleft-dependency',
+      message: !shipped
+        ? `${entry.name} is ${license}, but only used for ${[...entry.scopes].join(', ')}`
+        : category === 'strong-copyleft'
+          ? `${entry.name} is ${license}; distributing it with the ${project.license} code puts the combined work under its terms`
+          : `${entry.name} is ${license}; changes made to it must be published under the same license`,
+      dependency: {
+        ecosystem: entry.ecosystem,
+        name: entry.name,
+        license,
+        category,
+        scopes: [...entry.scopes],
+        manifests: [...entry.manifests]
+      }
+    });
+  }
+
+  return findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+};
+
+// Scan the repository's license files, manifests and source headers, and
+// check the licenses recorded in its dependency inventory against the result
+const scanRepositoryLicenses = async (userId, repository, inventory) => {
+  const { licenseFiles, manifests, sourceFiles } = selectFiles(repository.repo_data);
+  const githubToken = await getGithubTokenForUser(userId);
+
+  const read = (files, identify) => mapWithConcurrency(files, SCAN_CONCURRENCY, async (file) => {
+    try {
+      const content = String(await fetchFileContent(file.download_url, githubToken));
+      return { path: file.path, license: identify(file, content) };
+    } catch (error) {
+      console.error(`❌ Could not read ${file.path} for licenses:`, error.message);
+      return { path: file.path, license: null, error: error.message };
+    }
+  });
+
+  const fileResults = await read(licenseFiles, (file, content) => identifyLicenseText(content));
+  const manifestResults = await read(manifests, (file, content) => readManifestLicense(file.name, content));
+  const headerResults = await read(sourceFiles, (file, content) => identifyHeaderLicense(content));
+
+  const licenseFileEntries = fileResults.map(result => ({
+    path: result.path,
+    license: result.license?.license || null,
+    method: result.license?.method || null,
+    category: expressionCategory(result.license?.license),
+    vendored: getVendoredComponent(result.path),
+    error: result.error || null
+  }));
+  const manifestEntries = manifestResults.map(result => ({
+    path: result.path,
+    license: result.license,
+    category: expressionCategory(result.license),
+    error: result.error || null
+  }));
+
+  // Several root license files, such as LICENSE-MIT and LICENSE-APACHE, mean
+  // the project is dual licensed
+  const rootFileLicense = joinAlternatives(licenseFileEntries.filter(entry => isRootFile(entry.path)).map(entry => entry.license));
+  const rootManifestLicense = manifestEntries.find(entry => isRootFile(entry.path) && entry.license) || null;
+  const projectLicense = rootFileLicense || rootManifestLicense?.license || null;
+  const project = {
+    license: projectLicense,
+    category: expressionCategory(projectLicense),
+    source: rootFileLicense ? 'file' : rootManifestLicense ? 'manifest' : null
+  };
+
+  const headerCounts = new Map();
+  for (const result of headerResults.filter(entry => entry.license)) {
+    const current = headerCounts.get(result.license) || { license: result.license, category: expressionCategory(result.license), files: 0, example: result.path };
+    current.files++;
+    headerCounts.set(result.license, current);
+  }
+  const headerLicenses = [...headerCounts.values()].sort((a, b) => b.files - a.files);
+
+  const vendored = licenseFileEntries
+    .filter(entry => entry.vendored)
+    .map(entry => ({ name: entry.vendored, license: entry.license, manifest: entry.path }));
+  const packages = collectPackages(inventory, vendored);
+  const byCategory = Object.fromEntries([...LICENSE_CATEGORIES, 'unknown'].map(category => [category, 0]));
+  for (const entry of packages) {
+    byCategory[expressionCategory(joinAlternatives([...entry.licenses])) || 'unknown']++;
+  }
+
+  return {
+    commitSha: repository.repo_stats?.commitSha || null,
+    scannedAt: new Date().toISOString(),
+    project,
+    licenseFiles: licenseFileEntries,
+    manifests: manifestEntries,
+    headers: { scannedFiles: headerResults.length, licenses: headerLicenses },
+    dependencies: {
+      inventoryScannedAt: inventory?.scannedAt || null,
+      total: packages.length,
+      withLicense: packages.filter(entry => entry.licenses.size > 0).length,
+      byCategory
+    },
+    findings: buildFindings({ project, rootManifestLicense, licenseFiles: licenseFileEntries, headerLicenses, packages })
+  };
+};
+
+module.exports = {
+  scanRepositoryLicenses
+};
@@ -0,0 +1,393 @@
+const axios = require('axios');
+const {
+  normalizeTreePath,
+  resolveCommit,
+  resolveTreePath,
+  shouldSkip,
+  isSkippedPath,
+  fetchRepositoryEntries,
+  buildFileTreeFromEntries,
+  buildDownloadUrl,
+  summarizeEntries,
+  retryWithBackoff
+} = require('./githubTree');
+const {
+  parseGitHubUrl,
+  getGithubTokenForUser,
+  validateRepositoryExists
+} = require('./repositoryAnalysis');
+
+// Bring a saved repository up to date with its branch without recrawling it.
+//
+// GitHub's compare API lists the paths that changed between the stored commit
+// and the current head; only the directories holding added or modified files
+// are listed again, and the stored tree is patched in place. When that is not
+// possible (no stored commit, history rewritten, or more changes than the
+// compare API lists) the tree is rebuilt from a fresh Git Trees fetch instead.
+
+// The compare API returns at most this many files
+const MAX_COMPARE_FILES = 300;
+
+const githubHeaders = (githubToken) => ({
+  Accept: 'application/vnd.github.v3+json',
+  ...(githubToken ? { Authorization: `token ${githubToken}` } : {})
+});
+
+// Changed files between two commits, or null when they cannot be compared incrementally
+const fetchChangedFiles = async (owner, repo, baseSha, headSha, githubToken) => {
+  const response = await retryWithBackoff(async () => {
+    return await axios.get(
+      `https://api.github.com/repos/${owner}/${repo}/compare/${baseSha}...${headSha}`,
+      {
+        headers: githubHeaders(githubToken),
+        timeout: 15000,
+        validateStatus: (status) => status < 500 // Don't throw for 4xx errors
+      }
+    );
+  });
+
+  // Base commit no longer exists (e.g. after a force push)
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (response.status >= 400) {
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+
+  // 'diverged' and 'behind' diff against the merge base, not the stored commit
+  const files = response.data.files || [];
+  if (response.data.status !== 'ahead' || files.length >= MAX_COMPARE_FILES) {
+    return null;
+  }
+
+  return files;
+};
+
+// Entries of one directory at a commit, in the same shape as fetchRepositoryEntries
+const fetchDirectoryEntries = async (owner, repo, commitSha, path, githubToken) => {
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+  const response = await retryWithBackoff(async () => {
+    return await axios.get(
+      `https://api.github.com/repos/${owner}/${repo}/contents/${encodedPath}`,
+      {
+        headers: githubHeaders(githubToken),
+        params: { ref: commitSha },
+        timeout: 15000
+      }
+    );
+  });
+
+  const types = { dir: 'tree', submodule: 'commit' };
+  return (Array.isArray(response.data) ? response.data : []).map(item => ({
+    path: item.path,
+    type: types[item.type] || 'blob',
+    sha: item.sha,
+    size: item.size
+  }));
+};
+
+const collectFiles = (node, files = new Map()) => {
+  if (node.type === 'file') {
+    files.set(node.path, node);
+  }
+  (node.children || []).forEach(child => collectFiles(child, files));
+  return files;
+};
+
+const countTree = (node, level = 0) => {
+  const counts = { files: 0, folders: 0, depth: level + 1, size: 0 };
+  for (const child of node.children || []) {
+    if (child.type === 'file') {
+      counts.files++;
+      counts.depth = Math.max(counts.depth, level + 2);
+      counts.size += typeof child.size === 'number' ? child.size : 0;
+    } else {
+      const childCounts = countTree(child, level + 1);
+      counts.folders += childCounts.folders + 1;
+      counts.files += childCounts.files;
+      counts.size += childCounts.size;
+      counts.depth = Math.max(counts.depth, childCounts.depth);
+    }
+  }
+  return counts;
+};
+
+// Remove a file and any folders it leaves empty. Returns how many folders were pruned
+const removeFile = (root, relativePath) => {
+  const segments = relativePath.split('/');
+  const trail = [root];
+  for (const segment of segments.slice(0, -1)) {
+    const folder = trail[trail.length - 1].children?.find(child => child.type === 'folder' && child.name === segment);
+    if (!folder) {
+      return 0;
+    }
+    trail.push(folder);
+  }
+
+  const parent = trail[trail.length - 1];
+  const index = (parent.children || []).findIndex(child => child.type === 'file' && child.name === segments[segments.length - 1]);
+  if (index === -1) {
+    return 0;
+  }
+  parent.children.splice(index, 1);
+
+  // Git has no empty directories, so a folder emptied by the removal is gone too
+  let pruned = 0;
+  for (let i = trail.length - 1; i > 0 && trail[i].children.length === 0 && !trail[i].truncated; i--) {
+    trail[i - 1].children = trail[i - 1].children.filter(child => child !== trail[i]);
+    pruned++;
+  }
+  return pruned;
+};
+
+// Add or replace a file, creating missing folders up to the tree's depth limit.
+// Files beyond the limit only get their folders created, so `entry` may be null
+// for them. Returns how many folders were created
+const upsertFile = (root, relativePath, entry, { owner, repo, commitSha, maxDepth, rootPath }) => {
+  const segments = relativePath.split('/');
+  let parent = root;
+  let created = 0;
+
+  for (let i = 0; i < segments.length - 1; i++) {
+    const level = i + 1;
+    let folder = parent.children.find(child => child.type === 'folder' && child.name === segments[i]);
+    if (!folder) {
+      folder = {
+        name: segments[i],
+        type: 'folder',
+        path: [rootPath, ...segments.slice(0, level)].filter(Boolean).join('/'),
+        children: [],
+        depth: level,
+        actualDepth: level,
+        maxDepth
+      };
+      if (level >= maxDepth) {
+        folder.truncated = true;
+        folder.message = `Maximum depth (${maxDepth}) reached`;
+      }
+      parent.children.push(folder);
+      created++;
+    }
+    if (folder.truncated) {
+      return created;
+    }
+    parent = folder;
+  }
+
+  const level = segments.length;
+  const fileNode = {
+    name: segments[segments.length - 1],
+    type: 'file',
+    path: entry.path,
+    download_url: entry.type === 'blob' ? buildDownloadUrl(owner, repo, commitSha, entry.path) : null,
+    size: entry.size || 0,
+    sha: entry.sha,
+    depth: level - 1,
+    actualDepth: level - 1,
+    maxDepth
+  };
+  const index = parent.children.findIndex(child => child.type === 'file' && child.name === fileNode.name);
+  if (index === -1) {
+    parent.children.push(fileNode);
+  } else {
+    parent.children[index] = fileNode;
+  }
+  return created;
+};
+
+// Point every stored download URL at the new commit
+const repinDownloadUrls = (node, { owner, repo, commitSha }) => {
+  if (node.type === 'file' && node.download_url) {
+    node.download_url = buildDownloadUrl(owner, repo, commitSha, node.path);
+  }
+  (node.children || []).forEach(child => repinDownloadUrls(child, { owner, repo, commitSha }));
+};
+
+// Patch the stored tree with the changes from the compare API
+const applyIncrementalChanges = async (tree, changedFiles, context) => {
+  const { owner, repo, commitSha, maxDepth, rootPath, githubToken } = context;
+  const change = { filesAdded: 0, filesRemoved: 0, filesModified: 0, foldersAdded: 0, foldersRemoved: 0 };
+  const upserts = [];
+
+  // Compare paths are relative to the repository root; null when outside the analyzed subdirectory
+  const toRelative = (path) => {
+    if (!path || !rootPath) return path || null;
+    return path.startsWith(`${rootPath}/`) ? path.slice(rootPath.length + 1) : null;
+  };
+
+  for (const file of changedFiles) {
+    const relativePath = toRelative(file.filename);
+    const previousPath = toRelative(file.previous_filename);
+
+    if (file.status === 'renamed' && previousPath && !isSkippedPath(previousPath)) {
+      change.foldersRemoved += removeFile(tree, previousPath);
+      change.filesRemoved++;
+    }
+
+    if (relativePath === null || isSkippedPath(relativePath)) {
+      continue;
+    }
+
+    if (file.status === 'removed') {
+      change.foldersRemoved += removeFile(tree, relativePath);
+      change.filesRemoved++;
+    } else if (file.status === 'modified' || file.status === 'changed') {
+      change.filesModified++;
+      upserts.push(relativePath);
+    } else if (file.status !== 'unchanged') {
+      // added, copied, renamed
+      change.filesAdded++;
+      upserts.push(relativePath);
+    }
+  }
+
+  // Only directories inside the depth limit are listed. Deeper files are not
+  // shown, but their folders appear down to the depth limit (marked truncated)
+  const visibleUpserts = upserts.filter(path => path.split('/').length - 1 < maxDepth);
+  for (const relativePath of upserts.filter(path => !visibleUpserts.includes(path))) {
+    change.foldersAdded += upsertFile(tree, relativePath, null, { owner, repo, commitSha, maxDepth, rootPath });
+  }
+  const directories = [...new Set(visibleUpserts.map(path => path.split('/').slice(0, -1).join('/')))];
+  const listings = new Map();
+  for (const directory of directories) {
+    const fullPath = [rootPath, directory].filter(Boolean).join('/');
+    listings.set(directory, await fetchDirectoryEntries(owner, repo, commitSha, fullPath, githubToken));
+  }
+
+  for (const relativePath of visibleUpserts) {
+    const directory = relativePath.split('/').slice(0, -1).join('/');
+    const fullPath = [rootPath, relativePath].filter(Boolean).join('/');
+    const entry = listings.get(directory).find(item => item.path === fullPath);
+    if (entry && !shouldSkip(entry.path.split('/').pop())) {
+      change.foldersAdded += upsertFile(tree, relativePath, entry, { owner, repo, commitSha, maxDepth, rootPath });
+    }
+  }
+
+  repinDownloadUrls(tree, { owner, repo, commitSha });
+  return change;
+};
+
+// Rebuild the tree from scratch and work out what changed by comparing file lists
+const rebuildTree = async (oldTree, context) => {
+  const { owner, repo, commitSha, maxDepth, rootPath, githubToken } = context;
+  const treeSha = await resolveTreePath(owner, repo, commitSha, rootPath, githubToken);
+  const entries = await fetchRepositoryEntries(owner, repo, treeSha, githubToken, { basePath: rootPath });
+  const tree = buildFileTreeFromEntries(entries, { owner, repo, ref: commitSha, maxDepth, basePath: rootPath });
+
+  const oldFiles = collectFiles(oldTree);
+  const newFiles = collectFiles(tree);
+  const change = { filesAdded: 0, filesRemoved: 0, filesModified: 0 };
+  for (const [path, node] of newFiles) {
+    const previous = oldFiles.get(path);
+    if (!previous) {
+      change.filesAdded++;
+    } else if (previous.sha ? previous.sha !== node.sha : previous.size !== node.size) {
+      // Trees saved before blob SHAs were stored can only be compared by size
+      change.filesModified++;
+    }
+  }
+  for (const path of oldFiles.keys()) {
+    if (!newFiles.has(path)) {
+      change.filesRemoved++;
+    }
+  }
+
+  return { tree, change, summary: summarizeEntries(entries, rootPath) };
+};
+
+/**
+ * Refresh a saved repository against the current head of its ref.
+ *
+ * Returns `{ upToDate: true }` when nothing changed, otherwise the patched
+ * `repoData`, updated `repoStats` and a `change` entry for the history.
+ */
+const refreshRepository = async (userId, repository) => {
+  const parsed = parseGitHubUrl(repository.repo_url);
+  if (!parsed) {
+    throw new Error('Invalid GitHub URL');
+  }
+
+  const { owner, repo } = parsed;
+  const stats = repository.repo_stats || {};
+  const githubToken = await getGithubTokenForUser(userId);
+  const ref = stats.ref || (await validateRepositoryExists(owner, repo, githubToken)).defaultBranch;
+  const headSha = await resolveCommit(owner, repo, ref, githubToken);
+  if (!headSha) {
+    throw new Error(`Ref '${ref}' not found in ${owner}/${repo}. It may have been deleted.`);
+  }
+
+  if (stats.commitSha === headSha) {
+    return { upToDate: true, commitSha: headSha };
+  }
+
+  const context = {
+    owner,
+    repo,
+    commitSha: headSha,
+    maxDepth: stats.maxDepth || Math.max(stats.analyzedDepth || 0, 15),
+    rootPath: normalizeTreePath(stats.subPath),
+    githubToken
+  };
+  const oldCounts = countTree(repository.repo_data);
+
+  const changedFiles = stats.commitSha
+    ? await fetchChangedFiles(owner, repo, stats.commitSha, headSha, githubToken)
+    : null;
+
+  let repoData;
+  let change;
+  let totals;
+  if (changedFiles) {
+    // Patch a copy so a failure halfway leaves the stored tree untouched
+    repoData = JSON.parse(JSON.stringify(repository.repo_data));
+    change = await applyIncrementalChanges(repoData, changedFiles, context);
+    totals = {
+      // Folders created or emptied beyond the depth limit are not visible here
+      files: Math.max((stats.totalFiles || 0) + change.filesAdded - change.filesRemoved, 0),
+      folders: Math.max((stats.totalFolders || 0) + change.foldersAdded - change.foldersRemoved, 0),
+      depth: stats.totalDepth || 0
+    };
+    change = { filesAdded: change.filesAdded, filesRemoved: change.filesRemoved, filesModified: change.filesModified };
+  } else {
+    const rebuilt = await rebuildTree(repository.repo_data, context);
+    repoData = rebuilt.tree;
+    change = rebuilt.change;
+    totals = rebuilt.summary;
+  }
+
+  const newCounts = countTree(repoData);
+  const repoStats = {
+    ...stats,
+    analyzedFiles: Math.min(newCounts.files, totals.files),
+    analyzedFolders: Math.min(newCounts.folders, totals.folders),
+    totalFiles: totals.files,
+    totalFolders: totals.folders,
+    analyzedDepth: Math.min(newCounts.depth, context.maxDepth),
+    totalDepth: Math.max(totals.depth, Math.min(newCounts.depth, context.maxDepth)),
+    totalSize: newCounts.size,
+    ref,
+    commitSha: headSha,
+    maxDepth: context.maxDepth,
+    lastAnalyzed: new Date()
+  };
+
+  return {
+    upToDate: false,
+    repoData,
+    repoStats,
+    change: {
+      type: 'refresh',
+      mode: changedFiles ? 'incremental' : 'full',
+      fromCommit: stats.commitSha || null,
+      toCommit: headSha,
+      ...change,
+      sizeDelta: newCounts.size - oldCounts.size,
+      refreshedAt: new Date()
+    }
+  };
+};
+
+module.exports = {
+  refreshRepository
+};
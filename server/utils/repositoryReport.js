@@ -0,0 +1,281 @@
+const axios = require('axios');
+const Repository = require('../models/Repository');
+const { GITHUB_CONTENT_HOSTS } = require('./githubTree');
+const {
+  getGithubTokenForUser,
+  updateAnalysisProgress,
+  isAnalysisCancelled
+} = require('./repositoryAnalysis');
+const { cleanJsonResponse, analyzeCode } = require('./codeAnalysis');
+const { resolveLLM, generateText } = require('./llmProviders');
+
+// Repository-level AI report: pick the files that say the most about a
+// codebase, run the per-file analysis over them and roll the results up into
+// an architecture summary, module map, issue list and library inventory
+
+const MAX_REPORT_FILES = 20;
+const REPORT_CONCURRENCY = parseInt(process.env.REPORT_ANALYSIS_CONCURRENCY) || 3;
+// Larger files are skipped, and content is cut off before it reaches the prompt
+const MAX_FILE_BYTES = 100 * 1024;
+const MAX_CONTENT_CHARS = 30000;
+
+const MANIFEST_FILES = [
+  'package.json', 'requirements.txt', 'pyproject.toml', 'setup.py', 'pipfile',
+  'cargo.toml', 'go.mod', 'pom.xml', 'build.gradle', 'build.gradle.kts',
+  'gemfile', 'composer.json', 'dockerfile', 'docker-compose.yml'
+];
+const ENTRY_POINT_NAMES = ['index', 'main', 'app', 'server', 'cli', '__main__', 'manage', 'program'];
+const SOURCE_EXTENSIONS = [
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'go', 'rs', 'java', 'kt', 'rb',
+  'php', 'cs', 'cpp', 'cc', 'c', 'h', 'hpp', 'swift', 'scala', 'vue', 'svelte'
+];
+
+const getExtension = (name) => (name.includes('.') ? name.split('.').pop().toLowerCase() : '');
+const isSourceFile = (name) => SOURCE_EXTENSIONS.includes(getExtension(name));
+
+// Flatten the tree into downloadable files with their depth below the root
+const collectFiles = (node, depth = 0, files = []) => {
+  if (node.type === 'file') {
+    if (node.download_url) {
+      files.push({ file: node, depth });
+    }
+  } else {
+    (node.children || []).forEach(child => collectFiles(child, depth + 1, files));
+  }
+  return files;
+};
+
+// Manifests first, then the README, shallow entry points and finally the
+// largest source modules until the limit is reached
+const selectReportFiles = (fileTree, limit = MAX_REPORT_FILES) => {
+  const candidates = collectFiles(fileTree).filter(({ file }) => !file.size || file.size <= MAX_FILE_BYTES);
+  const selected = new Map();
+  const add = ({ file }, reason) => {
+    if (selected.size < limit && !selected.has(file.path)) {
+      selected.set(file.path, { file, reason });
+    }
+  };
+  const shallowestFirst = (a, b) => a.depth - b.depth;
+
+  candidates
+    .filter(({ file }) => MANIFEST_FILES.includes(file.name.toLowerCase()))
+    .sort(shallowestFirst)
+    .slice(0, 5)
+    .forEach(entry => add(entry, 'manifest'));
+
+  candidates
+    .filter(({ file }) => /^readme(\.|$)/i.test(file.name))
+    .sort(shallowestFirst)
+    .slice(0, 1)
+    .forEach(entry => add(entry, 'documentation'));
+
+  candidates
+    .filter(({ file, depth }) =>
+      depth <= 3 &&
+      isSourceFile(file.name) &&
+      ENTRY_POINT_NAMES.includes(file.name.replace(/\.[^.]+$/, '').toLowerCase()))
+    .sort(shallowestFirst)
+    .slice(0, 6)
+    .forEach(entry => add(entry, 'entry point'));
+
+  candidates
+    .filter(({ file }) => isSourceFile(file.name))
+    .sort((a, b) => (b.file.size || 0) - (a.file.size || 0))
+    .forEach(entry => add(entry, 'large module'));
+
+  return [...selected.values()];
+};
+
+// Run fn over items with at most `limit` calls in flight, keeping order
+const mapWithConcurrency = async (items, limit, fn) => {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const fetchFileContent = async (url, githubToken) => {
+  const headers = githubToken && GITHUB_CONTENT_HOSTS.includes(new URL(url).hostname)
+    ? { Authorization: `token ${githubToken}` }
+    : {};
+  // Keep JSON manifests as text rather than letting axios parse them
+  const response = await axios.get(url, { headers, responseType: 'text', transformResponse: (data) => data });
+  return response.data;
+};
+
+const getModuleName = (path) => {
+  const separator = path.lastIndexOf('/');
+  return separator === -1 ? '/' : path.substring(0, separator);
+};
+
+// Ask the model for an overall picture from the per-file summaries. Returns
+// null when the model fails, in which case the report goes without it
+const summarizeArchitecture = async (repoUrl, fileResults, moduleNames, llm) => {
+  const fileLines = fileResults
+    .map(result => `- ${result.path} (${result.reason}): ${result.summary || 'no summary available'}`)
+    .join('\n');
+
+  const prompt = `You are reviewing the repository ${repoUrl}. Below are summaries of its most important files. Return ONLY a valid JSON object. Do not include any other text.
+
+JSON format required:
+{
+  "architectureSummary": "A few paragraphs describing the overall architecture, the main components and how they interact",
+  "modules": {"<directory>": "One sentence describing the role of this directory"}
+}
+
+Use exactly these directory keys in "modules": ${moduleNames.map(name => JSON.stringify(name)).join(', ')}
+
+Files:
+${fileLines}
+
+JSON:`;
+
+  try {
+    const result = await generateText({ ...llm, prompt, temperature: 0.2, maxOutputTokens: 2048 });
+    const parsed = JSON.parse(cleanJsonResponse(result.text));
+    return {
+      architectureSummary: typeof parsed.architectureSummary === 'string' ? parsed.architectureSummary.trim() : null,
+      modules: parsed.modules && typeof parsed.modules === 'object' ? parsed.modules : {}
+    };
+  } catch (error) {
+    console.error('❌ Architecture summary failed:', error.message);
+    return null;
+  }
+};
+
+// Merge the per-file results into the report sections
+const aggregateResults = (fileResults, moduleDescriptions) => {
+  const modules = new Map();
+  const issues = [];
+  const libraries = new Map();
+
+  for (const result of fileResults) {
+    const moduleName = getModuleName(result.path);
+    if (!modules.has(moduleName)) {
+      modules.set(moduleName, []);
+    }
+    modules.get(moduleName).push(result.path);
+
+    const seenIssues = new Set();
+    for (const finding of result.issues) {
+      const key = finding.message.toLowerCase();
+      if (seenIssues.has(key)) continue;
+      seenIssues.add(key);
+      issues.push({
+        path: result.path,
+        issue: finding.message,
+        severity: finding.severity,
+        startLine: finding.startLine,
+        endLine: finding.endLine
+      });
+    }
+
+    for (const library of result.libraries) {
+      const key = library.toLowerCase();
+      if (!libraries.has(key)) {
+        libraries.set(key, { name: library, files: [] });
+      }
+      const entry = libraries.get(key);
+      if (!entry.files.includes(result.path)) {
+        entry.files.push(result.path);
+      }
+    }
+  }
+
+  return {
+    modules: [...modules.entries()]
+      .map(([path, files]) => ({
+        path,
+        description: typeof moduleDescriptions[path] === 'string' ? moduleDescriptions[path] : null,
+        files
+      }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    issues,
+    libraries: [...libraries.values()].sort((a, b) => b.files.length - a.files.length || a.name.localeCompare(b.name))
+  };
+};
+
+// Build the report for a saved repository and store it with the repository.
+// Progress and cancellation go through the analysis registered under analysisKey
+const runRepositoryReport = async (analysisKey, { userId, repositoryId, provider, model }) => {
+  const repository = await Repository.findById(userId, repositoryId);
+  if (!repository) {
+    throw new Error('Repository not found');
+  }
+  const resolved = await resolveLLM({ provider, model });
+  const llm = { provider: resolved.provider.id, model: resolved.model };
+
+  const selection = selectReportFiles(repository.repo_data);
+  if (selection.length === 0) {
+    throw new Error('Repository has no files that can be analyzed');
+  }
+  updateAnalysisProgress(analysisKey, { progress: 5, currentPath: `Selected ${selection.length} files` });
+  console.log(`📝 Building report for ${repository.repo_url} from ${selection.length} files`);
+
+  const githubToken = await getGithubTokenForUser(userId);
+  let completed = 0;
+
+  const fileResults = await mapWithConcurrency(selection, REPORT_CONCURRENCY, async ({ file, reason }) => {
+    if (isAnalysisCancelled(analysisKey)) {
+      throw new Error('Analysis cancelled by user');
+    }
+
+    const base = { path: file.path, name: file.name, size: file.size || 0, reason };
+    try {
+      const content = await fetchFileContent(file.download_url, githubToken);
+      const { analysis, partial } = await analyzeCode(String(content).substring(0, MAX_CONTENT_CHARS), file.name, llm);
+      return { ...base, ...analysis, partial };
+    } catch (error) {
+      // One file failing should not sink the whole report
+      console.error(`❌ Report analysis failed for ${file.path}:`, error.message);
+      return { ...base, error: error.message };
+    } finally {
+      completed++;
+      updateAnalysisProgress(analysisKey, {
+        progress: 5 + (completed / selection.length) * 85,
+        currentPath: file.path
+      });
+    }
+  });
+
+  const analyzed = fileResults.filter(result => !result.error);
+  if (analyzed.length === 0) {
+    throw new Error(`Could not analyze any files: ${fileResults[0].error}`);
+  }
+  if (isAnalysisCancelled(analysisKey)) {
+    throw new Error('Analysis cancelled by user');
+  }
+
+  updateAnalysisProgress(analysisKey, { progress: 92, currentPath: 'Summarizing architecture' });
+  const moduleNames = [...new Set(analyzed.map(result => getModuleName(result.path)))];
+  const architecture = await summarizeArchitecture(repository.repo_url, analyzed, moduleNames, llm);
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    provider: llm.provider,
+    model: llm.model,
+    commitSha: repository.repo_stats?.commitSha || null,
+    architectureSummary: architecture?.architectureSummary || null,
+    ...aggregateResults(analyzed, architecture?.modules || {}),
+    files: fileResults
+  };
+
+  await Repository.saveReport(userId, repositoryId, report);
+  console.log(`✅ Report saved for ${repository.repo_url} (${analyzed.length}/${fileResults.length} files analyzed)`);
+  return report;
+};
+
+module.exports = {
+  SOURCE_EXTENSIONS,
+  collectFiles,
+  mapWithConcurrency,
+  fetchFileContent,
+  selectReportFiles,
+  runRepositoryReport
+};
@@ -0,0 +1,31 @@
+const crypto = require('crypto');
+
+const ALGORITHM = 'aes-256-gcm';
+
+// Derive a 32 byte key from TOKEN_ENCRYPTION_KEY (falls back to JWT_SECRET so
+// existing deployments keep working, but a dedicated key should be configured)
+const getKey = () => {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('TOKEN_ENCRYPTION_KEY is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+// Encrypt a secret as "iv:authTag:ciphertext" (all base64)
+const encryptSecret = (plainText) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+  return [iv, authTag, encrypted].map(part => part.toString('base64')).join(':');
+};
+
+const decryptSecret = (payload) => {
+  const [iv, authTag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+module.exports = { encryptSecret, decryptSecret };
@@ -0,0 +1,237 @@
+const { SEVERITY_LEVELS } = require('./advisoryDatabase');
+
+// Match a repository's dependency inventory against the imported advisories.
+// Only exact versions can be matched: lockfile entries and manifest entries
+// pinned to a single version. Ranges such as ^1.2.0 are counted as unchecked
+
+// Ecosystems whose versions follow semver, with pre-releases after a "-"
+const SEMVER_ECOSYSTEMS = ['npm', 'crates.io', 'Go'];
+
+// Order of qualifiers in non-semver versions (PyPI, Maven, RubyGems,
+// Packagist); anything ranked below "release" is a pre-release
+const QUALIFIER_RANKS = {
+  dev: 0, snapshot: 0,
+  alpha: 1, a: 1,
+  beta: 2, b: 2,
+  milestone: 3, m: 3,
+  rc: 4, c: 4, cr: 4, pre: 4, preview: 4,
+  release: 5, final: 5, ga: 5,
+  post: 6, sp: 6, p: 6, pl: 6, patch: 6
+};
+const RELEASE_RANK = QUALIFIER_RANKS.release;
+
+const compareNumbers = (a, b) => {
+  const x = a.replace(/^0+(?=\d)/, '');
+  const y = b.replace(/^0+(?=\d)/, '');
+  return x.length - y.length || (x < y ? -1 : x > y ? 1 : 0);
+};
+
+const isNumber = (token) => /^\d+$/.test(token);
+
+const compareTokens = (a, b) => {
+  if (isNumber(a) && isNumber(b)) return compareNumbers(a, b);
+  if (isNumber(a)) return 1;
+  if (isNumber(b)) return -1;
+  const rankA = QUALIFIER_RANKS[a] ?? RELEASE_RANK - 0.5;
+  const rankB = QUALIFIER_RANKS[b] ?? RELEASE_RANK - 0.5;
+  return rankA - rankB || a.localeCompare(b);
+};
+
+// Loose comparison for PyPI, Maven, RubyGems and Packagist versions: numbers
+// and qualifiers compared in turn, so 1.0 = 1.0.0, 1.0rc1 < 1.0 < 1.0.post1
+const compareGenericVersions = (a, b) => {
+  const tokenize = (version) => version
+    .toLowerCase()
+    .replace(/^v(?=\d)/, '')
+    .replace(/^\d+!/, '')
+    .replace(/\+.*$/, '')
+    .match(/\d+|[a-z]+/g) || [];
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+
+  for (let i = 0; i < Math.max(tokensA.length, tokensB.length); i++) {
+    // A missing part is 0 next to a number and a plain release next to a qualifier
+    const tokenA = tokensA[i] ?? (isNumber(tokensB[i]) ? '0' : 'release');
+    const tokenB = tokensB[i] ?? (isNumber(tokensA[i]) ? '0' : 'release');
+    const result = compareTokens(tokenA, tokenB);
+    if (result !== 0) return result;
+  }
+  return 0;
+};
+
+const compareSemver = (a, b) => {
+  const parse = (version) => {
+    const [main, ...prerelease] = version.replace(/^v/, '').replace(/\+.*$/, '').split('-');
+    return { parts: main.split('.'), prerelease: prerelease.join('-') };
+  };
+  const x = parse(a);
+  const y = parse(b);
+
+  for (let i = 0; i < Math.max(x.parts.length, y.parts.length); i++) {
+    const result = compareNumbers(x.parts[i] || '0', y.parts[i] || '0');
+    if (result !== 0) return result;
+  }
+  // A pre-release comes before its release
+  if (!x.prerelease && !y.prerelease) return 0;
+  if (!y.prerelease) return -1;
+  if (!x.prerelease) return 1;
+  const idsA = x.prerelease.split('.');
+  const idsB = y.prerelease.split('.');
+  for (let i = 0; i < Math.max(idsA.length, idsB.length); i++) {
+    if (idsA[i] === undefined) return -1;
+    if (idsB[i] === undefined) return 1;
+    const result = isNumber(idsA[i]) && isNumber(idsB[i])
+      ? compareNumbers(idsA[i], idsB[i])
+      : isNumber(idsA[i]) ? -1 : isNumber(idsB[i]) ? 1 : idsA[i].localeCompare(idsB[i]);
+    if (result !== 0) return result;
+  }
+  return 0;
+};
+
+const compareVersions = (ecosystem, a, b) =>
+  SEMVER_ECOSYSTEMS.includes(ecosystem) ? compareSemver(a, b) : compareGenericVersions(a, b);
+
+// The single version a manifest spec pins, or null for ranges
+const PINNED_VERSION_PATTERNS = {
+  npm: /^=?\s*v?(\d+\.\d+\.\d+(?:[-+][\w.+-]*)?)$/,
+  'crates.io': /^=\s*(\d+\.\d+\.\d+(?:[-+][\w.+-]*)?)$/,
+  Go: /^(v\d+\.\d+\.\d+(?:[-+][\w.+-]*)?)$/,
+  PyPI: /^===?\s*([\w.!+-]+)$/,
+  Maven: /^([^[\](),$+\s]+)$/,
+  RubyGems: /^=?\s*(\d[\w.-]*)$/,
+  Packagist: /^=?\s*v?(\d+(?:\.\d+)*(?:-[\w.]+)?)$/
+};
+
+const pinnedVersion = (ecosystem, spec) => {
+  const match = spec && PINNED_VERSION_PATTERNS[ecosystem]?.exec(spec.trim());
+  return match ? match[1] : null;
+};
+
+// Locked gems carry their platform, as in 1.15.0-x86_64-linux
+const lockedVersion = (ecosystem, version) =>
+  ecosystem === 'RubyGems' ? version.replace(/-[a-z][\w-]*$/i, '') : version;
+
+// Whether a version falls in an affected entry, evaluating range events in
+// version order as the OSV schema describes
+const isAffected = (ecosystem, version, affected) => {
+  const stripped = version.replace(/^v(?=\d)/, '');
+  if (affected.versions.some(listed => listed === version || listed.replace(/^v(?=\d)/, '') === stripped)) {
+    return true;
+  }
+
+  return affected.ranges.some(range => {
+    const events = range.events
+      .map(event => {
+        const [type, eventVersion] = Object.entries(event)[0] || [];
+        return { type, version: eventVersion };
+      })
+      .filter(event => ['introduced', 'fixed', 'last_affected'].includes(event.type) && typeof event.version === 'string')
+      .sort((a, b) => (a.version === '0' ? -1 : b.version === '0' ? 1 : compareVersions(ecosystem, a.version, b.version)));
+
+    let inRange = false;
+    for (const event of events) {
+      if (event.type === 'introduced' && (event.version === '0' || compareVersions(ecosystem, version, event.version) >= 0)) {
+        inRange = true;
+      } else if (event.type === 'fixed' && compareVersions(ecosystem, version, event.version) >= 0) {
+        inRange = false;
+      } else if (event.type === 'last_affected' && compareVersions(ecosystem, version, event.version) > 0) {
+        inRange = false;
+      }
+    }
+    return inRange;
+  });
+};
+
+// Versions that fix the advisory for this version, lowest first
+const getFixedVersions = (ecosystem, version, affected) => {
+  const fixed = affected.ranges
+    .flatMap(range => range.events.map(event => event.fixed))
+    .filter(fixedVersion => typeof fixedVersion === 'string' && compareVersions(ecosystem, fixedVersion, version) > 0);
+  return [...new Set(fixed)].sort((a, b) => compareVersions(ecosystem, a, b));
+};
+
+const severityRank = (level) => {
+  const rank = SEVERITY_LEVELS.indexOf(level);
+  return rank === -1 ? SEVERITY_LEVELS.length : rank;
+};
+
+const checkVulnerabilities = (inventory, database) => {
+  const lockfiles = new Set(inventory.manifests.filter(manifest => manifest.kind === 'lockfile').map(manifest => manifest.path));
+  const packages = new Map();
+  const unpinned = new Map();
+
+  for (const dependency of inventory.dependencies) {
+    const version = lockfiles.has(dependency.manifest)
+      ? lockedVersion(dependency.ecosystem, dependency.version || '')
+      : pinnedVersion(dependency.ecosystem, dependency.version);
+    const packageKey = `${dependency.ecosystem}:${dependency.name}`;
+    if (!version) {
+      unpinned.set(packageKey, dependency);
+      continue;
+    }
+
+    const key = `${packageKey}@${version}`;
+    if (!packages.has(key)) {
+      packages.set(key, { ecosystem: dependency.ecosystem, name: dependency.name, version, scopes: new Set(), manifests: new Set() });
+    }
+    packages.get(key).scopes.add(dependency.scope);
+    packages.get(key).manifests.add(dependency.manifest);
+  }
+
+  // A range is covered when a lockfile pins the same package
+  const checkedNames = new Set([...packages.values()].map(entry => `${entry.ecosystem}:${entry.name}`));
+  const unchecked = [...unpinned.keys()].filter(key => !checkedNames.has(key)).length;
+
+  const findings = [];
+  for (const entry of packages.values()) {
+    const advisories = (database.index.get(`${entry.ecosystem}:${entry.name}`) || [])
+      .filter(({ affected }) => isAffected(entry.ecosystem, entry.version, affected))
+      .map(({ advisory, affected }) => ({
+        id: advisory.id,
+        aliases: advisory.aliases,
+        summary: advisory.summary,
+        severity: advisory.severity.level,
+        score: advisory.severity.score,
+        fixedVersions: getFixedVersions(entry.ecosystem, entry.version, affected)
+      }));
+    if (advisories.length === 0) continue;
+
+    // An advisory can list the same package more than once
+    const unique = [...new Map(advisories.map(advisory => [advisory.id, advisory])).values()]
+      .sort((a, b) => severityRank(a.severity) - severityRank(b.severity) || a.id.localeCompare(b.id));
+    findings.push({
+      ecosystem: entry.ecosystem,
+      name: entry.name,
+      version: entry.version,
+      scopes: [...entry.scopes],
+      manifests: [...entry.manifests],
+      severity: unique[0].severity,
+      advisories: unique
+    });
+  }
+  findings.sort((a, b) => severityRank(a.severity) - severityRank(b.severity) || a.name.localeCompare(b.name));
+
+  const counts = Object.fromEntries([...SEVERITY_LEVELS, 'unknown'].map(level => [level, 0]));
+  for (const finding of findings) {
+    for (const advisory of finding.advisories) {
+      counts[advisory.severity || 'unknown']++;
+    }
+  }
+
+  return {
+    checkedAt: new Date().toISOString(),
+    inventoryScannedAt: inventory.scannedAt,
+    database: { importedAt: database.importedAt, sources: database.sources, advisoryCount: database.advisoryCount },
+    checkedPackages: packages.size,
+    uncheckedPackages: unchecked,
+    counts,
+    findings
+  };
+};
+
+module.exports = {
+  compareVersions,
+  pinnedVersion,
+  isAffected,
+  checkVulnerabilities
+};
@@ -34,6 +34,7 @@ import { AuthProvider } from "./contexts/AuthContext";
 import { ToastProvider } from "./contexts/ToastContext";
 import { FullscreenProvider } from "./contexts/FullscreenContext";
 import { AnalysisProgressProvider } from "./contexts/AnalysisProgressContext";
+import { AIProviderProvider } from "./contexts/AIProviderContext";
 import { useAuth } from "./contexts/AuthContext";
 import HomePage from "./components/HomePage";
 import Dashboard from "./components/Dashboard";
@@ -81,7 +82,9 @@ function App() {
       <AuthProvider>
         <FullscreenProvider>
           <AnalysisProgressProvider>
-            <AppContent />
+            <AIProviderProvider>
+              <AppContent />
+            </AIProviderProvider>
           </AnalysisProgressProvider>
         </FullscreenProvider>
       </AuthProvider>
@@ -1,10 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { MessageCircle, X, Send, Copy, Trash2, Download, Bot, User } from 'lucide-react';
+import { MessageCircle, X, Send, Copy, Trash2, Bot, User, Square, FileCode, Plus } from 'lucide-react';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useAIProvider } from '../hooks/useAIProvider';
 import axios from 'axios';
 import { API_BASE_URL } from '../utils/api';
+import { streamServerEvents } from '../utils/eventStream';
+import { fetchChatHistory, saveChatMessages, deleteChatMessage, clearChatHistory, ChatCitation } from '../utils/chatHistory';
 import ReactMarkdown from 'react-markdown';
+import ChatExportMenu from './ChatExportMenu';
 
 interface Message {
   id: string;
@@ -12,6 +16,14 @@ interface Message {
   content: string;
   timestamp: Date;
   sessionId?: string; // Track which session the message belongs to
+  stopped?: boolean; // Generation was stopped before the answer was complete
+  citations?: ChatCitation[]; // Repository files the answer refers to
+}
+
+// Source index the assistant retrieves code excerpts from
+interface IndexStatus {
+  status: 'ready' | 'building' | 'missing';
+  fileCount?: number;
 }
 
 interface AIAssistantProps {
@@ -23,12 +35,20 @@ interface AIAssistantProps {
     repoInfo?: any;
   } | null;
   isVisible: boolean;
+  onCitationSelect?: (citation: ChatCitation) => void;
+  // Session to continue, picked in the chat history; a new id repeats the request
+  resumeRequest?: { sessionId: string; title: string; messages: Message[]; id: number } | null;
 }
 
+const formatCitation = ({ path, startLine, endLine }: ChatCitation) =>
+  startLine ? `${path}:${startLine}${endLine && endLine !== startLine ? `-${endLine}` : ''}` : path;
+
 const AIAssistant: React.FC<AIAssistantProps> = ({ 
   repositoryUrl, 
   repositoryData, 
-  isVisible 
+  isVisible,
+  onCitationSelect,
+  resumeRequest
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [allMessages, setAllMessages] = useState<Message[]>([]); // Store all messages
@@ -37,35 +57,97 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [showWelcomeMessage, setShowWelcomeMessage] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string>(''); // Track current session
+  const [resumedSessionTitle, setResumedSessionTitle] = useState<string | null>(null);
+  // Assistant answer that is still streaming in, shown after the current session
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set by the stop button, to tell a user's stop from the abort on a repository change
+  const stoppedByUserRef = useRef(false);
+  const [indexStatus, setIndexStatus] = useState<IndexStatus | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { success, error: showError } = useToast();
   const { user } = useAuth();
+  const { requestOptions } = useAIProvider();
+
+  // Load the repository's chat history when the repository changes
+  useEffect(() => {
+    if (!repositoryUrl) return;
+    let ignore = false;
+
+    setAllMessages([]);
+    setIndexStatus(null);
+    fetchChatHistory(repositoryUrl)
+      .then((messages) => {
+        if (!ignore) setAllMessages(messages);
+      })
+      .catch((error) => {
+        console.error('Failed to load chat history:', error);
+      });
+
+    // Generate new session ID for this repository analysis
+    const newSessionId = `${repositoryUrl}-${Date.now()}`;
+    setCurrentSessionId(newSessionId);
+    setCurrentSessionMessages([]); // Start with clean session
+    setResumedSessionTitle(null);
+
+    return () => {
+      ignore = true;
+    };
+  }, [repositoryUrl]);
 
-  // Load messages from localStorage when repository changes
+  // Continue a past session: its messages become the current conversation
   useEffect(() => {
-    if (repositoryUrl) {
-      const savedMessages = localStorage.getItem(`ai-chat-${repositoryUrl}`);
-      if (savedMessages) {
-        try {
-          const parsedMessages = JSON.parse(savedMessages).map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp)
-          }));
-          setAllMessages(parsedMessages);
-        } catch (error) {
-          console.error('Failed to parse saved messages:', error);
-          setAllMessages([]);
+    if (!resumeRequest) return;
+    setCurrentSessionId(resumeRequest.sessionId);
+    setCurrentSessionMessages(resumeRequest.messages);
+    setResumedSessionTitle(resumeRequest.title);
+    setIsOpen(true);
+  }, [resumeRequest]);
+
+  const startNewSession = () => {
+    if (!repositoryUrl) return;
+    setCurrentSessionId(`${repositoryUrl}-${Date.now()}`);
+    setCurrentSessionMessages([]);
+    setResumedSessionTitle(null);
+  };
+
+  // Track the repository's source index while the chat is open, polling
+  // until a build finishes
+  useEffect(() => {
+    if (!isOpen || !repositoryUrl || indexStatus?.status === 'ready') return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let ignore = false;
+
+    const checkIndex = async () => {
+      try {
+        const response = await axios.get(`${API_BASE_URL}/ai/index`, { params: { repoUrl: repositoryUrl } });
+        if (ignore) return;
+        setIndexStatus(response.data);
+        if (response.data.status === 'building') {
+          timer = setTimeout(checkIndex, 3000);
         }
-      } else {
-        setAllMessages([]);
+      } catch (error) {
+        console.error('Failed to check the source index:', error);
       }
-      
-      // Generate new session ID for this repository analysis
-      const newSessionId = `${repositoryUrl}-${Date.now()}`;
-      setCurrentSessionId(newSessionId);
-      setCurrentSessionMessages([]); // Start with clean session
+    };
+    checkIndex();
+
+    return () => {
+      ignore = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, repositoryUrl, indexStatus?.status]);
+
+  const buildIndex = async () => {
+    if (!repositoryUrl) return;
+    try {
+      const response = await axios.post(`${API_BASE_URL}/ai/index`, { repoUrl: repositoryUrl });
+      setIndexStatus(response.data);
+    } catch (error: unknown) {
+      const message = (axios.isAxiosError(error) && error.response?.data?.message) || 'Could not index the repository';
+      showError('Indexing Failed', message);
     }
-  }, [repositoryUrl]);
+  };
 
   // Show welcome message when AI assistant becomes visible
   useEffect(() => {
@@ -79,17 +161,24 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
     }
   }, [isVisible, repositoryUrl]);
 
-  // Save all messages to localStorage whenever allMessages change
-  useEffect(() => {
-    if (repositoryUrl && allMessages.length > 0) {
-      localStorage.setItem(`ai-chat-${repositoryUrl}`, JSON.stringify(allMessages));
-    }
-  }, [allMessages, repositoryUrl]);
+  // Store a question and its answer in the repository's history
+  const persistMessages = (messages: Message[]) => {
+    if (!repositoryUrl) return;
+    saveChatMessages(repositoryUrl, messages).catch((error) => {
+      console.error('Failed to save chat messages:', error);
+      showError('History Not Saved', 'This conversation could not be saved to your chat history');
+    });
+  };
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [currentSessionMessages]);
+  }, [currentSessionMessages, streamingMessage?.content]);
+
+  // Stop a running generation when the repository changes or the assistant unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, [repositoryUrl]);
 
   const handleSendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return;
@@ -119,25 +208,62 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
         username: user?.username || 'there' // Include username for personalization
       };
 
-      const response = await axios.post(`${API_BASE_URL}/ai/chat`, {
-        message: userMessage.content,
-        context: context,
-        conversationHistory: allMessages.slice(-10), // Send last 10 messages from all history for context
-        hasPreviousSessions: allMessages.length > currentSessionMessages.length // Tell AI if there are previous sessions
-      });
-
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      stoppedByUserRef.current = false;
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: response.data.response,
+        content: '',
         timestamp: new Date(),
         sessionId: currentSessionId
       };
+      setStreamingMessage(assistantMessage);
+
+      try {
+        await streamServerEvents(`${API_BASE_URL}/ai/chat/stream`, {
+          method: 'POST',
+          body: {
+            message: userMessage.content,
+            context: context,
+            // Last 10 messages from all history for context, the current session's last
+            conversationHistory: [
+              ...allMessages.filter(msg => msg.sessionId !== currentSessionId),
+              ...currentSessionMessages
+            ].slice(-10),
+            hasPreviousSessions: allMessages.length > currentSessionMessages.length, // Tell AI if there are previous sessions
+            ...requestOptions
+          },
+          signal: controller.signal,
+          onEvent: ({ event, data }) => {
+            if (event === 'token') {
+              assistantMessage.content += (data as { text: string }).text;
+              setStreamingMessage({ ...assistantMessage });
+            } else if (event === 'done') {
+              const { response, citations } = data as { response: string; citations?: ChatCitation[] };
+              assistantMessage.content = response;
+              assistantMessage.citations = citations?.length ? citations : undefined;
+            } else if (event === 'error') {
+              throw new Error((data as { message: string }).message);
+            }
+          }
+        });
+      } catch (streamError: unknown) {
+        // Stopping keeps the partial answer; anything else is a real failure
+        if (!controller.signal.aborted) throw streamError;
+        // Aborted because the repository changed or the assistant unmounted:
+        // the answer belongs to a conversation that is no longer shown
+        if (!stoppedByUserRef.current) return;
+        assistantMessage.stopped = true;
+        assistantMessage.content ||= '_Stopped before an answer was generated._';
+      }
 
       // Add to both all messages and current session
       setAllMessages(prev => [...prev, assistantMessage]);
       setCurrentSessionMessages(prev => [...prev, assistantMessage]);
-    } catch (error: any) {
+      persistMessages([userMessage, assistantMessage]);
+    } catch (error: unknown) {
+      console.error('AI chat error:', error);
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
@@ -147,12 +273,20 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
       };
       setAllMessages(prev => [...prev, errorMessage]);
       setCurrentSessionMessages(prev => [...prev, errorMessage]);
+      persistMessages([userMessage, errorMessage]);
       showError('AI Error', 'Failed to get response from AI assistant');
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessage(null);
       setIsLoading(false);
     }
   };
 
+  const stopGeneration = () => {
+    stoppedByUserRef.current = true;
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -165,39 +299,29 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
     success('Copied!', 'Message copied to clipboard');
   };
 
-  const deleteMessage = (messageId: string) => {
-    setAllMessages(prev => prev.filter(msg => msg.id !== messageId));
-    setCurrentSessionMessages(prev => prev.filter(msg => msg.id !== messageId));
-  };
-
-  const exportChat = () => {
+  const deleteMessage = async (messageId: string) => {
     if (!repositoryUrl) return;
-
-    const timestamp = new Date().toISOString().split('T')[0];
-    const filename = `ai-chat-${repositoryUrl.split('/').pop()}-${timestamp}`;
-
-    const textContent = allMessages.map(msg => 
-      `[${msg.timestamp.toLocaleString()}] ${msg.type === 'user' ? 'You' : 'AI'}: ${msg.content}`
-    ).join('\n\n');
-    
-    const dataBlob = new Blob([textContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${filename}.txt`;
-    link.click();
-    URL.revokeObjectURL(url);
-
-    success('Exported!', 'Chat exported as text file');
+    try {
+      await deleteChatMessage(repositoryUrl, messageId);
+      setAllMessages(prev => prev.filter(msg => msg.id !== messageId));
+      setCurrentSessionMessages(prev => prev.filter(msg => msg.id !== messageId));
+    } catch (error) {
+      console.error('Failed to delete chat message:', error);
+      showError('Delete Failed', 'Could not delete the message');
+    }
   };
 
-  const clearChat = () => {
-    setAllMessages([]);
-    setCurrentSessionMessages([]);
-    if (repositoryUrl) {
-      localStorage.removeItem(`ai-chat-${repositoryUrl}`);
+  const clearChat = async () => {
+    if (!repositoryUrl) return;
+    try {
+      await clearChatHistory(repositoryUrl);
+      setAllMessages([]);
+      setCurrentSessionMessages([]);
+      success('Cleared!', 'All chat history cleared');
+    } catch (error) {
+      console.error('Failed to clear chat history:', error);
+      showError('Clear Failed', 'Could not clear the chat history');
     }
-    success('Cleared!', 'All chat history cleared');
   };
 
   if (!isVisible || !repositoryUrl) {
@@ -274,17 +398,37 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
                 </div>
                 <div>
                   <h3 className="text-lg font-semibold github-text-primary">AI Project Assistant</h3>
-                  <p className="text-sm github-text-secondary">Ask questions about this repository</p>
+                  <p className="text-sm github-text-secondary">
+                    {resumedSessionTitle ? `Continuing “${resumedSessionTitle}”` : 'Ask questions about this repository'}
+                  </p>
+                  {indexStatus?.status === 'ready' && (
+                    <p className="text-xs github-text-secondary">Answers draw on {indexStatus.fileCount} indexed source files</p>
+                  )}
+                  {indexStatus?.status === 'building' && (
+                    <p className="text-xs text-green-400 animate-pulse">Indexing source files...</p>
+                  )}
+                  {indexStatus?.status === 'missing' && (
+                    <button onClick={buildIndex} className="text-xs text-green-400 hover:text-green-300 underline">
+                      Index source files for better answers
+                    </button>
+                  )}
                 </div>
               </div>
               <div className="flex items-center space-x-2">
                 <button
-                  onClick={exportChat}
-                  className="p-2 github-text-secondary hover:text-white hover:bg-slate-800/50 rounded-lg transition-colors duration-300"
-                  title="Export chat as text file"
+                  onClick={startNewSession}
+                  disabled={isLoading || currentSessionMessages.length === 0}
+                  className="p-2 github-text-secondary hover:text-white hover:bg-slate-800/50 rounded-lg transition-colors duration-300 disabled:opacity-40 disabled:hover:bg-transparent"
+                  title="New conversation"
                 >
-                  <Download className="w-4 h-4" />
+                  <Plus className="w-4 h-4" />
                 </button>
+                <ChatExportMenu
+                  repositoryUrl={repositoryUrl}
+                  sessionId={currentSessionMessages.length > 0 ? currentSessionId : null}
+                  canExport={allMessages.length > 0}
+                  buttonClassName="p-2 github-text-secondary hover:text-white hover:bg-slate-800/50 rounded-lg transition-colors duration-300"
+                />
                 <button
                   onClick={clearChat}
                   className="p-2 github-text-secondary hover:text-red-400 hover:bg-slate-800/50 rounded-lg transition-colors duration-300"
@@ -321,7 +465,10 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
                   </div>
                 </div>
               ) : (
-                currentSessionMessages.map((message) => (
+                (streamingMessage?.content
+                  ? [...currentSessionMessages, streamingMessage]
+                  : currentSessionMessages
+                ).map((message) => (
                   <div
                     key={message.id}
                     className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -364,35 +511,57 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
                             ) : (
                               <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                             )}
+                            {message.id === streamingMessage?.id && (
+                              <span className="inline-block w-2 h-4 bg-green-400 animate-pulse align-middle" />
+                            )}
                           </div>
-                          <div className="flex items-center justify-between mt-2">
-                            <span className="text-xs opacity-70">
-                              {message.timestamp.toLocaleTimeString()}
-                            </span>
-                            <div className="flex items-center space-x-1">
-                              <button
-                                onClick={() => copyMessage(message.content)}
-                                className="p-1 hover:bg-white/10 rounded transition-colors"
-                                title="Copy message"
-                              >
-                                <Copy className="w-3 h-3" />
-                              </button>
-                              <button
-                                onClick={() => deleteMessage(message.id)}
-                                className="p-1 hover:bg-red-500/20 rounded transition-colors"
-                                title="Delete message"
-                              >
-                                <Trash2 className="w-3 h-3" />
-                              </button>
+                          {message.citations && message.citations.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-2">
+                              {message.citations.map((citation) => (
+                                <button
+                                  key={formatCitation(citation)}
+                                  onClick={() => onCitationSelect?.(citation)}
+                                  disabled={!onCitationSelect}
+                                  className="flex items-center space-x-1 max-w-full px-2 py-0.5 rounded-full bg-green-500/10 border border-green-500/30 text-xs text-green-300 hover:bg-green-500/20 transition-colors disabled:cursor-default"
+                                  title={`Open ${formatCitation(citation)}`}
+                                >
+                                  <FileCode className="w-3 h-3 flex-shrink-0" />
+                                  <span className="truncate font-mono">{formatCitation(citation)}</span>
+                                </button>
+                              ))}
                             </div>
-                          </div>
+                          )}
+                          {message.id !== streamingMessage?.id && (
+                            <div className="flex items-center justify-between mt-2">
+                              <span className="text-xs opacity-70">
+                                {message.timestamp.toLocaleTimeString()}
+                                {message.stopped && ' · stopped'}
+                              </span>
+                              <div className="flex items-center space-x-1">
+                                <button
+                                  onClick={() => copyMessage(message.content)}
+                                  className="p-1 hover:bg-white/10 rounded transition-colors"
+                                  title="Copy message"
+                                >
+                                  <Copy className="w-3 h-3" />
+                                </button>
+                                <button
+                                  onClick={() => deleteMessage(message.id)}
+                                  className="p-1 hover:bg-red-500/20 rounded transition-colors"
+                                  title="Delete message"
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </button>
+                              </div>
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
                   </div>
                 ))
               )}
-              {isLoading && (
+              {isLoading && !streamingMessage?.content && (
                 <div className="flex justify-start">
                   <div className="bg-slate-800/50 text-gray-100 border border-green-500/20 rounded-lg p-3 max-w-[80%]">
                     <div className="flex items-center space-x-2">
@@ -421,13 +590,23 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
                   className="flex-1 bg-slate-800/50 border border-green-500/20 rounded-lg px-3 py-2 github-text-primary placeholder-gray-400 focus:outline-none focus:border-green-500 focus:ring-1 focus:ring-green-500"
                   disabled={isLoading}
                 />
-                <button
-                  onClick={handleSendMessage}
-                  disabled={!inputMessage.trim() || isLoading}
-                  className="github-btn-primary px-4 py-2 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg hover:from-green-600 hover:to-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center space-x-2 github-animate-glow"
-                >
-                  <Send className="w-4 h-4" />
-                </button>
+                {isLoading ? (
+                  <button
+                    onClick={stopGeneration}
+                    className="px-4 py-2 bg-red-500/20 text-red-300 border border-red-500/40 rounded-lg hover:bg-red-500/30 transition-all duration-300 flex items-center space-x-2"
+                    title="Stop generating"
+                  >
+                    <Square className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSendMessage}
+                    disabled={!inputMessage.trim()}
+                    className="github-btn-primary px-4 py-2 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg hover:from-green-600 hover:to-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center space-x-2 github-animate-glow"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,52 @@
+import React from "react";
+import { Bot } from "lucide-react";
+import { useAIProvider } from "../hooks/useAIProvider";
+
+// Compact provider/model selector used by code analysis, reports and chat
+const AIProviderPicker: React.FC = () => {
+  const { providers, aiEnabled, selection, setSelection } = useAIProvider();
+  const available = providers.filter((provider) => provider.available);
+
+  if (providers.length === 0) return null;
+
+  if (!aiEnabled || available.length === 0) {
+    return (
+      <div
+        className="hidden sm:flex items-center px-2 py-1 rounded-lg text-xs border bg-red-500/20 border-red-500/30 text-red-300"
+        title="No AI provider is configured on the server"
+      >
+        <Bot className="w-4 h-4 mr-1" />
+        AI off
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="hidden sm:flex items-center px-2 py-1 rounded-lg text-xs border bg-slate-700/50 border-green-500/20 github-text-secondary"
+      title="AI provider and model used for analysis, reports and chat"
+    >
+      <Bot className="w-4 h-4 mr-1 flex-shrink-0" />
+      <select
+        value={selection ? `${selection.provider}::${selection.model}` : ""}
+        onChange={(e) => {
+          const [provider, ...model] = e.target.value.split("::");
+          setSelection({ provider, model: model.join("::") });
+        }}
+        className="bg-transparent github-text-primary focus:outline-none max-w-[10rem] truncate cursor-pointer"
+      >
+        {available.map((provider) => (
+          <optgroup key={provider.id} label={provider.name} className="bg-slate-800">
+            {provider.models.map((model) => (
+              <option key={model} value={`${provider.id}::${model}`} className="bg-slate-800">
+                {model}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default AIProviderPicker;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from "react";
+import { Settings, X, KeyRound, Trash2, RefreshCw, ExternalLink } from "lucide-react";
+import axios from "axios";
+import { useToast } from "../contexts/ToastContext";
+import { API_BASE_URL } from "../utils/api";
+
+interface GithubTokenInfo {
+  connected: boolean;
+  login?: string;
+  hint?: string;
+  updatedAt?: string;
+}
+
+interface AccountSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onTokenChanged?: () => void;
+}
+
+const AccountSettings: React.FC<AccountSettingsProps> = ({ isOpen, onClose, onTokenChanged }) => {
+  const { success, error: showError } = useToast();
+  const [tokenInfo, setTokenInfo] = useState<GithubTokenInfo | null>(null);
+  const [tokenInput, setTokenInput] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [revoking, setRevoking] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchTokenInfo = async () => {
+      try {
+        const response = await axios.get(`${API_BASE_URL}/auth/github-token`);
+        setTokenInfo(response.data);
+      } catch (error) {
+        console.error("Failed to load GitHub token status:", error);
+        setTokenInfo({ connected: false });
+      }
+    };
+
+    setTokenInput("");
+    fetchTokenInfo();
+  }, [isOpen]);
+
+  const handleSaveToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tokenInput.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await axios.put(`${API_BASE_URL}/auth/github-token`, {
+        token: tokenInput.trim(),
+      });
+      const { connected, login, hint, updatedAt } = response.data;
+      setTokenInfo({ connected, login, hint, updatedAt });
+      setTokenInput("");
+      success("GitHub Token Saved", `Connected as ${login}`);
+      onTokenChanged?.();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err)
+        ? err.response?.data?.message || "Failed to save token"
+        : "Failed to save token";
+      showError("Token Not Saved", message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevokeToken = async () => {
+    if (!confirm("Remove your GitHub token? Private repositories will no longer be accessible.")) {
+      return;
+    }
+
+    setRevoking(true);
+    try {
+      await axios.delete(`${API_BASE_URL}/auth/github-token`);
+      setTokenInfo({ connected: false });
+      success("GitHub Token Removed", "Your token has been deleted from the server");
+      onTokenChanged?.();
+    } catch (error) {
+      console.error("Failed to remove GitHub token:", error);
+      showError("Remove Failed", "Could not remove your GitHub token. Please try again.");
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900/95 border border-green-500/30 rounded-xl shadow-2xl w-full max-w-md">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold github-text-primary flex items-center space-x-2">
+              <Settings className="w-6 h-6 text-green-400" />
+              <span>Account Settings</span>
+            </h2>
+            <button
+              onClick={onClose}
+              className="github-text-secondary hover:text-white transition-colors duration-200"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-medium github-text-primary flex items-center mb-2">
+                <KeyRound className="w-4 h-4 mr-2 text-green-400" />
+                GitHub Personal Access Token
+              </h3>
+              <p className="text-xs github-text-secondary leading-relaxed">
+                Used for your analyses instead of the shared server token, so you can analyze private
+                repositories and get your own rate limit. The token is encrypted before it is stored.
+              </p>
+            </div>
+
+            {tokenInfo === null ? (
+              <div className="flex items-center text-sm github-text-secondary">
+                <div className="w-4 h-4 border-2 border-green-400 border-t-transparent rounded-full animate-spin mr-2" />
+                Loading token status...
+              </div>
+            ) : tokenInfo.connected ? (
+              <div className="flex items-center justify-between p-3 rounded-lg bg-green-900/20 border border-green-500/30">
+                <div className="min-w-0">
+                  <div className="text-sm text-green-300 truncate">Connected as {tokenInfo.login}</div>
+                  <div className="text-xs github-text-secondary font-mono">
+                    ••••{tokenInfo.hint}
+                    {tokenInfo.updatedAt && ` · updated ${new Date(tokenInfo.updatedAt).toLocaleDateString()}`}
+                  </div>
+                </div>
+                <button
+                  onClick={handleRevokeToken}
+                  disabled={revoking}
+                  className="ml-3 flex items-center px-3 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-300 text-sm transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {revoking ? (
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  ) : (
+                    <>
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Revoke
+                    </>
+                  )}
+                </button>
+              </div>
+            ) : (
+              <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-600/30 text-sm github-text-secondary">
+                No token stored. Analyses use the shared server token.
+              </div>
+            )}
+
+            <form onSubmit={handleSaveToken} className="space-y-3">
+              <input
+                type="password"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+                placeholder={tokenInfo?.connected ? "New token to rotate" : "ghp_... or github_pat_..."}
+                autoComplete="off"
+                className="w-full px-3 py-2 rounded-lg bg-slate-800/50 border border-green-500/20 github-text-primary placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent text-sm font-mono"
+              />
+              <button
+                type="submit"
+                disabled={!tokenInput.trim() || saving}
+                className="w-full flex items-center justify-center px-4 py-2 rounded-lg bg-gradient-to-r from-green-500 to-green-600 text-white font-medium hover:from-green-600 hover:to-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 text-sm"
+              >
+                {saving ? (
+                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2" />
+                ) : (
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                )}
+                {tokenInfo?.connected ? "Rotate Token" : "Save Token"}
+              </button>
+            </form>
+
+            <a
+              href="https://github.com/settings/tokens"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center text-xs text-green-400 hover:text-green-300"
+            >
+              <ExternalLink className="w-3 h-3 mr-1" />
+              Create a token on GitHub (read-only repository access is enough)
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSettings;
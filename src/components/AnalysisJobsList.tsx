@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import { Clock, Loader2, XCircle } from "lucide-react";
+import axios from "axios";
+import { useToast } from "../contexts/ToastContext";
+import { useAnalysisProgress } from "../contexts/AnalysisProgressContext";
+import { API_BASE_URL } from "../utils/api";
+
+interface AnalysisJob {
+  id: string | number;
+  type?: "analysis" | "report";
+  repo_url: string;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  progress?: {
+    progress?: number;
+    currentPath?: string;
+    filesDiscovered?: number;
+  } | null;
+  options: {
+    ref?: string | null;
+    subPath?: string | null;
+  };
+  created_at: string;
+}
+
+interface AnalysisJobsListProps {
+  // Bump to reload the list, e.g. after a job was queued
+  refreshKey: number;
+  // Called when jobs that were in flight have finished
+  onJobsFinished: () => void;
+}
+
+// The server's rate limit covers every API call the page makes, so the list
+// checks rarely and backs off while the same jobs stay in flight. Progress of
+// the analysis started on this page comes over its own event stream
+const POLL_INTERVAL_MS = 30000;
+const MAX_POLL_INTERVAL_MS = 120000;
+
+const AnalysisJobsList: React.FC<AnalysisJobsListProps> = ({ refreshKey, onJobsFinished }) => {
+  const { success, error: showError } = useToast();
+  const { progress } = useAnalysisProgress();
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [cancellingJob, setCancellingJob] = useState<string | null>(null);
+  const knownJobIdsRef = useRef<Set<string>>(new Set());
+  const onJobsFinishedRef = useRef(onJobsFinished);
+
+  useEffect(() => {
+    onJobsFinishedRef.current = onJobsFinished;
+  }, [onJobsFinished]);
+
+  const fetchActiveJobs = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/jobs`, { params: { active: "true" } });
+      const activeJobs: AnalysisJob[] = response.data.jobs || [];
+      const activeIds = new Set(activeJobs.map((job) => String(job.id)));
+
+      // Jobs we saw before that are no longer active have finished one way or another
+      const finished = [...knownJobIdsRef.current].filter((id) => !activeIds.has(id));
+      knownJobIdsRef.current = activeIds;
+      if (finished.length > 0) {
+        onJobsFinishedRef.current();
+      }
+
+      setJobs(activeJobs);
+    } catch (error) {
+      // The list is informational; keep showing what we had
+      console.log("Could not fetch analysis jobs:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchActiveJobs();
+  }, [refreshKey, fetchActiveJobs]);
+
+  // Only poll while something is in flight; a newly queued job (refreshKey)
+  // starts over at the shortest interval
+  const hasJobs = jobs.length > 0;
+  useEffect(() => {
+    if (!hasJobs) return;
+    let stopped = false;
+    let delay = POLL_INTERVAL_MS;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      timer = setTimeout(async () => {
+        await fetchActiveJobs();
+        if (stopped) return;
+        delay = Math.min(delay * 2, MAX_POLL_INTERVAL_MS);
+        schedule();
+      }, delay);
+    };
+    schedule();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [hasJobs, refreshKey, fetchActiveJobs]);
+
+  const handleCancelJob = async (jobId: string) => {
+    setCancellingJob(jobId);
+    try {
+      await axios.post(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/cancel`);
+      success("Analysis Cancelled", "The queued analysis has been stopped");
+      fetchActiveJobs();
+    } catch (error) {
+      console.error("Cancel analysis job error:", error);
+      showError("Cancel Failed", "Could not cancel the analysis. Please try again.");
+    } finally {
+      setCancellingJob(null);
+    }
+  };
+
+  // The analysis started from this page already shows its own progress bar
+  const otherJobs = jobs.filter((job) => String(job.id) !== progress.analysisId);
+  if (otherJobs.length === 0) return null;
+
+  return (
+    <div className="mt-6 lg:mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-base lg:text-lg font-semibold github-text-primary">
+          Analyses In Progress
+        </h3>
+        <span className="text-xs github-text-secondary bg-slate-700/50 px-2 py-1 rounded-full border border-green-500/20">
+          {otherJobs.length}
+        </span>
+      </div>
+      <div className="space-y-2">
+        {otherJobs.map((job) => {
+          const jobId = String(job.id);
+          const percent = Math.round(job.progress?.progress || 0);
+          return (
+            <div
+              key={jobId}
+              className="p-3 rounded-lg bg-slate-700/50 border border-green-500/20"
+            >
+              <div className="flex items-start justify-between mb-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium github-text-primary truncate">
+                    {job.repo_url.replace(/\/(tree|blob)\/.*$/, "").split("/").slice(-2).join("/")}
+                    {job.options.subPath && (
+                      <span className="github-text-secondary font-normal">/{job.options.subPath}</span>
+                    )}
+                    {job.type === "report" && (
+                      <span className="github-text-secondary font-normal"> · report</span>
+                    )}
+                  </div>
+                  <div className="flex items-center text-xs github-text-secondary">
+                    {job.status === "queued" ? (
+                      <>
+                        <Clock className="w-3 h-3 mr-1" />
+                        Queued {new Date(job.created_at).toLocaleTimeString()}
+                      </>
+                    ) : (
+                      <>
+                        <Loader2 className="w-3 h-3 mr-1 animate-spin text-green-400" />
+                        Running · {percent}%
+                      </>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleCancelJob(jobId)}
+                  disabled={cancellingJob === jobId}
+                  className="ml-2 p-1 rounded text-red-300 hover:text-red-200 hover:bg-red-500/20 transition-colors disabled:opacity-50"
+                  title="Cancel analysis"
+                >
+                  <XCircle className="w-4 h-4" />
+                </button>
+              </div>
+              {job.status === "running" && (
+                <>
+                  <div className="w-full bg-slate-800/50 rounded-full h-1.5 overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-green-500 to-green-400 transition-all duration-500"
+                      style={{ width: `${percent}%` }}
+                    />
+                  </div>
+                  {job.progress?.currentPath && (
+                    <div className="text-xs text-gray-500 truncate mt-1">
+                      {job.progress.currentPath}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisJobsList;
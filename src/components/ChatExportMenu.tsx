@@ -0,0 +1,144 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, Upload, FileText, FileJson, Globe } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { exportChatHistory, parseChatExport, importChatHistory, ChatExportFormat } from '../utils/chatExport';
+
+interface ChatExportMenuProps {
+  repositoryUrl: string;
+  // Conversation offered for a single-conversation export
+  sessionId?: string | null;
+  buttonClassName: string;
+  // False while there is nothing to export; only importing is offered then
+  canExport?: boolean;
+  // Shows "Import JSON" and is called after an import
+  onImported?: () => void;
+}
+
+const FORMATS: { format: ChatExportFormat; label: string; icon: React.ReactNode }[] = [
+  { format: 'markdown', label: 'Markdown', icon: <FileText className="w-3.5 h-3.5" /> },
+  { format: 'json', label: 'JSON', icon: <FileJson className="w-3.5 h-3.5" /> },
+  { format: 'html', label: 'HTML', icon: <Globe className="w-3.5 h-3.5" /> },
+];
+
+const ChatExportMenu: React.FC<ChatExportMenuProps> = ({
+  repositoryUrl,
+  sessionId,
+  buttonClassName,
+  canExport = true,
+  onImported,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { success, error: showError } = useToast();
+
+  // Close when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const runExport = async (format: ChatExportFormat, exportedSessionId?: string) => {
+    setIsOpen(false);
+    try {
+      const count = await exportChatHistory(repositoryUrl, format, exportedSessionId);
+      success('Exported!', `${count} ${count === 1 ? 'conversation' : 'conversations'} exported`);
+    } catch (error: unknown) {
+      console.error('Chat export failed:', error);
+      showError('Export Failed', error instanceof Error ? error.message : 'Could not export the chat');
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { repositoryUrl: exportedFrom, sessions } = parseChatExport(await file.text());
+      if (
+        exportedFrom &&
+        exportedFrom !== repositoryUrl &&
+        !window.confirm(`This file was exported from ${exportedFrom}. Import it into this repository's history anyway?`)
+      ) {
+        return;
+      }
+      const count = await importChatHistory(repositoryUrl, sessions);
+      success('Imported!', `${count} messages in ${sessions.length} conversations imported`);
+      onImported?.();
+    } catch (error: unknown) {
+      console.error('Chat import failed:', error);
+      showError('Import Failed', error instanceof Error ? error.message : 'Could not import the file');
+    }
+  };
+
+  if (!canExport && !onImported) {
+    return null;
+  }
+
+  const renderFormatButtons = (exportedSessionId?: string) => (
+    <div className="flex space-x-1">
+      {FORMATS.map(({ format, label, icon }) => (
+        <button
+          key={format}
+          onClick={() => runExport(format, exportedSessionId)}
+          className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-200 bg-slate-800 hover:bg-slate-700 rounded transition-colors"
+        >
+          {icon}
+          <span>{label}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={buttonClassName}
+        title={canExport ? 'Export or import chat' : 'Import chat'}
+      >
+        {canExport ? <Download className="w-4 h-4" /> : <Upload className="w-4 h-4" />}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-64 p-3 space-y-3 bg-slate-900 border border-gray-700 rounded-lg shadow-xl">
+          {canExport && sessionId && (
+            <div>
+              <p className="text-xs font-medium text-gray-400 mb-1.5">This conversation</p>
+              {renderFormatButtons(sessionId)}
+            </div>
+          )}
+          {canExport && (
+            <div>
+              <p className="text-xs font-medium text-gray-400 mb-1.5">All conversations</p>
+              {renderFormatButtons()}
+            </div>
+          )}
+          {onImported && (
+            <div className={canExport ? 'pt-3 border-t border-gray-700' : ''}>
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  fileInputRef.current?.click();
+                }}
+                className="flex items-center space-x-1.5 text-xs text-gray-300 hover:text-white transition-colors"
+              >
+                <Upload className="w-3.5 h-3.5" />
+                <span>Import JSON export</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
+    </div>
+  );
+};
+
+export default ChatExportMenu;
@@ -1,42 +1,133 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { MessageCircle, Copy, Trash2, Download, Bot, User, Clock } from 'lucide-react';
+import { MessageCircle, Copy, Trash2, Bot, User, Clock, Pin, PinOff, Pencil, Search, X, Play } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import ChatExportMenu from './ChatExportMenu';
+import {
+  fetchChatHistory,
+  fetchChatSessions,
+  updateChatSession,
+  deleteChatSession,
+  searchChatMessages,
+  deleteChatMessage,
+  clearChatHistory,
+  ChatSessionSummary,
+  ChatSearchResult,
+} from '../utils/chatHistory';
 
 interface Message {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  sessionId?: string;
 }
 
 interface ChatHistoryViewProps {
   repositoryUrl: string;
+  // Continue a session in the AI assistant
+  onResumeSession?: (session: ChatSessionSummary, messages: Message[]) => void;
 }
 
-const ChatHistoryView: React.FC<ChatHistoryViewProps> = ({ repositoryUrl }) => {
+const SEARCH_DELAY_MS = 300;
+const SNIPPET_CONTEXT_CHARS = 60;
+
+// The part of a message around the first match, split so the match can be marked
+const getSnippet = (content: string, query: string) => {
+  const index = content.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) {
+    return { before: content.substring(0, SNIPPET_CONTEXT_CHARS * 2), match: '', after: '' };
+  }
+  const start = Math.max(0, index - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(content.length, index + query.length + SNIPPET_CONTEXT_CHARS);
+  return {
+    before: `${start > 0 ? '…' : ''}${content.substring(start, index)}`,
+    match: content.substring(index, index + query.length),
+    after: `${content.substring(index + query.length, end)}${end < content.length ? '…' : ''}`,
+  };
+};
+
+const ChatHistoryView: React.FC<ChatHistoryViewProps> = ({ repositoryUrl, onResumeSession }) => {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+  const [titleDraft, setTitleDraft] = useState('');
+  // Set by Escape so leaving the title field discards the draft
+  const cancelRenameRef = useRef(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[] | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Bumped to load the history again, e.g. after an import
+  const [reloadKey, setReloadKey] = useState(0);
+  const { error: showError } = useToast();
 
   useEffect(() => {
-    if (repositoryUrl) {
-      const savedMessages = localStorage.getItem(`ai-chat-${repositoryUrl}`);
-      if (savedMessages) {
-        try {
-          const parsedMessages = JSON.parse(savedMessages).map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp)
-          }));
-          setMessages(parsedMessages);
-        } catch (error) {
-          console.error('Failed to parse saved messages:', error);
+    if (!repositoryUrl) return;
+    let ignore = false;
+
+    setIsLoading(true);
+    setSelectedSessionId(null);
+    setSearchQuery('');
+    Promise.all([fetchChatHistory(repositoryUrl), fetchChatSessions(repositoryUrl)])
+      .then(([history, sessionList]) => {
+        if (ignore) return;
+        setMessages(history);
+        setSessions(sessionList);
+        setSelectedSessionId(sessionList[0]?.id ?? null);
+      })
+      .catch((error) => {
+        console.error('Failed to load chat history:', error);
+        if (!ignore) {
           setMessages([]);
+          setSessions([]);
         }
-      } else {
-        setMessages([]);
-      }
-      setIsLoading(false);
+      })
+      .finally(() => {
+        if (!ignore) setIsLoading(false);
+      });
+
+    return () => {
+      ignore = true;
+    };
+  }, [repositoryUrl, reloadKey]);
+
+  // Search the repository's sessions once typing pauses
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < 2) {
+      setSearchResults(null);
+      return;
     }
-  }, [repositoryUrl]);
+    let ignore = false;
+
+    const timer = setTimeout(() => {
+      searchChatMessages(query, repositoryUrl)
+        .then((results) => {
+          if (!ignore) setSearchResults(results);
+        })
+        .catch((error) => {
+          console.error('Failed to search chat history:', error);
+          if (!ignore) setSearchResults([]);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      ignore = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, repositoryUrl]);
+
+  const selectedSession = sessions.find(session => session.id === selectedSessionId) || null;
+  const sessionMessages = messages.filter(msg => msg.sessionId === selectedSessionId);
+
+  const reloadSessions = async () => {
+    try {
+      setSessions(await fetchChatSessions(repositoryUrl));
+    } catch (error) {
+      console.error('Failed to load chat sessions:', error);
+    }
+  };
 
   const formatTime = (timestamp: Date) => {
     return timestamp.toLocaleString();
@@ -46,34 +137,72 @@ const ChatHistoryView: React.FC<ChatHistoryViewProps> = ({ repositoryUrl }) => {
     navigator.clipboard.writeText(content);
   };
 
-  const deleteMessage = (messageId: string) => {
-    const updatedMessages = messages.filter(msg => msg.id !== messageId);
-    setMessages(updatedMessages);
-    localStorage.setItem(`ai-chat-${repositoryUrl}`, JSON.stringify(updatedMessages));
+  const deleteMessage = async (messageId: string) => {
+    try {
+      await deleteChatMessage(repositoryUrl, messageId);
+      setMessages(prev => prev.filter(msg => msg.id !== messageId));
+      reloadSessions();
+    } catch (error) {
+      console.error('Failed to delete chat message:', error);
+    }
+  };
+
+  const saveSession = async (sessionId: string, changes: { title?: string; pinned?: boolean }) => {
+    try {
+      await updateChatSession(repositoryUrl, sessionId, changes);
+      await reloadSessions();
+    } catch (error) {
+      console.error('Failed to update chat session:', error);
+      showError('Update Failed', 'Could not update the conversation');
+    }
+  };
+
+  const startRename = (session: ChatSessionSummary) => {
+    setRenamingSessionId(session.id);
+    setTitleDraft(session.customTitle ? session.title : '');
+  };
+
+  const finishRename = async () => {
+    if (!renamingSessionId) return;
+    const sessionId = renamingSessionId;
+    setRenamingSessionId(null);
+    if (cancelRenameRef.current) {
+      cancelRenameRef.current = false;
+      return;
+    }
+    await saveSession(sessionId, { title: titleDraft.trim() });
+  };
+
+  const removeSession = async (session: ChatSessionSummary) => {
+    if (!window.confirm(`Delete the conversation "${session.title}" and its ${session.messageCount} messages?`)) {
+      return;
+    }
+    try {
+      await deleteChatSession(repositoryUrl, session.id);
+      setMessages(prev => prev.filter(msg => msg.sessionId !== session.id));
+      setSessions(prev => prev.filter(entry => entry.id !== session.id));
+      if (selectedSessionId === session.id) setSelectedSessionId(null);
+    } catch (error) {
+      console.error('Failed to delete chat session:', error);
+      showError('Delete Failed', 'Could not delete the conversation');
+    }
   };
 
-  const exportChat = () => {
-    const chatContent = messages.map(msg => {
-      const timestamp = formatTime(msg.timestamp);
-      const sender = msg.type === 'user' ? 'You' : 'AI Assistant';
-      return `[${timestamp}] ${sender}:\n${msg.content}\n`;
-    }).join('\n---\n\n');
-
-    const blob = new Blob([chatContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `chat-history-${repositoryUrl.split('/').slice(-2).join('-')}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const openSearchResult = (result: ChatSearchResult) => {
+    setSelectedSessionId(result.sessionId || null);
+    setSearchQuery('');
   };
 
-  const clearChat = () => {
+  const clearChat = async () => {
     if (window.confirm('Are you sure you want to clear all chat history for this repository?')) {
-      setMessages([]);
-      localStorage.removeItem(`ai-chat-${repositoryUrl}`);
+      try {
+        await clearChatHistory(repositoryUrl);
+        setMessages([]);
+        setSessions([]);
+        setSelectedSessionId(null);
+      } catch (error) {
+        console.error('Failed to clear chat history:', error);
+      }
     }
   };
 
@@ -102,6 +231,15 @@ const ChatHistoryView: React.FC<ChatHistoryViewProps> = ({ repositoryUrl }) => {
           <p className="text-xs text-gray-500">
             Repository: {repositoryUrl.split("/").slice(-2).join("/")}
           </p>
+          <div className="flex items-center justify-center space-x-1 mt-4 text-xs text-gray-500">
+            <span>Have an export?</span>
+            <ChatExportMenu
+              repositoryUrl={repositoryUrl}
+              canExport={false}
+              buttonClassName="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+              onImported={() => setReloadKey(key => key + 1)}
+            />
+          </div>
         </div>
       </div>
     );
@@ -110,25 +248,24 @@ const ChatHistoryView: React.FC<ChatHistoryViewProps> = ({ repositoryUrl }) => {
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
-      <div className="flex-shrink-0 p-4 border-b border-gray-700/50">
+      <div className="flex-shrink-0 p-4 border-b border-gray-700/50 space-y-3">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
             <MessageCircle className="w-5 h-5 text-purple-400" />
             <div>
               <h2 className="text-lg font-semibold text-white">AI Chat History</h2>
               <p className="text-sm text-gray-400">
-                {repositoryUrl.split("/").slice(-2).join("/")} • {messages.length} messages
+                {repositoryUrl.split("/").slice(-2).join("/")} • {sessions.length} conversations • {messages.length} messages
               </p>
             </div>
           </div>
           <div className="flex items-center space-x-2">
-            <button
-              onClick={exportChat}
-              className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
-              title="Export chat"
-            >
-              <Download className="w-4 h-4" />
-            </button>
+            <ChatExportMenu
+              repositoryUrl={repositoryUrl}
+              sessionId={selectedSessionId}
+              buttonClassName="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+              onImported={() => setReloadKey(key => key + 1)}
+            />
             <button
               onClick={clearChat}
               className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-lg transition-colors"
@@ -138,79 +275,233 @@ const ChatHistoryView: React.FC<ChatHistoryViewProps> = ({ repositoryUrl }) => {
             </button>
           </div>
         </div>
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search all conversations..."
+            className="w-full pl-9 pr-9 py-2 bg-gray-800/50 border border-gray-700/50 rounded-lg text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-purple-500/50"
+          />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery('')}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-300"
+              title="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message) => (
-          <div key={message.id} className="flex items-start space-x-3">
-            <div className="flex-shrink-0 mt-1">
-              {message.type === 'user' ? (
-                <div className="w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center">
-                  <User className="w-4 h-4 text-white" />
-                </div>
-              ) : (
-                <div className="w-8 h-8 bg-purple-600 rounded-full flex items-center justify-center">
-                  <Bot className="w-4 h-4 text-white" />
+      {searchResults ? (
+        /* Search results */
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          <p className="text-xs text-gray-500">
+            {searchResults.length} {searchResults.length === 1 ? 'message matches' : 'messages match'}
+          </p>
+          {searchResults.map((result) => {
+            const snippet = getSnippet(result.content, searchQuery.trim());
+            return (
+              <button
+                key={result.id}
+                onClick={() => openSearchResult(result)}
+                className="w-full text-left p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-lg border border-gray-700/50 transition-colors"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium text-gray-200 truncate">
+                    {result.sessionTitle || 'Conversation'}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                    {result.type === 'user' ? 'You' : 'AI Assistant'} • {formatTime(result.timestamp)}
+                  </span>
                 </div>
-              )}
-            </div>
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center space-x-2 mb-1">
-                <span className="text-sm font-medium text-gray-200">
-                  {message.type === 'user' ? 'You' : 'AI Assistant'}
-                </span>
-                <span className="text-xs text-gray-500 flex items-center space-x-1">
-                  <Clock className="w-3 h-3" />
-                  <span>{formatTime(message.timestamp)}</span>
-                </span>
-              </div>
-              <div className="bg-gray-800/50 rounded-lg p-3 border border-gray-700/50">
-                {message.type === 'assistant' ? (
-                  <div className="prose prose-invert prose-sm max-w-none">
-                    <ReactMarkdown
-                      components={{
-                        h1: ({ children }) => <h1 className="text-lg font-bold text-white mb-2">{children}</h1>,
-                        h2: ({ children }) => <h2 className="text-base font-bold text-white mb-2">{children}</h2>,
-                        h3: ({ children }) => <h3 className="text-sm font-bold text-white mb-1">{children}</h3>,
-                        p: ({ children }) => <p className="text-gray-300 mb-2 last:mb-0">{children}</p>,
-                        ul: ({ children }) => <ul className="list-disc list-inside text-gray-300 mb-2 space-y-1">{children}</ul>,
-                        ol: ({ children }) => <ol className="list-decimal list-inside text-gray-300 mb-2 space-y-1">{children}</ol>,
-                        li: ({ children }) => <li className="text-gray-300">{children}</li>,
-                        code: ({ children }) => <code className="bg-gray-700 text-gray-200 px-1 py-0.5 rounded text-xs">{children}</code>,
-                        pre: ({ children }) => <pre className="bg-gray-700 text-gray-200 p-3 rounded-lg overflow-x-auto text-xs mb-2">{children}</pre>,
-                        blockquote: ({ children }) => <blockquote className="border-l-4 border-purple-500 pl-3 text-gray-300 italic mb-2">{children}</blockquote>,
-                        strong: ({ children }) => <strong className="text-white font-semibold">{children}</strong>,
-                        em: ({ children }) => <em className="text-gray-200 italic">{children}</em>
-                      }}
-                    >
-                      {message.content}
-                    </ReactMarkdown>
-                  </div>
+                <p className="text-sm text-gray-400 break-words">
+                  {snippet.before}
+                  <mark className="bg-purple-500/30 text-purple-100 rounded px-0.5">{snippet.match}</mark>
+                  {snippet.after}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+          {/* Sessions */}
+          <div className="md:w-72 flex-shrink-0 max-h-60 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-700/50 p-2 space-y-1">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                onClick={() => setSelectedSessionId(session.id)}
+                className={`group p-2 rounded-lg cursor-pointer transition-colors ${
+                  session.id === selectedSessionId
+                    ? 'bg-purple-500/20 border border-purple-500/30'
+                    : 'hover:bg-gray-800/50 border border-transparent'
+                }`}
+              >
+                {renamingSessionId === session.id ? (
+                  <input
+                    autoFocus
+                    value={titleDraft}
+                    onChange={(e) => setTitleDraft(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={finishRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') cancelRenameRef.current = true;
+                      if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+                    }}
+                    maxLength={100}
+                    placeholder="Title from first question"
+                    className="w-full px-2 py-1 bg-gray-900 border border-purple-500/50 rounded text-sm text-gray-200 focus:outline-none"
+                  />
                 ) : (
-                  <p className="text-gray-300 whitespace-pre-wrap">{message.content}</p>
+                  <div className="flex items-start justify-between">
+                    <span className="text-sm text-gray-200 break-words flex-1 min-w-0">
+                      {session.pinned && <Pin className="w-3 h-3 inline mr-1 text-purple-400" />}
+                      {session.title}
+                    </span>
+                    <div className="flex items-center flex-shrink-0 ml-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          saveSession(session.id, { pinned: !session.pinned });
+                        }}
+                        className="p-1 text-gray-500 hover:text-purple-300"
+                        title={session.pinned ? 'Unpin' : 'Pin'}
+                      >
+                        {session.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startRename(session);
+                        }}
+                        className="p-1 text-gray-500 hover:text-gray-300"
+                        title="Rename"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          removeSession(session);
+                        }}
+                        className="p-1 text-gray-500 hover:text-red-400"
+                        title="Delete conversation"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
                 )}
+                <p className="text-xs text-gray-500 mt-1">
+                  {session.messageCount} messages • {session.lastMessageAt.toLocaleDateString()}
+                </p>
               </div>
-              <div className="flex items-center space-x-2 mt-2">
-                <button
-                  onClick={() => copyMessage(message.content)}
-                  className="p-1 text-gray-500 hover:text-gray-300 transition-colors"
-                  title="Copy message"
-                >
-                  <Copy className="w-3 h-3" />
-                </button>
-                <button
-                  onClick={() => deleteMessage(message.id)}
-                  className="p-1 text-gray-500 hover:text-red-400 transition-colors"
-                  title="Delete message"
-                >
-                  <Trash2 className="w-3 h-3" />
-                </button>
+            ))}
+          </div>
+
+          {/* Messages of the selected session */}
+          <div className="flex-1 min-h-0 flex flex-col">
+            {selectedSession ? (
+              <>
+                <div className="flex-shrink-0 px-4 py-3 border-b border-gray-700/50 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <h3 className="text-sm font-semibold text-white truncate">{selectedSession.title}</h3>
+                    <p className="text-xs text-gray-500">Started {formatTime(selectedSession.startedAt)}</p>
+                  </div>
+                  {onResumeSession && (
+                    <button
+                      onClick={() => onResumeSession(selectedSession, sessionMessages)}
+                      className="flex items-center space-x-1 px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg transition-colors flex-shrink-0 ml-2"
+                      title="Continue this conversation in the AI assistant"
+                    >
+                      <Play className="w-3 h-3" />
+                      <span>Resume</span>
+                    </button>
+                  )}
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                  {sessionMessages.map((message) => (
+                    <div key={message.id} className="flex items-start space-x-3">
+                      <div className="flex-shrink-0 mt-1">
+                        {message.type === 'user' ? (
+                          <div className="w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center">
+                            <User className="w-4 h-4 text-white" />
+                          </div>
+                        ) : (
+                          <div className="w-8 h-8 bg-purple-600 rounded-full flex items-center justify-center">
+                            <Bot className="w-4 h-4 text-white" />
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <span className="text-sm font-medium text-gray-200">
+                            {message.type === 'user' ? 'You' : 'AI Assistant'}
+                          </span>
+                          <span className="text-xs text-gray-500 flex items-center space-x-1">
+                            <Clock className="w-3 h-3" />
+                            <span>{formatTime(message.timestamp)}</span>
+                          </span>
+                        </div>
+                        <div className="bg-gray-800/50 rounded-lg p-3 border border-gray-700/50">
+                          {message.type === 'assistant' ? (
+                            <div className="prose prose-invert prose-sm max-w-none">
+                              <ReactMarkdown
+                                components={{
+                                  h1: ({ children }) => <h1 className="text-lg font-bold text-white mb-2">{children}</h1>,
+                                  h2: ({ children }) => <h2 className="text-base font-bold text-white mb-2">{children}</h2>,
+                                  h3: ({ children }) => <h3 className="text-sm font-bold text-white mb-1">{children}</h3>,
+                                  p: ({ children }) => <p className="text-gray-300 mb-2 last:mb-0">{children}</p>,
+                                  ul: ({ children }) => <ul className="list-disc list-inside text-gray-300 mb-2 space-y-1">{children}</ul>,
+                                  ol: ({ children }) => <ol className="list-decimal list-inside text-gray-300 mb-2 space-y-1">{children}</ol>,
+                                  li: ({ children }) => <li className="text-gray-300">{children}</li>,
+                                  code: ({ children }) => <code className="bg-gray-700 text-gray-200 px-1 py-0.5 rounded text-xs">{children}</code>,
+                                  pre: ({ children }) => <pre className="bg-gray-700 text-gray-200 p-3 rounded-lg overflow-x-auto text-xs mb-2">{children}</pre>,
+                                  blockquote: ({ children }) => <blockquote className="border-l-4 border-purple-500 pl-3 text-gray-300 italic mb-2">{children}</blockquote>,
+                                  strong: ({ children }) => <strong className="text-white font-semibold">{children}</strong>,
+                                  em: ({ children }) => <em className="text-gray-200 italic">{children}</em>
+                                }}
+                              >
+                                {message.content}
+                              </ReactMarkdown>
+                            </div>
+                          ) : (
+                            <p className="text-gray-300 whitespace-pre-wrap">{message.content}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2 mt-2">
+                          <button
+                            onClick={() => copyMessage(message.content)}
+                            className="p-1 text-gray-500 hover:text-gray-300 transition-colors"
+                            title="Copy message"
+                          >
+                            <Copy className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => deleteMessage(message.id)}
+                            className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                            title="Delete message"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-500 p-4">
+                Select a conversation to read it
               </div>
-            </div>
+            )}
           </div>
-        ))}
-      </div>
+        </div>
+      )}
     </div>
   );
 };
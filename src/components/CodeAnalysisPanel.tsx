@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import {
   X,
   Brain,
@@ -7,24 +7,56 @@ import {
   FileText,
   Maximize2,
   Download,
+  AlertTriangle,
+  Database,
+  RefreshCw,
 } from "lucide-react";
 import { useToast } from "../contexts/ToastContext";
 import { useFullscreen } from "../contexts/FullscreenContext";
+import { useAIProvider } from "../hooks/useAIProvider";
 import axios from "axios";
 import { useJsonContent } from "../hooks/useJsonContent";
 import { API_BASE_URL } from "../utils/api";
+import { detectLanguage } from "../utils/languageStats";
+import CodeViewer, { LineDecoration } from "./CodeViewer";
+
+type FindingSeverity = "high" | "medium" | "low";
+
+// An issue or improvement, anchored to a line range when it is not about
+// the whole file
+interface AnalysisFinding {
+  message: string;
+  severity: FindingSeverity | null;
+  category: string | null;
+  startLine: number | null;
+  endLine: number | null;
+}
 
 interface AnalysisData {
-  summary: string;
+  summary: string | null;
   keyFunctions: Array<{
     name: string;
     description: string;
   }>;
   cleanCode: boolean | null;
-  issues: string[];
-  improvements: string[];
+  issues: AnalysisFinding[];
+  improvements: AnalysisFinding[];
   libraries: string[];
   language: string;
+  // Set when the model's reply never fully matched the analysis schema
+  partial?: boolean;
+  validationErrors?: string[];
+  // When the analysis was made, if it came from the cache
+  cachedAt?: string | null;
+}
+
+// Body of /ai/analyze-code and /ai/analyses responses
+interface AnalysisResponse {
+  analysis: Omit<AnalysisData, "language" | "partial" | "validationErrors" | "cachedAt">;
+  partial?: boolean;
+  validationErrors?: string[];
+  timestamp: string;
+  cached?: boolean;
 }
 
 interface CodeAnalysisPanelProps {
@@ -34,7 +66,11 @@ interface CodeAnalysisPanelProps {
     path: string;
     download_url?: string;
     isBinary?: boolean;
+    // Git blob SHA from the repository tree; analyses are cached per SHA
+    sha?: string;
   };
+  // Repository the file belongs to, needed for cached analyses
+  repositoryUrl?: string | null;
   onClose: () => void;
   analysisData?: AnalysisData | null;
   setAnalysisData?: (data: AnalysisData | null) => void;
@@ -42,10 +78,53 @@ interface CodeAnalysisPanelProps {
   setAnalysisLoading?: (loading: boolean) => void;
   analysisError?: string;
   setAnalysisError?: (error: string) => void;
+  // Called when an analysis of this file version has been cached
+  onAnalysisCached?: (path: string, sha: string) => void;
+  // Lines to show once the file with this path is open; a new id repeats
+  // the request for the same lines
+  focusRequest?: { path: string; startLine: number; endLine: number; id: number } | null;
+}
+
+interface LineFinding {
+  kind: "Issue" | "Improvement";
+  finding: AnalysisFinding;
 }
 
+const SEVERITY_STYLES: Record<FindingSeverity | "none", { marker: string; line: string; badge: string }> = {
+  high: {
+    marker: "bg-red-400",
+    line: "bg-red-500/10",
+    badge: "bg-red-500/20 text-red-300 border-red-500/30",
+  },
+  medium: {
+    marker: "bg-yellow-400",
+    line: "bg-yellow-500/10",
+    badge: "bg-yellow-500/20 text-yellow-300 border-yellow-500/30",
+  },
+  low: {
+    marker: "bg-blue-400",
+    line: "bg-blue-500/10",
+    badge: "bg-blue-500/20 text-blue-300 border-blue-500/30",
+  },
+  none: {
+    marker: "bg-gray-400",
+    line: "bg-gray-500/10",
+    badge: "bg-gray-500/20 text-gray-300 border-gray-500/30",
+  },
+};
+
+const SEVERITY_RANK: Record<FindingSeverity | "none", number> = { high: 0, medium: 1, low: 2, none: 3 };
+
+const severityStyle = (finding: AnalysisFinding) => SEVERITY_STYLES[finding.severity || "none"];
+
+const formatLineRange = (finding: AnalysisFinding) =>
+  finding.startLine === finding.endLine
+    ? `Line ${finding.startLine}`
+    : `Lines ${finding.startLine}–${finding.endLine}`;
+
 const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
   file,
+  repositoryUrl,
   onClose,
   analysisData: externalAnalysisData,
   setAnalysisData: externalSetAnalysisData,
@@ -53,6 +132,8 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
   setAnalysisLoading: externalSetAnalysisLoading,
   analysisError: externalAnalysisError,
   setAnalysisError: externalSetAnalysisError,
+  onAnalysisCached,
+  focusRequest,
 }) => {
   const { toggleFullscreen } = useFullscreen();
 
@@ -77,91 +158,50 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
   const [activeTab, setActiveTab] = useState<"editor" | "analysis">("editor");
   const [isImageFile, setIsImageFile] = useState(false);
   const [fileChanged, setFileChanged] = useState(false);
-  const { success, error: showError } = useToast();
+  // Line range of the finding the user last clicked, briefly highlighted
+  const [focusedRange, setFocusedRange] = useState<{ start: number; end: number } | null>(null);
+  const { success, warning, error: showError } = useToast();
+  const { requestOptions } = useAIProvider();
   const hasShownImageError = useRef(false);
 
-  // Function to detect programming language from file extension
-  const detectLanguage = (filename: string): string => {
-    const extension = filename.split(".").pop()?.toLowerCase() || "";
-
-    const languageMap: { [key: string]: string } = {
-      // Web Technologies
-      js: "JavaScript",
-      jsx: "JavaScript (React)",
-      ts: "TypeScript",
-      tsx: "TypeScript (React)",
-      html: "HTML",
-      htm: "HTML",
-      css: "CSS",
-      scss: "SCSS",
-      sass: "Sass",
-      less: "Less",
-      vue: "Vue.js",
-      svelte: "Svelte",
-
-      // Backend Languages
-      py: "Python",
-      java: "Java",
-      kt: "Kotlin",
-      scala: "Scala",
-      go: "Go",
-      rs: "Rust",
-      php: "PHP",
-      rb: "Ruby",
-      pl: "Perl",
-      r: "R",
-      swift: "Swift",
-      dart: "Dart",
-
-      // C Family
-      c: "C",
-      cpp: "C++",
-      cc: "C++",
-      cxx: "C++",
-      "c++": "C++",
-      cs: "C#",
-      h: "C/C++ Header",
-      hpp: "C++ Header",
-
-      // System & Scripting
-      sh: "Shell Script",
-      bash: "Bash",
-      zsh: "Zsh",
-      fish: "Fish",
-      ps1: "PowerShell",
-      bat: "Batch",
-      cmd: "Batch",
-
-      // Configuration & Data
-      json: "JSON",
-      xml: "XML",
-      yaml: "YAML",
-      yml: "YAML",
-      toml: "TOML",
-      ini: "INI",
-      cfg: "Configuration",
-      conf: "Configuration",
-      sql: "SQL",
-      graphql: "GraphQL",
-
-      // Markup & Documentation
-      md: "Markdown",
-      markdown: "Markdown",
-      rst: "reStructuredText",
-      tex: "LaTeX",
-
-      // Other
-      dockerfile: "Dockerfile",
-      makefile: "Makefile",
-      cmake: "CMake",
-      gradle: "Gradle",
-      maven: "Maven",
-      pom: "Maven POM",
-      lock: "Lock File",
-      log: "Log File",
-    };
+  // Findings per line, most severe first, for the editor gutter
+  const findingsByLine = useMemo(() => {
+    const byLine = new Map<number, LineFinding[]>();
+    if (!analysis) return byLine;
+
+    const anchored: LineFinding[] = [
+      ...analysis.issues.map((finding) => ({ kind: "Issue" as const, finding })),
+      ...analysis.improvements.map((finding) => ({ kind: "Improvement" as const, finding })),
+    ].filter(({ finding }) => finding.startLine !== null);
+
+    for (const entry of anchored) {
+      const start = entry.finding.startLine as number;
+      const end = entry.finding.endLine ?? start;
+      for (let line = start; line <= end; line++) {
+        byLine.set(line, [...(byLine.get(line) || []), entry]);
+      }
+    }
+    byLine.forEach((entries) =>
+      entries.sort(
+        (a, b) =>
+          SEVERITY_RANK[a.finding.severity || "none"] - SEVERITY_RANK[b.finding.severity || "none"]
+      )
+    );
+    return byLine;
+  }, [analysis]);
 
-    return languageMap[extension] || extension.toUpperCase();
+  // The viewer scrolls to and flashes a clicked finding when the editor
+  // shows; drop the request afterwards so switching tabs does not repeat it
+  useEffect(() => {
+    if (!focusedRange || activeTab !== "editor") return;
+    const timer = setTimeout(() => setFocusedRange(null), 2500);
+    return () => clearTimeout(timer);
+  }, [focusedRange, activeTab]);
+
+  const goToFinding = (finding: AnalysisFinding) => {
+    if (finding.startLine === null) return;
+    setFocusedRange({ start: finding.startLine, end: finding.endLine ?? finding.startLine });
+    setActiveTab("editor");
   };
 
   // Reset analysis state when file changes (only for internal state)
@@ -198,13 +238,58 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
     return () => clearTimeout(timer); // Cleanup timer
   }, [file.name, file.path]); // Reset when file name or path changes
 
+  // Scroll to lines requested from outside, e.g. a cited file in the AI chat
+  useEffect(() => {
+    if (!focusRequest || focusRequest.path !== file.path) return;
+    setFocusedRange({ start: focusRequest.startLine, end: focusRequest.endLine });
+    setActiveTab("editor");
+  }, [focusRequest, file.path]);
+
   // Optimize JSON content rendering to prevent re-renders
   const formattedContent = useJsonContent({
     content: file.content,
     fileName: file.name,
   });
 
-  const analyzeCode = async () => {
+  // Add detected language and the validation and cache outcome to the analysis data
+  const toAnalysisData = useCallback(
+    (data: AnalysisResponse): AnalysisData => ({
+      ...data.analysis,
+      language: detectLanguage(file.name),
+      partial: !!data.partial,
+      validationErrors: data.validationErrors || [],
+      cachedAt: data.cached ? data.timestamp : null,
+    }),
+    [file.name]
+  );
+
+  // Fields that let the server cache the analysis of this file version
+  const cacheFields = useMemo(
+    () => (repositoryUrl && file.sha ? { repoUrl: repositoryUrl, path: file.path, sha: file.sha } : null),
+    [repositoryUrl, file.path, file.sha]
+  );
+
+  // Show a cached analysis of this file version right away, if there is one
+  useEffect(() => {
+    if (!cacheFields || file.isBinary) return;
+    let ignore = false;
+
+    axios
+      .get(`${API_BASE_URL}/ai/analyses`, { params: { ...cacheFields, ...requestOptions } })
+      .then((response) => {
+        if (!ignore && response.data.analysis) {
+          setAnalysis(toAnalysisData(response.data));
+        }
+      })
+      .catch((err) => console.error("Could not look up a cached analysis:", err));
+
+    return () => {
+      ignore = true;
+    };
+  }, [cacheFields, file.isBinary, requestOptions, setAnalysis, toAnalysisData]);
+
+  // refresh skips the cache and replaces the cached analysis
+  const analyzeCode = async (refresh = false) => {
     if (isImageFile) {
       showError("Unsupported File Type", "Cannot analyze image files");
       return;
@@ -218,20 +303,26 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
       const response = await axios.post(`${API_BASE_URL}/ai/analyze-code`, {
         fileContent: formattedContent,
         fileName: file.name,
+        ...requestOptions,
+        ...cacheFields,
+        refresh,
       });
 
-      // Add detected language to the analysis data
-      const analysisWithLanguage = {
-        ...response.data.analysis,
-        language: detectLanguage(file.name),
-      };
-
-      setAnalysis(analysisWithLanguage);
+      setAnalysis(toAnalysisData(response.data));
       setActiveTab("analysis");
-      success("Analysis Complete!", "AI has analyzed your code successfully");
-    } catch (err: any) {
+      if (response.data.cached) {
+        success("Cached Analysis", "This version of the file was analyzed before");
+      } else if (response.data.partial) {
+        warning("Partial Analysis", "The AI response was incomplete, so some sections may be missing");
+      } else {
+        success("Analysis Complete!", "AI has analyzed your code successfully");
+        if (cacheFields) {
+          onAnalysisCached?.(cacheFields.path, cacheFields.sha);
+        }
+      }
+    } catch (err: unknown) {
       const errorMessage =
-        err.response?.data?.message || "Failed to analyze code";
+        (axios.isAxiosError(err) && err.response?.data?.message) || "Failed to analyze code";
       setError(errorMessage);
       showError("Analysis Failed", errorMessage);
     } finally {
@@ -292,30 +383,98 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
     return iconMap[ext || ""] || "📄";
   };
 
-  const renderLineNumbers = (content: string) => {
-    const lines = content.split("\n");
-    return (
-      <div className="space-y-0">
-        {lines.map((line, index) => (
-          <div
-            key={index}
-            className="group/line flex hover:bg-gray-800/20 transition-all duration-200 rounded px-2 py-0.5"
-          >
-            <div className="w-16 text-right pr-4 text-gray-500/70 text-xs select-none font-mono leading-6 group-hover/line:text-gray-400 transition-colors duration-200">
-              {String(index + 1).padStart(3, " ")}
-            </div>
-            <div className="flex-1 text-gray-200 text-sm font-mono leading-6 group-hover/line:text-gray-100 transition-colors duration-200">
-              {line || "\u00A0"}
+  // Gutter marker, tint and hover card for lines with analysis findings
+  const getLineDecoration = (lineNumber: number): LineDecoration | null => {
+    const lineFindings = findingsByLine.get(lineNumber);
+    if (!lineFindings) return null;
+    const style = severityStyle(lineFindings[0].finding);
+
+    return {
+      className: style.line,
+      marker: <div className={`w-2 h-2 rounded-full ${style.marker}`} />,
+      tooltip: (
+        <div className="hidden group-hover/line:block absolute left-20 top-full z-20 mt-1 w-96 max-w-[80%] p-3 rounded-lg bg-slate-800/95 border border-green-500/20 shadow-xl font-sans space-y-2">
+          {lineFindings.map(({ kind, finding }, findingIndex) => (
+            <div key={findingIndex} className="text-xs">
+              <div className="flex items-center space-x-2 mb-0.5">
+                <span className={`px-1.5 py-0.5 rounded border ${severityStyle(finding).badge}`}>
+                  {kind}
+                  {finding.severity && ` · ${finding.severity}`}
+                </span>
+                <span className="text-gray-500">{formatLineRange(finding)}</span>
+              </div>
+              <div className="text-gray-300 leading-relaxed">{finding.message}</div>
             </div>
-          </div>
-        ))}
-      </div>
-    );
+          ))}
+        </div>
+      ),
+    };
   };
 
+  const renderFinding = (finding: AnalysisFinding) => (
+    <div className="flex-1 min-w-0">
+      <span className="text-gray-300 text-sm leading-relaxed group-hover/item:text-gray-200 transition-colors duration-300">
+        {finding.message}
+      </span>
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+        {finding.severity && (
+          <span className={`px-2 py-0.5 rounded-full border ${severityStyle(finding).badge}`}>
+            {finding.severity}
+          </span>
+        )}
+        {finding.category && (
+          <span className="px-2 py-0.5 rounded-full border bg-slate-700/50 text-gray-300 border-slate-600/50">
+            {finding.category}
+          </span>
+        )}
+        {finding.startLine !== null && (
+          <span className="font-mono text-green-400 group-hover/item:text-green-300">
+            {formatLineRange(finding)} →
+          </span>
+        )}
+      </div>
+    </div>
+  );
+
   const renderAnalysis = (analysis: AnalysisData) => {
     return (
       <div className="space-y-6 animate-in slide-in-from-top-2">
+        {analysis.cachedAt && (
+          <div className="flex items-center justify-between px-4 py-2 rounded-xl bg-slate-800/60 border border-green-500/20 text-xs github-text-secondary">
+            <span className="flex items-center">
+              <Database className="w-4 h-4 mr-2 text-green-400" />
+              Cached analysis from {new Date(analysis.cachedAt).toLocaleString()}
+            </span>
+            <button
+              onClick={() => analyzeCode(true)}
+              disabled={loading}
+              className="flex items-center px-2 py-1 rounded text-green-300 hover:text-green-200 hover:bg-green-500/20 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className="w-3.5 h-3.5 mr-1" />
+              Re-analyze
+            </button>
+          </div>
+        )}
+
+        {analysis.partial && (
+          <div className="flex items-start p-4 rounded-xl bg-yellow-500/10 border border-yellow-500/30 text-sm text-yellow-200">
+            <AlertTriangle className="w-5 h-5 mr-3 text-yellow-400 flex-shrink-0" />
+            <div>
+              <div className="font-semibold">Partial analysis</div>
+              <p className="text-yellow-200/80 mt-1">
+                The AI response did not fully match the expected format. Only the valid parts are shown.
+              </p>
+              {analysis.validationErrors && analysis.validationErrors.length > 0 && (
+                <ul className="mt-2 space-y-0.5 font-mono text-xs text-yellow-300/70">
+                  {analysis.validationErrors.slice(0, 5).map((validationError) => (
+                    <li key={validationError}>{validationError}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Summary Section */}
         <div className="group bg-gradient-to-br from-gray-800/60 to-gray-900/60 backdrop-blur-sm rounded-xl p-6 border border-gray-700/50 shadow-lg hover:shadow-xl hover:border-blue-500/30 transition-all duration-300">
           <h3 className="text-xl font-bold text-white mb-4 flex items-center group-hover:text-blue-300 transition-colors duration-300">
@@ -325,7 +484,7 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
             Summary
           </h3>
           <p className="text-gray-300 leading-relaxed text-base group-hover:text-gray-200 transition-colors duration-300">
-            {analysis.summary}
+            {analysis.summary || "The AI did not return a summary for this file."}
           </p>
         </div>
 
@@ -407,12 +566,12 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
               {analysis.issues.map((issue, index) => (
                 <li
                   key={index}
-                  className="group/item flex items-start bg-gradient-to-r from-red-500/10 to-rose-500/10 backdrop-blur-sm rounded-lg p-3 border border-red-500/20 hover:border-red-400/40 hover:shadow-md transition-all duration-300 hover:scale-[1.01]"
+                  onClick={() => goToFinding(issue)}
+                  title={issue.startLine !== null ? "Show in editor" : undefined}
+                  className={`group/item flex items-start bg-gradient-to-r from-red-500/10 to-rose-500/10 backdrop-blur-sm rounded-lg p-3 border border-red-500/20 hover:border-red-400/40 hover:shadow-md transition-all duration-300 hover:scale-[1.01] ${issue.startLine !== null ? "cursor-pointer" : ""}`}
                 >
                   <div className="w-3 h-3 bg-red-400 rounded-full mt-1 mr-3 flex-shrink-0 group-hover/item:bg-red-300 transition-colors duration-300"></div>
-                  <span className="text-gray-300 text-sm leading-relaxed group-hover/item:text-gray-200 transition-colors duration-300">
-                    {issue}
-                  </span>
+                  {renderFinding(issue)}
                 </li>
               ))}
             </ul>
@@ -432,12 +591,12 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
               {analysis.improvements.map((improvement, index) => (
                 <li
                   key={index}
-                  className="group/item flex items-start bg-gradient-to-r from-yellow-500/10 to-amber-500/10 backdrop-blur-sm rounded-lg p-3 border border-yellow-500/20 hover:border-yellow-400/40 hover:shadow-md transition-all duration-300 hover:scale-[1.01]"
+                  onClick={() => goToFinding(improvement)}
+                  title={improvement.startLine !== null ? "Show in editor" : undefined}
+                  className={`group/item flex items-start bg-gradient-to-r from-yellow-500/10 to-amber-500/10 backdrop-blur-sm rounded-lg p-3 border border-yellow-500/20 hover:border-yellow-400/40 hover:shadow-md transition-all duration-300 hover:scale-[1.01] ${improvement.startLine !== null ? "cursor-pointer" : ""}`}
                 >
                   <div className="w-3 h-3 bg-yellow-400 rounded-full mt-1 mr-3 flex-shrink-0 group-hover/item:bg-yellow-300 transition-colors duration-300"></div>
-                  <span className="text-gray-300 text-sm leading-relaxed group-hover/item:text-gray-200 transition-colors duration-300">
-                    {improvement}
-                  </span>
+                  {renderFinding(improvement)}
                 </li>
               ))}
             </ul>
@@ -613,10 +772,10 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
       <div className="flex-1 flex flex-col min-h-0">
         {activeTab === "editor" ? (
           /* Enhanced Code Editor */
-          <div className="flex-1 overflow-auto bg-gradient-to-br from-slate-900/95 to-slate-800/95">
-            <div className="p-6">
-              <div className="bg-gradient-to-br from-slate-900/95 to-slate-800/95 rounded-xl border border-green-500/20 overflow-hidden shadow-2xl hover:shadow-3xl transition-all duration-500">
-                <div className="bg-gradient-to-r from-slate-800/50 to-slate-700/50 px-6 py-4 border-b border-green-500/20 flex items-center justify-between backdrop-blur-sm">
+          <div className="flex-1 flex flex-col min-h-0 bg-gradient-to-br from-slate-900/95 to-slate-800/95">
+            <div className="p-6 flex-1 flex flex-col min-h-0">
+              <div className="flex-1 flex flex-col min-h-0 bg-gradient-to-br from-slate-900/95 to-slate-800/95 rounded-xl border border-green-500/20 overflow-hidden shadow-2xl hover:shadow-3xl transition-all duration-500">
+                <div className="flex-shrink-0 bg-gradient-to-r from-slate-800/50 to-slate-700/50 px-6 py-4 border-b border-green-500/20 flex items-center justify-between backdrop-blur-sm">
                   <div className="flex items-center space-x-3">
                     <div className="p-2 bg-green-500/20 rounded-lg">
                       <FileText className="w-5 h-5 text-green-400" />
@@ -632,7 +791,7 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
                   </div>
                   <div className="flex items-center space-x-3">
                     <button
-                      onClick={analyzeCode}
+                      onClick={() => analyzeCode()}
                       disabled={loading || isImageFile}
                       className="github-btn-primary group relative flex items-center space-x-3 px-6 py-3 bg-gradient-to-r from-green-500 to-green-600 text-white text-sm font-bold rounded-xl hover:from-green-600 hover:to-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:scale-105 hover:shadow-2xl hover:shadow-green-500/30 active:scale-95 overflow-hidden github-animate-glow"
                     >
@@ -653,10 +812,10 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
                     </button>
                   </div>
                 </div>
-                <div className="relative">
+                <div className="relative flex-1 flex flex-col min-h-0">
                   <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-green-500/20 via-emerald-500/20 to-green-500/20"></div>
-                  <div className="p-6 font-mono text-sm leading-relaxed bg-gradient-to-br from-slate-900/95 to-slate-800/95">
-                    {isImageFile ? (
+                  {isImageFile ? (
+                    <div className="p-6 font-mono text-sm leading-relaxed bg-gradient-to-br from-slate-900/95 to-slate-800/95 overflow-auto">
                       <div className="text-center py-16">
                         <div className="relative">
                           <div className="p-6 bg-gradient-to-br from-slate-500/20 to-slate-600/20 backdrop-blur-sm rounded-full mx-auto mb-6 w-fit border border-green-500/20">
@@ -679,15 +838,17 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
                           </p>
                         </div>
                       </div>
-                    ) : (
-                      <div className="relative">
-                        <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-green-500/30 via-emerald-500/30 to-green-500/30 rounded-full"></div>
-                        <div className="ml-4">
-                          {renderLineNumbers(formattedContent)}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                    </div>
+                  ) : (
+                    <div className="flex-1 min-h-0 pt-1">
+                      <CodeViewer
+                        content={formattedContent}
+                        language={detectLanguage(file.name)}
+                        getLineDecoration={getLineDecoration}
+                        focusRange={focusedRange}
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,461 @@
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback, ReactNode } from "react";
+import {
+  Search,
+  Regex,
+  CaseSensitive,
+  ChevronUp,
+  ChevronDown,
+  ChevronRight,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  WrapText,
+} from "lucide-react";
+import "highlight.js/styles/atom-one-dark.css";
+import {
+  getHighlightLanguage,
+  highlightLines,
+  markRanges,
+  findFoldRegions,
+  MAX_HIGHLIGHT_CHARS,
+} from "../utils/codeHighlight";
+
+// Extra markup for one line, e.g. an analysis finding
+export interface LineDecoration {
+  className: string;
+  marker: ReactNode;
+  tooltip: ReactNode;
+}
+
+interface CodeViewerProps {
+  content: string;
+  // Language name from detectLanguage
+  language: string;
+  getLineDecoration?: (lineNumber: number) => LineDecoration | null;
+  // 1-based line range to scroll to and flash
+  focusRange?: { start: number; end: number } | null;
+}
+
+interface SearchMatch {
+  line: number;
+  start: number;
+  end: number;
+}
+
+const LINE_HEIGHT = 24;
+const OVERSCAN_LINES = 20;
+const MAX_MATCHES = 5000;
+// Fixed gutter columns: finding marker, fold toggle and row padding, in px
+const GUTTER_FIXED_PX = 12 + 16 + 16;
+
+const MATCH_CLASS = "bg-yellow-400/30 text-inherit rounded-sm";
+const CURRENT_MATCH_CLASS = "bg-orange-400/70 text-inherit rounded-sm";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Index of the last entry in a sorted array that is <= value
+const lastIndexAtOrBelow = (sorted: ArrayLike<number>, value: number) => {
+  let low = 0;
+  let high = sorted.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (sorted[middle] <= value) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+// Read-only code viewer: syntax highlighting, find with regex, indentation
+// folding, word wrap and go-to-line. Only the lines in view are rendered,
+// so large files stay responsive
+const CodeViewer: React.FC<CodeViewerProps> = ({ content, language, getLineDecoration, focusRange }) => {
+  const [folded, setFolded] = useState<Set<number>>(new Set());
+  const [wordWrap, setWordWrap] = useState(false);
+  const [query, setQuery] = useState("");
+  const [useRegex, setUseRegex] = useState(false);
+  const [matchCase, setMatchCase] = useState(false);
+  const [currentMatch, setCurrentMatch] = useState(0);
+  const [goToLineValue, setGoToLineValue] = useState("");
+  const [flashRange, setFlashRange] = useState<{ start: number; end: number } | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [charWidth, setCharWidth] = useState(8);
+  // 0-based line to bring into view once it is unfolded and laid out
+  const [scrollRequest, setScrollRequest] = useState<{ line: number } | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const goToLineInputRef = useRef<HTMLInputElement>(null);
+
+  const lines = useMemo(() => content.split("\n"), [content]);
+  const highlightLanguage = getHighlightLanguage(language);
+  const highlighted = useMemo(
+    () => highlightLines(content, highlightLanguage),
+    [content, highlightLanguage]
+  );
+  const foldRegions = useMemo(() => findFoldRegions(lines), [lines]);
+
+  useEffect(() => {
+    setFolded(new Set());
+    setCurrentMatch(0);
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [content]);
+
+  // Track the viewport size and the width of one monospace character
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    if (measureRef.current) {
+      setCharWidth(measureRef.current.getBoundingClientRect().width / 10 || 8);
+    }
+    const observer = new ResizeObserver(() =>
+      setViewport({ width: container.clientWidth, height: container.clientHeight })
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Lines left after folding, as 0-based indexes into `lines`
+  const visibleLines = useMemo(() => {
+    const visible: number[] = [];
+    for (let index = 0; index < lines.length; index++) {
+      visible.push(index);
+      const region = folded.has(index) ? foldRegions.get(index) : undefined;
+      if (region) {
+        index = region.end;
+      }
+    }
+    return visible;
+  }, [lines, folded, foldRegions]);
+
+  const lineNumberWidth = String(lines.length).length * charWidth + 16;
+
+  // Top offset of every visible line. Wrapped lines are sized from their
+  // length, which is exact enough for monospace text
+  const offsets = useMemo(() => {
+    const result = new Float64Array(visibleLines.length + 1);
+    const charsPerRow = Math.max(
+      1,
+      Math.floor((viewport.width - GUTTER_FIXED_PX - lineNumberWidth - 16) / charWidth)
+    );
+    visibleLines.forEach((lineIndex, position) => {
+      const rows = wordWrap ? Math.max(1, Math.ceil(lines[lineIndex].length / charsPerRow)) : 1;
+      result[position + 1] = result[position] + rows * LINE_HEIGHT;
+    });
+    return result;
+  }, [visibleLines, lines, wordWrap, viewport.width, charWidth, lineNumberWidth]);
+
+  const totalHeight = offsets[visibleLines.length];
+  const firstPosition = Math.max(0, lastIndexAtOrBelow(offsets, scrollTop) - OVERSCAN_LINES);
+  const lastPosition = Math.min(
+    visibleLines.length - 1,
+    lastIndexAtOrBelow(offsets, scrollTop + viewport.height) + OVERSCAN_LINES
+  );
+
+  const searchPattern = useMemo(() => {
+    if (!query) return { regex: null, error: null };
+    try {
+      return {
+        regex: new RegExp(useRegex ? query : escapeRegExp(query), matchCase ? "g" : "gi"),
+        error: null,
+      };
+    } catch (error) {
+      return { regex: null, error: error instanceof Error ? error.message : "Invalid pattern" };
+    }
+  }, [query, useRegex, matchCase]);
+
+  const matches = useMemo(() => {
+    const found: SearchMatch[] = [];
+    const { regex } = searchPattern;
+    if (!regex) return found;
+
+    for (let line = 0; line < lines.length && found.length < MAX_MATCHES; line++) {
+      regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(lines[line])) !== null && found.length < MAX_MATCHES) {
+        if (match[0].length === 0) {
+          // Empty matches (e.g. "^") would loop forever; step past them
+          regex.lastIndex++;
+          continue;
+        }
+        found.push({ line, start: match.index, end: match.index + match[0].length });
+      }
+    }
+    return found;
+  }, [lines, searchPattern]);
+
+  const matchesByLine = useMemo(() => {
+    const byLine = new Map<number, number[]>();
+    matches.forEach((match, index) => {
+      byLine.set(match.line, [...(byLine.get(match.line) || []), index]);
+    });
+    return byLine;
+  }, [matches]);
+
+  useEffect(() => {
+    setCurrentMatch(0);
+  }, [matches]);
+
+  // Unfold whatever hides a line, then scroll it into the middle of the view
+  const revealLine = useCallback(
+    (lineIndex: number) => {
+      setFolded((current) => {
+        const hiding = [...current].filter((start) => {
+          const region = foldRegions.get(start);
+          return region && start < lineIndex && lineIndex <= region.end;
+        });
+        return hiding.length > 0
+          ? new Set([...current].filter((start) => !hiding.includes(start)))
+          : current;
+      });
+      setScrollRequest({ line: lineIndex });
+    },
+    [foldRegions]
+  );
+
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!scrollRequest || !container) return;
+    const position = lastIndexAtOrBelow(visibleLines, scrollRequest.line);
+    container.scrollTop = Math.max(0, offsets[position] - container.clientHeight / 2 + LINE_HEIGHT);
+    setScrollRequest(null);
+  }, [scrollRequest, visibleLines, offsets]);
+
+  const flashLines = useCallback(
+    (start: number, end: number) => {
+      setFlashRange({ start, end });
+      revealLine(start - 1);
+    },
+    [revealLine]
+  );
+
+  useEffect(() => {
+    if (focusRange) {
+      flashLines(focusRange.start, focusRange.end);
+    }
+  }, [focusRange, flashLines]);
+
+  useEffect(() => {
+    if (!flashRange) return;
+    const timer = setTimeout(() => setFlashRange(null), 2500);
+    return () => clearTimeout(timer);
+  }, [flashRange]);
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setCurrentMatch(wrapped);
+    revealLine(matches[wrapped].line);
+  };
+
+  const handleGoToLine = () => {
+    const lineNumber = parseInt(goToLineValue);
+    if (!Number.isNaN(lineNumber)) {
+      const clamped = Math.min(Math.max(lineNumber, 1), lines.length);
+      flashLines(clamped, clamped);
+    }
+  };
+
+  const toggleFold = (lineIndex: number) => {
+    setFolded((current) => {
+      const next = new Set(current);
+      if (next.has(lineIndex)) {
+        next.delete(lineIndex);
+      } else {
+        next.add(lineIndex);
+      }
+      return next;
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    if (e.key === "f") {
+      e.preventDefault();
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    } else if (e.key === "g") {
+      e.preventDefault();
+      goToLineInputRef.current?.focus();
+      goToLineInputRef.current?.select();
+    }
+  };
+
+  const renderLine = (lineIndex: number) => {
+    const lineNumber = lineIndex + 1;
+    const region = foldRegions.get(lineIndex);
+    const isFolded = folded.has(lineIndex) && !!region;
+    const decoration = getLineDecoration?.(lineNumber) || null;
+    const isFlashing =
+      flashRange !== null && lineNumber >= flashRange.start && lineNumber <= flashRange.end;
+
+    const lineMatches = matchesByLine.get(lineIndex) || [];
+    const html = markRanges(
+      highlighted[lineIndex] || "",
+      lineMatches.map((index) => ({
+        start: matches[index].start,
+        end: matches[index].end,
+        className: index === currentMatch ? CURRENT_MATCH_CLASS : MATCH_CLASS,
+      }))
+    );
+
+    return (
+      <div
+        key={lineIndex}
+        data-line={lineNumber}
+        className={`group/line relative flex px-2 hover:bg-gray-800/30 ${
+          isFlashing ? "bg-green-500/20" : decoration?.className || ""
+        }`}
+        style={{ minHeight: LINE_HEIGHT }}
+      >
+        <div className="w-3 flex items-center justify-center flex-shrink-0 h-6">
+          {decoration?.marker}
+        </div>
+        <div className="w-4 flex items-center justify-center flex-shrink-0 h-6">
+          {region && (
+            <button
+              onClick={() => toggleFold(lineIndex)}
+              className={`text-gray-500 hover:text-gray-200 ${
+                isFolded ? "" : "opacity-0 group-hover/line:opacity-100"
+              }`}
+              title={isFolded ? "Unfold" : "Fold"}
+            >
+              {isFolded ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            </button>
+          )}
+        </div>
+        <div
+          className="text-right pr-4 text-gray-500/70 text-xs select-none font-mono leading-6 flex-shrink-0 group-hover/line:text-gray-400"
+          style={{ width: lineNumberWidth }}
+        >
+          {lineNumber}
+        </div>
+        <div
+          className={`flex-1 text-gray-200 text-sm font-mono leading-6 ${
+            wordWrap ? "whitespace-pre-wrap break-all" : "whitespace-pre"
+          }`}
+        >
+          <span dangerouslySetInnerHTML={{ __html: html || " " }} />
+          {isFolded && region && (
+            <button
+              onClick={() => toggleFold(lineIndex)}
+              className="ml-2 px-1.5 rounded bg-slate-700/70 text-gray-400 text-xs hover:text-gray-200"
+            >
+              ⋯ {region.end - region.start} lines
+            </button>
+          )}
+        </div>
+        {decoration?.tooltip}
+      </div>
+    );
+  };
+
+  const toolbarButton = (active: boolean) =>
+    `p-1 rounded transition-colors ${
+      active
+        ? "bg-green-500/30 text-green-300"
+        : "text-gray-400 hover:text-gray-200 hover:bg-slate-700/50"
+    }`;
+
+  return (
+    <div className="flex flex-col h-full min-h-0" onKeyDown={handleKeyDown}>
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-green-500/20 bg-slate-800/50 text-xs">
+        <div
+          className={`flex items-center px-2 py-1 rounded bg-slate-900/70 border ${
+            searchPattern.error ? "border-red-500/50" : "border-green-500/20"
+          }`}
+          title={searchPattern.error || undefined}
+        >
+          <Search className="w-3.5 h-3.5 text-gray-500 mr-1.5" />
+          <input
+            ref={searchInputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                goToMatch(e.shiftKey ? currentMatch - 1 : currentMatch + 1);
+              } else if (e.key === "Escape") {
+                setQuery("");
+              }
+            }}
+            placeholder="Find"
+            className="w-36 bg-transparent github-text-primary placeholder-gray-500 focus:outline-none"
+          />
+          <button onClick={() => setUseRegex(!useRegex)} className={toolbarButton(useRegex)} title="Use regular expression">
+            <Regex className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => setMatchCase(!matchCase)} className={toolbarButton(matchCase)} title="Match case">
+            <CaseSensitive className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        {query && (
+          <span className={searchPattern.error ? "text-red-300" : "github-text-secondary"}>
+            {searchPattern.error
+              ? "Invalid pattern"
+              : matches.length === 0
+                ? "No results"
+                : `${currentMatch + 1} of ${matches.length}${matches.length >= MAX_MATCHES ? "+" : ""}`}
+          </span>
+        )}
+        <button onClick={() => goToMatch(currentMatch - 1)} disabled={matches.length === 0} className={`${toolbarButton(false)} disabled:opacity-40`} title="Previous match (Shift+Enter)">
+          <ChevronUp className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={() => goToMatch(currentMatch + 1)} disabled={matches.length === 0} className={`${toolbarButton(false)} disabled:opacity-40`} title="Next match (Enter)">
+          <ChevronDown className="w-3.5 h-3.5" />
+        </button>
+
+        <div className="w-px h-4 bg-slate-600/50" />
+
+        <input
+          ref={goToLineInputRef}
+          value={goToLineValue}
+          onChange={(e) => setGoToLineValue(e.target.value.replace(/\D/g, ""))}
+          onKeyDown={(e) => e.key === "Enter" && handleGoToLine()}
+          placeholder="Go to line"
+          inputMode="numeric"
+          className="w-24 px-2 py-1 rounded bg-slate-900/70 border border-green-500/20 github-text-primary placeholder-gray-500 focus:outline-none"
+        />
+
+        <div className="flex items-center ml-auto space-x-1">
+          <button onClick={() => setFolded(new Set(foldRegions.keys()))} className={toolbarButton(false)} title="Fold all">
+            <ChevronsDownUp className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => setFolded(new Set())} className={toolbarButton(false)} title="Unfold all">
+            <ChevronsUpDown className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => setWordWrap(!wordWrap)} className={toolbarButton(wordWrap)} title="Word wrap">
+            <WrapText className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {highlightLanguage && content.length > MAX_HIGHLIGHT_CHARS && (
+        <div className="px-3 py-1 text-xs text-yellow-300/80 bg-yellow-500/10 border-b border-yellow-500/20">
+          Syntax highlighting is off for files over {Math.round(MAX_HIGHLIGHT_CHARS / 1024)} KB
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 min-h-0 overflow-auto focus:outline-none"
+      >
+        <span ref={measureRef} className="absolute invisible font-mono text-sm whitespace-pre">
+          0000000000
+        </span>
+        <div style={{ height: totalHeight, position: "relative" }} className={wordWrap ? "" : "min-w-full w-max"}>
+          <div style={{ transform: `translateY(${offsets[firstPosition]}px)` }}>
+            {visibleLines.slice(firstPosition, lastPosition + 1).map(renderLine)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CodeViewer;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { useToast } from "../contexts/ToastContext";
 import { useFullscreen } from "../contexts/FullscreenContext";
@@ -8,9 +8,28 @@ import CodeAnalysisPanel from "./CodeAnalysisPanel";
 import { FullscreenContainer } from "./FullscreenContainer";
 import AIAssistant from "./AIAssistant";
 import ChatHistoryView from "./ChatHistoryView";
-import { LogOut, Github, User, Trash2, MessageCircle, FolderTree, X } from "lucide-react";
+import AccountSettings from "./AccountSettings";
+import AnalysisJobsList from "./AnalysisJobsList";
+import AIProviderPicker from "./AIProviderPicker";
+import SnapshotCompareView from "./SnapshotCompareView";
+import RepositoryReportView, { RepositoryReport } from "./RepositoryReportView";
+import LanguageStatsView from "./LanguageStatsView";
+import DependencyTableView, { DependencyInventory } from "./DependencyTableView";
+import VulnerabilityPanel from "./VulnerabilityPanel";
+import LicenseReportView from "./LicenseReportView";
+import { LogOut, Github, User, Trash2, MessageCircle, FolderTree, X, GitBranch, Settings, Gauge, RefreshCw, GitCompare, FileText, BarChart3, Package, ShieldAlert, Scale } from "lucide-react";
 import axios from "axios";
 import { API_BASE_URL, api } from "../utils/api";
+import { ChatCitation, ChatSessionSummary, StoredChatMessage } from "../utils/chatHistory";
+import { LicenseReport } from "../utils/licenseReport";
+import {
+  LanguageStats,
+  FileLineCount,
+  classifyFile,
+  computeLanguageStats,
+  countLines,
+  isSameLanguageStats,
+} from "../utils/languageStats";
 
 interface FileNode {
   name: string;
@@ -19,10 +38,23 @@ interface FileNode {
   download_url?: string;
   children?: FileNode[];
   size?: number;
+  sha?: string;
+}
+
+interface RepositoryChange {
+  type: 'refresh';
+  mode: 'incremental' | 'full';
+  fromCommit: string | null;
+  toCommit: string;
+  filesAdded: number;
+  filesRemoved: number;
+  filesModified: number;
+  sizeDelta: number;
+  refreshedAt: string;
 }
 
 interface Repository {
-  id: number;
+  id: string;
   repo_url: string;
   repo_data: FileNode;
   repo_stats?: {
@@ -38,41 +70,80 @@ interface Repository {
     description: string;
     stars: number;
     forks: number;
+    ref?: string;
+    commitSha?: string;
+    subPath?: string | null;
+    maxDepth?: number;
     lastAnalyzed: string;
   };
+  history?: RepositoryChange[];
+  report?: RepositoryReport;
+  language_stats?: LanguageStats;
+  dependencies?: DependencyInventory;
+  license_report?: LicenseReport;
   created_at: string;
 }
 
+const formatChangeSummary = (change: RepositoryChange) => {
+  const kb = change.sizeDelta / 1024;
+  const size = `${kb >= 0 ? '+' : ''}${kb.toFixed(1)} KB`;
+  return `+${change.filesAdded} added, -${change.filesRemoved} removed, ~${change.filesModified} modified (${size})`;
+};
+
+interface AnalysisFinding {
+  message: string;
+  severity: "high" | "medium" | "low" | null;
+  category: string | null;
+  startLine: number | null;
+  endLine: number | null;
+}
+
+interface RateLimit {
+  source: 'user' | 'server' | 'anonymous';
+  limit: number;
+  remaining: number;
+  reset: string;
+}
+
 const Dashboard: React.FC = () => {
   const { user, logout } = useAuth();
   const { error: showError, success } = useToast();
   const { fullscreenMode, switchToAnalysis } = useFullscreen();
   const [currentRepo, setCurrentRepo] = useState<FileNode | null>(null);
   const [currentRepoUrl, setCurrentRepoUrl] = useState<string | null>(null);
+  // Saved repository the current tree belongs to, if any
+  const [currentRepositoryId, setCurrentRepositoryId] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<{
     content: string;
     name: string;
     path: string;
     download_url?: string;
     isBinary?: boolean;
+    sha?: string;
   } | null>(null);
+  // Files with a cached AI analysis, as "path@sha"
+  const [cachedAnalyses, setCachedAnalyses] = useState<Set<string>>(new Set());
   const [repositories, setRepositories] = useState<Repository[]>([]);
   const [loading, setLoading] = useState(false);
   const [repositoriesLoading, setRepositoriesLoading] = useState(false);
-  const [deletingRepo, setDeletingRepo] = useState<number | null>(null);
+  const [deletingRepo, setDeletingRepo] = useState<string | null>(null);
+  const [refreshingRepo, setRefreshingRepo] = useState<string | null>(null);
   const [showAllRepositories, setShowAllRepositories] = useState(false);
   const [counts, setCounts] = useState<{ analyzedFiles: number, analyzedFolders: number, totalFiles: number, totalFolders: number, analyzedDepth: number, totalDepth: number } | null>(null);
   const [analysisData, setAnalysisData] = useState<{
-    summary: string;
+    summary: string | null;
     keyFunctions: Array<{
       name: string;
       description: string;
     }>;
     cleanCode: boolean | null;
-    issues: string[];
-    improvements: string[];
+    issues: AnalysisFinding[];
+    improvements: AnalysisFinding[];
     libraries: string[];
     language: string;
+    partial?: boolean;
+    validationErrors?: string[];
+    cachedAt?: string | null;
   } | null>(null);
   const [analysisLoading, setAnalysisLoading] = useState(false);
   const [analysisError, setAnalysisError] = useState("");
@@ -81,12 +152,62 @@ const Dashboard: React.FC = () => {
     packageJson?: any;
     repoInfo?: any;
   } | null>(null);
-  const [activeView, setActiveView] = useState<'filetree' | 'chathistory'>('filetree');
+  const [activeView, setActiveView] = useState<'filetree' | 'chathistory' | 'compare' | 'report' | 'languages' | 'dependencies' | 'vulnerabilities' | 'licenses'>('filetree');
   const [showAIAssistant, setShowAIAssistant] = useState(false);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [rateLimit, setRateLimit] = useState<RateLimit | null>(null);
+  const [jobsRefreshKey, setJobsRefreshKey] = useState(0);
+  const [compareSource, setCompareSource] = useState<Repository | null>(null);
+  const [compareTargetId, setCompareTargetId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{ base: Repository; head: Repository } | null>(null);
+  // Set when a file cited in the AI chat is opened: the tree reveals it and
+  // the code viewer scrolls to the cited lines
+  const [treeReveal, setTreeReveal] = useState<{ path: string; id: number } | null>(null);
+  const [codeFocus, setCodeFocus] = useState<{ path: string; startLine: number; endLine: number; id: number } | null>(null);
+  // Line counts of the current repository's files, by path
+  const [lineCounts, setLineCounts] = useState<{ [path: string]: FileLineCount }>({});
+  // Chat session picked in the history to continue in the AI assistant
+  const [chatResume, setChatResume] = useState<{ sessionId: string; title: string; messages: StoredChatMessage[]; id: number } | null>(null);
 
   // Calculate which repositories to show
+  const currentRepository = repositories.find(
+    (repo) => currentRepositoryId !== null && String(repo.id) === String(currentRepositoryId)
+  );
+
+  // Other saved snapshots of the same repository, newest first
+  const getOtherSnapshots = (repository: Repository) =>
+    repositories.filter(
+      (repo) => repo.id !== repository.id && repo.repo_url === repository.repo_url
+    );
+
+  const currentCommitSha = currentRepository?.repo_stats?.commitSha ?? null;
+  const languageStats = useMemo(
+    () => (currentRepo ? computeLanguageStats(currentRepo, lineCounts, currentCommitSha) : null),
+    [currentRepo, lineCounts, currentCommitSha]
+  );
+
+  // Save the language breakdown with the repository once it stops changing
+  useEffect(() => {
+    if (!languageStats || !currentRepository) return;
+    const saved = currentRepository.language_stats;
+    if (saved && isSameLanguageStats(saved, languageStats)) return;
+
+    const repositoryId = currentRepository.id;
+    const timer = setTimeout(() => {
+      axios
+        .put(`${API_BASE_URL}/github/repositories/${repositoryId}/languages`, { languageStats })
+        .then(() =>
+          setRepositories((prev) =>
+            prev.map((repo) => (repo.id === repositoryId ? { ...repo, language_stats: languageStats } : repo))
+          )
+        )
+        .catch((error) => console.log("Could not save language statistics:", error));
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [languageStats, currentRepository]);
+
   const displayedRepositories = showAllRepositories
     ? repositories
     : repositories.slice(0, 5);
@@ -96,6 +217,7 @@ const Dashboard: React.FC = () => {
     // Add a small delay to ensure login process completes
     const timer = setTimeout(() => {
       fetchRepositories();
+      fetchRateLimit();
     }, 500);
 
     return () => clearTimeout(timer);
@@ -145,12 +267,26 @@ const Dashboard: React.FC = () => {
     }
   };
 
-  const handleRepoAnalyzed = (fileTree: FileNode, counts?: { analyzedFiles: number, analyzedFolders: number, totalFiles: number, totalFolders: number, analyzedDepth: number, totalDepth: number }, repoUrl?: string, aiContext?: any) => {
+  const fetchRateLimit = async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/github/rate-limit`);
+      setRateLimit(response.data);
+    } catch (error) {
+      // Quota display is informational only
+      console.log("Could not fetch GitHub rate limit:", error);
+      setRateLimit(null);
+    }
+  };
+
+  const handleRepoAnalyzed = (fileTree: FileNode, counts?: { analyzedFiles: number, analyzedFolders: number, totalFiles: number, totalFolders: number, analyzedDepth: number, totalDepth: number }, repoUrl?: string, aiContext?: any, repositoryId?: string) => {
     setCurrentRepo(fileTree);
+    setLineCounts({});
     setCurrentRepoUrl(repoUrl || null);
+    setCurrentRepositoryId(repositoryId ?? null);
     setAiContext(aiContext || null);
     setCounts(counts || null);
     setActiveView('filetree'); // Reset to file tree view
+    setComparison(null);
     setShowAIAssistant(true); // Show AI assistant after analysis is complete
     
     // Clear any previously selected file and analysis data when new repository is analyzed
@@ -160,12 +296,16 @@ const Dashboard: React.FC = () => {
     setAnalysisLoading(false);
     
     fetchRepositories(); // Refresh the list
+    fetchRateLimit();
   };
 
   const handleQuickLoadRepository = (repository: Repository) => {
     setCurrentRepo(repository.repo_data);
+    setLineCounts(repository.language_stats?.lineCounts || {});
     setCurrentRepoUrl(repository.repo_url);
+    setCurrentRepositoryId(repository.id);
     setActiveView('filetree'); // Reset to file tree view
+    setComparison(null);
     setShowAIAssistant(false); // Hide AI assistant when loading from recent history
     
     // Clear any previously selected file and analysis data when loading repository from history
@@ -212,6 +352,39 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const findFileByPath = (node: FileNode, path: string): FileNode | null => {
+    if (node.type === "file") return node.path === path ? node : null;
+    for (const child of node.children || []) {
+      const found = findFileByPath(child, path);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  // Open a file cited in an AI chat answer
+  const handleCitationSelect = async (citation: ChatCitation) => {
+    const file = currentRepo && findFileByPath(currentRepo, citation.path);
+    if (!file) {
+      showError("File Not Found", `${citation.path} is not in the loaded file tree`);
+      return;
+    }
+
+    const id = Date.now();
+    if (activeView !== 'filetree') setActiveView('filetree');
+    setTreeReveal({ path: citation.path, id });
+    setCodeFocus(
+      citation.startLine
+        ? { path: citation.path, startLine: citation.startLine, endLine: citation.endLine ?? citation.startLine, id }
+        : null
+    );
+    await handleFileSelect(file);
+  };
+
+  const handleResumeSession = (session: ChatSessionSummary, messages: StoredChatMessage[]) => {
+    setShowAIAssistant(true);
+    setChatResume({ sessionId: session.id, title: session.title, messages, id: Date.now() });
+  };
+
   // Function to detect if a file is binary/unsupported
   const isBinaryFile = (filename: string): boolean => {
     const binaryExtensions = [
@@ -238,6 +411,34 @@ const Dashboard: React.FC = () => {
     return binaryExtensions.includes(extension);
   };
 
+  // Badge the files of the current repository that have a cached analysis
+  useEffect(() => {
+    if (!currentRepoUrl) {
+      setCachedAnalyses(new Set());
+      return;
+    }
+    let ignore = false;
+
+    axios
+      .get(`${API_BASE_URL}/ai/analyses/files`, { params: { repoUrl: currentRepoUrl } })
+      .then((response) => {
+        if (!ignore) {
+          setCachedAnalyses(new Set(
+            response.data.files.map((entry: { path: string; sha: string }) => `${entry.path}@${entry.sha}`)
+          ));
+        }
+      })
+      .catch((error) => console.log("Could not load analyzed files:", error));
+
+    return () => {
+      ignore = true;
+    };
+  }, [currentRepoUrl]);
+
+  const handleAnalysisCached = (path: string, sha: string) => {
+    setCachedAnalyses((previous) => new Set(previous).add(`${path}@${sha}`));
+  };
+
   const loadFileContent = async (file: FileNode) => {
     // Check if file is binary/unsupported
     if (isBinaryFile(file.name)) {
@@ -247,6 +448,7 @@ const Dashboard: React.FC = () => {
         path: file.path || file.name,
         download_url: file.download_url,
         isBinary: true,
+        sha: file.sha,
       });
       return;
     }
@@ -260,12 +462,20 @@ const Dashboard: React.FC = () => {
 
       // Display all file content regardless of size
       const content = response.data.content;
+      if (typeof content === "string") {
+        const path = file.path || file.name;
+        setLineCounts((previous) => ({
+          ...previous,
+          [path]: { ...countLines(content, classifyFile(file.name)), sha: file.sha },
+        }));
+      }
       setSelectedFile({
         content: content,
         name: file.name,
         path: file.path || file.name,
         download_url: file.download_url,
         isBinary: false,
+        sha: file.sha,
       });
     } catch (error: any) {
       console.error("File load error:", error);
@@ -294,7 +504,7 @@ const Dashboard: React.FC = () => {
 
 
   const handleDeleteRepository = async (
-    repoId: number,
+    repoId: string,
     e: React.MouseEvent
   ) => {
     e.stopPropagation(); // Prevent loading the repository
@@ -324,6 +534,16 @@ const Dashboard: React.FC = () => {
         setCurrentRepo(null);
         setSelectedFile(null);
       }
+      if (String(currentRepositoryId) === String(repoId)) {
+        setCurrentRepositoryId(null);
+        if (activeView === 'report' || activeView === 'dependencies' || activeView === 'vulnerabilities' || activeView === 'licenses') {
+          setActiveView('filetree');
+        }
+      }
+
+      if (comparison && (comparison.base.id === repoId || comparison.head.id === repoId)) {
+        handleCloseComparison();
+      }
 
       success("Repository Deleted", "Repository has been successfully deleted");
     } catch (error: any) {
@@ -337,6 +557,105 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const handleRefreshRepository = async (
+    repository: Repository,
+    e: React.MouseEvent
+  ) => {
+    e.stopPropagation(); // Prevent loading the repository
+
+    setRefreshingRepo(repository.id);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/github/repositories/${repository.id}/refresh`
+      );
+
+      if (response.data.upToDate) {
+        success("Already Up To Date", `No new commits on ${repository.repo_stats?.ref || "the default branch"}`);
+        return;
+      }
+
+      const updated: Repository = response.data.repository;
+      setRepositories((prev) =>
+        prev.map((repo) => (repo.id === repository.id ? updated : repo))
+      );
+
+      // Swap in the refreshed tree if this repository is on screen
+      if (currentRepositoryId === repository.id) {
+        setCurrentRepo(updated.repo_data);
+        setLineCounts(updated.language_stats?.lineCounts || {});
+        setSelectedFile(null);
+        if (updated.repo_stats) {
+          setCounts({
+            analyzedFiles: updated.repo_stats.analyzedFiles,
+            analyzedFolders: updated.repo_stats.analyzedFolders,
+            totalFiles: updated.repo_stats.totalFiles,
+            totalFolders: updated.repo_stats.totalFolders,
+            analyzedDepth: updated.repo_stats.analyzedDepth,
+            totalDepth: updated.repo_stats.totalDepth
+          });
+        }
+      }
+
+      success("Repository Refreshed", formatChangeSummary(response.data.change));
+    } catch (error: unknown) {
+      console.error("Refresh repository error:", error);
+      const message = axios.isAxiosError(error) ? error.response?.data?.message : null;
+      showError(
+        "Refresh Failed",
+        message || "Failed to refresh repository. Please try again."
+      );
+    } finally {
+      setRefreshingRepo(null);
+      fetchRateLimit();
+    }
+  };
+
+  const handleOpenCompare = (repository: Repository, e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent loading the repository
+    setCompareSource(repository);
+    setCompareTargetId(getOtherSnapshots(repository)[0]?.id ?? null);
+  };
+
+  const handleStartComparison = () => {
+    const target = repositories.find((repo) => repo.id === compareTargetId);
+    if (!compareSource || !target) return;
+
+    // The older snapshot is always the base
+    const [base, head] =
+      new Date(compareSource.created_at) <= new Date(target.created_at)
+        ? [compareSource, target]
+        : [target, compareSource];
+
+    // Load the newer snapshot underneath so the other views stay meaningful
+    setCurrentRepo(head.repo_data);
+    setLineCounts(head.language_stats?.lineCounts || {});
+    setCurrentRepoUrl(head.repo_url);
+    setCurrentRepositoryId(head.id);
+    setShowAIAssistant(false);
+    setSelectedFile(null);
+    setAnalysisData(null);
+    setAnalysisError("");
+    if (head.repo_stats) {
+      setCounts({
+        analyzedFiles: head.repo_stats.analyzedFiles,
+        analyzedFolders: head.repo_stats.analyzedFolders,
+        totalFiles: head.repo_stats.totalFiles,
+        totalFolders: head.repo_stats.totalFolders,
+        analyzedDepth: head.repo_stats.analyzedDepth,
+        totalDepth: head.repo_stats.totalDepth
+      });
+    }
+
+    setComparison({ base, head });
+    setActiveView('compare');
+    setCompareSource(null);
+  };
+
+  const handleCloseComparison = () => {
+    setComparison(null);
+    setActiveView('filetree');
+  };
+
   const handleDeleteAccount = async () => {
     if (!user) return;
     
@@ -351,7 +670,8 @@ const Dashboard: React.FC = () => {
       const result = await api.deleteAccount(token);
       console.log('✅ Account deletion result:', result);
       
-      // Clear all localStorage data including AI chat logs
+      // Clear all localStorage data; stored AI chat history was deleted
+      // on the server together with the account
       localStorage.clear();
       console.log('🧹 Cleared localStorage data');
       
@@ -409,6 +729,28 @@ const Dashboard: React.FC = () => {
                 {user?.username ? user.username : user?.email}
               </span>
             </div>
+            <AIProviderPicker />
+            {rateLimit && (
+              <div
+                className={`hidden sm:flex items-center px-2 py-1 rounded-lg text-xs border ${
+                  rateLimit.remaining < rateLimit.limit * 0.1
+                    ? 'bg-red-500/20 border-red-500/30 text-red-300'
+                    : 'bg-slate-700/50 border-green-500/20 github-text-secondary'
+                }`}
+                title={`GitHub API quota (${rateLimit.source === 'user' ? 'your token' : rateLimit.source === 'server' ? 'shared server token' : 'unauthenticated'}), resets at ${new Date(rateLimit.reset).toLocaleTimeString()}`}
+              >
+                <Gauge className="w-4 h-4 mr-1" />
+                {rateLimit.remaining}/{rateLimit.limit}
+              </div>
+            )}
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="flex items-center px-2 sm:px-3 py-2 rounded-lg bg-slate-500/20 hover:bg-slate-500/30 border border-slate-400/30 hover:border-slate-400/50 backdrop-blur-md transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-slate-500/20"
+              title="Account settings"
+            >
+              <Settings className="w-4 h-4 sm:mr-2 text-slate-300" />
+              <span className="hidden sm:inline text-slate-200">Settings</span>
+            </button>
             <button
               onClick={() => setIsDeleteConfirmOpen(true)}
               className="flex items-center px-2 sm:px-3 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 hover:border-red-500/50 backdrop-blur-md transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-red-500/20"
@@ -434,7 +776,19 @@ const Dashboard: React.FC = () => {
         {/* Left Sidebar */}
         <div className="w-full lg:w-80 xl:w-96 bg-slate-800/50 border-b lg:border-b-0 lg:border-r border-green-500/20 p-4 sm:p-6 overflow-y-auto max-h-96 lg:max-h-none lg:min-h-0 scrollbar-thin">
         
-          <RepoInput onRepoAnalyzed={handleRepoAnalyzed} onAnalysisStart={handleAnalysisStart} />
+          <RepoInput
+            onRepoAnalyzed={handleRepoAnalyzed}
+            onAnalysisStart={handleAnalysisStart}
+            onJobQueued={() => setJobsRefreshKey((key) => key + 1)}
+          />
+
+          <AnalysisJobsList
+            refreshKey={jobsRefreshKey}
+            onJobsFinished={() => {
+              fetchRepositories();
+              fetchRateLimit();
+            }}
+          />
 
           {repositoriesLoading ? (
             <div className="mt-6 lg:mt-8">
@@ -468,7 +822,10 @@ const Dashboard: React.FC = () => {
                       <div className="flex items-start justify-between mb-2">
                         <div className="flex-1 min-w-0">
                       <div className="text-sm font-medium github-text-primary truncate mb-1">
-                        {repo.repo_url.split("/").slice(-2).join("/")}
+                        {repo.repo_url.replace(/\/(tree|blob)\/.*$/, "").split("/").slice(-2).join("/")}
+                        {repo.repo_stats?.subPath && (
+                          <span className="github-text-secondary font-normal">/{repo.repo_stats.subPath}</span>
+                        )}
                           </div>
                           {repo.repo_stats?.description && (
                             <div className="text-xs github-text-secondary truncate mb-2">
@@ -491,11 +848,49 @@ const Dashboard: React.FC = () => {
                               {repo.repo_stats.language.toString().replace(/[^a-zA-Z\+#]/g, '')}
                             </span>
                           )}
+                          {repo.repo_stats?.ref && (
+                            <span
+                              className="flex items-center truncate max-w-[8rem] font-mono"
+                              title={`${repo.repo_stats.ref}${repo.repo_stats.commitSha ? ` @ ${repo.repo_stats.commitSha}` : ''}${repo.repo_stats.subPath ? ` (${repo.repo_stats.subPath})` : ''}`}
+                            >
+                              <GitBranch className="w-3 h-3 mr-1 flex-shrink-0" />
+                              {repo.repo_stats.commitSha ? repo.repo_stats.commitSha.substring(0, 7) : repo.repo_stats.ref}
+                            </span>
+                          )}
                         </div>
                         <div>
                         {new Date(repo.created_at).toLocaleDateString()}
                         </div>
                       </div>
+
+                      {repo.history && repo.history.length > 0 && (
+                        <div
+                          className="mt-2 flex items-center text-xs github-text-secondary truncate"
+                          title={`Refreshed ${new Date(repo.history[repo.history.length - 1].refreshedAt).toLocaleString()} (${repo.history.length} refresh${repo.history.length === 1 ? '' : 'es'})`}
+                        >
+                          <RefreshCw className="w-3 h-3 mr-1 flex-shrink-0 text-green-400" />
+                          {formatChangeSummary(repo.history[repo.history.length - 1])}
+                        </div>
+                      )}
+                    </button>
+
+                    {getOtherSnapshots(repo).length > 0 && (
+                      <button
+                        onClick={(e) => handleOpenCompare(repo, e)}
+                        className="absolute right-[5.5rem] top-2 p-2 rounded-lg bg-amber-500/20 hover:bg-amber-500/30 border border-amber-500/30 hover:border-amber-500/50 backdrop-blur-md text-amber-300 hover:text-amber-200 opacity-0 group-hover:opacity-100 transition-all duration-300 focus-ring shadow-lg hover:shadow-amber-500/20"
+                        title="Compare with another snapshot"
+                      >
+                        <GitCompare className="w-4 h-4" />
+                      </button>
+                    )}
+
+                    <button
+                      onClick={(e) => handleRefreshRepository(repo, e)}
+                      disabled={refreshingRepo === repo.id}
+                      className="absolute right-12 top-2 p-2 rounded-lg bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 hover:border-green-500/50 backdrop-blur-md text-green-300 hover:text-green-200 opacity-0 group-hover:opacity-100 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed focus-ring shadow-lg hover:shadow-green-500/20"
+                      title="Refresh to the latest commit"
+                    >
+                      <RefreshCw className={`w-4 h-4 ${refreshingRepo === repo.id ? "animate-spin" : ""}`} />
                     </button>
 
                     <button
@@ -606,20 +1001,146 @@ const Dashboard: React.FC = () => {
                         <MessageCircle className="w-4 h-4" />
                         <span>Chat History</span>
                       </button>
+                      <button
+                        onClick={() => setActiveView('languages')}
+                        className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                          activeView === 'languages'
+                            ? 'bg-green-600 text-white'
+                            : 'github-text-secondary hover:text-white hover:bg-slate-700/50'
+                        }`}
+                      >
+                        <BarChart3 className="w-4 h-4" />
+                        <span>Languages</span>
+                      </button>
+                      {currentRepository && (
+                        <button
+                          onClick={() => setActiveView('dependencies')}
+                          className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                            activeView === 'dependencies'
+                              ? 'bg-green-600 text-white'
+                              : 'github-text-secondary hover:text-white hover:bg-slate-700/50'
+                          }`}
+                        >
+                          <Package className="w-4 h-4" />
+                          <span>Dependencies</span>
+                        </button>
+                      )}
+                      {currentRepository && (
+                        <button
+                          onClick={() => setActiveView('vulnerabilities')}
+                          className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                            activeView === 'vulnerabilities'
+                              ? 'bg-green-600 text-white'
+                              : 'github-text-secondary hover:text-white hover:bg-slate-700/50'
+                          }`}
+                        >
+                          <ShieldAlert className="w-4 h-4" />
+                          <span>Vulnerabilities</span>
+                        </button>
+                      )}
+                      {currentRepository && (
+                        <button
+                          onClick={() => setActiveView('licenses')}
+                          className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                            activeView === 'licenses'
+                              ? 'bg-green-600 text-white'
+                              : 'github-text-secondary hover:text-white hover:bg-slate-700/50'
+                          }`}
+                        >
+                          <Scale className="w-4 h-4" />
+                          <span>Licenses</span>
+                        </button>
+                      )}
+                      {currentRepository && (
+                        <button
+                          onClick={() => setActiveView('report')}
+                          className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                            activeView === 'report'
+                              ? 'bg-green-600 text-white'
+                              : 'github-text-secondary hover:text-white hover:bg-slate-700/50'
+                          }`}
+                        >
+                          <FileText className="w-4 h-4" />
+                          <span>Report</span>
+                        </button>
+                      )}
+                      {comparison && (
+                        <button
+                          onClick={() => setActiveView('compare')}
+                          className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                            activeView === 'compare'
+                              ? 'bg-green-600 text-white'
+                              : 'github-text-secondary hover:text-white hover:bg-slate-700/50'
+                          }`}
+                        >
+                          <GitCompare className="w-4 h-4" />
+                          <span>Compare</span>
+                        </button>
+                      )}
                     </div>
                   </div>
 
                   {/* Content Area */}
                   <div className="flex-1 min-h-0">
-                    {activeView === 'filetree' ? (
+                    {activeView === 'report' && currentRepository ? (
+                      <RepositoryReportView
+                        repository={currentRepository}
+                        onReportSaved={fetchRepositories}
+                      />
+                    ) : activeView === 'dependencies' && currentRepository ? (
+                      <DependencyTableView
+                        repository={currentRepository}
+                        fileTree={currentRepo}
+                        onScanned={(inventory) =>
+                          setRepositories((prev) =>
+                            prev.map((repo) => (repo.id === currentRepository.id ? { ...repo, dependencies: inventory } : repo))
+                          )
+                        }
+                        onManifestSelect={handleFileSelect}
+                      />
+                    ) : activeView === 'vulnerabilities' && currentRepository ? (
+                      <VulnerabilityPanel
+                        repository={currentRepository}
+                        onShowDependencies={() => setActiveView('dependencies')}
+                      />
+                    ) : activeView === 'licenses' && currentRepository ? (
+                      <LicenseReportView
+                        repository={currentRepository}
+                        onScanned={(licenseReport, inventory) =>
+                          setRepositories((prev) =>
+                            prev.map((repo) =>
+                              repo.id === currentRepository.id ? { ...repo, license_report: licenseReport, dependencies: inventory } : repo
+                            )
+                          )
+                        }
+                      />
+                    ) : activeView === 'languages' && languageStats ? (
+                      <LanguageStatsView
+                        fileTree={currentRepo}
+                        stats={languageStats}
+                        onLinesCounted={(counts) => setLineCounts((previous) => ({ ...previous, ...counts }))}
+                      />
+                    ) : activeView === 'compare' && comparison ? (
+                      <SnapshotCompareView
+                        base={comparison.base}
+                        head={comparison.head}
+                        onFileSelect={handleFileSelect}
+                        onClose={handleCloseComparison}
+                      />
+                    ) : activeView === 'filetree' ? (
                       <FileTreeVisualization
                         data={currentRepo}
                         onFileSelect={handleFileSelect}
                         counts={counts}
+                        cachedAnalyses={cachedAnalyses}
+                        revealRequest={treeReveal}
                       />
                     ) : (
                       currentRepoUrl && (
-                        <ChatHistoryView repositoryUrl={currentRepoUrl} />
+                        <ChatHistoryView
+                          repositoryUrl={currentRepoUrl}
+                          onResumeSession={handleResumeSession}
+                        />
                       )
                     )}
                   </div>
@@ -646,6 +1167,9 @@ const Dashboard: React.FC = () => {
               <div className="xl:w-1/2 border-t xl:border-t-0 xl:border-l border-green-500/20">
                 <CodeAnalysisPanel
                   file={selectedFile}
+                  repositoryUrl={currentRepoUrl}
+                  onAnalysisCached={handleAnalysisCached}
+                  focusRequest={codeFocus}
                   onClose={() => setSelectedFile(null)}
                   analysisData={analysisData}
                   setAnalysisData={setAnalysisData}
@@ -682,6 +1206,8 @@ const Dashboard: React.FC = () => {
               data={currentRepo}
               onFileSelect={handleFileSelect}
               counts={counts}
+              cachedAnalyses={cachedAnalyses}
+              revealRequest={treeReveal}
             />
           </div>
         </FullscreenContainer>
@@ -697,6 +1223,9 @@ const Dashboard: React.FC = () => {
           <div className="h-full">
             <CodeAnalysisPanel
               file={selectedFile}
+              repositoryUrl={currentRepoUrl}
+              onAnalysisCached={handleAnalysisCached}
+              focusRequest={codeFocus}
               onClose={() => setSelectedFile(null)}
               analysisData={analysisData}
               setAnalysisData={setAnalysisData}
@@ -719,8 +1248,79 @@ const Dashboard: React.FC = () => {
           repoInfo: aiContext.repoInfo
         } : null}
         isVisible={!!currentRepo && !!currentRepoUrl && showAIAssistant}
+        onCitationSelect={handleCitationSelect}
+        resumeRequest={chatResume}
+      />
+
+      <AccountSettings
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        onTokenChanged={fetchRateLimit}
       />
 
+      {/* Compare Snapshots Modal */}
+      {compareSource && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-slate-900/95 border border-green-500/30 rounded-xl shadow-2xl w-full max-w-md">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-semibold github-text-primary flex items-center space-x-2">
+                  <GitCompare className="w-6 h-6 text-amber-400" />
+                  <span>Compare Snapshots</span>
+                </h2>
+                <button
+                  onClick={() => setCompareSource(null)}
+                  className="github-text-secondary hover:text-white transition-colors duration-200"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <p className="github-text-secondary text-sm">
+                  Compare the snapshot of{" "}
+                  <span className="github-text-primary">
+                    {compareSource.repo_url.replace(/\/(tree|blob)\/.*$/, "").split("/").slice(-2).join("/")}
+                  </span>{" "}
+                  saved {new Date(compareSource.created_at).toLocaleString()} with:
+                </p>
+
+                <select
+                  value={compareTargetId ?? ""}
+                  onChange={(e) => setCompareTargetId(e.target.value)}
+                  className="w-full px-3 py-2 bg-slate-800/50 border border-green-500/20 rounded-lg github-text-primary text-sm focus:outline-none focus:border-green-500/50"
+                >
+                  {getOtherSnapshots(compareSource).map((repo) => (
+                    <option key={repo.id} value={repo.id}>
+                      {new Date(repo.created_at).toLocaleString()}
+                      {repo.repo_stats?.commitSha ? ` · ${repo.repo_stats.commitSha.substring(0, 7)}` : ""}
+                      {repo.repo_stats?.ref ? ` (${repo.repo_stats.ref})` : ""}
+                    </option>
+                  ))}
+                </select>
+
+                <div className="flex space-x-3 pt-4">
+                  <button
+                    onClick={() => setCompareSource(null)}
+                    className="flex-1 px-4 py-2 bg-slate-500/20 hover:bg-slate-500/30 border border-slate-400/30 hover:border-slate-400/50 backdrop-blur-md text-slate-300 hover:text-slate-200 rounded-lg transition-all duration-300 shadow-lg hover:shadow-slate-500/20"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleStartComparison}
+                    disabled={compareTargetId === null}
+                    className="flex-1 px-4 py-2 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 hover:border-green-500/50 backdrop-blur-md text-green-300 hover:text-green-200 rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2 shadow-lg hover:shadow-green-500/20"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                    <span>Compare</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Account Confirmation Modal */}
       {isDeleteConfirmOpen && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -749,6 +1349,7 @@ const Dashboard: React.FC = () => {
                   <h3 className="text-red-400 font-medium mb-2">This will permanently delete:</h3>
                   <ul className="github-text-secondary text-sm space-y-1">
                     <li>• Your user profile and account</li>
+                    <li>• Your stored GitHub access token</li>
                     <li>• All your repository analysis history</li>
                     <li>• All your AI chat conversations</li>
                     <li>• All associated data and preferences</li>
@@ -0,0 +1,353 @@
+import React, { useMemo, useState } from "react";
+import { Package, Loader2, RefreshCw, Search, X, AlertTriangle, ChevronUp, ChevronDown } from "lucide-react";
+import axios from "axios";
+import { useToast } from "../contexts/ToastContext";
+import { API_BASE_URL } from "../utils/api";
+
+export type DependencyScope =
+  | "runtime"
+  | "development"
+  | "test"
+  | "build"
+  | "optional"
+  | "peer"
+  | "provided"
+  | "indirect";
+
+export interface Dependency {
+  ecosystem: string;
+  name: string;
+  // As written in the manifest; exact for lockfiles
+  version: string | null;
+  scope: DependencyScope;
+  manifest: string;
+  // SPDX expression, when the lockfile records one
+  license?: string;
+}
+
+export interface DependencyInventory {
+  commitSha: string | null;
+  scannedAt: string;
+  manifests: {
+    path: string;
+    ecosystem: string;
+    kind: "manifest" | "lockfile";
+    dependencyCount: number;
+    error: string | null;
+  }[];
+  dependencies: Dependency[];
+  truncated: boolean;
+}
+
+interface FileNode {
+  name: string;
+  type: "file" | "folder";
+  path?: string;
+  download_url?: string;
+  children?: FileNode[];
+  size?: number;
+  sha?: string;
+}
+
+interface DependencyTableViewProps {
+  repository: {
+    id: string;
+    repo_stats?: { commitSha?: string };
+    dependencies?: DependencyInventory;
+  };
+  fileTree: FileNode;
+  onScanned: (inventory: DependencyInventory) => void;
+  onManifestSelect: (file: FileNode) => void;
+}
+
+type SortKey = "name" | "version" | "scope" | "ecosystem" | "manifest";
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "name", label: "Package" },
+  { key: "version", label: "Version" },
+  { key: "scope", label: "Scope" },
+  { key: "ecosystem", label: "Ecosystem" },
+  { key: "manifest", label: "Manifest" },
+];
+
+const SCOPE_STYLES: Record<DependencyScope, string> = {
+  runtime: "bg-green-500/20 text-green-300",
+  development: "bg-blue-500/20 text-blue-300",
+  test: "bg-purple-500/20 text-purple-300",
+  build: "bg-orange-500/20 text-orange-300",
+  optional: "bg-slate-600/50 text-gray-300",
+  peer: "bg-cyan-500/20 text-cyan-300",
+  provided: "bg-yellow-500/20 text-yellow-300",
+  indirect: "bg-slate-700/50 text-gray-400",
+};
+
+// Rows rendered at once; the rest are reached by searching
+const MAX_ROWS = 500;
+
+const collectFilesByPath = (node: FileNode, files: Map<string, FileNode> = new Map()) => {
+  if (node.type === "file") {
+    if (node.path) files.set(node.path, node);
+  } else {
+    node.children?.forEach((child) => collectFilesByPath(child, files));
+  }
+  return files;
+};
+
+const DependencyTableView: React.FC<DependencyTableViewProps> = ({
+  repository,
+  fileTree,
+  onScanned,
+  onManifestSelect,
+}) => {
+  const { success, error: showError } = useToast();
+  const [scanning, setScanning] = useState(false);
+  const [query, setQuery] = useState("");
+  const [ecosystem, setEcosystem] = useState("");
+  const [scope, setScope] = useState("");
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "name", descending: false });
+  const inventory = repository.dependencies;
+
+  const filesByPath = useMemo(() => collectFilesByPath(fileTree), [fileTree]);
+
+  const ecosystems = useMemo(
+    () => [...new Set((inventory?.dependencies || []).map((dependency) => dependency.ecosystem))].sort(),
+    [inventory]
+  );
+  const scopes = useMemo(
+    () => [...new Set((inventory?.dependencies || []).map((dependency) => dependency.scope))].sort(),
+    [inventory]
+  );
+
+  const rows = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = (inventory?.dependencies || []).filter((dependency) => {
+      if (ecosystem && dependency.ecosystem !== ecosystem) return false;
+      if (scope && dependency.scope !== scope) return false;
+      const text = `${dependency.name} ${dependency.version || ""} ${dependency.manifest}`.toLowerCase();
+      return terms.every((term) => text.includes(term));
+    });
+    const direction = sort.descending ? -1 : 1;
+    return matches.sort(
+      (a, b) =>
+        direction * (a[sort.key] || "").localeCompare(b[sort.key] || "") ||
+        a.name.localeCompare(b.name) ||
+        a.manifest.localeCompare(b.manifest)
+    );
+  }, [inventory, query, ecosystem, scope, sort]);
+
+  const failedManifests = inventory?.manifests.filter((manifest) => manifest.error) || [];
+  const isStale = Boolean(
+    inventory?.commitSha && repository.repo_stats?.commitSha && inventory.commitSha !== repository.repo_stats.commitSha
+  );
+  const isFiltered = query.trim() !== "" || ecosystem !== "" || scope !== "";
+
+  const handleScan = async () => {
+    setScanning(true);
+    try {
+      const response = await axios.post(`${API_BASE_URL}/github/repositories/${repository.id}/dependencies`);
+      const scanned: DependencyInventory = response.data.dependencies;
+      onScanned(scanned);
+      success(
+        "Dependencies Scanned",
+        `Found ${scanned.dependencies.length} dependencies in ${scanned.manifests.length} manifests`
+      );
+    } catch (err: unknown) {
+      console.error("Scan dependencies error:", err);
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      showError("Scan Failed", message || "Could not scan the repository's dependencies. Please try again.");
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleSort = (key: SortKey) => {
+    setSort((current) => ({ key, descending: current.key === key ? !current.descending : false }));
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-base lg:text-lg font-semibold github-text-primary flex items-center">
+            <Package className="w-5 h-5 mr-2 text-green-400" />
+            Dependencies
+          </h3>
+          {inventory && (
+            <p className="text-xs github-text-secondary mt-1">
+              {inventory.dependencies.length} dependencies from {inventory.manifests.length} manifests · scanned{" "}
+              {new Date(inventory.scannedAt).toLocaleString()}
+              {inventory.commitSha && <span className="font-mono"> · {inventory.commitSha.substring(0, 7)}</span>}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={handleScan}
+          disabled={scanning}
+          className="flex items-center px-3 py-2 text-sm font-medium text-green-300 hover:text-green-200 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 hover:border-green-500/50 rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {scanning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+          {inventory ? "Rescan" : "Scan Manifests"}
+        </button>
+      </div>
+
+      {!inventory && (
+        <div className="text-center py-12 github-text-secondary">
+          <Package className="w-12 h-12 mx-auto mb-4 text-green-400 opacity-50" />
+          <p className="text-sm max-w-md mx-auto">
+            Scan the repository to list the dependencies declared in its package.json, requirements, pyproject,
+            go.mod, Cargo, Maven, Gradle, Gemfile and Composer manifests and their lockfiles.
+          </p>
+        </div>
+      )}
+
+      {inventory && (
+        <>
+          {(isStale || inventory.truncated || failedManifests.length > 0) && (
+            <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-xs text-yellow-200 space-y-1">
+              {isStale && <p>The repository was refreshed after this scan. Rescan to update the dependencies.</p>}
+              {inventory.truncated && <p>Only the first {inventory.dependencies.length} dependencies were kept.</p>}
+              {failedManifests.map((manifest) => (
+                <p key={manifest.path} className="flex items-start">
+                  <AlertTriangle className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />
+                  <span>
+                    <span className="font-mono">{manifest.path}</span> could not be read: {manifest.error}
+                  </span>
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-48">
+              <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setQuery("")}
+                placeholder="Search packages, versions or manifests"
+                className="w-full pl-9 pr-8 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-green-500"
+              />
+              {query && (
+                <button
+                  onClick={() => setQuery("")}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded text-gray-400 hover:bg-gray-700 hover:text-white"
+                  title="Clear search"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <select
+              value={ecosystem}
+              onChange={(e) => setEcosystem(e.target.value)}
+              className="px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:border-green-500"
+            >
+              <option value="">All ecosystems</option>
+              {ecosystems.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value)}
+              className="px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:border-green-500"
+            >
+              <option value="">All scopes</option>
+              {scopes.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {inventory.dependencies.length === 0 ? (
+            <div className="text-center py-8 text-sm github-text-secondary">
+              {inventory.manifests.length === 0
+                ? "No dependency manifests were found in the analyzed tree."
+                : "The manifests found declare no dependencies."}
+            </div>
+          ) : (
+            <section className="rounded-lg bg-slate-800/50 border border-green-500/20 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs github-text-secondary text-left">
+                    {COLUMNS.map((column) => (
+                      <th key={column.key} className="font-medium px-3 py-2">
+                        <button
+                          onClick={() => handleSort(column.key)}
+                          className="flex items-center hover:text-white transition-colors"
+                        >
+                          {column.label}
+                          {sort.key === column.key &&
+                            (sort.descending ? (
+                              <ChevronDown className="w-3 h-3 ml-1" />
+                            ) : (
+                              <ChevronUp className="w-3 h-3 ml-1" />
+                            ))}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, MAX_ROWS).map((dependency) => {
+                    const manifestFile = filesByPath.get(dependency.manifest);
+                    return (
+                      <tr
+                        key={`${dependency.manifest}:${dependency.scope}:${dependency.name}@${dependency.version}`}
+                        className="border-t border-slate-700/50 text-gray-300"
+                      >
+                        <td className="px-3 py-1.5 font-mono text-green-300 break-all">{dependency.name}</td>
+                        <td className="px-3 py-1.5 font-mono text-xs">{dependency.version || "—"}</td>
+                        <td className="px-3 py-1.5">
+                          <span className={`px-1.5 py-0.5 rounded text-xs ${SCOPE_STYLES[dependency.scope]}`}>
+                            {dependency.scope}
+                          </span>
+                        </td>
+                        <td className="px-3 py-1.5 text-xs">{dependency.ecosystem}</td>
+                        <td className="px-3 py-1.5 font-mono text-xs">
+                          {manifestFile ? (
+                            <button
+                              onClick={() => onManifestSelect(manifestFile)}
+                              className="text-left hover:text-green-300 hover:underline transition-colors"
+                              title="Open manifest"
+                            >
+                              {dependency.manifest}
+                            </button>
+                          ) : (
+                            <span className="text-gray-500">{dependency.manifest}</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {rows.length === 0 && (
+                <div className="px-3 py-6 text-center text-xs github-text-secondary">
+                  No dependencies match the search.
+                </div>
+              )}
+              {rows.length > MAX_ROWS && (
+                <div className="px-3 py-2 text-xs text-gray-500 border-t border-slate-700/50">
+                  {rows.length - MAX_ROWS} more — refine the search to list them
+                </div>
+              )}
+              {isFiltered && rows.length > 0 && (
+                <div className="px-3 py-2 text-xs text-gray-500 border-t border-slate-700/50">
+                  {rows.length} of {inventory.dependencies.length} dependencies match
+                </div>
+              )}
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DependencyTableView;
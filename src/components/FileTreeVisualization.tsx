@@ -8,8 +8,19 @@ import React, {
   ReactNode,
 } from "react";
 import * as d3 from "d3";
-import { ZoomIn, ZoomOut, RotateCcw, Maximize2 } from "lucide-react";
+import { ZoomIn, ZoomOut, RotateCcw, Maximize2, Network, LayoutGrid, PieChart } from "lucide-react";
 import { useFullscreen } from "../contexts/FullscreenContext";
+import TreeSearchPanel from "./TreeSearchPanel";
+import RepositorySizeChart, { SizeChartLayout } from "./RepositorySizeChart";
+import {
+  TreeFilter,
+  TreeSearchFile,
+  EMPTY_TREE_FILTER,
+  createFileFilter,
+  fuzzyScore,
+  getExtension,
+  isTreeFilterActive,
+} from "../utils/treeSearch";
 
 // Error Boundary Component
 interface ErrorBoundaryState {
@@ -69,12 +80,21 @@ interface FileNode {
   truncated?: boolean;
   message?: string;
   size?: number;
+  sha?: string;
+  // Set when the tree is a merged snapshot comparison (see utils/treeDiff)
+  diffStatus?: "added" | "removed" | "resized" | "unchanged";
+  previousSize?: number;
+  hasChanges?: boolean;
 }
 
 interface FileTreeVisualizationProps {
   data: FileNode;
   onFileSelect: (file: FileNode) => void;
   counts?: { analyzedFiles: number, analyzedFolders: number, totalFiles: number, totalFolders: number, analyzedDepth: number, totalDepth: number } | null;
+  // Files with a cached AI analysis, as "path@sha"
+  cachedAnalyses?: Set<string>;
+  // File to reveal and highlight; a new id repeats the request for the same path
+  revealRequest?: { path: string; id: number } | null;
 }
 
 interface D3Node extends d3.HierarchyNode<FileNode> {
@@ -83,10 +103,152 @@ interface D3Node extends d3.HierarchyNode<FileNode> {
   y0?: number;
 }
 
+const DIFF_COLORS = {
+  added: "#22C55E",
+  removed: "#EF4444",
+  resized: "#F59E0B",
+};
+
+const formatDiffBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const getTreeSize = (node: FileNode): number =>
+  node.type === "file"
+    ? node.size || 0
+    : (node.children || []).reduce((total, child) => total + getTreeSize(child), 0);
+
+const ANALYSIS_BADGE_COLOR = "#A855F7";
+const HIGHLIGHT_COLOR = "#FACC15";
+
+// Whether the node is a file whose current version has a cached analysis
+const hasCachedAnalysis = (d: D3Node, cachedAnalyses?: Set<string>) =>
+  d.data.type === "file" &&
+  !!d.data.sha &&
+  !!cachedAnalyses?.has(`${d.data.path || d.data.name}@${d.data.sha}`);
+
+const getNodeColor = (d: D3Node) => {
+  const { diffStatus, type } = d.data;
+  if (diffStatus && diffStatus !== "unchanged") {
+    return DIFF_COLORS[diffStatus];
+  }
+  // Unchanged nodes are muted in a comparison so the changes stand out
+  if (diffStatus) {
+    return type === "folder" ? "#4F46E5" : "#6B7280";
+  }
+  if (type === "folder") {
+    return d._children ? "#4F46E5" : "#10B981";
+  }
+  return "#EF4444";
+};
+
+const LAYOUTS: { layout: "tree" | SizeChartLayout; label: string; icon: React.ElementType }[] = [
+  { layout: "tree", label: "Tree", icon: Network },
+  { layout: "treemap", label: "Treemap", icon: LayoutGrid },
+  { layout: "sunburst", label: "Sunburst", icon: PieChart },
+];
+
+const SEARCH_MATCH_COLOR = "#38BDF8";
+// Folders opened to show the best search matches
+const EXPANDED_MATCHES = 20;
+const EXTENSION_CHIPS = 12;
+
+const getNodePath = (node: FileNode) => node.path || node.name;
+
+// What search and filters mark in the drawn tree
+interface TreeMarks {
+  // Revealed file, outlined in the highlight color
+  focusedPath?: string;
+  matchedPaths: Set<string>;
+  // Files passing the filters and the folders above them; null without filters
+  visiblePaths: Set<string> | null;
+  hideFiltered: boolean;
+}
+
+const markTreeNodes = (
+  g: d3.Selection<SVGGElement, unknown, null, undefined>,
+  marks: TreeMarks
+) => {
+  const passes = (d: D3Node) =>
+    !marks.visiblePaths || d.depth === 0 || marks.visiblePaths.has(getNodePath(d.data));
+
+  // Links are bound to the node they lead to
+  [
+    g.selectAll<SVGGElement, D3Node>("g.node"),
+    g.selectAll<SVGGElement, D3Node>("path.link"),
+  ].forEach((selection) =>
+    selection
+      .style("opacity", (d) => (passes(d) ? null : 0.25))
+      .style("display", (d) => (passes(d) || !marks.hideFiltered ? null : "none"))
+  );
+
+  g.selectAll<SVGCircleElement, D3Node>("circle.node-circle")
+    .style("stroke", (d) => {
+      const path = getNodePath(d.data);
+      if (path === marks.focusedPath) return HIGHLIGHT_COLOR;
+      return marks.matchedPaths.has(path) ? SEARCH_MATCH_COLOR : null;
+    })
+    .style("stroke-width", "3px");
+};
+
+const findNode = (node: D3Node, path: string): D3Node | null => {
+  if (node.data.path === path) return node;
+  for (const child of node.children || node._children || []) {
+    const found = findNode(child as D3Node, path);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Open the collapsed folders above a node. Returns the highest one, which new
+// nodes grow out of when redrawing, or null if all were open
+const expandAncestors = (node: D3Node) => {
+  let source: D3Node | null = null;
+  for (const ancestor of node.ancestors() as D3Node[]) {
+    if (ancestor._children) {
+      ancestor.children = ancestor._children;
+      ancestor._children = undefined;
+      source = ancestor;
+    }
+  }
+  return source;
+};
+
+// Expand the folders above the node with a path, redraw and center the view on it
+const revealNode = (
+  root: D3Node,
+  path: string,
+  update: (source: D3Node) => void,
+  svgElement: SVGSVGElement,
+  zoomBehavior: d3.ZoomBehavior<SVGSVGElement, unknown> | null
+) => {
+  const target = findNode(root, path);
+  if (!target) return;
+  update(expandAncestors(target) || target);
+
+  if (zoomBehavior && target.x !== undefined && target.y !== undefined) {
+    const scale = d3.zoomTransform(svgElement).k;
+    d3.select(svgElement)
+      .transition()
+      .duration(750)
+      .ease(d3.easeCubicOut)
+      .call(
+        zoomBehavior.transform,
+        d3.zoomIdentity
+          .translate(
+            svgElement.clientWidth / 2 - target.y * scale,
+            svgElement.clientHeight / 2 - target.x * scale
+          )
+          .scale(scale)
+      );
+  }
+};
+
 const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
   data,
   onFileSelect,
   counts,
+  cachedAnalyses,
+  revealRequest,
 }) => {
   const { toggleFullscreen, fullscreenMode } = useFullscreen();
   const svgRef = useRef<SVGSVGElement>(null);
@@ -95,6 +257,23 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
   const treeDataRef = useRef<D3Node | null>(null);
   const isInitializedRef = useRef(false);
   const zoomBehaviorRef = useRef<any>(null); // Store zoom behavior reference
+  // Read when nodes are drawn, so new badges don't rebuild the tree
+  const cachedAnalysesRef = useRef(cachedAnalyses);
+  const treeMarksRef = useRef<TreeMarks>({
+    focusedPath: revealRequest?.path,
+    matchedPaths: new Set(),
+    visiblePaths: null,
+    hideFiltered: false,
+  });
+  // Redraws the tree from a node; set when the tree is initialized
+  const updateRef = useRef<((source: D3Node) => void) | null>(null);
+
+  // Search and filters
+  const [searchQuery, setSearchQuery] = useState("");
+  const [treeFilter, setTreeFilter] = useState<TreeFilter>(EMPTY_TREE_FILTER);
+  const [activeMatch, setActiveMatch] = useState(0);
+
+  const [layout, setLayout] = useState<"tree" | SizeChartLayout>("tree");
 
   // Zoom state
   const [zoomLevel, setZoomLevel] = useState(1);
@@ -115,6 +294,8 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
     };
 
     const traverse = (node: FileNode, depth: number = 1) => {
+      // In a comparison, count what the newer snapshot contains
+      if (node.diffStatus === "removed") return;
       stats.maxDepth = Math.max(stats.maxDepth, depth);
 
       if (node.type === "file") {
@@ -137,6 +318,58 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
     return stats;
   }, [data]);
 
+  // Files to search and filter, with the most common extensions
+  const { searchFiles, extensionCounts } = useMemo(() => {
+    const files: TreeSearchFile[] = [];
+    const traverse = (node: FileNode) => {
+      if (node.type === "file") {
+        files.push({ name: node.name, path: getNodePath(node), size: node.size });
+      }
+      node.children?.forEach(traverse);
+    };
+    traverse(data);
+
+    const counts = new Map<string, number>();
+    files.forEach((file) => {
+      const extension = getExtension(file.name);
+      if (extension) counts.set(extension, (counts.get(extension) || 0) + 1);
+    });
+    return {
+      searchFiles: files,
+      extensionCounts: Array.from(counts, ([extension, count]) => ({ extension, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, EXTENSION_CHIPS),
+    };
+  }, [data]);
+
+  const filteredFiles = useMemo(() => {
+    if (!isTreeFilterActive(treeFilter)) return null;
+    return searchFiles.filter(createFileFilter(treeFilter));
+  }, [searchFiles, treeFilter]);
+
+  // Filtered files and every folder above them
+  const visiblePaths = useMemo(() => {
+    if (!filteredFiles) return null;
+    const paths = new Set<string>();
+    filteredFiles.forEach((file) => {
+      const segments = file.path.split("/");
+      for (let i = 1; i <= segments.length; i++) {
+        paths.add(segments.slice(0, i).join("/"));
+      }
+    });
+    return paths;
+  }, [filteredFiles]);
+
+  // Files matching the search among those passing the filters, best first
+  const searchMatches = useMemo(() => {
+    if (!searchQuery.trim()) return [];
+    return (filteredFiles || searchFiles)
+      .map((file) => ({ file, score: fuzzyScore(searchQuery, file.path) }))
+      .filter((match): match is { file: TreeSearchFile; score: number } => match.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .map((match) => match.file);
+  }, [searchQuery, searchFiles, filteredFiles]);
+
   // Memoize the data to prevent unnecessary re-renders
   const memoizedData = useMemo(() => data, [data]);
 
@@ -201,9 +434,16 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
       root.x0 = height / 2;
       root.y0 = 0;
 
-      // Collapse nodes initially (except root)
+      // Collapse nodes initially (except root). When comparing snapshots,
+      // folders present in both that contain changes stay open down to the
+      // change; wholly added or removed folders are collapsed like any other
       const collapse = (d: D3Node) => {
-        if (d.children) {
+        if (!d.children) return;
+        const leadsToChange =
+          d.data.hasChanges && (d.data.diffStatus === "resized" || d.data.diffStatus === "unchanged");
+        if (leadsToChange) {
+          d.children.forEach(collapse);
+        } else {
           d._children = d.children;
           d._children.forEach(collapse);
           d.children = undefined;
@@ -269,12 +509,7 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
             .append("circle")
             .attr("class", "node-circle")
             .attr("r", 1e-6)
-            .style("fill", (d: D3Node) => {
-              if (d.data.type === "folder") {
-                return d._children ? "#4F46E5" : "#10B981";
-              }
-              return "#EF4444";
-            })
+            .style("fill", getNodeColor)
             .style("cursor", "default");
 
           nodeEnter
@@ -290,6 +525,36 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
             .style("cursor", "default")
             .style("opacity", 1e-6);
 
+          // Badge on files with a cached analysis
+          nodeEnter
+            .filter((d: D3Node) => d.data.type === "file")
+            .append("circle")
+            .attr("class", "analysis-badge")
+            .attr("cx", isMobile ? 6 : 7)
+            .attr("cy", isMobile ? -6 : -7)
+            .attr("r", isMobile ? 3 : 3.5)
+            .style("fill", ANALYSIS_BADGE_COLOR)
+            .style("stroke", "#111827")
+            .style("stroke-width", "1px")
+            .style("display", (d: D3Node) =>
+              hasCachedAnalysis(d, cachedAnalysesRef.current) ? null : "none"
+            )
+            .append("title")
+            .text("AI analysis available");
+
+          // Hover details for changed nodes in a comparison
+          nodeEnter
+            .filter((d: D3Node) => !!d.data.diffStatus && d.data.diffStatus !== "unchanged")
+            .append("title")
+            .text((d: D3Node) => {
+              const { diffStatus, previousSize } = d.data;
+              const size = getTreeSize(d.data);
+              if (diffStatus === "resized") {
+                return `${d.data.name}: ${formatDiffBytes(previousSize || 0)} → ${formatDiffBytes(size)}`;
+              }
+              return `${d.data.name}: ${diffStatus} (${formatDiffBytes(size)})`;
+            });
+
           const nodeUpdate = nodeEnter.merge(node as any);
 
           nodeUpdate
@@ -300,12 +565,7 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
           nodeUpdate
             .select("circle.node-circle")
             .attr("r", isMobile ? 6 : 8)
-            .style("fill", (d: D3Node) => {
-              if (d.data.type === "folder") {
-                return d._children ? "#4F46E5" : "#10B981";
-              }
-              return "#EF4444";
-            })
+            .style("fill", getNodeColor)
             .style("cursor", "default");
 
           nodeUpdate.select("text").style("opacity", 1);
@@ -357,6 +617,8 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
             d.x0 = d.x!;
             d.y0 = d.y!;
           });
+
+          markTreeNodes(g, treeMarksRef.current);
         } catch (error) {
           console.error("Error in tree update:", error);
         }
@@ -369,12 +631,23 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
                   ${d.y} ${d.x}`;
       };
 
+      updateRef.current = update;
       update(root);
     } catch (error) {
       console.error("Error initializing tree visualization:", error);
     }
   }, [memoizedData, dimensions, memoizedOnFileSelect]);
 
+  // Show or hide badges as analyses are cached
+  useEffect(() => {
+    cachedAnalysesRef.current = cachedAnalyses;
+    if (!svgRef.current) return;
+
+    d3.select(svgRef.current)
+      .selectAll<SVGCircleElement, D3Node>("circle.analysis-badge")
+      .style("display", (d) => (hasCachedAnalysis(d, cachedAnalyses) ? null : "none"));
+  }, [cachedAnalyses]);
+
   // Effect to enable/disable zoom behavior based on isZoomEnabled state
   useEffect(() => {
     if (!svgRef.current) return;
@@ -432,6 +705,49 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
     };
   }, [isZoomEnabled]);
 
+  // Highlight a revealed file and bring it into view
+  useEffect(() => {
+    treeMarksRef.current.focusedPath = revealRequest?.path;
+    if (revealRequest) setLayout("tree");
+    const root = treeDataRef.current;
+    if (!revealRequest || !root || !updateRef.current || !svgRef.current) return;
+    revealNode(root, revealRequest.path, updateRef.current, svgRef.current, zoomBehaviorRef.current);
+  }, [revealRequest]);
+
+  // Restyle the drawn nodes as the search or filters change
+  useEffect(() => {
+    Object.assign(treeMarksRef.current, {
+      matchedPaths: new Set(searchMatches.map((file) => file.path)),
+      visiblePaths,
+      hideFiltered: treeFilter.hideFiltered,
+    });
+    if (!svgRef.current) return;
+    markTreeNodes(d3.select(svgRef.current).select<SVGGElement>("g"), treeMarksRef.current);
+  }, [searchMatches, visiblePaths, treeFilter.hideFiltered]);
+
+  // Open the folders holding the best matches of a new search
+  useEffect(() => {
+    setActiveMatch(0);
+    const root = treeDataRef.current;
+    if (!root || !updateRef.current || searchMatches.length === 0) return;
+
+    let expanded = false;
+    searchMatches.slice(0, EXPANDED_MATCHES).forEach((file) => {
+      const node = findNode(root, file.path);
+      if (node && expandAncestors(node)) expanded = true;
+    });
+    if (expanded) updateRef.current(root);
+  }, [searchMatches]);
+
+  const handleSelectMatch = (index: number) => {
+    const match = searchMatches[index];
+    const root = treeDataRef.current;
+    setActiveMatch(index);
+    if (!match || !root || !updateRef.current || !svgRef.current) return;
+    treeMarksRef.current.focusedPath = match.path;
+    revealNode(root, match.path, updateRef.current, svgRef.current, zoomBehaviorRef.current);
+  };
+
   // Enhanced Zoom controls with smooth animations
   const handleZoomIn = () => {
     if (svgRef.current && isZoomEnabled && zoomBehaviorRef.current && !isAnimating) {
@@ -534,6 +850,23 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
     return panY;
   };
 
+  const layoutSwitcher = (
+    <div className="flex items-center p-0.5 rounded-lg bg-gray-700">
+      {LAYOUTS.map(({ layout: option, label, icon: Icon }) => (
+        <button
+          key={option}
+          onClick={() => setLayout(option)}
+          className={`p-1.5 rounded-md transition-all duration-200 ${
+            layout === option ? "bg-gray-900 text-white" : "text-gray-300 hover:text-white"
+          }`}
+          title={`${label} view`}
+        >
+          <Icon className="w-4 h-4" />
+        </button>
+      ))}
+    </div>
+  );
+
   return (
     <div className={`w-full h-full flex flex-col ${fullscreenMode === 'tree' ? 'overflow-hidden' : 'overflow-y-auto'}`}>
       {fullscreenMode !== 'tree' && (
@@ -543,6 +876,7 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
             Repository Structure
           </h2>
           <div className="flex items-center space-x-2">
+            {layoutSwitcher}
             <button
               onClick={() => toggleFullscreen('tree')}
               className="group p-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white transition-all duration-200 hover:scale-105"
@@ -550,43 +884,72 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
             >
               <Maximize2 className="w-4 h-4 group-hover:rotate-180 transition-transform duration-300" />
             </button>
-            <button
-              onClick={() => setIsZoomEnabled(!isZoomEnabled)}
-              className={`p-2 rounded-lg transition-all duration-200 ${
-                isZoomEnabled
-                  ? "bg-green-700 hover:bg-green-600 text-white"
-                  : "bg-gray-700 hover:bg-gray-600 text-gray-300"
-              }`}
-              title={isZoomEnabled ? "Disable zoom" : "Enable zoom"}
-            >
-              <span className="text-xs font-medium">
-                {isZoomEnabled ? "Z: ON" : "Z: OFF"}
-              </span>
-            </button>
-            <button
-              onClick={() => setShowControls(!showControls)}
-              className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white transition-all duration-200"
-              title="Toggle controls"
-            >
-              <ZoomIn className="w-4 h-4" />
-            </button>
+            {layout === "tree" && (
+              <>
+                <button
+                  onClick={() => setIsZoomEnabled(!isZoomEnabled)}
+                  className={`p-2 rounded-lg transition-all duration-200 ${
+                    isZoomEnabled
+                      ? "bg-green-700 hover:bg-green-600 text-white"
+                      : "bg-gray-700 hover:bg-gray-600 text-gray-300"
+                  }`}
+                  title={isZoomEnabled ? "Disable zoom" : "Enable zoom"}
+                >
+                  <span className="text-xs font-medium">
+                    {isZoomEnabled ? "Z: ON" : "Z: OFF"}
+                  </span>
+                </button>
+                <button
+                  onClick={() => setShowControls(!showControls)}
+                  className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white transition-all duration-200"
+                  title="Toggle controls"
+                >
+                  <ZoomIn className="w-4 h-4" />
+                </button>
+              </>
+            )}
           </div>
         </div>
 
-        <div className="flex flex-wrap items-center gap-2 sm:gap-3 lg:gap-6 text-xs sm:text-sm text-gray-400">
-          <div className="flex items-center whitespace-nowrap">
-            <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-green-500 mr-1 sm:mr-2"></div>
-            <span className="text-xs sm:text-sm">Expanded Folder</span>
-          </div>
-          <div className="flex items-center whitespace-nowrap">
-            <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-indigo-500 mr-1 sm:mr-2"></div>
-            <span className="text-xs sm:text-sm">Collapsed Folder</span>
+        {data.diffStatus ? (
+          <div className="flex flex-wrap items-center gap-2 sm:gap-3 lg:gap-6 text-xs sm:text-sm text-gray-400">
+            <div className="flex items-center whitespace-nowrap">
+              <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-green-500 mr-1 sm:mr-2"></div>
+              <span className="text-xs sm:text-sm">Added</span>
+            </div>
+            <div className="flex items-center whitespace-nowrap">
+              <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-red-500 mr-1 sm:mr-2"></div>
+              <span className="text-xs sm:text-sm">Removed</span>
+            </div>
+            <div className="flex items-center whitespace-nowrap">
+              <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-amber-500 mr-1 sm:mr-2"></div>
+              <span className="text-xs sm:text-sm">Resized</span>
+            </div>
+            <div className="flex items-center whitespace-nowrap">
+              <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-indigo-500 mr-1 sm:mr-2"></div>
+              <span className="text-xs sm:text-sm">Unchanged Folder</span>
+            </div>
+            <div className="flex items-center whitespace-nowrap">
+              <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-gray-500 mr-1 sm:mr-2"></div>
+              <span className="text-xs sm:text-sm">Unchanged File</span>
+            </div>
           </div>
-          <div className="flex items-center whitespace-nowrap">
-            <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-red-500 mr-1 sm:mr-2"></div>
-            <span className="text-xs sm:text-sm">File</span>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2 sm:gap-3 lg:gap-6 text-xs sm:text-sm text-gray-400">
+            <div className="flex items-center whitespace-nowrap">
+              <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-green-500 mr-1 sm:mr-2"></div>
+              <span className="text-xs sm:text-sm">Expanded Folder</span>
+            </div>
+            <div className="flex items-center whitespace-nowrap">
+              <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-indigo-500 mr-1 sm:mr-2"></div>
+              <span className="text-xs sm:text-sm">Collapsed Folder</span>
+            </div>
+            <div className="flex items-center whitespace-nowrap">
+              <div className="w-2 h-2 sm:w-3 sm:h-3 rounded-full bg-red-500 mr-1 sm:mr-2"></div>
+              <span className="text-xs sm:text-sm">File</span>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Repository Statistics */}
         <div className="mt-3 p-3 bg-gray-800 rounded-lg border border-gray-700">
@@ -636,7 +999,7 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
         </div>
 
         {/* Enhanced Zoom and Pan Controls */}
-        {showControls && (
+        {showControls && layout === "tree" && (
           <div className="mt-4 p-4 bg-gradient-to-br from-gray-800/80 to-gray-900/80 backdrop-blur-sm rounded-xl border border-gray-700/50 shadow-lg hover:shadow-xl transition-all duration-300">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Enhanced Zoom Controls */}
@@ -799,11 +1162,26 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
         </div>
       )}
 
+      {layout === "tree" && (
+      <TreeSearchPanel
+        query={searchQuery}
+        onQueryChange={setSearchQuery}
+        matches={searchMatches}
+        activeMatch={activeMatch}
+        onSelectMatch={handleSelectMatch}
+        filter={treeFilter}
+        onFilterChange={setTreeFilter}
+        extensions={extensionCounts}
+        totalFiles={searchFiles.length}
+        filteredFiles={filteredFiles ? filteredFiles.length : null}
+      />
+      )}
+
       <div
         ref={containerRef}
         className={`bg-gray-800 rounded-lg flex-1 overflow-x-auto overflow-y-hidden min-h-0 border border-gray-700 scrollbar-thin relative ${
           fullscreenMode === 'tree' 
-            ? 'p-1' 
+            ? 'p-1'
             : 'p-2 sm:p-4'
         }`}
         style={{ 
@@ -818,35 +1196,47 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
           style={{ minWidth: "max-content" }}
         />
 
+        {/* Size layouts cover the tree, which keeps its expanded folders */}
+        {layout !== "tree" && (
+          <div className={`absolute inset-0 z-[5] bg-gray-800 ${fullscreenMode === 'tree' ? 'p-2 pt-16' : 'p-2 sm:p-4'}`}>
+            <RepositorySizeChart data={data} layout={layout} onFileSelect={memoizedOnFileSelect} />
+          </div>
+        )}
+
         {/* Floating Controls for Fullscreen Mode */}
         {fullscreenMode === 'tree' && (
           <>
             {/* Top-right floating controls */}
             <div className="absolute top-4 right-4 z-10 flex items-center space-x-2">
-              <button
-                onClick={() => setIsZoomEnabled(!isZoomEnabled)}
-                className={`p-2 rounded-lg transition-all duration-200 ${
-                  isZoomEnabled
-                    ? "bg-green-700 hover:bg-green-600 text-white"
-                    : "bg-gray-700 hover:bg-gray-600 text-gray-300"
-                }`}
-                title={isZoomEnabled ? "Disable zoom" : "Enable zoom"}
-              >
-                <span className="text-xs font-medium">
-                  {isZoomEnabled ? "Z: ON" : "Z: OFF"}
-                </span>
-              </button>
-              <button
-                onClick={() => setShowControls(!showControls)}
-                className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white transition-all duration-200"
-                title="Toggle controls"
-              >
-                <ZoomIn className="w-4 h-4" />
-              </button>
+              {layoutSwitcher}
+              {layout === "tree" && (
+                <>
+                  <button
+                    onClick={() => setIsZoomEnabled(!isZoomEnabled)}
+                    className={`p-2 rounded-lg transition-all duration-200 ${
+                      isZoomEnabled
+                        ? "bg-green-700 hover:bg-green-600 text-white"
+                        : "bg-gray-700 hover:bg-gray-600 text-gray-300"
+                    }`}
+                    title={isZoomEnabled ? "Disable zoom" : "Enable zoom"}
+                  >
+                    <span className="text-xs font-medium">
+                      {isZoomEnabled ? "Z: ON" : "Z: OFF"}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => setShowControls(!showControls)}
+                    className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white transition-all duration-200"
+                    title="Toggle controls"
+                  >
+                    <ZoomIn className="w-4 h-4" />
+                  </button>
+                </>
+              )}
             </div>
 
             {/* Enhanced Floating Zoom and Pan Controls */}
-            {showControls && (
+            {showControls && layout === "tree" && (
               <div className="absolute top-4 left-4 z-10 bg-gray-800/90 backdrop-blur-sm rounded-xl p-4 border border-gray-700/50 shadow-lg max-w-sm">
                 <div className="space-y-4">
                   {/* Zoom Controls Section */}
@@ -1010,9 +1400,11 @@ const FileTreeVisualization: React.FC<FileTreeVisualizationProps> = ({
         )}
 
         {/* Zoom Instructions */}
-        <div className="absolute bottom-2 right-2 text-xs text-gray-500 bg-gray-900/80 px-2 py-1 rounded">
-          {isZoomEnabled ? "Scroll to zoom • Drag to pan" : "Zoom disabled"}
-        </div>
+        {layout === "tree" && (
+          <div className="absolute bottom-2 right-2 text-xs text-gray-500 bg-gray-900/80 px-2 py-1 rounded">
+            {isZoomEnabled ? "Scroll to zoom • Drag to pan" : "Zoom disabled"}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,300 @@
+import React, { useEffect, useRef, useState } from "react";
+import { BarChart3, Loader2, Hash, XCircle, FolderTree } from "lucide-react";
+import axios from "axios";
+import { useToast } from "../contexts/ToastContext";
+import { API_BASE_URL } from "../utils/api";
+import {
+  LanguageStats,
+  FileLineCount,
+  OTHER_LANGUAGE,
+  classifyFile,
+  countLines,
+  getLanguageColor,
+} from "../utils/languageStats";
+
+interface FileNode {
+  name: string;
+  type: "file" | "folder";
+  path?: string;
+  download_url?: string;
+  children?: FileNode[];
+  size?: number;
+  sha?: string;
+}
+
+interface LanguageStatsViewProps {
+  fileTree: FileNode;
+  stats: LanguageStats;
+  // Called with the line counts of files fetched for counting
+  onLinesCounted: (counts: { [path: string]: FileLineCount }) => void;
+}
+
+type Metric = "bytes" | "files" | "code";
+
+const METRIC_LABELS: Record<Metric, string> = { bytes: "Size", files: "Files", code: "Lines of code" };
+
+// Files fetched per "Count lines" run, and in parallel
+const MAX_COUNTED_FILES = 200;
+const COUNT_CONCURRENCY = 4;
+// Folders listed in the per-folder breakdown
+const MAX_FOLDERS = 15;
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const formatPercent = (value: number, total: number) =>
+  total > 0 ? `${((value / total) * 100).toFixed(1)}%` : "0%";
+
+// Files in a recognized language that have no line count yet
+const findUncountedFiles = (tree: FileNode, stats: LanguageStats) => {
+  const files: FileNode[] = [];
+  const visit = (node: FileNode) => {
+    if (node.type === "folder") {
+      node.children?.forEach(visit);
+    } else if (node.download_url && classifyFile(node.name) && !stats.lineCounts[node.path || node.name]) {
+      files.push(node);
+    }
+  };
+  visit(tree);
+  return files;
+};
+
+const StackedBar: React.FC<{ segments: { language: string; value: number }[]; total: number; height?: string }> = ({
+  segments,
+  total,
+  height = "h-2.5",
+}) => (
+  <div className={`flex w-full ${height} rounded-full overflow-hidden bg-slate-700/50`}>
+    {total > 0 &&
+      segments
+        .filter((segment) => segment.value > 0)
+        .map((segment) => (
+          <div
+            key={segment.language}
+            style={{ width: `${(segment.value / total) * 100}%`, backgroundColor: getLanguageColor(segment.language) }}
+            title={`${segment.language}: ${formatPercent(segment.value, total)}`}
+          />
+        ))}
+  </div>
+);
+
+const LanguageStatsView: React.FC<LanguageStatsViewProps> = ({ fileTree, stats, onLinesCounted }) => {
+  const { success, error: showError } = useToast();
+  const [metric, setMetric] = useState<Metric>("bytes");
+  const [counting, setCounting] = useState<{ done: number; total: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const countedFiles = Object.keys(stats.lineCounts).length;
+  const totalCode = stats.languages.reduce((total, language) => total + language.code, 0);
+  const activeMetric = metric === "code" && totalCode === 0 ? "bytes" : metric;
+  const metricTotal =
+    activeMetric === "bytes" ? stats.totalBytes : activeMetric === "files" ? stats.totalFiles : totalCode;
+  const languages = [...stats.languages].sort((a, b) => b[activeMetric] - a[activeMetric]);
+
+  const handleCountLines = async () => {
+    const files = findUncountedFiles(fileTree, stats).slice(0, MAX_COUNTED_FILES);
+    if (files.length === 0) {
+      success("Lines Counted", "Every file in a recognized language already has a line count");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setCounting({ done: 0, total: files.length });
+    let done = 0;
+    let failed = 0;
+    const queue = [...files];
+
+    const worker = async () => {
+      for (let file = queue.shift(); file && !controller.signal.aborted; file = queue.shift()) {
+        try {
+          const response = await axios.get(`${API_BASE_URL}/github/file-content`, {
+            params: { url: file.download_url },
+            signal: controller.signal,
+            timeout: 30000,
+          });
+          if (typeof response.data.content === "string") {
+            onLinesCounted({
+              [file.path || file.name]: { ...countLines(response.data.content, classifyFile(file.name)), sha: file.sha },
+            });
+          }
+        } catch (err: unknown) {
+          if (axios.isCancel(err)) return;
+          failed++;
+        }
+        done++;
+        setCounting({ done, total: files.length });
+      }
+    };
+
+    await Promise.all(Array.from({ length: COUNT_CONCURRENCY }, worker));
+    setCounting(null);
+    if (controller.signal.aborted) return;
+    if (failed > 0) {
+      showError("Some Files Failed", `${failed} of ${files.length} files could not be fetched`);
+    } else {
+      success("Lines Counted", `Counted lines in ${files.length} files`);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-base lg:text-lg font-semibold github-text-primary flex items-center">
+            <BarChart3 className="w-5 h-5 mr-2 text-green-400" />
+            Languages
+          </h3>
+          <p className="text-xs github-text-secondary mt-1">
+            {stats.languages.filter((language) => language.language !== OTHER_LANGUAGE).length} languages ·{" "}
+            {stats.totalFiles} files · {formatBytes(stats.totalBytes)}
+            {countedFiles > 0 && ` · lines counted in ${countedFiles} files`}
+          </p>
+        </div>
+        {counting ? (
+          <div className="flex items-center text-sm github-text-primary">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin text-green-400" />
+            Counting lines · {counting.done}/{counting.total}
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              className="ml-2 p-1 rounded text-red-300 hover:text-red-200 hover:bg-red-500/20 transition-colors"
+              title="Stop counting"
+            >
+              <XCircle className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleCountLines}
+            className="flex items-center px-3 py-2 text-sm font-medium text-green-300 hover:text-green-200 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 hover:border-green-500/50 rounded-lg transition-all duration-300"
+            title={`Fetch up to ${MAX_COUNTED_FILES} files without a line count and count their lines`}
+          >
+            <Hash className="w-4 h-4 mr-2" />
+            Count lines
+          </button>
+        )}
+      </div>
+
+      {stats.totalFiles === 0 ? (
+        <div className="text-center py-12 github-text-secondary">
+          <BarChart3 className="w-12 h-12 mx-auto mb-4 text-green-400 opacity-50" />
+          <p className="text-sm">The analyzed tree contains no files.</p>
+        </div>
+      ) : (
+        <>
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-semibold github-text-primary">By language</h4>
+              <div className="flex items-center space-x-1 bg-slate-900/50 rounded-lg p-0.5">
+                {(Object.keys(METRIC_LABELS) as Metric[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setMetric(option)}
+                    disabled={option === "code" && totalCode === 0}
+                    className={`px-2 py-1 rounded-md text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                      activeMetric === option ? "bg-green-600 text-white" : "github-text-secondary hover:text-white"
+                    }`}
+                    title={option === "code" && totalCode === 0 ? "Count lines first" : undefined}
+                  >
+                    {METRIC_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <StackedBar
+              segments={languages.map((language) => ({ language: language.language, value: language[activeMetric] }))}
+              total={metricTotal}
+            />
+            <div className="overflow-x-auto mt-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs github-text-secondary text-left">
+                    <th className="font-medium pb-2">Language</th>
+                    <th className="font-medium pb-2 text-right">Files</th>
+                    <th className="font-medium pb-2 text-right">Size</th>
+                    <th className="font-medium pb-2 text-right">Share</th>
+                    <th className="font-medium pb-2 text-right">Code</th>
+                    <th className="font-medium pb-2 text-right">Comments</th>
+                    <th className="font-medium pb-2 text-right">Blank</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {languages.map((language) => (
+                    <tr key={language.language} className="border-t border-slate-700/50 text-gray-300">
+                      <td className="py-1.5">
+                        <span className="flex items-center">
+                          <span
+                            className="w-2.5 h-2.5 rounded-full mr-2 flex-shrink-0"
+                            style={{ backgroundColor: getLanguageColor(language.language) }}
+                          />
+                          {language.language}
+                        </span>
+                      </td>
+                      <td className="py-1.5 text-right">{language.files}</td>
+                      <td className="py-1.5 text-right">{formatBytes(language.bytes)}</td>
+                      <td className="py-1.5 text-right">{formatPercent(language[activeMetric], metricTotal)}</td>
+                      {language.countedFiles > 0 ? (
+                        <>
+                          <td className="py-1.5 text-right">{language.code.toLocaleString()}</td>
+                          <td className="py-1.5 text-right">{language.comment.toLocaleString()}</td>
+                          <td className="py-1.5 text-right">{language.blank.toLocaleString()}</td>
+                        </>
+                      ) : (
+                        <td colSpan={3} className="py-1.5 text-right text-xs text-gray-500">
+                          not counted
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {countedFiles > 0 && countedFiles < stats.totalFiles && (
+              <p className="text-xs text-gray-500 mt-2">
+                Line counts cover the {countedFiles} files opened or counted so far.
+              </p>
+            )}
+          </section>
+
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-3 flex items-center">
+              <FolderTree className="w-4 h-4 mr-2 text-green-400" />
+              By folder
+            </h4>
+            <div className="space-y-3">
+              {stats.folders.slice(0, MAX_FOLDERS).map((folder) => (
+                <div key={folder.folder}>
+                  <div className="flex items-center justify-between text-xs mb-1">
+                    <span className="font-mono text-green-300 truncate">{folder.folder || "(root files)"}</span>
+                    <span className="github-text-secondary flex-shrink-0 ml-2">
+                      {folder.files} files · {formatBytes(folder.bytes)}
+                    </span>
+                  </div>
+                  <StackedBar
+                    segments={Object.entries(folder.languages)
+                      .sort((a, b) => b[1] - a[1])
+                      .map(([language, value]) => ({ language, value }))}
+                    total={folder.bytes}
+                    height="h-2"
+                  />
+                </div>
+              ))}
+              {stats.folders.length > MAX_FOLDERS && (
+                <p className="text-xs text-gray-500">
+                  {stats.folders.length - MAX_FOLDERS} smaller folders not shown
+                </p>
+              )}
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LanguageStatsView;
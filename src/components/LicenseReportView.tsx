@@ -0,0 +1,257 @@
+import React, { useState } from "react";
+import { Scale, Loader2, RefreshCw, AlertTriangle, CheckCircle, FileText, FileJson } from "lucide-react";
+import axios from "axios";
+import { useToast } from "../contexts/ToastContext";
+import { API_BASE_URL } from "../utils/api";
+import {
+  CATEGORY_LABELS,
+  LicenseCategory,
+  LicenseExportFormat,
+  LicenseFindingSeverity,
+  LicenseReport,
+  exportLicenseReport,
+} from "../utils/licenseReport";
+import { DependencyInventory } from "./DependencyTableView";
+
+interface LicenseReportViewProps {
+  repository: {
+    id: string;
+    repo_url: string;
+    repo_stats?: { commitSha?: string };
+    license_report?: LicenseReport;
+  };
+  // The scan builds the dependency inventory too when there was none
+  onScanned: (licenseReport: LicenseReport, dependencies: DependencyInventory) => void;
+}
+
+const CATEGORY_STYLES: Record<LicenseCategory | "unknown", string> = {
+  permissive: "bg-green-500/20 text-green-300 border-green-500/40",
+  "weak-copyleft": "bg-yellow-500/20 text-yellow-300 border-yellow-500/40",
+  "strong-copyleft": "bg-red-500/20 text-red-300 border-red-500/40",
+  unknown: "bg-slate-700/50 text-gray-300 border-slate-600/50",
+};
+
+const SEVERITY_STYLES: Record<LicenseFindingSeverity, string> = {
+  high: "bg-orange-500/20 text-orange-300 border-orange-500/40",
+  medium: "bg-yellow-500/20 text-yellow-300 border-yellow-500/40",
+  low: "bg-blue-500/20 text-blue-300 border-blue-500/40",
+};
+
+const CategoryBadge: React.FC<{ category: LicenseCategory | null }> = ({ category }) => (
+  <span className={`px-1.5 py-0.5 rounded border text-xs ${CATEGORY_STYLES[category || "unknown"]}`}>
+    {CATEGORY_LABELS[category || "unknown"]}
+  </span>
+);
+
+const LicenseReportView: React.FC<LicenseReportViewProps> = ({ repository, onScanned }) => {
+  const { success, error: showError } = useToast();
+  const [scanning, setScanning] = useState(false);
+  const report = repository.license_report;
+
+  const isStale = Boolean(
+    report?.commitSha && repository.repo_stats?.commitSha && report.commitSha !== repository.repo_stats.commitSha
+  );
+
+  const handleScan = async () => {
+    setScanning(true);
+    try {
+      const response = await axios.post(`${API_BASE_URL}/github/repositories/${repository.id}/licenses`);
+      const scanned: LicenseReport = response.data.licenseReport;
+      onScanned(scanned, response.data.dependencies);
+      success(
+        "Licenses Scanned",
+        `${scanned.project.license || "No license"} found, with ${scanned.findings.length} ${
+          scanned.findings.length === 1 ? "finding" : "findings"
+        }`
+      );
+    } catch (err: unknown) {
+      console.error("Scan licenses error:", err);
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      showError("Scan Failed", message || "Could not scan the repository's licenses. Please try again.");
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleExport = (format: LicenseExportFormat) => {
+    if (report) exportLicenseReport(repository.repo_url, report, format);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-base lg:text-lg font-semibold github-text-primary flex items-center">
+            <Scale className="w-5 h-5 mr-2 text-green-400" />
+            Licenses
+          </h3>
+          {report && (
+            <p className="text-xs github-text-secondary mt-1">
+              Scanned {new Date(report.scannedAt).toLocaleString()}
+              {report.commitSha && <span className="font-mono"> · {report.commitSha.substring(0, 7)}</span>}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {report && (
+            <>
+              <button
+                onClick={() => handleExport("markdown")}
+                className="flex items-center px-2 py-2 text-xs text-gray-200 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                title="Export as Markdown"
+              >
+                <FileText className="w-3.5 h-3.5 mr-1" />
+                Markdown
+              </button>
+              <button
+                onClick={() => handleExport("json")}
+                className="flex items-center px-2 py-2 text-xs text-gray-200 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                title="Export as JSON"
+              >
+                <FileJson className="w-3.5 h-3.5 mr-1" />
+                JSON
+              </button>
+            </>
+          )}
+          <button
+            onClick={handleScan}
+            disabled={scanning}
+            className="flex items-center px-3 py-2 text-sm font-medium text-green-300 hover:text-green-200 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 hover:border-green-500/50 rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {scanning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            {report ? "Rescan" : "Scan Licenses"}
+          </button>
+        </div>
+      </div>
+
+      {!report && (
+        <div className="text-center py-12 github-text-secondary">
+          <Scale className="w-12 h-12 mx-auto mb-4 text-green-400 opacity-50" />
+          <p className="text-sm max-w-md mx-auto">
+            Scan the repository to identify its license from LICENSE and COPYING files, manifest license fields and
+            source file headers, and to check which of its dependencies are under copyleft licenses.
+          </p>
+        </div>
+      )}
+
+      {report && (
+        <>
+          {isStale && (
+            <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-xs text-yellow-200">
+              The repository was refreshed after this scan. Rescan to update the licenses.
+            </div>
+          )}
+
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-2">Project license</h4>
+            {report.project.license ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-mono text-base text-green-300">{report.project.license}</span>
+                <CategoryBadge category={report.project.category} />
+                <span className="text-xs github-text-secondary">
+                  from the {report.project.source === "file" ? "license file" : "manifest"}
+                </span>
+              </div>
+            ) : (
+              <p className="text-sm text-yellow-200">No license found.</p>
+            )}
+          </section>
+
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-2">Compatibility</h4>
+            {report.findings.length === 0 ? (
+              <div className="flex items-center text-sm text-green-300">
+                <CheckCircle className="w-4 h-4 mr-2" />
+                No license conflicts found.
+              </div>
+            ) : (
+              <ul className="space-y-2">
+                {report.findings.map((finding, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <span className={`px-1.5 py-0.5 rounded border text-xs capitalize ${SEVERITY_STYLES[finding.severity]}`}>
+                      {finding.severity}
+                    </span>
+                    <div className="min-w-0">
+                      <p className="github-text-primary break-words">{finding.message}</p>
+                      {finding.dependency && (
+                        <p className="text-xs text-gray-500 font-mono break-all">
+                          {finding.dependency.ecosystem} · {finding.dependency.manifests.join(" · ")}
+                        </p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-2">Dependencies</h4>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {(Object.keys(report.dependencies.byCategory) as (LicenseCategory | "unknown")[]).map((category) => (
+                <span key={category} className={`px-2 py-0.5 rounded border text-xs ${CATEGORY_STYLES[category]}`}>
+                  {report.dependencies.byCategory[category]} {CATEGORY_LABELS[category].toLowerCase()}
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              License known for {report.dependencies.withLicense} of {report.dependencies.total} packages. Licenses are
+              read from lockfiles that record them (package-lock.json and composer.lock) and from license files of
+              vendored code; other packages are not checked.
+            </p>
+          </section>
+
+          {(report.licenseFiles.length > 0 || report.manifests.length > 0) && (
+            <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+              <h4 className="text-sm font-semibold github-text-primary mb-2">Sources</h4>
+              <ul className="space-y-1.5 text-sm">
+                {[...report.licenseFiles, ...report.manifests].map((source) => (
+                  <li key={source.path} className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-xs github-text-secondary break-all">{source.path}</span>
+                    {source.error ? (
+                      <span className="flex items-center text-xs text-yellow-300">
+                        <AlertTriangle className="w-3.5 h-3.5 mr-1" />
+                        could not be read
+                      </span>
+                    ) : source.license ? (
+                      <>
+                        <span className="font-mono text-xs text-green-300">{source.license}</span>
+                        <CategoryBadge category={source.category} />
+                      </>
+                    ) : (
+                      <span className="text-xs text-gray-500">not recognized</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-2">Source file headers</h4>
+            {report.headers.licenses.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                None of the {report.headers.scannedFiles} source files checked declare a license in their header.
+              </p>
+            ) : (
+              <ul className="space-y-1.5 text-sm">
+                {report.headers.licenses.map((header) => (
+                  <li key={header.license} className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-xs text-green-300">{header.license}</span>
+                    <CategoryBadge category={header.category} />
+                    <span className="text-xs github-text-secondary">
+                      {header.files} of {report.headers.scannedFiles} files checked, e.g.{" "}
+                      <span className="font-mono">{header.example}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LicenseReportView;
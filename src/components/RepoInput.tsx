@@ -1,7 +1,8 @@
 import React, { useState, useRef } from "react";
-import { Search, Github, X, Download } from "lucide-react";
+import { Search, Github, X, Download, GitBranch, FolderOpen } from "lucide-react";
 import { useToast } from "../contexts/ToastContext";
 import { useAnalysisProgress } from "../contexts/AnalysisProgressContext";
+import { ServerEvent } from "../utils/eventStream";
 import axios from "axios";
 import { API_BASE_URL } from "../utils/api";
 
@@ -14,12 +15,18 @@ interface FileNode {
 }
 
 interface RepoInputProps {
-  onRepoAnalyzed: (fileTree: FileNode, counts?: { analyzedFiles: number, analyzedFolders: number, totalFiles: number, totalFolders: number, analyzedDepth: number, totalDepth: number }, repoUrl?: string, aiContext?: any) => void;
+  onRepoAnalyzed: (fileTree: FileNode, counts?: { analyzedFiles: number, analyzedFolders: number, totalFiles: number, totalFolders: number, analyzedDepth: number, totalDepth: number }, repoUrl?: string, aiContext?: any, repositoryId?: string) => void;
   onAnalysisStart?: () => void;
+  onJobQueued?: () => void;
 }
 
-const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }) => {
+// A queued analysis job that failed on the server; the message is already user-facing
+class AnalysisJobError extends Error {}
+
+const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart, onJobQueued }) => {
   const [repoUrl, setRepoUrl] = useState("");
+  const [ref, setRef] = useState(""); // Branch, tag or commit SHA (defaults to the default branch)
+  const [subPath, setSubPath] = useState(""); // Optional subdirectory to analyze
   const [, setLoading] = useState(false);
   const [downloadLoading, setDownloadLoading] = useState(false);
   const [error, setError] = useState("");
@@ -28,10 +35,12 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
   const [depthChanged, setDepthChanged] = useState(false);
   const [isAnalyzed, setIsAnalyzed] = useState(false);
   const [lastAnalyzedUrl, setLastAnalyzedUrl] = useState(""); // Store the last analyzed URL
+  const [lastAnalyzedRef, setLastAnalyzedRef] = useState(""); // Commit the last analysis read, for its download
   const { success, error: showError } = useToast();
-  const { progress, startAnalysis, completeAnalysis, resetProgress, updateProgressFromServer } = useAnalysisProgress();
+  const { progress, startAnalysis, completeAnalysis, resetProgress, subscribeToAnalysis } = useAnalysisProgress();
   const abortControllerRef = useRef<AbortController | null>(null);
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+  const finishJobRef = useRef<((event: ServerEvent) => void) | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -48,42 +57,58 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
     // Create abort controller for cancellation
     abortControllerRef.current = new AbortController();
     
-    // Start analysis with shared progress context
-    const analysisId = `analysis-${Date.now()}`;
-    startAnalysis(analysisId, maxDepth);
-
-    // Start progress polling
-    progressIntervalRef.current = setInterval(async () => {
-      try {
-        const response = await axios.get(
-          `${API_BASE_URL}/github/analyze/progress`
-        );
-        updateProgressFromServer(response.data);
-      } catch (error) {
-        console.error("Failed to get progress:", error);
-      }
-    }, 1000);
-
     try {
-      const response = await axios.post(
-        `${API_BASE_URL}/github/analyze`,
+      // Queue the analysis as a server-side job so it keeps going if this page
+      // is closed; the Dashboard lists it until it finishes
+      const queued = await axios.post(
+        `${API_BASE_URL}/jobs`,
         {
           repoUrl: repoUrl.trim(),
           maxDepth: maxDepth,
+          ref: ref.trim() || undefined,
+          subPath: subPath.trim() || undefined,
         },
         {
           signal: abortControllerRef.current.signal,
         }
       );
+      const jobId = String(queued.data.job.id);
+      jobIdRef.current = jobId;
+      startAnalysis(jobId, maxDepth);
+      onJobQueued?.();
+
+      // Follow the job's progress stream until it completes, fails or is cancelled
+      const finished = await new Promise<ServerEvent>((resolve, reject) => {
+        finishJobRef.current = resolve;
+        subscribeToAnalysis(jobId, {
+          eventsUrl: `${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/events`,
+          onFinish: resolve,
+          onError: () => reject(new AnalysisJobError(
+            "Lost connection to the analysis. It keeps running on the server and will appear in your recent repositories when it finishes."
+          )),
+        });
+      });
 
-      onRepoAnalyzed(response.data.fileTree, response.data.analysisConfig ? {
-        analyzedFiles: response.data.analysisConfig.analyzedFiles,
-        analyzedFolders: response.data.analysisConfig.analyzedFolders,
-        totalFiles: response.data.analysisConfig.totalFiles,
-        totalFolders: response.data.analysisConfig.totalFolders,
-        analyzedDepth: response.data.analysisConfig.actualDepth,
-        totalDepth: response.data.analysisConfig.realRepositoryDepth
-      } : undefined, repoUrl, response.data.aiContext);
+      if (finished.event === "cancelled") {
+        resetProgress();
+        return;
+      }
+      if (finished.event === "failed") {
+        const { message, detail } = finished.data as { message: string; detail?: string | null };
+        throw new AnalysisJobError(detail ? `${message}: ${detail}` : message);
+      }
+
+      const { data } = await axios.get(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`);
+      const result = data.job.result;
+
+      onRepoAnalyzed(data.fileTree, result?.analysisConfig ? {
+        analyzedFiles: result.analysisConfig.analyzedFiles,
+        analyzedFolders: result.analysisConfig.analyzedFolders,
+        totalFiles: result.analysisConfig.totalFiles,
+        totalFolders: result.analysisConfig.totalFolders,
+        analyzedDepth: result.analysisConfig.actualDepth,
+        totalDepth: result.analysisConfig.realRepositoryDepth
+      } : undefined, data.job.repo_url, result?.aiContext, result?.repositoryId);
       
       setIsAnalyzed(true);
       completeAnalysis();
@@ -93,7 +118,10 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
         "Successfully loaded repository structure"
       );
       setLastAnalyzedUrl(repoUrl); // Store the analyzed URL for download
+      setLastAnalyzedRef(result?.analysisConfig?.commitSha || ref.trim());
       setRepoUrl(""); // Clear input field
+      setRef("");
+      setSubPath("");
     } catch (err: any) {
       resetProgress();
       if (err.name === "AbortError" || err.code === "ERR_CANCELED" || err.response?.status === 499) {
@@ -105,7 +133,9 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
       let errorMessage = "Failed to analyze repository";
       
       // Provide more specific error messages based on the error type
-      if (err.response?.status === 400) {
+      if (err instanceof AnalysisJobError) {
+        errorMessage = err.message;
+      } else if (err.response?.status === 400) {
         if (err.response?.data?.message?.includes("Invalid GitHub URL")) {
           errorMessage = "Please enter a valid GitHub repository URL (e.g., https://github.com/username/repo)";
         } else if (err.response?.data?.message?.includes("Repository URL is required")) {
@@ -144,38 +174,31 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
     } finally {
       setLoading(false);
       abortControllerRef.current = null;
-
-      // Clear progress interval
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
-      }
+      jobIdRef.current = null;
+      finishJobRef.current = null;
     }
   };
 
   const handleStopAnalysis = async () => {
+    const jobId = jobIdRef.current;
+
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
 
-    try {
-      // Also notify the server to cancel the analysis
-      await axios.post(`${API_BASE_URL}/github/analyze/cancel`, {
-        analysisId: Date.now().toString(),
-      });
-    } catch (error) {
-      console.error("Failed to notify server of cancellation:", error);
+    if (jobId) {
+      try {
+        // Also tell the server to cancel the job
+        await axios.post(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/cancel`);
+      } catch (error) {
+        console.error("Failed to notify server of cancellation:", error);
+      }
     }
+    finishJobRef.current?.({ event: "cancelled", data: null });
 
     setLoading(false);
     resetProgress();
     setError(""); // Clear error message - cancellation is normal user action
-
-    // Clear progress interval
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-      progressIntervalRef.current = null;
-    }
   };
 
   return (
@@ -213,6 +236,33 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
             />
           </div>
 
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-1 xl:grid-cols-2 gap-2">
+            <div className="relative">
+              <GitBranch className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-green-400" />
+              <input
+                type="text"
+                value={ref}
+                onChange={(e) => setRef(e.target.value)}
+                disabled={progress.isAnalyzing}
+                placeholder="Branch, tag or commit"
+                title="Leave empty to use the ref from the URL or the default branch"
+                className="w-full pl-9 pr-3 py-2 rounded-lg bg-slate-800/50 border border-green-500/20 github-text-primary placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-200 hover:bg-slate-700/50 text-sm disabled:opacity-50 focus-ring"
+              />
+            </div>
+            <div className="relative">
+              <FolderOpen className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-green-400" />
+              <input
+                type="text"
+                value={subPath}
+                onChange={(e) => setSubPath(e.target.value)}
+                disabled={progress.isAnalyzing}
+                placeholder="Subdirectory (optional)"
+                title="Analyze only this folder, e.g. packages/core"
+                className="w-full pl-9 pr-3 py-2 rounded-lg bg-slate-800/50 border border-green-500/20 github-text-primary placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-200 hover:bg-slate-700/50 text-sm disabled:opacity-50 focus-ring"
+              />
+            </div>
+          </div>
+
           <div className="space-y-3">
             <label className="block text-sm font-medium github-text-secondary">
               Analysis Depth: <span className={`font-semibold transition-colors duration-300 ${
@@ -328,6 +378,27 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
                     <span className="text-green-400">Current:</span> {progress.currentPath}
                   </div>
                 )}
+                {(progress.filesDiscovered > 0 || progress.foldersDiscovered > 0) && (
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>{progress.filesDiscovered} files discovered</span>
+                    <span>{progress.foldersDiscovered} folders discovered</span>
+                  </div>
+                )}
+                {progress.partialTree[""] && progress.partialTree[""].length > 0 && (
+                  <div className="flex flex-wrap gap-1 max-h-16 overflow-hidden">
+                    {progress.partialTree[""].slice(0, 12).map((node) => (
+                      <span
+                        key={node.path}
+                        className={`text-xs px-1.5 py-0.5 rounded bg-slate-800/50 truncate max-w-[8rem] ${
+                          node.type === "folder" ? "text-green-400" : "text-gray-400"
+                        }`}
+                      >
+                        {node.name}
+                        {node.type === "folder" ? "/" : ""}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           ) : (
@@ -344,6 +415,8 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
                 type="button"
                 onClick={async () => {
                   const urlToUse = repoUrl.trim() || lastAnalyzedUrl;
+                  // The commit analyzed last or the ref typed; a /tree/<ref>/ URL is resolved by the validation below
+                  let archiveRef = repoUrl.trim() ? ref.trim() : lastAnalyzedRef;
                   if (!urlToUse || downloadLoading) return;
                   
                   setDownloadLoading(true);
@@ -390,13 +463,14 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
                           throw new Error(response.data.message || "Repository validation failed");
                         }
                         
-                        const { defaultBranch: repoDefaultBranch, exists } = response.data;
+                        const { defaultBranch: repoDefaultBranch, exists, commitSha } = response.data;
                         
                         if (!exists) {
                           throw new Error("Repository not found. Please enter an existing repository name.");
                         }
                         
                         defaultBranch = repoDefaultBranch;
+                        archiveRef = archiveRef || commitSha || "";
                         validationSuccessful = true;
                         
                       } catch (validationError: any) {
@@ -486,15 +560,11 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
                       }
                     }
                     
-                    // Convert GitHub URL to ZIP download URL using the detected/validated default branch
-                    let zipUrl = urlToUse;
-                    let fileName = `${owner}-${repo}.zip`;
-                    
-                    if (urlToUse.endsWith('.git')) {
-                      zipUrl = urlToUse.replace('.git', `/archive/refs/heads/${defaultBranch}.zip`);
-                    } else if (!urlToUse.includes('/archive/')) {
-                      zipUrl = urlToUse + `/archive/refs/heads/${defaultBranch}.zip`;
-                    }
+                    // Convert GitHub URL to ZIP download URL using the selected ref or the detected/validated default branch
+                    const zipUrl = archiveRef
+                      ? `https://github.com/${owner}/${repo}/archive/${archiveRef}.zip`
+                      : `https://github.com/${owner}/${repo}/archive/refs/heads/${defaultBranch}.zip`;
+                    const fileName = `${owner}-${repo}.zip`;
                     
                     // Try to download using fetch first (prevents navigation)
                     try {
@@ -678,10 +748,11 @@ const RepoInput: React.FC<RepoInputProps> = ({ onRepoAnalyzed, onAnalysisStart }
         <ul className="list-disc list-inside space-y-1 ml-2 text-gray-500">
           <li>https://github.com/user/repo</li>
           <li>github.com/user/repo</li>
+          <li>github.com/user/repo/tree/branch/path</li>
         </ul>
         <p className="mt-3 text-gray-500 text-xs">
-          Only public repositories are supported. Private repos require
-          authentication.
+          Private repositories require a GitHub token, which you can add in
+          Settings.
         </p>
       </div>
     </div>
@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import { FileText, Loader2, RefreshCw, XCircle, AlertTriangle, Package, Layers, FileCode } from "lucide-react";
+import axios from "axios";
+import { useToast } from "../contexts/ToastContext";
+import { useAIProvider } from "../hooks/useAIProvider";
+import { API_BASE_URL } from "../utils/api";
+import { streamServerEvents } from "../utils/eventStream";
+
+export interface RepositoryReport {
+  generatedAt: string;
+  provider?: string;
+  model: string;
+  commitSha: string | null;
+  architectureSummary: string | null;
+  modules: { path: string; description: string | null; files: string[] }[];
+  issues: {
+    path: string;
+    issue: string;
+    severity?: "high" | "medium" | "low" | null;
+    startLine?: number | null;
+    endLine?: number | null;
+  }[];
+  libraries: { name: string; files: string[] }[];
+  files: {
+    path: string;
+    name: string;
+    size: number;
+    reason: "manifest" | "documentation" | "entry point" | "large module";
+    summary?: string | null;
+    cleanCode?: boolean | null;
+    partial?: boolean;
+    error?: string;
+  }[];
+}
+
+interface RepositoryReportViewProps {
+  repository: {
+    id: string;
+    repo_url: string;
+    report?: RepositoryReport;
+  };
+  // Called once a report job has finished and saved its report
+  onReportSaved: () => void;
+}
+
+interface ReportJobState {
+  id: string;
+  progress: number;
+  currentPath: string;
+}
+
+const RepositoryReportView: React.FC<RepositoryReportViewProps> = ({ repository, onReportSaved }) => {
+  const { success, error: showError } = useToast();
+  const { requestOptions } = useAIProvider();
+  const [job, setJob] = useState<ReportJobState | null>(null);
+  const [isQueueing, setIsQueueing] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The parent passes a new callback on every render
+  const onReportSavedRef = useRef(onReportSaved);
+  const report = repository.report;
+
+  useEffect(() => {
+    onReportSavedRef.current = onReportSaved;
+  }, [onReportSaved]);
+
+  const followJob = useCallback((jobId: string) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setJob({ id: jobId, progress: 0, currentPath: "Queued" });
+
+    streamServerEvents(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/events`, {
+      signal: controller.signal,
+      onEvent: ({ event, data }) => {
+        if (event === "progress") {
+          const { progress, currentPath } = data as { progress: number; currentPath: string };
+          setJob({ id: jobId, progress, currentPath });
+        } else if (event === "complete") {
+          setJob(null);
+          success("Report Ready", "The repository report has been generated");
+          onReportSavedRef.current();
+        } else if (event === "failed") {
+          const { message, detail } = data as { message: string; detail?: string | null };
+          setJob(null);
+          showError("Report Failed", detail ? `${message}: ${detail}` : message);
+        } else if (event === "cancelled") {
+          setJob(null);
+        }
+      },
+    }).catch((err: unknown) => {
+      if (err instanceof Error && err.name === "AbortError") return;
+      console.error("Report progress stream error:", err);
+      setJob(null);
+    });
+  }, [success, showError]);
+
+  // Pick up a report that is already being generated for this repository
+  useEffect(() => {
+    let ignore = false;
+    setJob(null);
+
+    axios
+      .get(`${API_BASE_URL}/jobs`, { params: { active: "true" } })
+      .then((response) => {
+        const active = (response.data.jobs || []).find(
+          (candidate: { id: string | number; type?: string; options: { repositoryId?: string } }) =>
+            candidate.type === "report" && candidate.options.repositoryId === String(repository.id)
+        );
+        if (active && !ignore) {
+          followJob(String(active.id));
+        }
+      })
+      .catch((err) => console.log("Could not check for a running report:", err));
+
+    return () => {
+      ignore = true;
+      abortControllerRef.current?.abort();
+    };
+  }, [repository.id, followJob]);
+
+  const handleGenerate = async () => {
+    setIsQueueing(true);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/github/repositories/${repository.id}/report`,
+        requestOptions
+      );
+      followJob(String(response.data.job.id));
+    } catch (err: unknown) {
+      console.error("Queue report error:", err);
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      showError("Report Failed", message || "Could not start the repository report. Please try again.");
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    try {
+      await axios.post(`${API_BASE_URL}/jobs/${encodeURIComponent(job.id)}/cancel`);
+    } catch (err) {
+      console.error("Cancel report error:", err);
+      showError("Cancel Failed", "Could not cancel the report. Please try again.");
+    }
+  };
+
+  const analyzedCount = report ? report.files.filter((file) => !file.error).length : 0;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-base lg:text-lg font-semibold github-text-primary flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-green-400" />
+            Repository Report
+          </h3>
+          {report && (
+            <p className="text-xs github-text-secondary mt-1">
+              Generated {new Date(report.generatedAt).toLocaleString()} · {report.provider ? `${report.provider}/` : ""}{report.model}
+              {report.commitSha && <span className="font-mono"> · {report.commitSha.substring(0, 7)}</span>}
+              {" "}· {analyzedCount} of {report.files.length} files analyzed
+            </p>
+          )}
+        </div>
+        {!job && (
+          <button
+            onClick={handleGenerate}
+            disabled={isQueueing}
+            className="flex items-center px-3 py-2 text-sm font-medium text-green-300 hover:text-green-200 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 hover:border-green-500/50 rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isQueueing ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            )}
+            {report ? "Regenerate" : "Generate Report"}
+          </button>
+        )}
+      </div>
+
+      {job && (
+        <div className="p-3 rounded-lg bg-slate-800/50 border border-green-500/20">
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className="flex items-center github-text-primary">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin text-green-400" />
+              Analyzing key files · {Math.round(job.progress)}%
+            </span>
+            <button
+              onClick={handleCancel}
+              className="p-1 rounded text-red-300 hover:text-red-200 hover:bg-red-500/20 transition-colors"
+              title="Cancel report"
+            >
+              <XCircle className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="w-full bg-slate-700/50 rounded-full h-1.5 overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-green-500 to-green-400 transition-all duration-500"
+              style={{ width: `${job.progress}%` }}
+            />
+          </div>
+          <div className="text-xs text-gray-500 truncate mt-1">{job.currentPath}</div>
+        </div>
+      )}
+
+      {!report && !job && (
+        <div className="text-center py-12 github-text-secondary">
+          <FileText className="w-12 h-12 mx-auto mb-4 text-green-400 opacity-50" />
+          <p className="text-sm max-w-md mx-auto">
+            Generate a report to analyze the repository's manifests, entry points and
+            largest modules together and get an overview of the whole codebase.
+          </p>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-2">Architecture</h4>
+            <p className="text-sm github-text-secondary whitespace-pre-line">
+              {report.architectureSummary || "The architecture summary could not be generated. See the module map and file summaries below."}
+            </p>
+          </section>
+
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-3 flex items-center">
+              <Layers className="w-4 h-4 mr-2 text-green-400" />
+              Module Map
+            </h4>
+            <div className="space-y-3">
+              {report.modules.map((module) => (
+                <div key={module.path}>
+                  <div className="text-sm font-mono text-green-300">{module.path}</div>
+                  {module.description && (
+                    <div className="text-xs github-text-secondary mt-0.5">{module.description}</div>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {module.files.map((path) => (
+                      <span
+                        key={path}
+                        className="px-2 py-0.5 text-xs font-mono rounded bg-slate-700/50 text-gray-300 border border-slate-600/50"
+                      >
+                        {path.split("/").pop()}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-3 flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2 text-yellow-400" />
+              Issues ({report.issues.length})
+            </h4>
+            {report.issues.length === 0 ? (
+              <p className="text-xs github-text-secondary">No issues were reported.</p>
+            ) : (
+              <ul className="space-y-2">
+                {report.issues.map((item, index) => (
+                  <li key={`${item.path}-${index}`} className="text-sm">
+                    <span className="text-xs font-mono text-yellow-300 mr-2">
+                      {item.path}
+                      {item.startLine ? `:${item.startLine}` : ""}
+                    </span>
+                    {item.severity && (
+                      <span className="mr-2 px-1.5 py-0.5 text-xs rounded bg-slate-700/50 github-text-secondary border border-slate-600/50">
+                        {item.severity}
+                      </span>
+                    )}
+                    <span className="github-text-secondary">{item.issue}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-3 flex items-center">
+              <Package className="w-4 h-4 mr-2 text-green-400" />
+              Libraries ({report.libraries.length})
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {report.libraries.map((library) => (
+                <span
+                  key={library.name}
+                  className="px-2 py-1 text-xs rounded bg-green-600/20 text-green-300 border border-green-500/30"
+                  title={library.files.join("\n")}
+                >
+                  {library.name}
+                  {library.files.length > 1 && <span className="text-green-400/70"> ×{library.files.length}</span>}
+                </span>
+              ))}
+            </div>
+          </section>
+
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            <h4 className="text-sm font-semibold github-text-primary mb-3 flex items-center">
+              <FileCode className="w-4 h-4 mr-2 text-green-400" />
+              Analyzed Files
+            </h4>
+            <div className="space-y-3">
+              {report.files.map((file) => (
+                <div key={file.path}>
+                  <div className="flex items-center text-sm">
+                    <span className="font-mono github-text-primary truncate">{file.path}</span>
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-slate-700/50 github-text-secondary border border-green-500/20 whitespace-nowrap">
+                      {file.reason}
+                    </span>
+                    {file.partial && (
+                      <span
+                        className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-500/20 text-yellow-300 border border-yellow-500/30 whitespace-nowrap"
+                        title="The model's response did not fully match the analysis schema"
+                      >
+                        partial
+                      </span>
+                    )}
+                  </div>
+                  <div className={`text-xs mt-0.5 ${file.error ? "text-red-300" : "github-text-secondary"}`}>
+                    {file.error ? `Not analyzed: ${file.error}` : file.summary || "No summary was returned."}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RepositoryReportView;
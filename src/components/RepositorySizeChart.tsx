@@ -0,0 +1,324 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { ChevronRight } from 'lucide-react';
+import { getExtension } from '../utils/treeSearch';
+
+interface FileNode {
+  name: string;
+  type: 'file' | 'folder';
+  path?: string;
+  children?: FileNode[];
+  size?: number;
+  diffStatus?: 'added' | 'removed' | 'resized' | 'unchanged';
+}
+
+export type SizeChartLayout = 'treemap' | 'sunburst';
+type SizeMetric = 'size' | 'count';
+type ColorScheme = 'extension' | 'folder';
+
+interface RepositorySizeChartProps {
+  data: FileNode;
+  layout: SizeChartLayout;
+  onFileSelect: (file: FileNode) => void;
+}
+
+type SizeNode = d3.HierarchyRectangularNode<FileNode>;
+
+// Levels drawn below the zoomed folder; deeper folders are drawn as one block
+const TREEMAP_DEPTH = 4;
+const SUNBURST_RINGS = 4;
+const TREEMAP_LABEL_HEIGHT = 16;
+// Arcs narrower than this are left out of the sunburst
+const MIN_ARC_ANGLE = 0.002;
+
+const PALETTE = [...d3.schemeTableau10, ...d3.schemeSet3];
+const OTHER_COLOR = '#6B7280';
+const FOLDER_FILL = '#1F2937';
+const LEGEND_ENTRIES = 10;
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const LABELS: Record<ColorScheme, string> = { extension: 'Extension', folder: 'Top-level folder' };
+
+const RepositorySizeChart: React.FC<RepositorySizeChartProps> = ({ data, layout, onFileSelect }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [sizeBy, setSizeBy] = useState<SizeMetric>('size');
+  const [colorBy, setColorBy] = useState<ColorScheme>('extension');
+  // Folder zoomed into; null shows the whole tree
+  const [focusPath, setFocusPath] = useState<string | null>(null);
+
+  useLayoutEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    const observer = new ResizeObserver(() =>
+      setSize({ width: chart.clientWidth, height: chart.clientHeight })
+    );
+    observer.observe(chart);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setFocusPath(null);
+  }, [data]);
+
+  // In a comparison, show what the newer snapshot contains
+  const root = useMemo(
+    () =>
+      d3
+        .hierarchy(data, (d) =>
+          d.type === 'folder' ? (d.children || []).filter((child) => child.diffStatus !== 'removed') : undefined
+        )
+        .sum((d) => (d.type === 'file' ? (sizeBy === 'size' ? d.size || 0 : 1) : 0))
+        .sort((a, b) => (b.value || 0) - (a.value || 0)),
+    [data, sizeBy]
+  );
+
+  // Which color group a file or folder belongs to
+  const colorKey = useMemo(() => {
+    const rootDepth = data.path ? data.path.split('/').length : 0;
+    return (node: FileNode) => {
+      if (colorBy === 'extension') {
+        return node.type === 'file' ? getExtension(node.name) || '(none)' : null;
+      }
+      const segments = (node.path || node.name).split('/').slice(rootDepth);
+      return segments.length > 1 || node.type === 'folder' ? segments[0] : '(root)';
+    };
+  }, [data, colorBy]);
+
+  // Groups ordered by their share of the whole tree, so colors stay put while zooming
+  const legend = useMemo(() => {
+    const totals = new Map<string, number>();
+    root.leaves().forEach((leaf) => {
+      const key = colorKey(leaf.data);
+      if (key && leaf.data.type === 'file') totals.set(key, (totals.get(key) || 0) + (leaf.value || 0));
+    });
+    return Array.from(totals, ([key, value]) => ({ key, value })).sort((a, b) => b.value - a.value);
+  }, [root, colorKey]);
+
+  const colors = useMemo(
+    () => new Map(legend.slice(0, PALETTE.length).map(({ key }, index) => [key, PALETTE[index]])),
+    [legend]
+  );
+
+  const colorOf = (node: FileNode) => {
+    const key = colorKey(node);
+    return key === null ? FOLDER_FILL : colors.get(key) || OTHER_COLOR;
+  };
+
+  const focus = useMemo(
+    () => (focusPath && root.find((node) => node.data.path === focusPath)) || root,
+    [root, focusPath]
+  );
+
+  // Layout of the zoomed folder; a copy so depths count from it
+  const nodes = useMemo(() => {
+    const { width, height } = size;
+    if (width === 0 || height === 0) return [];
+    const subtree = focus.copy();
+
+    if (layout === 'treemap') {
+      return d3
+        .treemap<FileNode>()
+        .size([width, height])
+        .paddingOuter(2)
+        .paddingInner(1)
+        .paddingTop((d) => (d.depth > 0 && d.depth < TREEMAP_DEPTH ? TREEMAP_LABEL_HEIGHT : 2))
+        .round(true)(subtree)
+        .descendants()
+        .filter((d) => d.depth > 0 && d.depth <= TREEMAP_DEPTH);
+    }
+    return d3
+      .partition<FileNode>()
+      .size([2 * Math.PI, subtree.height + 1])(subtree)
+      .descendants()
+      .filter((d) => d.depth > 0 && d.depth <= SUNBURST_RINGS && d.x1 - d.x0 > MIN_ARC_ANGLE);
+  }, [focus, layout, size]);
+
+  const total = focus.value || 0;
+  const formatValue = (value: number) =>
+    sizeBy === 'size' ? formatBytes(value) : `${value} ${value === 1 ? 'file' : 'files'}`;
+  const describe = (d: SizeNode) =>
+    `${d.data.path || d.data.name}\n${formatValue(d.value || 0)}${
+      total > 0 ? ` (${(((d.value || 0) / total) * 100).toFixed(1)}%)` : ''
+    }`;
+
+  // Folders zoom in, files open like in the tree
+  const handleSelect = (d: SizeNode) => {
+    if (d.data.type === 'folder') {
+      if (d.children && d.data.path) setFocusPath(d.data.path);
+    } else {
+      onFileSelect(d.data);
+    }
+  };
+
+  const zoomOut = () => {
+    setFocusPath(focus.parent?.parent ? focus.parent.data.path || null : null);
+  };
+
+  const renderTreemap = () =>
+    nodes.map((d) => {
+      const width = d.x1 - d.x0;
+      const height = d.y1 - d.y0;
+      const isFolder = d.data.type === 'folder';
+      const showLabel = isFolder
+        ? d.depth < TREEMAP_DEPTH && width > 40
+        : width > 50 && height > 16;
+      return (
+        <g
+          key={d.data.path || d.data.name}
+          transform={`translate(${d.x0},${d.y0})`}
+          className="cursor-pointer"
+          onClick={() => handleSelect(d)}
+        >
+          <title>{describe(d)}</title>
+          <rect
+            width={width}
+            height={height}
+            fill={colorOf(d.data)}
+            fillOpacity={isFolder ? (colorBy === 'folder' ? 0.3 : 1) : 0.85}
+            stroke={isFolder ? '#374151' : '#111827'}
+            strokeWidth={isFolder ? 1 : 0.5}
+          />
+          {showLabel && (
+            <text
+              x={4}
+              y={isFolder ? 12 : 13}
+              fill={isFolder ? '#D1D5DB' : '#111827'}
+              fontSize={11}
+              fontWeight={isFolder ? 600 : 400}
+              pointerEvents="none"
+            >
+              {d.data.name.length * 6.5 > width - 8
+                ? `${d.data.name.substring(0, Math.max(1, Math.floor((width - 8) / 6.5) - 1))}…`
+                : d.data.name}
+            </text>
+          )}
+        </g>
+      );
+    });
+
+  const renderSunburst = () => {
+    const radius = Math.max(0, Math.min(size.width, size.height) / 2 - 8);
+    const rings = Math.max(1, Math.min(SUNBURST_RINGS, focus.height));
+    const ringWidth = radius / (rings + 1);
+    const arc = d3
+      .arc<SizeNode>()
+      .startAngle((d) => d.x0)
+      .endAngle((d) => d.x1)
+      .padAngle((d) => Math.min((d.x1 - d.x0) / 2, 0.005))
+      .padRadius(radius / 2)
+      .innerRadius((d) => d.y0 * ringWidth)
+      .outerRadius((d) => d.y1 * ringWidth - 1);
+
+    return (
+      <g transform={`translate(${size.width / 2},${size.height / 2})`}>
+        {nodes.map((d) => (
+          <path
+            key={d.data.path || d.data.name}
+            d={arc(d) || undefined}
+            fill={colorOf(d.data)}
+            fillOpacity={d.data.type === 'folder' && colorBy === 'folder' ? 0.55 : 0.9}
+            stroke={d.data.type === 'folder' && colorBy === 'extension' ? '#4B5563' : 'none'}
+            className="cursor-pointer"
+            onClick={() => handleSelect(d)}
+          >
+            <title>{describe(d)}</title>
+          </path>
+        ))}
+        <circle
+          r={ringWidth - 2}
+          fill="#111827"
+          stroke="#374151"
+          className={focus.parent ? 'cursor-pointer' : undefined}
+          onClick={focus.parent ? zoomOut : undefined}
+        >
+          {focus.parent && <title>Zoom out</title>}
+        </circle>
+        <text textAnchor="middle" fill="#E5E7EB" fontSize={13} fontWeight={600} dy="-0.2em" pointerEvents="none">
+          {focus.data.name.length > 18 ? `${focus.data.name.substring(0, 17)}…` : focus.data.name}
+        </text>
+        <text textAnchor="middle" fill="#9CA3AF" fontSize={11} dy="1.2em" pointerEvents="none">
+          {formatValue(total)}
+        </text>
+      </g>
+    );
+  };
+
+  const selectClassName =
+    'px-2 py-1 bg-gray-900 border border-gray-700 rounded text-xs text-gray-200 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="flex items-center flex-wrap text-xs text-gray-400 min-w-0">
+          {(focus.ancestors().reverse() as SizeNode[]).map((node, index, path) => (
+            <React.Fragment key={node.data.path || node.data.name}>
+              {index > 0 && <ChevronRight className="w-3 h-3 mx-0.5 text-gray-600" />}
+              <button
+                onClick={() => setFocusPath(index === 0 ? null : node.data.path || null)}
+                disabled={index === path.length - 1}
+                className="truncate max-w-[10rem] hover:text-white disabled:text-gray-200 disabled:cursor-default transition-colors"
+              >
+                {node.data.name}
+              </button>
+            </React.Fragment>
+          ))}
+          <span className="ml-2 text-gray-500">{formatValue(total)}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <label className="flex items-center space-x-1 text-xs text-gray-400">
+            <span>Size by</span>
+            <select value={sizeBy} onChange={(e) => setSizeBy(e.target.value as SizeMetric)} className={selectClassName}>
+              <option value="size">File size</option>
+              <option value="count">File count</option>
+            </select>
+          </label>
+          <label className="flex items-center space-x-1 text-xs text-gray-400">
+            <span>Color by</span>
+            <select value={colorBy} onChange={(e) => setColorBy(e.target.value as ColorScheme)} className={selectClassName}>
+              <option value="extension">{LABELS.extension}</option>
+              <option value="folder">{LABELS.folder}</option>
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div ref={chartRef} className="flex-1 min-h-[320px] relative">
+        {total === 0 ? (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+            {sizeBy === 'size' ? 'No file sizes are known for this folder' : 'This folder has no files'}
+          </div>
+        ) : (
+          <svg width={size.width} height={size.height} className="absolute inset-0">
+            {layout === 'treemap' ? renderTreemap() : renderSunburst()}
+          </svg>
+        )}
+      </div>
+
+      {legend.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-400">
+          <span className="text-gray-500">{LABELS[colorBy]}:</span>
+          {legend.slice(0, LEGEND_ENTRIES).map(({ key, value }) => (
+            <div key={key} className="flex items-center whitespace-nowrap">
+              <div className="w-2.5 h-2.5 rounded-sm mr-1.5" style={{ backgroundColor: colors.get(key) || OTHER_COLOR }} />
+              <span>
+                {colorBy === 'extension' && key !== '(none)' ? `.${key}` : key}
+              </span>
+              <span className="ml-1 text-gray-600">
+                {root.value ? `${((value / root.value) * 100).toFixed(1)}%` : ''}
+              </span>
+            </div>
+          ))}
+          {legend.length > LEGEND_ENTRIES && <span className="text-gray-600">+{legend.length - LEGEND_ENTRIES} more</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepositorySizeChart;
@@ -0,0 +1,150 @@
+import React, { useMemo } from "react";
+import { ArrowRight, GitCompare, X } from "lucide-react";
+import FileTreeVisualization from "./FileTreeVisualization";
+import { diffTrees, DiffableNode } from "../utils/treeDiff";
+
+interface Snapshot {
+  id: string;
+  repo_url: string;
+  repo_data: DiffableNode;
+  repo_stats?: {
+    totalFiles: number;
+    totalDepth: number;
+    totalSize: number;
+    language: string;
+    commitSha?: string;
+    ref?: string;
+  };
+  created_at: string;
+}
+
+interface SnapshotCompareViewProps {
+  base: Snapshot;
+  head: Snapshot;
+  onFileSelect: (file: DiffableNode) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatDelta = (delta: number, format: (value: number) => string = String) => {
+  if (delta === 0) return "no change";
+  return `${delta > 0 ? "+" : "-"}${format(Math.abs(delta))}`;
+};
+
+const describeSnapshot = (snapshot: Snapshot) => {
+  const stats = snapshot.repo_stats;
+  const revision = stats?.commitSha ? stats.commitSha.substring(0, 7) : stats?.ref;
+  const date = new Date(snapshot.created_at).toLocaleDateString();
+  return revision ? `${revision} · ${date}` : date;
+};
+
+const SnapshotCompareView: React.FC<SnapshotCompareViewProps> = ({
+  base,
+  head,
+  onFileSelect,
+  onClose,
+}) => {
+  // Memoized so the visualization only rebuilds when the pair changes
+  const diff = useMemo(() => diffTrees(base.repo_data, head.repo_data), [base, head]);
+
+  const baseStats = base.repo_stats;
+  const headStats = head.repo_stats;
+  const baseLanguage = baseStats?.language || "Unknown";
+  const headLanguage = headStats?.language || "Unknown";
+
+  const statRows = baseStats && headStats
+    ? [
+        {
+          label: "Files",
+          from: String(baseStats.totalFiles),
+          to: String(headStats.totalFiles),
+          delta: formatDelta(headStats.totalFiles - baseStats.totalFiles),
+        },
+        {
+          label: "Depth",
+          from: String(baseStats.totalDepth),
+          to: String(headStats.totalDepth),
+          delta: formatDelta(headStats.totalDepth - baseStats.totalDepth),
+        },
+        {
+          label: "Size",
+          from: formatSize(baseStats.totalSize),
+          to: formatSize(headStats.totalSize),
+          delta: formatDelta(headStats.totalSize - baseStats.totalSize, formatSize),
+        },
+        {
+          label: "Language",
+          from: baseLanguage,
+          to: headLanguage,
+          delta: baseLanguage === headLanguage ? "no change" : "changed",
+        },
+      ]
+    : [];
+
+  const { summary } = diff;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-shrink-0 p-4 border-b border-green-500/20">
+        <div className="flex items-start justify-between mb-3">
+          <div className="min-w-0">
+            <div className="flex items-center text-sm font-semibold github-text-primary">
+              <GitCompare className="w-4 h-4 mr-2 text-green-400 flex-shrink-0" />
+              <span className="truncate">
+                {head.repo_url.replace(/\/(tree|blob)\/.*$/, "").split("/").slice(-2).join("/")}
+              </span>
+            </div>
+            <div className="flex items-center text-xs github-text-secondary font-mono mt-1">
+              {describeSnapshot(base)}
+              <ArrowRight className="w-3 h-3 mx-2" />
+              {describeSnapshot(head)}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-400 hover:text-white hover:bg-slate-700/50 transition-colors"
+            title="Close comparison"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-xs mb-3">
+          <span className="px-2 py-1 rounded bg-green-600/20 text-green-300 border border-green-500/30">
+            +{summary.filesAdded} files, +{summary.foldersAdded} folders
+          </span>
+          <span className="px-2 py-1 rounded bg-red-600/20 text-red-300 border border-red-500/30">
+            -{summary.filesRemoved} files, -{summary.foldersRemoved} folders
+          </span>
+          <span className="px-2 py-1 rounded bg-amber-600/20 text-amber-300 border border-amber-500/30">
+            ~{summary.filesResized} resized
+          </span>
+        </div>
+
+        {statRows.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+            {statRows.map((row) => (
+              <div
+                key={row.label}
+                className="p-2 rounded-lg bg-slate-800/50 border border-green-500/20"
+              >
+                <div className="github-text-secondary">{row.label}</div>
+                <div className="github-text-primary font-medium truncate" title={`${row.from} → ${row.to}`}>
+                  {row.from} → {row.to}
+                </div>
+                <div className="text-gray-500">{row.delta}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0">
+        <FileTreeVisualization data={diff.tree} onFileSelect={onFileSelect} />
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotCompareView;
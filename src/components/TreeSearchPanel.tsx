@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Search, SlidersHorizontal, X, ChevronUp, ChevronDown } from 'lucide-react';
+import { TreeFilter, TreeSearchFile, EMPTY_TREE_FILTER, isTreeFilterActive } from '../utils/treeSearch';
+
+interface TreeSearchPanelProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  // Files matching the query, best first
+  matches: TreeSearchFile[];
+  activeMatch: number;
+  onSelectMatch: (index: number) => void;
+  filter: TreeFilter;
+  onFilterChange: (filter: TreeFilter) => void;
+  // Most common extensions in the tree, offered as filter chips
+  extensions: { extension: string; count: number }[];
+  totalFiles: number;
+  // Files passing the filter; null while no filter is set
+  filteredFiles: number | null;
+}
+
+// Results listed below the search box; the tree highlights all of them
+const MAX_LISTED_RESULTS = 50;
+
+const parseKilobytes = (value: string) => (value === '' ? null : Math.max(0, Number(value)) * 1024);
+const toKilobytes = (bytes: number | null) => (bytes === null ? '' : String(Math.round((bytes / 1024) * 100) / 100));
+
+const TreeSearchPanel: React.FC<TreeSearchPanelProps> = ({
+  query,
+  onQueryChange,
+  matches,
+  activeMatch,
+  onSelectMatch,
+  filter,
+  onFilterChange,
+  extensions,
+  totalFiles,
+  filteredFiles,
+}) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const filterActive = isTreeFilterActive(filter);
+  const hasQuery = query.trim() !== '';
+
+  const stepMatch = (step: number) => {
+    if (matches.length === 0) return;
+    onSelectMatch((activeMatch + step + matches.length) % matches.length);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      stepMatch(event.shiftKey ? -1 : 1);
+    } else if (event.key === 'Escape') {
+      onQueryChange('');
+    }
+  };
+
+  const toggleExtension = (extension: string) => {
+    onFilterChange({
+      ...filter,
+      extensions: filter.extensions.includes(extension)
+        ? filter.extensions.filter(selected => selected !== extension)
+        : [...filter.extensions, extension],
+    });
+  };
+
+  return (
+    <div className="mb-2 flex-shrink-0 space-y-2">
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search files, e.g. src/utils/foo"
+            className="w-full pl-9 pr-24 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+          />
+          {hasQuery && (
+            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center space-x-1 text-xs text-gray-400">
+              <span>{matches.length > 0 ? `${activeMatch + 1} / ${matches.length}` : 'No matches'}</span>
+              <button
+                onClick={() => stepMatch(-1)}
+                disabled={matches.length === 0}
+                className="p-0.5 rounded hover:bg-gray-700 hover:text-white disabled:opacity-40"
+                title="Previous match (Shift+Enter)"
+              >
+                <ChevronUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => stepMatch(1)}
+                disabled={matches.length === 0}
+                className="p-0.5 rounded hover:bg-gray-700 hover:text-white disabled:opacity-40"
+                title="Next match (Enter)"
+              >
+                <ChevronDown className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onQueryChange('')}
+                className="p-0.5 rounded hover:bg-gray-700 hover:text-white"
+                title="Clear search"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`flex items-center space-x-1 p-2 rounded-lg transition-all duration-200 ${
+            filterActive
+              ? 'bg-blue-600 hover:bg-blue-700 text-white'
+              : 'bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white'
+          }`}
+          title="Filter files"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          {filteredFiles !== null && (
+            <span className="text-xs font-medium">
+              {filteredFiles} / {totalFiles}
+            </span>
+          )}
+        </button>
+      </div>
+
+      {hasQuery && matches.length > 0 && (
+        <div className="max-h-40 overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg scrollbar-thin">
+          {matches.slice(0, MAX_LISTED_RESULTS).map((match, index) => {
+            const folder = match.path.substring(0, match.path.length - match.name.length);
+            return (
+              <button
+                key={match.path}
+                onClick={() => onSelectMatch(index)}
+                className={`w-full flex items-baseline space-x-2 px-3 py-1.5 text-left text-sm transition-colors ${
+                  index === activeMatch ? 'bg-sky-500/20 text-white' : 'text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <span className="font-medium truncate">{match.name}</span>
+                <span className="text-xs text-gray-500 truncate">{folder}</span>
+              </button>
+            );
+          })}
+          {matches.length > MAX_LISTED_RESULTS && (
+            <div className="px-3 py-1.5 text-xs text-gray-500">
+              {matches.length - MAX_LISTED_RESULTS} more — refine the search to list them
+            </div>
+          )}
+        </div>
+      )}
+
+      {showFilters && (
+        <div className="p-3 bg-gray-800 border border-gray-700 rounded-lg space-y-3 text-sm">
+          {extensions.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-gray-400 mb-1.5">Extensions</div>
+              <div className="flex flex-wrap gap-1.5">
+                {extensions.map(({ extension, count }) => (
+                  <button
+                    key={extension}
+                    onClick={() => toggleExtension(extension)}
+                    className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                      filter.extensions.includes(extension)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    .{extension} <span className="opacity-60">{count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="block">
+              <span className="text-xs font-medium text-gray-400">Min size (KB)</span>
+              <input
+                type="number"
+                min="0"
+                value={toKilobytes(filter.minSize)}
+                onChange={(e) => onFilterChange({ ...filter, minSize: parseKilobytes(e.target.value) })}
+                className="mt-1 w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white focus:outline-none focus:border-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-400">Max size (KB)</span>
+              <input
+                type="number"
+                min="0"
+                value={toKilobytes(filter.maxSize)}
+                onChange={(e) => onFilterChange({ ...filter, maxSize: parseKilobytes(e.target.value) })}
+                className="mt-1 w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white focus:outline-none focus:border-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-400">Name pattern</span>
+              <input
+                type="text"
+                value={filter.nameGlob}
+                onChange={(e) => onFilterChange({ ...filter, nameGlob: e.target.value })}
+                placeholder="*.test.{ts,tsx}"
+                className="mt-1 w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white placeholder-gray-600 focus:outline-none focus:border-blue-500"
+              />
+            </label>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filter.hideFiltered}
+                onChange={(e) => onFilterChange({ ...filter, hideFiltered: e.target.checked })}
+              />
+              <span>Hide non-matching files instead of dimming them</span>
+            </label>
+            {filterActive && (
+              <button
+                onClick={() => onFilterChange({ ...EMPTY_TREE_FILTER, hideFiltered: filter.hideFiltered })}
+                className="text-xs text-gray-400 hover:text-white transition-colors"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreeSearchPanel;
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from "react";
+import { ShieldAlert, ShieldCheck, Loader2, RefreshCw, Package, ExternalLink } from "lucide-react";
+import axios from "axios";
+import { API_BASE_URL } from "../utils/api";
+import { DependencyInventory, DependencyScope } from "./DependencyTableView";
+
+type Severity = "critical" | "high" | "medium" | "low";
+
+interface VulnerabilityFinding {
+  ecosystem: string;
+  name: string;
+  version: string;
+  scopes: DependencyScope[];
+  manifests: string[];
+  severity: Severity | null;
+  advisories: {
+    id: string;
+    aliases: string[];
+    summary: string;
+    severity: Severity | null;
+    score: number | null;
+    // Versions above the affected one that fix the advisory, lowest first
+    fixedVersions: string[];
+  }[];
+}
+
+interface VulnerabilityReport {
+  checkedAt: string;
+  inventoryScannedAt: string;
+  database: { importedAt: string; sources: string[]; advisoryCount: number };
+  checkedPackages: number;
+  uncheckedPackages: number;
+  counts: Record<Severity | "unknown", number>;
+  findings: VulnerabilityFinding[];
+}
+
+interface VulnerabilityPanelProps {
+  repository: {
+    id: string;
+    dependencies?: DependencyInventory;
+  };
+  // Switch to the dependency table, where the inventory is scanned
+  onShowDependencies: () => void;
+}
+
+const SEVERITY_STYLES: Record<Severity | "unknown", string> = {
+  critical: "bg-red-600/30 text-red-200 border-red-500/50",
+  high: "bg-orange-500/20 text-orange-300 border-orange-500/40",
+  medium: "bg-yellow-500/20 text-yellow-300 border-yellow-500/40",
+  low: "bg-blue-500/20 text-blue-300 border-blue-500/40",
+  unknown: "bg-slate-700/50 text-gray-300 border-slate-600/50",
+};
+
+const SeverityBadge: React.FC<{ severity: Severity | null; score?: number | null }> = ({ severity, score }) => (
+  <span className={`px-1.5 py-0.5 rounded border text-xs capitalize ${SEVERITY_STYLES[severity || "unknown"]}`}>
+    {severity || "unknown"}
+    {score ? ` ${score.toFixed(1)}` : ""}
+  </span>
+);
+
+const VulnerabilityPanel: React.FC<VulnerabilityPanelProps> = ({ repository, onShowDependencies }) => {
+  const [report, setReport] = useState<VulnerabilityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [problem, setProblem] = useState<string | null>(null);
+  const [checkRequest, setCheckRequest] = useState(0);
+  const inventory = repository.dependencies;
+  const scannedAt = inventory?.scannedAt;
+
+  // Check again whenever the inventory is rescanned
+  useEffect(() => {
+    if (!scannedAt) {
+      setReport(null);
+      setProblem(null);
+      return;
+    }
+
+    let ignore = false;
+    setLoading(true);
+    setProblem(null);
+    axios
+      .get(`${API_BASE_URL}/github/repositories/${repository.id}/vulnerabilities`)
+      .then((response) => {
+        if (!ignore) setReport(response.data.vulnerabilities);
+      })
+      .catch((err: unknown) => {
+        if (ignore) return;
+        console.error("Check vulnerabilities error:", err);
+        const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+        setReport(null);
+        setProblem(message || "Could not check the dependencies for vulnerabilities. Please try again.");
+      })
+      .finally(() => {
+        if (!ignore) setLoading(false);
+      });
+
+    return () => {
+      ignore = true;
+    };
+  }, [repository.id, scannedAt, checkRequest]);
+
+  const advisoryTotal = report ? Object.values(report.counts).reduce((total, count) => total + count, 0) : 0;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-base lg:text-lg font-semibold github-text-primary flex items-center">
+            <ShieldAlert className="w-5 h-5 mr-2 text-green-400" />
+            Vulnerabilities
+          </h3>
+          {report && (
+            <p className="text-xs github-text-secondary mt-1">
+              {report.checkedPackages} package versions checked against {report.database.advisoryCount.toLocaleString()}{" "}
+              advisories imported {new Date(report.database.importedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+        {inventory && (
+          <button
+            onClick={() => setCheckRequest((request) => request + 1)}
+            disabled={loading}
+            className="flex items-center px-3 py-2 text-sm font-medium text-green-300 hover:text-green-200 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 hover:border-green-500/50 rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Check Again
+          </button>
+        )}
+      </div>
+
+      {!inventory && (
+        <div className="text-center py-12 github-text-secondary">
+          <Package className="w-12 h-12 mx-auto mb-4 text-green-400 opacity-50" />
+          <p className="text-sm max-w-md mx-auto mb-4">
+            Vulnerabilities are looked up for the dependencies found in the repository's manifests and lockfiles.
+            Scan them first.
+          </p>
+          <button
+            onClick={onShowDependencies}
+            className="px-3 py-2 text-sm font-medium text-green-300 hover:text-green-200 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 rounded-lg transition-colors"
+          >
+            Go to Dependencies
+          </button>
+        </div>
+      )}
+
+      {problem && (
+        <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-sm text-yellow-200">{problem}</div>
+      )}
+
+      {report && (
+        <>
+          <section className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20">
+            {report.findings.length === 0 ? (
+              <div className="flex items-center text-sm text-green-300">
+                <ShieldCheck className="w-5 h-5 mr-2" />
+                No known vulnerabilities in the pinned dependency versions.
+              </div>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2 text-sm github-text-primary">
+                <span>
+                  {advisoryTotal} advisories affect {report.findings.length} package versions:
+                </span>
+                {(Object.keys(report.counts) as (Severity | "unknown")[])
+                  .filter((level) => report.counts[level] > 0)
+                  .map((level) => (
+                    <span key={level} className={`px-2 py-0.5 rounded border text-xs capitalize ${SEVERITY_STYLES[level]}`}>
+                      {report.counts[level]} {level}
+                    </span>
+                  ))}
+              </div>
+            )}
+            {report.uncheckedPackages > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                {report.uncheckedPackages} packages are only declared with version ranges and no lockfile pins them, so
+                they could not be checked.
+              </p>
+            )}
+          </section>
+
+          {report.findings.map((finding) => (
+            <section
+              key={`${finding.ecosystem}:${finding.name}@${finding.version}`}
+              className="p-4 rounded-lg bg-slate-800/50 border border-green-500/20"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <SeverityBadge severity={finding.severity} />
+                  <span className="font-mono text-sm text-green-300 break-all">
+                    {finding.name}@{finding.version}
+                  </span>
+                  <span className="text-xs github-text-secondary">{finding.ecosystem}</span>
+                </div>
+                <span className="text-xs github-text-secondary">{finding.scopes.join(", ")}</span>
+              </div>
+              <div className="text-xs text-gray-500 font-mono mb-3">{finding.manifests.join(" · ")}</div>
+              <ul className="space-y-2">
+                {finding.advisories.map((advisory) => (
+                  <li key={advisory.id} className="text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <SeverityBadge severity={advisory.severity} score={advisory.score} />
+                      <a
+                        href={`https://osv.dev/vulnerability/${encodeURIComponent(advisory.id)}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center font-mono text-xs text-blue-300 hover:text-blue-200 hover:underline"
+                      >
+                        {advisory.id}
+                        <ExternalLink className="w-3 h-3 ml-1" />
+                      </a>
+                      {advisory.aliases.length > 0 && (
+                        <span className="font-mono text-xs text-gray-500">{advisory.aliases.join(", ")}</span>
+                      )}
+                    </div>
+                    {advisory.summary && <p className="text-xs github-text-secondary mt-1">{advisory.summary}</p>}
+                    <p className="text-xs mt-1">
+                      {advisory.fixedVersions.length > 0 ? (
+                        <span className="text-green-300">Fixed in {advisory.fixedVersions.join(", ")}</span>
+                      ) : (
+                        <span className="text-gray-500">No fixed version published</span>
+                      )}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VulnerabilityPanel;
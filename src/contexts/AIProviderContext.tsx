@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import axios from 'axios';
+import { useAuth } from './AuthContext';
+import { API_BASE_URL } from '../utils/api';
+import { AIProviderContext, AIProviderContextType, AIProviderInfo, AISelection } from '../hooks/useAIProvider';
+
+const STORAGE_KEY = 'aiProviderSelection';
+
+const loadStoredSelection = (): AISelection | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Keep the stored choice if the server still offers it, otherwise use the default
+const reconcileSelection = (stored: AISelection | null, providers: AIProviderInfo[]): AISelection | null => {
+  const available = providers.filter((provider) => provider.available);
+  const match = stored && available.find((provider) => provider.id === stored.provider);
+  if (match && match.models.includes(stored.model)) {
+    return stored;
+  }
+
+  const fallback = available.find((provider) => provider.isDefault) || available[0];
+  return fallback && fallback.defaultModel
+    ? { provider: fallback.id, model: fallback.defaultModel }
+    : null;
+};
+
+interface AIProviderProviderProps {
+  children: ReactNode;
+}
+
+export const AIProviderProvider: React.FC<AIProviderProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [providers, setProviders] = useState<AIProviderInfo[]>([]);
+  const [aiEnabled, setAiEnabled] = useState(false);
+  const [selection, setSelectionState] = useState<AISelection | null>(loadStoredSelection);
+
+  const refreshProviders = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/ai/status`);
+      const serverProviders: AIProviderInfo[] = response.data.providers || [];
+      setProviders(serverProviders);
+      setAiEnabled(!!response.data.aiEnabled);
+      setSelectionState((current) => reconcileSelection(current, serverProviders));
+    } catch (error) {
+      // Without the list, requests simply go to the server default
+      console.log('Could not fetch AI providers:', error);
+      setProviders([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      refreshProviders();
+    }
+  }, [user, refreshProviders]);
+
+  const setSelection = useCallback((next: AISelection) => {
+    setSelectionState(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  }, []);
+
+  // Kept stable while the selection is, since effects depend on it
+  const requestOptions = useMemo(
+    () => (selection ? { provider: selection.provider, model: selection.model } : {}),
+    [selection]
+  );
+
+  const value: AIProviderContextType = {
+    providers,
+    aiEnabled,
+    selection,
+    setSelection,
+    requestOptions,
+    refreshProviders,
+  };
+
+  return (
+    <AIProviderContext.Provider value={value}>
+      {children}
+    </AIProviderContext.Provider>
+  );
+};
@@ -1,4 +1,13 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useRef, ReactNode } from 'react';
+import { API_BASE_URL } from '../utils/api';
+import { streamServerEvents, ServerEvent } from '../utils/eventStream';
+
+export interface DiscoveredNode {
+  name: string;
+  type: 'file' | 'folder';
+  path: string;
+  size?: number;
+}
 
 interface AnalysisProgress {
   isAnalyzing: boolean;
@@ -8,6 +17,28 @@ interface AnalysisProgress {
   maxDepth: number;
   startTime: number | null;
   analysisId: string | null;
+  filesDiscovered: number;
+  foldersDiscovered: number;
+  // Direct children of each directory listed so far, keyed by directory path ('' is the root)
+  partialTree: Record<string, DiscoveredNode[]>;
+}
+
+interface ServerProgress {
+  progress?: number;
+  currentDepth?: number;
+  currentPath?: string;
+  maxDepth?: number;
+  filesDiscovered?: number;
+  foldersDiscovered?: number;
+}
+
+interface SubscribeOptions {
+  // Defaults to the stream of a synchronous /github/analyze request
+  eventsUrl?: string;
+  // Called with the terminal event: complete, cancelled or failed
+  onFinish?: (event: ServerEvent) => void;
+  // Called if the stream breaks before a terminal event
+  onError?: (error: Error) => void;
 }
 
 interface AnalysisProgressContextType {
@@ -16,7 +47,8 @@ interface AnalysisProgressContextType {
   resetProgress: () => void;
   startAnalysis: (analysisId: string, maxDepth: number) => void;
   completeAnalysis: () => void;
-  updateProgressFromServer: (serverProgress: any) => void;
+  subscribeToAnalysis: (analysisId: string, options?: SubscribeOptions) => void;
+  unsubscribeFromAnalysis: () => void;
 }
 
 const AnalysisProgressContext = createContext<AnalysisProgressContextType | undefined>(undefined);
@@ -29,24 +61,33 @@ const initialProgress: AnalysisProgress = {
   maxDepth: 0,
   startTime: null,
   analysisId: null,
+  filesDiscovered: 0,
+  foldersDiscovered: 0,
+  partialTree: {},
 };
 
 export const AnalysisProgressProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [progress, setProgress] = useState<AnalysisProgress>(initialProgress);
+  const streamControllerRef = useRef<AbortController | null>(null);
 
   const updateProgress = (updates: Partial<AnalysisProgress>) => {
     setProgress(prev => ({ ...prev, ...updates }));
   };
 
+  const unsubscribeFromAnalysis = () => {
+    streamControllerRef.current?.abort();
+    streamControllerRef.current = null;
+  };
+
   const resetProgress = () => {
+    unsubscribeFromAnalysis();
     setProgress(initialProgress);
   };
 
   const startAnalysis = (analysisId: string, maxDepth: number) => {
     setProgress({
+      ...initialProgress,
       isAnalyzing: true,
-      progress: 0,
-      currentDepth: 0,
       currentPath: 'Starting analysis...',
       maxDepth,
       startTime: Date.now(),
@@ -55,6 +96,7 @@ export const AnalysisProgressProvider: React.FC<{ children: ReactNode }> = ({ ch
   };
 
   const completeAnalysis = () => {
+    unsubscribeFromAnalysis();
     setProgress(prev => ({
       ...prev,
       isAnalyzing: false,
@@ -63,14 +105,43 @@ export const AnalysisProgressProvider: React.FC<{ children: ReactNode }> = ({ ch
     }));
   };
 
-  const updateProgressFromServer = (serverProgress: any) => {
-    if (serverProgress && serverProgress.active) {
-      updateProgress({
-        progress: serverProgress.progress || 0,
-        currentDepth: serverProgress.currentDepth || 0,
-        currentPath: serverProgress.currentPath || '',
-      });
-    }
+  // Follow the server's progress stream for one analysis; events for other
+  // analyses (e.g. in another tab) never reach this subscription
+  const subscribeToAnalysis = (analysisId: string, options: SubscribeOptions = {}) => {
+    unsubscribeFromAnalysis();
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+
+    const eventsUrl = options.eventsUrl || `${API_BASE_URL}/github/analyze/${encodeURIComponent(analysisId)}/events`;
+    streamServerEvents(eventsUrl, {
+      signal: controller.signal,
+      onEvent: ({ event, data }) => {
+        if (event === 'progress') {
+          const serverProgress = data as ServerProgress;
+          setProgress(prev => prev.analysisId !== analysisId ? prev : {
+            ...prev,
+            progress: Math.max(prev.progress, serverProgress.progress || 0),
+            currentDepth: serverProgress.currentDepth || 0,
+            currentPath: serverProgress.currentPath || prev.currentPath,
+            filesDiscovered: serverProgress.filesDiscovered || 0,
+            foldersDiscovered: serverProgress.foldersDiscovered || 0,
+          });
+        } else if (event === 'subtree') {
+          const { path, children } = data as { path: string; children: DiscoveredNode[] };
+          setProgress(prev => prev.analysisId !== analysisId ? prev : {
+            ...prev,
+            partialTree: { ...prev.partialTree, [path]: children },
+          });
+        } else if (['complete', 'cancelled', 'failed'].includes(event)) {
+          options.onFinish?.({ event, data });
+        }
+      },
+    }).catch((error) => {
+      if (error.name !== 'AbortError') {
+        console.error('Analysis progress stream failed:', error);
+        options.onError?.(error);
+      }
+    });
   };
 
   return (
@@ -81,7 +152,8 @@ export const AnalysisProgressProvider: React.FC<{ children: ReactNode }> = ({ ch
         resetProgress,
         startAnalysis,
         completeAnalysis,
-        updateProgressFromServer,
+        subscribeToAnalysis,
+        unsubscribeFromAnalysis,
       }}
     >
       {children}
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
 import axios from "axios";
+import { migrateLocalChatHistory } from "../utils/chatHistory";
 
 interface User {
   id: number;
@@ -71,6 +72,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 
     checkAuth();
   }, [token]);
+
+  // Move chat history saved by older versions from localStorage to the server
+  useEffect(() => {
+    if (user) {
+      migrateLocalChatHistory();
+    }
+  }, [user]);
   console.log("JHBJHBV", API_BASE_URL);
   const login = async (email: string, password: string) => {
     try {
@@ -0,0 +1,38 @@
+import { createContext, useContext } from 'react';
+
+// AI provider choice shared through AIProviderProvider
+
+export interface AIProviderInfo {
+  id: string;
+  name: string;
+  available: boolean;
+  isDefault: boolean;
+  defaultModel: string | null;
+  models: string[];
+}
+
+export interface AISelection {
+  provider: string;
+  model: string;
+}
+
+export interface AIProviderContextType {
+  providers: AIProviderInfo[];
+  aiEnabled: boolean;
+  // null until the server's providers are known; requests then use the server default
+  selection: AISelection | null;
+  setSelection: (selection: AISelection) => void;
+  // Fields to spread into AI request bodies
+  requestOptions: { provider?: string; model?: string };
+  refreshProviders: () => Promise<void>;
+}
+
+export const AIProviderContext = createContext<AIProviderContextType | undefined>(undefined);
+
+export const useAIProvider = () => {
+  const context = useContext(AIProviderContext);
+  if (!context) {
+    throw new Error('useAIProvider must be used within an AIProviderProvider');
+  }
+  return context;
+};
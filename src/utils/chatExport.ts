@@ -0,0 +1,248 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import {
+  fetchChatHistory,
+  fetchChatSessions,
+  saveChatMessages,
+  updateChatSession,
+  ChatCitation,
+  StoredChatMessage,
+} from './chatHistory';
+import { downloadFile, slugify } from './download';
+
+// Export of AI chat conversations as Markdown, JSON or a self-contained HTML
+// transcript, and import of the JSON export back into a repository's history
+
+export type ChatExportFormat = 'markdown' | 'json' | 'html';
+
+export interface ExportedChatSession {
+  id: string;
+  title: string;
+  customTitle?: boolean;
+  pinned?: boolean;
+  messages: StoredChatMessage[];
+}
+
+// Messages uploaded per request when importing, below the server's limit
+const IMPORT_BATCH_SIZE = 500;
+// Longest title the server accepts
+const MAX_TITLE_LENGTH = 100;
+
+// Marks JSON files this module can import
+const JSON_EXPORT_FORMAT = 'github-analyzer-chat';
+const JSON_EXPORT_VERSION = 1;
+
+const FILE_EXTENSIONS: Record<ChatExportFormat, string> = { markdown: 'md', json: 'json', html: 'html' };
+const MIME_TYPES: Record<ChatExportFormat, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+const repositoryName = (repositoryUrl: string) => repositoryUrl.split('/').slice(-2).join('/');
+
+const senderName = (message: StoredChatMessage) => (message.type === 'user' ? 'You' : 'AI Assistant');
+
+const formatCitation = ({ path, startLine, endLine }: ChatCitation) =>
+  startLine ? `${path}:${startLine}${endLine && endLine !== startLine ? `-${endLine}` : ''}` : path;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toMarkdown = (repositoryUrl: string, sessions: ExportedChatSession[]) => {
+  const lines = [
+    `# AI chat history: ${repositoryName(repositoryUrl)}`,
+    '',
+    `Repository: ${repositoryUrl}  `,
+    `Exported: ${new Date().toLocaleString()}`,
+  ];
+  for (const session of sessions) {
+    lines.push('', '---', '', `## ${session.title}`, '');
+    if (session.messages.length > 0) {
+      lines.push(`_Started ${session.messages[0].timestamp.toLocaleString()}_`, '');
+    }
+    for (const message of session.messages) {
+      lines.push(`### ${senderName(message)} · ${message.timestamp.toLocaleString()}`, '', message.content, '');
+      if (message.citations?.length) {
+        lines.push(`Files: ${message.citations.map(citation => `\`${formatCitation(citation)}\``).join(', ')}`, '');
+      }
+    }
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+};
+
+const toJson = (repositoryUrl: string, sessions: ExportedChatSession[]) =>
+  JSON.stringify(
+    {
+      format: JSON_EXPORT_FORMAT,
+      version: JSON_EXPORT_VERSION,
+      repositoryUrl,
+      exportedAt: new Date().toISOString(),
+      sessions,
+    },
+    null,
+    2
+  );
+
+const HTML_STYLES = `
+  body { margin: 0; background: #0f172a; color: #e5e7eb; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 20px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  .meta { color: #9ca3af; font-size: 13px; }
+  section { margin-top: 32px; border-top: 1px solid #334155; padding-top: 16px; }
+  section > h2 { font-size: 19px; margin: 0 0 12px; }
+  .message { border-radius: 8px; padding: 12px 16px; margin: 12px 0; border: 1px solid #334155; }
+  .message.user { background: #14532d33; border-color: #16a34a55; }
+  .message.assistant { background: #1e293b; }
+  .sender { font-weight: 600; font-size: 13px; margin-bottom: 6px; }
+  .sender span { color: #9ca3af; font-weight: 400; margin-left: 6px; }
+  .content > :first-child { margin-top: 0; }
+  .content > :last-child { margin-bottom: 0; }
+  code { background: #334155; border-radius: 4px; padding: 1px 4px; font-size: 13px; }
+  pre { background: #020617; border-radius: 6px; padding: 12px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  blockquote { border-left: 4px solid #475569; margin-left: 0; padding-left: 12px; color: #cbd5e1; }
+  a { color: #4ade80; }
+  .files { margin-top: 8px; font-size: 12px; color: #9ca3af; }
+`;
+
+const renderMessageHtml = (message: StoredChatMessage) => {
+  const content =
+    message.type === 'assistant'
+      ? renderToStaticMarkup(createElement(ReactMarkdown, null, message.content))
+      : `<p>${escapeHtml(message.content).replace(/\n/g, '<br>')}</p>`;
+  const files = message.citations?.length
+    ? `<div class="files">Files: ${message.citations
+        .map(citation => `<code>${escapeHtml(formatCitation(citation))}</code>`)
+        .join(', ')}</div>`
+    : '';
+  return `<div class="message ${message.type}">
+  <div class="sender">${senderName(message)}<span>${escapeHtml(message.timestamp.toLocaleString())}</span></div>
+  <div class="content">${content}</div>${files}
+</div>`;
+};
+
+const toHtml = (repositoryUrl: string, sessions: ExportedChatSession[]) => {
+  const title = `AI chat history: ${repositoryName(repositoryUrl)}`;
+  const body = sessions
+    .map(session => `<section>
+<h2>${escapeHtml(session.title)}</h2>
+${session.messages.map(renderMessageHtml).join('\n')}
+</section>`)
+    .join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">${escapeHtml(repositoryUrl)} · exported ${escapeHtml(new Date().toLocaleString())}</div>
+${body}
+</main>
+</body>
+</html>
+`;
+};
+
+// Download a repository's conversations, or only one of them, in a format
+export const exportChatHistory = async (
+  repositoryUrl: string,
+  format: ChatExportFormat,
+  sessionId?: string
+) => {
+  const [summaries, messages] = await Promise.all([
+    fetchChatSessions(repositoryUrl),
+    fetchChatHistory(repositoryUrl, sessionId),
+  ]);
+  const sessions: ExportedChatSession[] = summaries
+    .filter(summary => !sessionId || summary.id === sessionId)
+    .map(summary => ({
+      id: summary.id,
+      title: summary.title,
+      customTitle: summary.customTitle,
+      pinned: summary.pinned,
+      messages: messages.filter(message => message.sessionId === summary.id),
+    }))
+    .filter(session => session.messages.length > 0)
+    // Oldest conversation first, like the messages within one
+    .sort((a, b) => a.messages[0].timestamp.getTime() - b.messages[0].timestamp.getTime());
+  if (sessions.length === 0) {
+    throw new Error('There are no messages to export');
+  }
+
+  const content =
+    format === 'markdown'
+      ? toMarkdown(repositoryUrl, sessions)
+      : format === 'json'
+      ? toJson(repositoryUrl, sessions)
+      : toHtml(repositoryUrl, sessions);
+  const name = [
+    'ai-chat',
+    slugify(repositoryName(repositoryUrl)),
+    sessionId ? slugify(sessions[0].title) : null,
+    new Date().toISOString().split('T')[0],
+  ]
+    .filter(Boolean)
+    .join('-');
+  downloadFile(`${name}.${FILE_EXTENSIONS[format]}`, content, MIME_TYPES[format]);
+  return sessions.length;
+};
+
+// Sessions of a JSON export; throws if the text is not one
+export const parseChatExport = (text: string): { repositoryUrl?: string; sessions: ExportedChatSession[] } => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (data?.format !== JSON_EXPORT_FORMAT || !Array.isArray(data.sessions)) {
+    throw new Error('The file is not a chat history export');
+  }
+  if (data.version > JSON_EXPORT_VERSION) {
+    throw new Error('The export was made by a newer version of the app');
+  }
+
+  const sessions = data.sessions.map((session: ExportedChatSession) => {
+    if (typeof session?.id !== 'string' || !Array.isArray(session.messages)) {
+      throw new Error('The export contains an invalid conversation');
+    }
+    return {
+      ...session,
+      messages: session.messages.map(message => ({
+        ...message,
+        sessionId: session.id,
+        timestamp: new Date(message.timestamp),
+      })),
+    };
+  });
+  return { repositoryUrl: data.repositoryUrl, sessions };
+};
+
+// Add the conversations of a JSON export to a repository's history. Messages
+// already there are replaced, so importing the same file twice is harmless
+export const importChatHistory = async (repositoryUrl: string, sessions: ExportedChatSession[]) => {
+  const messages = sessions.flatMap(session => session.messages);
+  for (let start = 0; start < messages.length; start += IMPORT_BATCH_SIZE) {
+    await saveChatMessages(repositoryUrl, messages.slice(start, start + IMPORT_BATCH_SIZE));
+  }
+  for (const session of sessions) {
+    if (session.customTitle || session.pinned) {
+      await updateChatSession(repositoryUrl, session.id, {
+        title: session.customTitle ? session.title.substring(0, MAX_TITLE_LENGTH) : undefined,
+        pinned: session.pinned || undefined,
+      });
+    }
+  }
+  return messages.length;
+};
@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+
+// AI assistant chat history, stored per user and repository on the server
+// and grouped into the sessions the assistant starts. History used to live in
+// localStorage under `ai-chat-${repositoryUrl}`; migrateLocalChatHistory
+// uploads those entries once and removes them
+
+// A repository file an assistant answer refers to, optionally with lines
+export interface ChatCitation {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  type: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  sessionId?: string;
+  stopped?: boolean;
+  citations?: ChatCitation[];
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  // The custom title, or one generated from the first question
+  title: string;
+  customTitle: boolean;
+  pinned: boolean;
+  messageCount: number;
+  startedAt: Date;
+  lastMessageAt: Date;
+}
+
+export interface ChatSearchResult extends StoredChatMessage {
+  repositoryUrl: string;
+  sessionTitle?: string;
+}
+
+const LOCAL_HISTORY_PREFIX = 'ai-chat-';
+
+// Settles when the latest migration has finished, so history is not read
+// while older messages are still being uploaded
+let pendingMigration: Promise<void> = Promise.resolve();
+
+const parseMessages = (raw: unknown): StoredChatMessage[] =>
+  Array.isArray(raw)
+    ? raw.map((message) => ({ ...message, timestamp: new Date(message.timestamp) }))
+    : [];
+
+// Messages of a repository, or only of one of its sessions
+export const fetchChatHistory = async (
+  repositoryUrl: string,
+  sessionId?: string
+): Promise<StoredChatMessage[]> => {
+  await pendingMigration;
+  const response = await axios.get(`${API_BASE_URL}/chat/history`, {
+    params: { repoUrl: repositoryUrl, sessionId },
+  });
+  return parseMessages(response.data.messages);
+};
+
+export const saveChatMessages = async (repositoryUrl: string, messages: StoredChatMessage[]) => {
+  await axios.post(`${API_BASE_URL}/chat/history`, { repoUrl: repositoryUrl, messages });
+};
+
+export const deleteChatMessage = async (repositoryUrl: string, messageId: string) => {
+  await axios.delete(`${API_BASE_URL}/chat/history/${encodeURIComponent(messageId)}`, {
+    params: { repoUrl: repositoryUrl },
+  });
+};
+
+export const clearChatHistory = async (repositoryUrl: string) => {
+  await axios.delete(`${API_BASE_URL}/chat/history`, { params: { repoUrl: repositoryUrl } });
+};
+
+const parseSession = (session: ChatSessionSummary): ChatSessionSummary => ({
+  ...session,
+  startedAt: new Date(session.startedAt),
+  lastMessageAt: new Date(session.lastMessageAt),
+});
+
+// Sessions of a repository, pinned first, then the most recently active
+export const fetchChatSessions = async (repositoryUrl: string): Promise<ChatSessionSummary[]> => {
+  await pendingMigration;
+  const response = await axios.get(`${API_BASE_URL}/chat/sessions`, {
+    params: { repoUrl: repositoryUrl },
+  });
+  return response.data.sessions.map(parseSession);
+};
+
+// Rename or pin a session; an empty title restores the generated one
+export const updateChatSession = async (
+  repositoryUrl: string,
+  sessionId: string,
+  changes: { title?: string; pinned?: boolean }
+): Promise<ChatSessionSummary> => {
+  const response = await axios.patch(
+    `${API_BASE_URL}/chat/sessions/${encodeURIComponent(sessionId)}`,
+    changes,
+    { params: { repoUrl: repositoryUrl } }
+  );
+  return parseSession(response.data.session);
+};
+
+export const deleteChatSession = async (repositoryUrl: string, sessionId: string) => {
+  await axios.delete(`${API_BASE_URL}/chat/sessions/${encodeURIComponent(sessionId)}`, {
+    params: { repoUrl: repositoryUrl },
+  });
+};
+
+// Messages containing the text in any session, of one repository if given
+export const searchChatMessages = async (
+  query: string,
+  repositoryUrl?: string
+): Promise<ChatSearchResult[]> => {
+  const response = await axios.get(`${API_BASE_URL}/chat/search`, {
+    params: { q: query, repoUrl: repositoryUrl },
+  });
+  return response.data.results.map((result: ChatSearchResult) => ({
+    ...result,
+    timestamp: new Date(result.timestamp),
+  }));
+};
+
+// Upload chat history left in localStorage. Entries are removed once the
+// server has them; failed uploads stay and are retried on the next login
+export const migrateLocalChatHistory = (): Promise<void> => {
+  const keys = Object.keys(localStorage).filter((key) => key.startsWith(LOCAL_HISTORY_PREFIX));
+  if (keys.length === 0) return pendingMigration;
+
+  pendingMigration = (async () => {
+    for (const key of keys) {
+      const repositoryUrl = key.slice(LOCAL_HISTORY_PREFIX.length);
+      try {
+        const messages = parseMessages(JSON.parse(localStorage.getItem(key) || '[]'));
+        if (messages.length > 0) {
+          await saveChatMessages(repositoryUrl, messages);
+        }
+        localStorage.removeItem(key);
+        console.log(`📤 Migrated ${messages.length} chat messages for ${repositoryUrl}`);
+      } catch (error) {
+        console.error(`❌ Could not migrate chat history for ${repositoryUrl}:`, error);
+      }
+    }
+  })();
+  return pendingMigration;
+};
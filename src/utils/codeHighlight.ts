@@ -0,0 +1,235 @@
+import hljs from "highlight.js/lib/core";
+import bash from "highlight.js/lib/languages/bash";
+import c from "highlight.js/lib/languages/c";
+import cmake from "highlight.js/lib/languages/cmake";
+import cpp from "highlight.js/lib/languages/cpp";
+import csharp from "highlight.js/lib/languages/csharp";
+import css from "highlight.js/lib/languages/css";
+import dart from "highlight.js/lib/languages/dart";
+import dockerfile from "highlight.js/lib/languages/dockerfile";
+import dos from "highlight.js/lib/languages/dos";
+import go from "highlight.js/lib/languages/go";
+import gradle from "highlight.js/lib/languages/gradle";
+import ini from "highlight.js/lib/languages/ini";
+import java from "highlight.js/lib/languages/java";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import kotlin from "highlight.js/lib/languages/kotlin";
+import latex from "highlight.js/lib/languages/latex";
+import less from "highlight.js/lib/languages/less";
+import makefile from "highlight.js/lib/languages/makefile";
+import markdown from "highlight.js/lib/languages/markdown";
+import perl from "highlight.js/lib/languages/perl";
+import php from "highlight.js/lib/languages/php";
+import powershell from "highlight.js/lib/languages/powershell";
+import python from "highlight.js/lib/languages/python";
+import r from "highlight.js/lib/languages/r";
+import ruby from "highlight.js/lib/languages/ruby";
+import rust from "highlight.js/lib/languages/rust";
+import scala from "highlight.js/lib/languages/scala";
+import scss from "highlight.js/lib/languages/scss";
+import sql from "highlight.js/lib/languages/sql";
+import swift from "highlight.js/lib/languages/swift";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import yaml from "highlight.js/lib/languages/yaml";
+
+const LANGUAGE_DEFINITIONS = {
+  bash, c, cmake, cpp, csharp, css, dart, dockerfile, dos, go, gradle, ini,
+  java, javascript, json, kotlin, latex, less, makefile, markdown, perl, php,
+  powershell, python, r, ruby, rust, scala, scss, sql, swift, typescript, xml, yaml,
+};
+
+Object.entries(LANGUAGE_DEFINITIONS).forEach(([name, definition]) =>
+  hljs.registerLanguage(name, definition)
+);
+
+// highlight.js grammar for each language name produced by detectLanguage in
+// languageStats. Languages without a grammar are shown as plain text
+const HIGHLIGHT_LANGUAGES: { [language: string]: string } = {
+  JavaScript: "javascript",
+  "JavaScript (React)": "javascript",
+  TypeScript: "typescript",
+  "TypeScript (React)": "typescript",
+  HTML: "xml",
+  CSS: "css",
+  SCSS: "scss",
+  Sass: "scss",
+  Less: "less",
+  "Vue.js": "xml",
+  Svelte: "xml",
+  Python: "python",
+  Java: "java",
+  Kotlin: "kotlin",
+  Scala: "scala",
+  Go: "go",
+  Rust: "rust",
+  PHP: "php",
+  Ruby: "ruby",
+  Perl: "perl",
+  R: "r",
+  Swift: "swift",
+  Dart: "dart",
+  C: "c",
+  "C++": "cpp",
+  "C#": "csharp",
+  "C/C++ Header": "cpp",
+  "C++ Header": "cpp",
+  "Shell Script": "bash",
+  Bash: "bash",
+  Zsh: "bash",
+  Fish: "bash",
+  PowerShell: "powershell",
+  Batch: "dos",
+  JSON: "json",
+  XML: "xml",
+  YAML: "yaml",
+  TOML: "ini",
+  INI: "ini",
+  Configuration: "ini",
+  SQL: "sql",
+  Markdown: "markdown",
+  LaTeX: "latex",
+  Dockerfile: "dockerfile",
+  Makefile: "makefile",
+  CMake: "cmake",
+  Gradle: "gradle",
+  Maven: "xml",
+  "Maven POM": "xml",
+};
+
+// Files above this size are shown without highlighting; tokenizing them
+// would block the tab for seconds
+export const MAX_HIGHLIGHT_CHARS = 500 * 1024;
+
+export const getHighlightLanguage = (language: string): string | null =>
+  HIGHLIGHT_LANGUAGES[language] || null;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Split highlighted HTML into one fragment per source line. Spans that cover
+// several lines (block comments, template strings) are closed at the end of
+// each line and reopened on the next, so every fragment stands alone
+const splitHighlightedLines = (html: string): string[] => {
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let current = "";
+
+  for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (part === "\n") {
+      lines.push(current + "</span>".repeat(openTags.length));
+      current = openTags.join("");
+    } else if (part.startsWith("<span")) {
+      openTags.push(part);
+      current += part;
+    } else if (part === "</span>") {
+      openTags.pop();
+      current += part;
+    } else {
+      current += part;
+    }
+  }
+  lines.push(current);
+  return lines;
+};
+
+// Highlight content as HTML fragments, one per line. Falls back to escaped
+// plain text when there is no grammar or the file is too large
+export const highlightLines = (content: string, language: string | null): string[] => {
+  if (language && content.length <= MAX_HIGHLIGHT_CHARS) {
+    try {
+      return splitHighlightedLines(hljs.highlight(content, { language, ignoreIllegals: true }).value);
+    } catch (error) {
+      console.log(`Could not highlight as ${language}:`, error);
+    }
+  }
+  return content.split("\n").map(escapeHtml);
+};
+
+// Wrap the given text ranges of a highlighted line in <mark> elements.
+// Offsets count characters of the line's text, so tags are skipped and
+// entities count as one character; marks are closed around tags to keep
+// the HTML well nested
+export const markRanges = (
+  html: string,
+  ranges: { start: number; end: number; className: string }[]
+): string => {
+  if (ranges.length === 0) return html;
+
+  let result = "";
+  let offset = 0;
+  let openRange: { end: number; className: string } | null = null;
+
+  for (const token of html.match(/<[^>]+>|&[a-z#0-9]+;|[^<&]/gi) || []) {
+    if (token.startsWith("<")) {
+      result += openRange ? `</mark>${token}<mark class="${openRange.className}">` : token;
+      continue;
+    }
+
+    if (openRange && offset >= openRange.end) {
+      result += "</mark>";
+      openRange = null;
+    }
+    if (!openRange) {
+      const range = ranges.find((candidate) => offset >= candidate.start && offset < candidate.end);
+      if (range) {
+        result += `<mark class="${range.className}">`;
+        openRange = range;
+      }
+    }
+    result += token;
+    offset++;
+  }
+
+  return openRange ? `${result}</mark>` : result;
+};
+
+export interface FoldRegion {
+  start: number;
+  end: number;
+}
+
+const indentation = (line: string) => line.length - line.trimStart().length;
+
+// Foldable regions from indentation: a line starts a region when the next
+// non-blank line is indented deeper, and the region runs until indentation
+// returns to its level. Returns regions keyed by their 0-based start line
+export const findFoldRegions = (lines: string[]): Map<number, FoldRegion> => {
+  const regions = new Map<number, FoldRegion>();
+  const stack: { line: number; indent: number }[] = [];
+  let lastContentLine = -1;
+
+  const closeRegions = (indent: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      const open = stack.pop()!;
+      if (lastContentLine > open.line) {
+        regions.set(open.line, { start: open.line, end: lastContentLine });
+      }
+    }
+  };
+
+  lines.forEach((line, index) => {
+    if (line.trim() === "") return;
+    const indent = indentation(line);
+    closeRegions(indent);
+    stack.push({ line: index, indent });
+    lastContentLine = index;
+  });
+  closeRegions(-1);
+
+  // Let a region swallow a closing bracket line at its own level, so
+  // "function () {" folds together with its "}"
+  regions.forEach((region) => {
+    const next = region.end + 1;
+    if (
+      next < lines.length &&
+      indentation(lines[next]) === indentation(lines[region.start]) &&
+      /^[\])}]/.test(lines[next].trim())
+    ) {
+      region.end = next;
+    }
+  });
+
+  return regions;
+};
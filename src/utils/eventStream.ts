@@ -0,0 +1,82 @@
+// Server-Sent Events over fetch, so requests can carry the Authorization
+// header (EventSource cannot send custom headers)
+
+export interface ServerEvent {
+  event: string;
+  data: unknown;
+}
+
+interface StreamOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  signal?: AbortSignal;
+  onEvent: (event: ServerEvent) => void;
+}
+
+const parseEventBlock = (block: string): ServerEvent | null => {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    // Lines starting with ":" are comments (keep-alives)
+    if (!line || line.startsWith(':')) continue;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    if (field === 'data') dataLines.push(value);
+  }
+
+  if (dataLines.length === 0) return null;
+
+  const raw = dataLines.join('\n');
+  try {
+    return { event, data: JSON.parse(raw) };
+  } catch {
+    return { event, data: raw };
+  }
+};
+
+// Resolves when the server closes the stream; rejects on HTTP or network errors
+export const streamServerEvents = async (url: string, options: StreamOptions): Promise<void> => {
+  const token = localStorage.getItem('token');
+  const response = await fetch(url, {
+    method: options.method || 'GET',
+    headers: {
+      Accept: 'text/event-stream',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    let message = `Server error (${response.status})`;
+    try {
+      const error = await response.json();
+      message = error.message || message;
+    } catch {
+      // Keep the status-based message
+    }
+    throw new Error(message);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) options.onEvent(parsed);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+};
@@ -0,0 +1,396 @@
+// Language classification of repository files and the per-language and
+// per-folder breakdown built from it. Line counts are added for files whose
+// content has been fetched
+
+// Language for each file extension
+const LANGUAGE_BY_EXTENSION: { [extension: string]: string } = {
+  // Web Technologies
+  js: "JavaScript",
+  jsx: "JavaScript (React)",
+  ts: "TypeScript",
+  tsx: "TypeScript (React)",
+  html: "HTML",
+  htm: "HTML",
+  css: "CSS",
+  scss: "SCSS",
+  sass: "Sass",
+  less: "Less",
+  vue: "Vue.js",
+  svelte: "Svelte",
+
+  // Backend Languages
+  py: "Python",
+  java: "Java",
+  kt: "Kotlin",
+  scala: "Scala",
+  go: "Go",
+  rs: "Rust",
+  php: "PHP",
+  rb: "Ruby",
+  pl: "Perl",
+  r: "R",
+  swift: "Swift",
+  dart: "Dart",
+
+  // C Family
+  c: "C",
+  cpp: "C++",
+  cc: "C++",
+  cxx: "C++",
+  "c++": "C++",
+  cs: "C#",
+  h: "C/C++ Header",
+  hpp: "C++ Header",
+
+  // System & Scripting
+  sh: "Shell Script",
+  bash: "Bash",
+  zsh: "Zsh",
+  fish: "Fish",
+  ps1: "PowerShell",
+  bat: "Batch",
+  cmd: "Batch",
+
+  // Configuration & Data
+  json: "JSON",
+  xml: "XML",
+  yaml: "YAML",
+  yml: "YAML",
+  toml: "TOML",
+  ini: "INI",
+  cfg: "Configuration",
+  conf: "Configuration",
+  sql: "SQL",
+  graphql: "GraphQL",
+
+  // Markup & Documentation
+  md: "Markdown",
+  markdown: "Markdown",
+  rst: "reStructuredText",
+  tex: "LaTeX",
+
+  // Other
+  dockerfile: "Dockerfile",
+  makefile: "Makefile",
+  cmake: "CMake",
+  gradle: "Gradle",
+  maven: "Maven",
+  pom: "Maven POM",
+  lock: "Lock File",
+  log: "Log File",
+};
+
+// Files recognized by their whole name, lowercased
+const LANGUAGE_BY_FILENAME: { [filename: string]: string } = {
+  dockerfile: "Dockerfile",
+  makefile: "Makefile",
+  gnumakefile: "Makefile",
+  "cmakelists.txt": "CMake",
+  gemfile: "Ruby",
+  rakefile: "Ruby",
+  podfile: "Ruby",
+  vagrantfile: "Ruby",
+  jenkinsfile: "Groovy",
+  ".bashrc": "Bash",
+  ".zshrc": "Zsh",
+};
+
+// Language of a file from its name, or null if it is not recognized
+export const classifyFile = (filename: string): string | null => {
+  const name = filename.toLowerCase();
+  if (LANGUAGE_BY_FILENAME[name]) return LANGUAGE_BY_FILENAME[name];
+  if (name.startsWith("dockerfile.")) return "Dockerfile";
+  const extension = name.includes(".") ? name.split(".").pop() || "" : "";
+  return LANGUAGE_BY_EXTENSION[extension] || null;
+};
+
+// Language shown for a file; unrecognized files show their extension
+export const detectLanguage = (filename: string): string =>
+  classifyFile(filename) || (filename.split(".").pop()?.toUpperCase() || "");
+
+// Comment syntax used when counting lines
+interface CommentSyntax {
+  line: string[];
+  block: [string, string][];
+}
+
+const C_STYLE: CommentSyntax = { line: ["//"], block: [["/*", "*/"]] };
+const HASH: CommentSyntax = { line: ["#"], block: [] };
+const MARKUP: CommentSyntax = { line: [], block: [["<!--", "-->"]] };
+
+const COMMENT_SYNTAX: { [language: string]: CommentSyntax } = {
+  JavaScript: C_STYLE,
+  "JavaScript (React)": C_STYLE,
+  TypeScript: C_STYLE,
+  "TypeScript (React)": C_STYLE,
+  Java: C_STYLE,
+  Kotlin: C_STYLE,
+  Scala: C_STYLE,
+  Go: C_STYLE,
+  Rust: C_STYLE,
+  Swift: C_STYLE,
+  Dart: C_STYLE,
+  C: C_STYLE,
+  "C++": C_STYLE,
+  "C#": C_STYLE,
+  "C/C++ Header": C_STYLE,
+  "C++ Header": C_STYLE,
+  SCSS: C_STYLE,
+  Sass: C_STYLE,
+  Less: C_STYLE,
+  Gradle: C_STYLE,
+  Groovy: C_STYLE,
+  CSS: { line: [], block: [["/*", "*/"]] },
+  PHP: { line: ["//", "#"], block: [["/*", "*/"]] },
+  Python: HASH,
+  Ruby: { line: ["#"], block: [["=begin", "=end"]] },
+  Perl: HASH,
+  R: HASH,
+  "Shell Script": HASH,
+  Bash: HASH,
+  Zsh: HASH,
+  Fish: HASH,
+  PowerShell: { line: ["#"], block: [["<#", "#>"]] },
+  Batch: { line: ["::", "rem ", "REM "], block: [] },
+  YAML: HASH,
+  TOML: HASH,
+  INI: { line: [";", "#"], block: [] },
+  Configuration: HASH,
+  Dockerfile: HASH,
+  Makefile: HASH,
+  CMake: HASH,
+  GraphQL: HASH,
+  SQL: { line: ["--"], block: [["/*", "*/"]] },
+  LaTeX: { line: ["%"], block: [] },
+  HTML: MARKUP,
+  XML: MARKUP,
+  "Maven POM": MARKUP,
+  "Vue.js": { line: ["//"], block: [["<!--", "-->"], ["/*", "*/"]] },
+  Svelte: { line: ["//"], block: [["<!--", "-->"], ["/*", "*/"]] },
+  Markdown: MARKUP,
+};
+
+export interface LineCount {
+  code: number;
+  comment: number;
+  blank: number;
+}
+
+// Count code, comment and blank lines. A line holding both code and a
+// comment counts as code; languages without comment syntax are all code
+export const countLines = (content: string, language: string | null): LineCount => {
+  const syntax = (language && COMMENT_SYNTAX[language]) || { line: [], block: [] };
+  const count: LineCount = { code: 0, comment: 0, blank: 0 };
+  let blockEnd: string | null = null;
+
+  if (!content) return count;
+
+  // A final newline ends the last line rather than starting another
+  const lines = content.replace(/\r\n?/g, "\n").replace(/\n$/, "").split("\n");
+  for (const rawLine of lines) {
+    let line = rawLine.trim();
+    if (!line) {
+      count.blank++;
+      continue;
+    }
+
+    let hasCode = false;
+    let hasComment = false;
+    while (line) {
+      if (blockEnd) {
+        hasComment = true;
+        const end = line.indexOf(blockEnd);
+        if (end === -1) break;
+        line = line.substring(end + blockEnd.length).trim();
+        blockEnd = null;
+        continue;
+      }
+      if (syntax.line.some((prefix) => line.startsWith(prefix))) {
+        hasComment = true;
+        break;
+      }
+      const block = syntax.block.find(([start]) => line.startsWith(start));
+      if (block) {
+        blockEnd = block[1];
+        line = line.substring(block[0].length);
+        continue;
+      }
+      // Code on the line; a comment opening after it still has to be tracked
+      hasCode = true;
+      const opening = syntax.block
+        .map(([start, end]) => ({ index: line.indexOf(start), start, end }))
+        .filter(({ index }) => index > 0)
+        .sort((a, b) => a.index - b.index)[0];
+      if (!opening) break;
+      line = line.substring(opening.index + opening.start.length);
+      blockEnd = opening.end;
+    }
+
+    if (hasCode) count.code++;
+    else if (hasComment) count.comment++;
+    else count.blank++;
+  }
+  return count;
+};
+
+// Line count of one fetched file; the sha tells whether it is still current
+export interface FileLineCount extends LineCount {
+  sha?: string;
+}
+
+export interface LanguageSummary {
+  language: string;
+  files: number;
+  bytes: number;
+  // Totals over the files with a line count
+  countedFiles: number;
+  code: number;
+  comment: number;
+  blank: number;
+}
+
+export interface FolderSummary {
+  // Top-level folder, or "" for files at the root
+  folder: string;
+  files: number;
+  bytes: number;
+  // Bytes per language
+  languages: { [language: string]: number };
+}
+
+export interface LanguageStats {
+  commitSha: string | null;
+  computedAt: string;
+  totalFiles: number;
+  totalBytes: number;
+  // Largest first
+  languages: LanguageSummary[];
+  folders: FolderSummary[];
+  lineCounts: { [path: string]: FileLineCount };
+}
+
+// Group for files no language was recognized for
+export const OTHER_LANGUAGE = "Other";
+
+interface StatsFileNode {
+  name: string;
+  type: "file" | "folder";
+  path?: string;
+  size?: number;
+  sha?: string;
+  children?: StatsFileNode[];
+}
+
+// Breakdown of a file tree. Line counts are kept only for files still in the
+// tree with the same content
+export const computeLanguageStats = (
+  tree: StatsFileNode,
+  lineCounts: { [path: string]: FileLineCount },
+  commitSha: string | null
+): LanguageStats => {
+  const languages = new Map<string, LanguageSummary>();
+  const folders = new Map<string, FolderSummary>();
+  const currentCounts: { [path: string]: FileLineCount } = {};
+  const rootDepth = tree.path ? tree.path.split("/").length : 0;
+  let totalFiles = 0;
+  let totalBytes = 0;
+
+  const visit = (node: StatsFileNode) => {
+    if (node.type === "folder") {
+      node.children?.forEach(visit);
+      return;
+    }
+
+    const path = node.path || node.name;
+    const bytes = node.size || 0;
+    const language = classifyFile(node.name) || OTHER_LANGUAGE;
+    totalFiles++;
+    totalBytes += bytes;
+
+    let summary = languages.get(language);
+    if (!summary) {
+      summary = { language, files: 0, bytes: 0, countedFiles: 0, code: 0, comment: 0, blank: 0 };
+      languages.set(language, summary);
+    }
+    summary.files++;
+    summary.bytes += bytes;
+
+    const lines = lineCounts[path];
+    if (lines && (!lines.sha || !node.sha || lines.sha === node.sha)) {
+      currentCounts[path] = lines;
+      summary.countedFiles++;
+      summary.code += lines.code;
+      summary.comment += lines.comment;
+      summary.blank += lines.blank;
+    }
+
+    const segments = path.split("/").slice(rootDepth);
+    const folderName = segments.length > 1 ? segments[0] : "";
+    let folder = folders.get(folderName);
+    if (!folder) {
+      folder = { folder: folderName, files: 0, bytes: 0, languages: {} };
+      folders.set(folderName, folder);
+    }
+    folder.files++;
+    folder.bytes += bytes;
+    folder.languages[language] = (folder.languages[language] || 0) + bytes;
+  };
+  visit(tree);
+
+  return {
+    commitSha,
+    computedAt: new Date().toISOString(),
+    totalFiles,
+    totalBytes,
+    languages: Array.from(languages.values()).sort((a, b) => b.bytes - a.bytes || b.files - a.files),
+    folders: Array.from(folders.values()).sort((a, b) => b.bytes - a.bytes),
+    lineCounts: currentCounts,
+  };
+};
+
+// GitHub's colors for common languages; others get one from the palette
+const LANGUAGE_COLORS: { [language: string]: string } = {
+  JavaScript: "#f1e05a",
+  "JavaScript (React)": "#f1e05a",
+  TypeScript: "#3178c6",
+  "TypeScript (React)": "#3178c6",
+  HTML: "#e34c26",
+  CSS: "#563d7c",
+  SCSS: "#c6538c",
+  Python: "#3572A5",
+  Java: "#b07219",
+  Kotlin: "#A97BFF",
+  Go: "#00ADD8",
+  Rust: "#dea584",
+  PHP: "#4F5D95",
+  Ruby: "#701516",
+  "C#": "#178600",
+  C: "#555555",
+  "C++": "#f34b7d",
+  Swift: "#F05138",
+  Dart: "#00B4AB",
+  "Shell Script": "#89e051",
+  Bash: "#89e051",
+  "Vue.js": "#41b883",
+  Svelte: "#ff3e00",
+  Markdown: "#083fa1",
+  JSON: "#292929",
+  YAML: "#cb171e",
+  [OTHER_LANGUAGE]: "#6B7280",
+};
+
+const FALLBACK_COLORS = ["#14B8A6", "#F59E0B", "#8B5CF6", "#EC4899", "#22C55E", "#0EA5E9", "#EAB308", "#F97316"];
+
+export const getLanguageColor = (language: string) => {
+  if (LANGUAGE_COLORS[language]) return LANGUAGE_COLORS[language];
+  let hash = 0;
+  for (const char of language) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return FALLBACK_COLORS[hash % FALLBACK_COLORS.length];
+};
+
+// Whether two breakdowns describe the same tree and line counts
+export const isSameLanguageStats = (a: LanguageStats, b: LanguageStats) =>
+  a.commitSha === b.commitSha &&
+  a.totalFiles === b.totalFiles &&
+  a.totalBytes === b.totalBytes &&
+  JSON.stringify(a.languages) === JSON.stringify(b.languages);
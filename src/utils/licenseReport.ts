@@ -0,0 +1,131 @@
+import { downloadFile, slugify } from './download';
+
+// License report of a saved repository as the server stores it, and its
+// export as Markdown or JSON
+
+export type LicenseCategory = 'permissive' | 'weak-copyleft' | 'strong-copyleft';
+
+export type LicenseFindingSeverity = 'high' | 'medium' | 'low';
+
+export interface LicenseFinding {
+  severity: LicenseFindingSeverity;
+  type: 'no-license' | 'unrecognized-license' | 'license-mismatch' | 'copyleft-file' | 'copyleft-dependency';
+  message: string;
+  path?: string;
+  dependency?: {
+    // "vendored" for code copied into the repository with its license file
+    ecosystem: string;
+    name: string;
+    license: string;
+    category: LicenseCategory;
+    scopes: string[];
+    manifests: string[];
+  };
+}
+
+export interface LicenseReport {
+  commitSha: string | null;
+  scannedAt: string;
+  project: {
+    // SPDX expression, null when no license was found
+    license: string | null;
+    category: LicenseCategory | null;
+    source: 'file' | 'manifest' | null;
+  };
+  licenseFiles: {
+    path: string;
+    license: string | null;
+    // How the license was recognized: an SPDX tag, the full text or its title line
+    method: 'spdx-tag' | 'text' | 'title' | null;
+    category: LicenseCategory | null;
+    vendored: string | null;
+    error: string | null;
+  }[];
+  manifests: { path: string; license: string | null; category: LicenseCategory | null; error: string | null }[];
+  headers: {
+    scannedFiles: number;
+    licenses: { license: string; category: LicenseCategory | null; files: number; example: string }[];
+  };
+  dependencies: {
+    inventoryScannedAt: string | null;
+    total: number;
+    withLicense: number;
+    byCategory: Record<LicenseCategory | 'unknown', number>;
+  };
+  findings: LicenseFinding[];
+}
+
+export type LicenseExportFormat = 'markdown' | 'json';
+
+export const CATEGORY_LABELS: Record<LicenseCategory | 'unknown', string> = {
+  permissive: 'Permissive',
+  'weak-copyleft': 'Weak copyleft',
+  'strong-copyleft': 'Strong copyleft',
+  unknown: 'Unknown',
+};
+
+const repositoryName = (repositoryUrl: string) => repositoryUrl.split('/').slice(-2).join('/');
+
+const toMarkdown = (repositoryUrl: string, report: LicenseReport) => {
+  const { project, dependencies } = report;
+  const lines = [
+    `# License report: ${repositoryName(repositoryUrl)}`,
+    '',
+    `Repository: ${repositoryUrl}  `,
+    `Scanned: ${new Date(report.scannedAt).toLocaleString()}${report.commitSha ? ` at ${report.commitSha.substring(0, 7)}` : ''}`,
+    '',
+    '## Project license',
+    '',
+    project.license
+      ? `**${project.license}** (${CATEGORY_LABELS[project.category || 'unknown'].toLowerCase()}), from the ${project.source === 'file' ? 'license file' : 'manifest'}`
+      : 'No license found.',
+  ];
+
+  lines.push('', '## Findings', '');
+  if (report.findings.length === 0) {
+    lines.push('No license conflicts found.');
+  }
+  for (const finding of report.findings) {
+    lines.push(`- **${finding.severity}**: ${finding.message}`);
+  }
+
+  lines.push('', '## Dependencies', '');
+  lines.push(`License known for ${dependencies.withLicense} of ${dependencies.total} packages.`, '');
+  lines.push('| Category | Packages |', '| --- | --- |');
+  for (const [category, count] of Object.entries(dependencies.byCategory)) {
+    lines.push(`| ${CATEGORY_LABELS[category as LicenseCategory | 'unknown']} | ${count} |`);
+  }
+
+  const sources = [
+    ...report.licenseFiles.map(file => ({ path: file.path, license: file.license, kind: file.vendored ? 'vendored license file' : 'license file' })),
+    ...report.manifests.map(manifest => ({ path: manifest.path, license: manifest.license, kind: 'manifest' })),
+  ];
+  if (sources.length > 0) {
+    lines.push('', '## Sources', '', '| File | Kind | License |', '| --- | --- | --- |');
+    for (const source of sources) {
+      lines.push(`| \`${source.path}\` | ${source.kind} | ${source.license || 'not recognized'} |`);
+    }
+  }
+
+  if (report.headers.licenses.length > 0) {
+    lines.push('', '## Source file headers', '', `${report.headers.scannedFiles} source files checked.`, '');
+    for (const header of report.headers.licenses) {
+      lines.push(`- ${header.license}: ${header.files} ${header.files === 1 ? 'file' : 'files'}, e.g. \`${header.example}\``);
+    }
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+};
+
+// Download a repository's license report
+export const exportLicenseReport = (repositoryUrl: string, report: LicenseReport, format: LicenseExportFormat) => {
+  const content =
+    format === 'markdown'
+      ? toMarkdown(repositoryUrl, report)
+      : JSON.stringify({ repository: repositoryUrl, exportedAt: new Date().toISOString(), licenseReport: report }, null, 2);
+  const name = ['licenses', slugify(repositoryName(repositoryUrl)), new Date().toISOString().split('T')[0]].join('-');
+  downloadFile(
+    `${name}.${format === 'markdown' ? 'md' : 'json'}`,
+    content,
+    format === 'markdown' ? 'text/markdown' : 'application/json'
+  );
+};
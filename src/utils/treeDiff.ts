@@ -0,0 +1,112 @@
+// Snapshot diffing for saved repository trees
+
+export type DiffStatus = "added" | "removed" | "resized" | "unchanged";
+
+export interface DiffableNode {
+  name: string;
+  type: "file" | "folder";
+  path?: string;
+  download_url?: string;
+  children?: DiffableNode[];
+  size?: number;
+  truncated?: boolean;
+  message?: string;
+}
+
+export interface DiffNode extends DiffableNode {
+  children?: DiffNode[];
+  diffStatus: DiffStatus;
+  // Size in the base snapshot, for files and folders present in both
+  previousSize?: number;
+  // True when something below this folder was added, removed or resized
+  hasChanges?: boolean;
+}
+
+export interface TreeDiffSummary {
+  filesAdded: number;
+  filesRemoved: number;
+  filesResized: number;
+  foldersAdded: number;
+  foldersRemoved: number;
+  sizeDelta: number;
+}
+
+export interface TreeDiff {
+  tree: DiffNode;
+  summary: TreeDiffSummary;
+}
+
+// Total size of a file or of everything below a folder
+const getNodeSize = (node: DiffableNode): number => {
+  if (node.type === "file") return node.size || 0;
+  return (node.children || []).reduce((total, child) => total + getNodeSize(child), 0);
+};
+
+// Children are matched by type and name, so the diff works regardless of
+// whether the snapshots stored full or relative paths
+const childKey = (node: DiffableNode) => `${node.type}:${node.name}`;
+
+const markSubtree = (node: DiffableNode, status: "added" | "removed", summary: TreeDiffSummary): DiffNode => {
+  if (node.type === "file") {
+    if (status === "added") summary.filesAdded++;
+    else summary.filesRemoved++;
+  } else if (status === "added") {
+    summary.foldersAdded++;
+  } else {
+    summary.foldersRemoved++;
+  }
+
+  return {
+    ...node,
+    diffStatus: status,
+    hasChanges: node.type === "folder" ? true : undefined,
+    children: node.children?.map((child) => markSubtree(child, status, summary)),
+  };
+};
+
+const mergeNodes = (base: DiffableNode, head: DiffableNode, summary: TreeDiffSummary): DiffNode => {
+  const baseSize = getNodeSize(base);
+  const headSize = getNodeSize(head);
+  const diffStatus: DiffStatus = baseSize === headSize ? "unchanged" : "resized";
+
+  if (head.type === "file") {
+    if (diffStatus === "resized") summary.filesResized++;
+    return { ...head, children: undefined, diffStatus, previousSize: baseSize };
+  }
+
+  const baseChildren = new Map((base.children || []).map((child) => [childKey(child), child]));
+  const children: DiffNode[] = [];
+
+  for (const child of head.children || []) {
+    const previous = baseChildren.get(childKey(child));
+    baseChildren.delete(childKey(child));
+    children.push(previous ? mergeNodes(previous, child, summary) : markSubtree(child, "added", summary));
+  }
+  // Whatever is left only exists in the base snapshot
+  for (const child of baseChildren.values()) {
+    children.push(markSubtree(child, "removed", summary));
+  }
+
+  return {
+    ...head,
+    diffStatus,
+    previousSize: baseSize,
+    hasChanges: children.some((child) => child.diffStatus !== "unchanged" || child.hasChanges),
+    children,
+  };
+};
+
+// Merge two snapshots of a repository into one tree in which every node
+// carries how it changed from base to head
+export const diffTrees = (base: DiffableNode, head: DiffableNode): TreeDiff => {
+  const summary: TreeDiffSummary = {
+    filesAdded: 0,
+    filesRemoved: 0,
+    filesResized: 0,
+    foldersAdded: 0,
+    foldersRemoved: 0,
+    sizeDelta: getNodeSize(head) - getNodeSize(base),
+  };
+
+  return { tree: mergeNodes(base, head, summary), summary };
+};
@@ -0,0 +1,123 @@
+// Fuzzy path search and filters for the file tree visualization
+
+export interface TreeSearchFile {
+  name: string;
+  path: string;
+  size?: number;
+}
+
+export interface TreeFilter {
+  // Lowercase extensions without the dot; empty allows all
+  extensions: string[];
+  // Bounds in bytes
+  minSize: number | null;
+  maxSize: number | null;
+  // Matched against the file name, or the whole path if it contains "/"
+  nameGlob: string;
+  // Hide files that do not pass instead of dimming them
+  hideFiltered: boolean;
+}
+
+export const EMPTY_TREE_FILTER: TreeFilter = {
+  extensions: [],
+  minSize: null,
+  maxSize: null,
+  nameGlob: '',
+  hideFiltered: false,
+};
+
+export const getExtension = (name: string) =>
+  name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+// Score of a path for a fuzzy query: every query character has to appear in
+// order. Runs of consecutive characters, characters starting a path segment
+// or word and matches in the file name score higher; null if it does not match
+export const fuzzyScore = (query: string, path: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = path.toLowerCase();
+  if (!needle) return null;
+
+  const nameStart = haystack.lastIndexOf('/') + 1;
+  let score = 0;
+  let matched = 0;
+  let previous = -2;
+  for (let i = 0; i < haystack.length && matched < needle.length; i++) {
+    if (haystack[i] !== needle[matched]) continue;
+    score += 1;
+    if (i === previous + 1) score += 5;
+    if (i === 0 || '/._-'.includes(haystack[i - 1])) score += 8;
+    if (i >= nameStart) score += 2;
+    previous = i;
+    matched++;
+  }
+  if (matched < needle.length) return null;
+  if (haystack.includes(needle)) score += 20;
+  // Prefer shorter paths among equal matches
+  return score - haystack.length * 0.05;
+};
+
+// Regular expression for a glob: "*" and "?" stay within a path segment,
+// "**" crosses segments and "{a,b}" matches either alternative. Null while
+// the pattern is incomplete, e.g. has an unclosed brace
+export const globToRegExp = (glob: string) => {
+  let pattern = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        pattern += '.*';
+        i++;
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      pattern += '(';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      pattern += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+  try {
+    return new RegExp(`^${pattern}$`, 'i');
+  } catch {
+    return null;
+  }
+};
+
+export const isTreeFilterActive = (filter: TreeFilter) =>
+  filter.extensions.length > 0 ||
+  filter.minSize !== null ||
+  filter.maxSize !== null ||
+  filter.nameGlob.trim() !== '';
+
+// Predicate for the files that pass a filter. Files of unknown size fail a
+// size bound
+export const createFileFilter = (filter: TreeFilter) => {
+  const glob = filter.nameGlob.trim();
+  const globPattern = glob ? globToRegExp(glob) : null;
+  const matchesPath = glob.includes('/');
+
+  return (file: TreeSearchFile) => {
+    if (filter.extensions.length > 0 && !filter.extensions.includes(getExtension(file.name))) {
+      return false;
+    }
+    if (filter.minSize !== null && (file.size === undefined || file.size < filter.minSize)) {
+      return false;
+    }
+    if (filter.maxSize !== null && (file.size === undefined || file.size > filter.maxSize)) {
+      return false;
+    }
+    if (globPattern && !globPattern.test(matchesPath ? file.path : file.name)) {
+      return false;
+    }
+    return true;
+  };
+};